@@ -1,4 +1,4 @@
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
 import { AuthProvider, useAuth } from './contexts/AuthContext'
 import { ThemeProvider } from './contexts/ThemeContext'
 import { Login } from './components/Login'
@@ -19,6 +19,11 @@ import { FetsCalendar } from './components/FetsCalendar'
 import { LogIncident } from './components/LogIncident'
 import { ChecklistManagement } from './components/ChecklistManagement'
 import { SettingsPage } from './components/SettingsPage'
+import { CandidateKiosk } from './components/CandidateKiosk'
+import { LiveStatusBoard } from './components/LiveStatusBoard'
+
+// Kiosk mode survives reloads so candidates cannot leave it by refreshing the page
+const KIOSK_STORAGE_KEY = 'fets-point-kiosk-mode'
 
 // Connection status component for debugging
 function ConnectionStatus() {
@@ -71,12 +76,21 @@ function ConnectionStatus() {
 
 function AppContent() {
   const { user, loading } = useAuth()
-  const [activeTab, setActiveTab] = useState('command-center')
+  // Shared links open on the page they were copied from, e.g. ?tab=candidate-tracker&status=no_show
+  const [activeTab, setActiveTab] = useState(() => new URLSearchParams(window.location.search).get('tab') || 'command-center')
   const [sidebarOpen, setSidebarOpen] = useState(false)
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false)
+  const [kioskMode, setKioskMode] = useState(() => localStorage.getItem(KIOSK_STORAGE_KEY) === 'true')
   const isMobile = useIsMobile()
   const screenSize = useScreenSize()
 
+  // Page-specific parameters belong to the page they were set on
+  useEffect(() => {
+    if (new URLSearchParams(window.location.search).get('tab') !== activeTab) {
+      window.history.replaceState(null, '', `?tab=${activeTab}`)
+    }
+  }, [activeTab])
+
   // Log app initialization
   console.log('🚀 FETS POINT App initialized')
   console.log('📊 App state:', { userAuthenticated: !!user, loading, isMobile, screenSize })
@@ -112,16 +126,32 @@ function AppContent() {
     )
   }
 
+  const startKiosk = () => {
+    localStorage.setItem(KIOSK_STORAGE_KEY, 'true')
+    setKioskMode(true)
+  }
+
+  const exitKiosk = () => {
+    localStorage.removeItem(KIOSK_STORAGE_KEY)
+    setKioskMode(false)
+  }
+
+  if (kioskMode) {
+    return <CandidateKiosk onExit={exitKiosk} />
+  }
+
   const renderContent = () => {
     switch (activeTab) {
       case 'command-center':
         return <Dashboard onNavigate={setActiveTab} />
       case 'candidate-tracker':
-        return <CandidateTracker />
+        return <CandidateTracker onStartKiosk={startKiosk} />
       case 'fets-roster':
         return <FetsRoster />
       case 'fets-calendar':
         return <FetsCalendar />
+      case 'live-status-board':
+        return <LiveStatusBoard />
       case 'my-desk':
         return <MyDesk />
       case 'staff-management':
@@ -0,0 +1,70 @@
+import { Repeat } from 'lucide-react'
+import type { Session } from './FetsCalendar'
+import { formatDateForDisplay, getCurrentISTDateString } from '../utils/dateUtils'
+import { formatCapacityDisplay, getCapacityStatusColor } from '../utils/sessionUtils'
+import { formatTimeRange, timeToMinutes } from '../utils/calendarLayout'
+
+interface CalendarAgendaProps {
+  dates: string[]
+  sessions: Session[]
+  // Client brand colour, #RRGGBB
+  getColor: (session: Session) => string
+  onSessionOpen: (session: Session) => void
+}
+
+export function CalendarAgenda({ dates, sessions, getColor, onSessionOpen }: CalendarAgendaProps) {
+  const today = getCurrentISTDateString()
+  const days = dates
+    .map(date => ({
+      date,
+      sessions: sessions
+        .filter(session => session.date === date)
+        .sort((a, b) => timeToMinutes(a.start_time) - timeToMinutes(b.start_time))
+    }))
+    .filter(day => day.sessions.length > 0)
+
+  if (days.length === 0) {
+    return (
+      <div className="text-center py-12 text-gray-500">
+        No sessions scheduled from {formatDateForDisplay(dates[0])} to {formatDateForDisplay(dates[dates.length - 1])}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {days.map(day => (
+        <div key={day.date}>
+          <h3 className={`text-sm font-bold uppercase tracking-wider mb-2 ${day.date === today ? 'text-orange-500' : 'text-turquoise'}`}>
+            {formatDateForDisplay(day.date)}
+            {day.date === today && <span className="ml-2 normal-case">(Today)</span>}
+          </h3>
+          <div className="space-y-2">
+            {day.sessions.map(session => (
+              <button
+                key={session.id}
+                onClick={() => onSessionOpen(session)}
+                className="w-full flex items-center gap-4 p-3 rounded-xl bg-white/60 border border-white/30 hover:bg-white/80 hover:shadow-lg transition-all text-left"
+              >
+                <div className="w-1.5 self-stretch rounded-full" style={{ backgroundColor: getColor(session) }} />
+                <div className="w-40 shrink-0 text-sm font-medium text-gray-700">
+                  {formatTimeRange(session.start_time, session.end_time)}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="font-semibold text-gray-800 truncate flex items-center">
+                    {session.series_id && <Repeat className="h-3 w-3 mr-1 text-turquoise shrink-0" />}
+                    {session.client_name}
+                  </div>
+                  <div className="text-sm text-gray-600 truncate">{session.exam_name}</div>
+                </div>
+                <div className={`px-2 py-1 rounded text-xs font-semibold ${getCapacityStatusColor(session.candidate_count, session.capacity)}`}>
+                  {formatCapacityDisplay(session.candidate_count, session.capacity)}
+                </div>
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
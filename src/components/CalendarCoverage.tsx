@@ -0,0 +1,85 @@
+import { AlertTriangle, CheckCircle } from 'lucide-react'
+import { formatDateForDisplay, getCurrentISTDateString } from '../utils/dateUtils'
+import { minutesToTime } from '../utils/calendarLayout'
+import { DayCoverage, HOUR } from '../utils/staffCoverage'
+
+interface CalendarCoverageProps {
+  // Days in the month, sessions or not
+  coverage: DayCoverage[]
+  candidatesPerInvigilator: number
+  onDateOpen: (date: string) => void
+}
+
+export function CalendarCoverage({ coverage, candidatesPerInvigilator, onDateOpen }: CalendarCoverageProps) {
+  const today = getCurrentISTDateString()
+  const days = coverage.filter(day => day.sessions > 0)
+  const shortDays = days.filter(day => day.shortfall > 0).length
+
+  if (days.length === 0) {
+    return <div className="text-center py-12 text-gray-500">No sessions scheduled this month</div>
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Staff needed at the busiest hour of each day, at one invigilator per {candidatesPerInvigilator} candidates unless set on the session,
+        against staff on D, HD and OT shifts.{' '}
+        {shortDays > 0
+          ? <span className="font-semibold text-red-600">{shortDays} {shortDays === 1 ? 'day is' : 'days are'} under-staffed.</span>
+          : <span className="font-semibold text-green-700">Every day is covered.</span>}
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600 border-b border-gray-200">
+              <th className="py-2 pr-4 font-semibold">Date</th>
+              <th className="py-2 pr-4 font-semibold">Sessions</th>
+              <th className="py-2 pr-4 font-semibold">Staff Needed</th>
+              <th className="py-2 pr-4 font-semibold">Rostered</th>
+              <th className="py-2 font-semibold">Hours</th>
+            </tr>
+          </thead>
+          <tbody>
+            {days.map(day => (
+              <tr key={day.date} className={`border-b border-gray-100 align-top ${day.shortfall > 0 ? 'bg-red-50/70' : ''}`}>
+                <td className="py-2 pr-4 whitespace-nowrap">
+                  <button
+                    onClick={() => onDateOpen(day.date)}
+                    className={`font-semibold hover:underline ${day.date === today ? 'text-orange-500' : 'text-turquoise'}`}
+                  >
+                    {formatDateForDisplay(day.date)}
+                  </button>
+                </td>
+                <td className="py-2 pr-4 text-gray-800">{day.sessions}</td>
+                <td className="py-2 pr-4 text-gray-800">{day.required}</td>
+                <td className="py-2 pr-4">
+                  <span className={`flex items-center space-x-1 font-semibold ${day.shortfall > 0 ? 'text-red-600' : 'text-green-700'}`}>
+                    {day.shortfall > 0 ? <AlertTriangle className="h-4 w-4" /> : <CheckCircle className="h-4 w-4" />}
+                    <span>{day.rostered}</span>
+                    {day.shortfall > 0 && <span className="font-normal">(short {day.shortfall})</span>}
+                  </span>
+                </td>
+                <td className="py-2">
+                  <div className="flex flex-wrap gap-1">
+                    {day.hours.map(hour => (
+                      <span
+                        key={hour.hour}
+                        title={`${hour.required} needed, ${hour.onDuty} on duty`}
+                        className={`px-1.5 py-0.5 rounded text-xs font-medium ${
+                          hour.required > hour.onDuty ? 'bg-red-100 text-red-700' : 'bg-green-100 text-green-700'
+                        }`}
+                      >
+                        {minutesToTime(hour.hour * HOUR)} {hour.onDuty}/{hour.required}
+                      </span>
+                    ))}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
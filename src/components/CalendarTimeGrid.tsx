@@ -0,0 +1,219 @@
+import React, { useState } from 'react'
+import { Repeat } from 'lucide-react'
+import type { Session } from './FetsCalendar'
+import { getCurrentISTDateString } from '../utils/dateUtils'
+import { formatCapacityDisplay } from '../utils/sessionUtils'
+import { getClientStyle } from '../utils/clients'
+import {
+  SNAP_MINUTES,
+  formatTimeRange,
+  getDraggedTimes,
+  getVisibleHours,
+  layoutDaySessions,
+  minutesToTime,
+  snapMinutes,
+  timeToMinutes
+} from '../utils/calendarLayout'
+
+const HOUR_HEIGHT = 56
+const MINUTE_HEIGHT = HOUR_HEIGHT / 60
+// Pointer movement below this is a click rather than a drag
+const DRAG_THRESHOLD_PX = 4
+
+export type SessionTimeChange = Pick<Session, 'date' | 'start_time' | 'end_time'>
+
+interface CalendarTimeGridProps {
+  dates: string[]
+  sessions: Session[]
+  // Client brand colour, #RRGGBB
+  getColor: (session: Session) => string
+  onSessionOpen: (session: Session) => void
+  onSlotClick: (date: string, startTime: string) => void
+  onSessionChange: (session: Session, changes: SessionTimeChange) => void
+}
+
+interface DragState {
+  sessionId: number
+  mode: 'move' | 'resize'
+  originX: number
+  originY: number
+  dayWidth: number
+  deltaX: number
+  deltaY: number
+}
+
+export function CalendarTimeGrid({ dates, sessions, getColor, onSessionOpen, onSlotClick, onSessionChange }: CalendarTimeGridProps) {
+  const [drag, setDrag] = useState<DragState | null>(null)
+  const { firstHour, lastHour } = getVisibleHours(sessions)
+  const hours = Array.from({ length: lastHour - firstHour }, (_, index) => firstHour + index)
+  const today = getCurrentISTDateString()
+  const nowMinutes = timeToMinutes(new Date().toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit', timeZone: 'Asia/Kolkata' }))
+  const showNowLine = nowMinutes >= firstHour * 60 && nowMinutes <= lastHour * 60
+
+  const formatHour = (hour: number) => {
+    const displayHour = hour % 12 === 0 ? 12 : hour % 12
+    return `${displayHour}${hour < 12 || hour === 24 ? 'am' : 'pm'}`
+  }
+
+  const getDayDelta = (state: DragState) =>
+    state.mode === 'move' && dates.length > 1 ? Math.round(state.deltaX / state.dayWidth) : 0
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>, session: Session) => {
+    if (e.button !== 0) return
+    e.stopPropagation()
+    e.currentTarget.setPointerCapture(e.pointerId)
+    setDrag({
+      sessionId: session.id!,
+      mode: (e.target as HTMLElement).dataset.resize ? 'resize' : 'move',
+      originX: e.clientX,
+      originY: e.clientY,
+      dayWidth: e.currentTarget.parentElement?.offsetWidth || 1,
+      deltaX: 0,
+      deltaY: 0
+    })
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag) return
+    setDrag({ ...drag, deltaX: e.clientX - drag.originX, deltaY: e.clientY - drag.originY })
+  }
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>, session: Session) => {
+    if (!drag) return
+    e.stopPropagation()
+    const state = { ...drag, deltaX: e.clientX - drag.originX, deltaY: e.clientY - drag.originY }
+    setDrag(null)
+
+    if (Math.abs(state.deltaX) < DRAG_THRESHOLD_PX && Math.abs(state.deltaY) < DRAG_THRESHOLD_PX) {
+      onSessionOpen(session)
+      return
+    }
+
+    const times = getDraggedTimes(session, state.mode, state.deltaY / MINUTE_HEIGHT)
+    const dayIndex = Math.min(Math.max(dates.indexOf(session.date) + getDayDelta(state), 0), dates.length - 1)
+    const date = dates.includes(session.date) ? dates[dayIndex] : session.date
+    if (date === session.date && times.start_time === session.start_time.slice(0, 5) && times.end_time === session.end_time.slice(0, 5)) {
+      return
+    }
+    onSessionChange(session, { date, ...times })
+  }
+
+  const handleSlotClick = (e: React.MouseEvent<HTMLDivElement>, date: string) => {
+    const offset = e.clientY - e.currentTarget.getBoundingClientRect().top
+    const minutes = Math.floor(snapMinutes(firstHour * 60 + offset / MINUTE_HEIGHT) / 60) * 60
+    onSlotClick(date, minutesToTime(minutes))
+  }
+
+  const getDisplayTimes = (session: Session) =>
+    drag && drag.sessionId === session.id
+      ? getDraggedTimes(session, drag.mode, drag.deltaY / MINUTE_HEIGHT)
+      : { start_time: session.start_time, end_time: session.end_time }
+
+  // Where a session is drawn, following the pointer while it is dragged
+  const getBlockStyle = (session: Session, column: number, columns: number): React.CSSProperties => {
+    const start = timeToMinutes(session.start_time)
+    const end = Math.max(timeToMinutes(session.end_time), start + SNAP_MINUTES)
+    const style: React.CSSProperties = {
+      top: (start - firstHour * 60) * MINUTE_HEIGHT,
+      height: (end - start) * MINUTE_HEIGHT,
+      left: `calc(${(column / columns) * 100}% + 2px)`,
+      width: `calc(${100 / columns}% - 4px)`
+    }
+    if (!drag || drag.sessionId !== session.id) return style
+
+    const times = getDisplayTimes(session)
+    const newStart = timeToMinutes(times.start_time)
+    return {
+      ...style,
+      top: (newStart - firstHour * 60) * MINUTE_HEIGHT,
+      height: (timeToMinutes(times.end_time) - newStart) * MINUTE_HEIGHT,
+      transform: `translateX(${getDayDelta(drag) * drag.dayWidth}px)`,
+      zIndex: 20
+    }
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <div className={dates.length > 1 ? 'min-w-[840px]' : ''}>
+        {/* Day headers */}
+        <div className="flex border-b border-turquoise/20">
+          <div className="w-16 shrink-0" />
+          {dates.map(date => (
+            <div
+              key={date}
+              className={`flex-1 text-center py-3 text-sm font-bold rounded-t-xl ${
+                date === today ? 'bg-gradient-to-br from-yellow-400/80 to-orange-400/80 text-white' : 'text-turquoise'
+              }`}
+            >
+              {new Date(`${date}T12:00:00+05:30`).toLocaleDateString('en-IN', {
+                weekday: 'short',
+                day: 'numeric',
+                month: 'short',
+                timeZone: 'Asia/Kolkata'
+              })}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex select-none">
+          {/* Time axis */}
+          <div className="w-16 shrink-0">
+            {hours.map(hour => (
+              <div key={hour} className="text-xs text-gray-500 text-right pr-2 -mt-2" style={{ height: HOUR_HEIGHT }}>
+                {formatHour(hour)}
+              </div>
+            ))}
+          </div>
+
+          {dates.map(date => (
+            <div
+              key={date}
+              className="flex-1 relative border-l border-turquoise/10 cursor-pointer"
+              style={{ height: hours.length * HOUR_HEIGHT }}
+              onClick={(e) => handleSlotClick(e, date)}
+            >
+              {hours.map(hour => (
+                <div key={hour} className="border-t border-turquoise/10" style={{ height: HOUR_HEIGHT }} />
+              ))}
+
+              {layoutDaySessions(sessions.filter(session => session.date === date)).map(({ session, column, columns }) => (
+                <div
+                  key={session.id}
+                  className={`absolute rounded-lg px-2 py-1 text-xs shadow-md overflow-hidden ${
+                    drag && drag.sessionId === session.id ? 'opacity-80 cursor-grabbing' : 'cursor-grab'
+                  }`}
+                  style={{ ...getClientStyle(getColor(session)), ...getBlockStyle(session, column, columns) }}
+                  onPointerDown={(e) => handlePointerDown(e, session)}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={(e) => handlePointerUp(e, session)}
+                  onPointerCancel={() => setDrag(null)}
+                  onClick={(e) => e.stopPropagation()}
+                  title={`${session.client_name} – ${session.exam_name}`}
+                >
+                  <div className="font-semibold truncate flex items-center">
+                    {session.series_id && <Repeat className="h-3 w-3 mr-1 shrink-0" />}
+                    {session.client_name}
+                  </div>
+                  <div className="truncate">{session.exam_name}</div>
+                  <div className="truncate opacity-90">
+                    {formatTimeRange(getDisplayTimes(session).start_time, getDisplayTimes(session).end_time)}
+                  </div>
+                  <div className="truncate opacity-90">{formatCapacityDisplay(session.candidate_count, session.capacity)}</div>
+                  <div data-resize="true" className="absolute bottom-0 left-0 right-0 h-2 cursor-ns-resize" />
+                </div>
+              ))}
+
+              {date === today && showNowLine && (
+                <div
+                  className="absolute left-0 right-0 border-t-2 border-red-400 pointer-events-none"
+                  style={{ top: (nowMinutes - firstHour * 60) * MINUTE_HEIGHT }}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
+
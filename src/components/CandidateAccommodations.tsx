@@ -0,0 +1,291 @@
+import { useState, useEffect } from 'react'
+import { Accessibility, Check, FileText, Plus, X } from 'lucide-react'
+import { supabase } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
+import {
+  ACCOMMODATION_DOCUMENTS_BUCKET,
+  ACCOMMODATION_TYPES,
+  Accommodation,
+  AccommodationType,
+  formatAccommodation,
+  validateAccommodationRequest
+} from '../utils/accommodations'
+
+interface CandidateAccommodationsProps {
+  candidateId: string
+  onChanged?: () => void
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  pending: 'text-blue-600 bg-blue-50 border border-blue-200',
+  approved: 'text-green-600 bg-green-50 border border-green-200',
+  rejected: 'text-gray-600 bg-gray-50 border border-gray-200'
+}
+
+export function CandidateAccommodations({ candidateId, onChanged }: CandidateAccommodationsProps) {
+  const { user, profile } = useAuth()
+  const [accommodations, setAccommodations] = useState<Accommodation[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showForm, setShowForm] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [type, setType] = useState<AccommodationType>('extra_time')
+  const [extraTimeMinutes, setExtraTimeMinutes] = useState('30')
+  const [details, setDetails] = useState('')
+  const [documentFile, setDocumentFile] = useState<File | null>(null)
+
+  const isSupervisor = profile?.role === 'admin' || profile?.role === 'super_admin'
+
+  useEffect(() => {
+    loadAccommodations()
+  }, [candidateId])
+
+  const loadAccommodations = async () => {
+    try {
+      setLoading(true)
+      const { data, error } = await supabase
+        .from('candidate_accommodations')
+        .select('*')
+        .eq('candidate_id', candidateId)
+        .order('requested_at', { ascending: false })
+
+      if (error) throw error
+      setAccommodations(data || [])
+    } catch (error) {
+      console.error('Error loading accommodations:', error)
+      setAccommodations([])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const resetForm = () => {
+    setShowForm(false)
+    setType('extra_time')
+    setExtraTimeMinutes('30')
+    setDetails('')
+    setDocumentFile(null)
+  }
+
+  const handleRequest = async () => {
+    const minutes = type === 'extra_time' ? Number(extraTimeMinutes) : undefined
+    const validationError = validateAccommodationRequest(type, minutes, details, documentFile)
+    if (validationError) {
+      alert(validationError)
+      return
+    }
+
+    setSaving(true)
+    try {
+      let documentationPath: string | null = null
+      if (documentFile) {
+        documentationPath = `${candidateId}/${Date.now()}-${documentFile.name.replace(/[^\w.-]/g, '_')}`
+        const { error: uploadError } = await supabase.storage
+          .from(ACCOMMODATION_DOCUMENTS_BUCKET)
+          .upload(documentationPath, documentFile)
+
+        if (uploadError) throw uploadError
+      }
+
+      const { error } = await supabase
+        .from('candidate_accommodations')
+        .insert({
+          candidate_id: candidateId,
+          type,
+          details: details.trim() || null,
+          extra_time_minutes: minutes || null,
+          documentation_path: documentationPath,
+          documentation_name: documentFile?.name || null,
+          status: 'pending',
+          requested_by: user?.id
+        })
+
+      if (error) throw error
+      resetForm()
+      await loadAccommodations()
+      onChanged?.()
+    } catch (error: any) {
+      console.error('Error requesting accommodation:', error)
+      alert('Failed to save accommodation request: ' + error.message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleReview = async (accommodation: Accommodation, status: 'approved' | 'rejected') => {
+    const notes = window.prompt(
+      status === 'approved' ? 'Approval notes (optional):' : 'Reason for rejecting this request:'
+    )
+    if (notes === null) return
+    if (status === 'rejected' && !notes.trim()) {
+      alert('Please give a reason for rejecting the request')
+      return
+    }
+
+    try {
+      const { error } = await supabase
+        .from('candidate_accommodations')
+        .update({
+          status,
+          review_notes: notes.trim() || null,
+          reviewed_by: user?.id,
+          reviewed_at: new Date().toISOString()
+        })
+        .eq('id', accommodation.id)
+
+      if (error) throw error
+      await loadAccommodations()
+      onChanged?.()
+    } catch (error: any) {
+      console.error('Error reviewing accommodation:', error)
+      alert('Failed to update accommodation: ' + error.message)
+    }
+  }
+
+  const openDocument = async (accommodation: Accommodation) => {
+    // Documents are private; the link expires after five minutes
+    const { data, error } = await supabase.storage
+      .from(ACCOMMODATION_DOCUMENTS_BUCKET)
+      .createSignedUrl(accommodation.documentation_path!, 300)
+
+    if (error) {
+      console.error('Error opening accommodation document:', error)
+      alert('Failed to open document: ' + error.message)
+      return
+    }
+    window.open(data.signedUrl, '_blank', 'noopener')
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-lg font-semibold text-gray-900 flex items-center">
+          <Accessibility className="h-5 w-5 mr-2 text-gray-400" />
+          Accommodations
+        </h4>
+        {!showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="btn-secondary-modern flex items-center text-sm"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Request
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <div className="p-4 mb-4 bg-gray-50 rounded-lg space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <select
+              className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent bg-white text-gray-900"
+              value={type}
+              onChange={(e) => setType(e.target.value as AccommodationType)}
+            >
+              {ACCOMMODATION_TYPES.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            {type === 'extra_time' && (
+              <input
+                type="number"
+                min={1}
+                placeholder="Extra minutes"
+                className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent bg-white text-gray-900"
+                value={extraTimeMinutes}
+                onChange={(e) => setExtraTimeMinutes(e.target.value)}
+              />
+            )}
+          </div>
+          <textarea
+            rows={2}
+            placeholder="Details, e.g. screen magnifier, ground floor room"
+            className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent bg-white text-gray-900 placeholder-gray-500"
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+          />
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Supporting document (PDF, JPG or PNG)</label>
+            <input
+              type="file"
+              accept=".pdf,.jpg,.jpeg,.png"
+              className="text-sm text-gray-700"
+              onChange={(e) => setDocumentFile(e.target.files?.[0] || null)}
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <button onClick={resetForm} className="btn-tertiary-modern text-sm">
+              Cancel
+            </button>
+            <button onClick={handleRequest} disabled={saving} className="btn-primary-modern text-sm">
+              {saving ? 'Saving...' : 'Submit for Approval'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading accommodations...</p>
+      ) : accommodations.length === 0 ? (
+        <p className="text-sm text-gray-500">No accommodations requested.</p>
+      ) : (
+        <div className="space-y-2">
+          {accommodations.map(accommodation => (
+            <div key={accommodation.id} className="p-3 border border-gray-200 rounded-lg">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-gray-900">{formatAccommodation(accommodation)}</span>
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[accommodation.status]}`}>
+                    {accommodation.status.charAt(0).toUpperCase() + accommodation.status.slice(1)}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2">
+                  {accommodation.documentation_path && (
+                    <button
+                      onClick={() => openDocument(accommodation)}
+                      className="flex items-center text-sm text-blue-600 hover:text-blue-800"
+                      title={accommodation.documentation_name || 'Supporting document'}
+                    >
+                      <FileText className="h-4 w-4 mr-1" />
+                      Document
+                    </button>
+                  )}
+                  {isSupervisor && accommodation.status === 'pending' && (
+                    <>
+                      <button
+                        onClick={() => handleReview(accommodation, 'approved')}
+                        className="flex items-center px-2 py-1 text-sm text-green-700 bg-green-50 hover:bg-green-100 rounded-lg"
+                      >
+                        <Check className="h-4 w-4 mr-1" />
+                        Approve
+                      </button>
+                      <button
+                        onClick={() => handleReview(accommodation, 'rejected')}
+                        className="flex items-center px-2 py-1 text-sm text-red-700 bg-red-50 hover:bg-red-100 rounded-lg"
+                      >
+                        <X className="h-4 w-4 mr-1" />
+                        Reject
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+              {accommodation.details && accommodation.type !== 'assistive_equipment' && accommodation.type !== 'other' && (
+                <p className="text-sm text-gray-700 mt-1">{accommodation.details}</p>
+              )}
+              <p className="text-xs text-gray-500 mt-1">
+                Requested {new Date(accommodation.requested_at).toLocaleString()}
+                {accommodation.reviewed_at && ` · Reviewed ${new Date(accommodation.reviewed_at).toLocaleString()}`}
+              </p>
+              {accommodation.review_notes && (
+                <p className="text-sm text-gray-600 mt-1">{accommodation.review_notes}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+      {!isSupervisor && accommodations.some(a => a.status === 'pending') && (
+        <p className="text-xs text-gray-500 mt-2">Pending requests need supervisor approval.</p>
+      )}
+    </div>
+  )
+}
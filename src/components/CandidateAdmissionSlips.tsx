@@ -0,0 +1,130 @@
+import { useState, useEffect } from 'react'
+import { X, Printer, Download } from 'lucide-react'
+import type { Candidate } from './CandidateTracker'
+import { AdmissionSlip, downloadAdmissionSlipsPdf, printAdmissionSlips } from '../utils/admissionSlips'
+import { getCurrentISTDateString } from '../utils/dateUtils'
+import { fetchCandidatesByExamDate } from '../lib/candidateList'
+
+interface CandidateAdmissionSlipsProps {
+  onClose: () => void
+}
+
+export function CandidateAdmissionSlips({ onClose }: CandidateAdmissionSlipsProps) {
+  const [examDate, setExamDate] = useState(getCurrentISTDateString())
+  const [generating, setGenerating] = useState(false)
+  const [slipCandidates, setSlipCandidates] = useState<Candidate[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    loadSlipCandidates()
+  }, [examDate])
+
+  // Cancelled candidates do not get a slip
+  const loadSlipCandidates = async () => {
+    if (!examDate) {
+      setSlipCandidates([])
+      setLoading(false)
+      return
+    }
+    try {
+      setLoading(true)
+      setSlipCandidates(await fetchCandidatesByExamDate(examDate, examDate))
+    } catch (error) {
+      console.error('Error loading candidates for admission slips:', error)
+      setSlipCandidates([])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleGenerate = async (mode: 'print' | 'pdf') => {
+    // Candidate records carry every field the slip needs
+    const slips: AdmissionSlip[] = slipCandidates
+    setGenerating(true)
+    try {
+      if (mode === 'print') {
+        await printAdmissionSlips(slips)
+      } else {
+        await downloadAdmissionSlipsPdf(slips, `admission-slips-${examDate}.pdf`)
+      }
+    } catch (error: any) {
+      console.error('Error generating admission slips:', error)
+      alert('Failed to generate admission slips: ' + error.message)
+    } finally {
+      setGenerating(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <div className="modern-card p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">Admission Slips</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="space-y-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Exam Date</label>
+            <input
+              type="date"
+              className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent bg-white text-gray-900"
+              value={examDate}
+              onChange={(e) => setExamDate(e.target.value)}
+            />
+          </div>
+
+          {loading ? (
+            <p className="text-gray-500 text-sm">Loading candidates...</p>
+          ) : slipCandidates.length === 0 ? (
+            <p className="text-gray-500 text-sm">No candidates are scheduled on this date.</p>
+          ) : (
+            <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-72 overflow-y-auto">
+              {slipCandidates.map(candidate => (
+                <div key={candidate.id} className="flex items-center justify-between px-4 py-2 text-sm">
+                  <div>
+                    <p className="font-medium text-gray-900">{candidate.fullName}</p>
+                    <p className="text-gray-500">{candidate.examName || 'Exam Session'}</p>
+                  </div>
+                  <div className="text-right">
+                    <p className="font-mono text-gray-700">{candidate.confirmationNumber}</p>
+                    <p className="text-gray-500">
+                      {candidate.examDate!.toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit', timeZone: 'Asia/Kolkata' })}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end space-x-4 mt-6">
+          <button onClick={onClose} className="btn-tertiary-modern">
+            Close
+          </button>
+          <button
+            onClick={() => handleGenerate('pdf')}
+            disabled={generating || slipCandidates.length === 0}
+            className="btn-secondary-modern flex items-center"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Download PDF
+          </button>
+          <button
+            onClick={() => handleGenerate('print')}
+            disabled={generating || slipCandidates.length === 0}
+            className="btn-primary-modern flex items-center"
+          >
+            <Printer className="h-4 w-4 mr-2" />
+            Print {slipCandidates.length} Slip{slipCandidates.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
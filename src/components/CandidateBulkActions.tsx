@@ -0,0 +1,328 @@
+import { useState, useEffect } from 'react'
+import { Ban, CalendarClock, Download, Undo2, UserCheck, UserX, X } from 'lucide-react'
+import { useAuth } from '../contexts/AuthContext'
+import type { Candidate } from './CandidateTracker'
+import { downloadCSV } from '../utils/fileUtils'
+import { formatDateForIST } from '../utils/dateUtils'
+import { formatCandidateStatus, CandidateStatus } from '../utils/candidateStatus'
+import { AttendancePolicy } from '../utils/attendancePolicy'
+import { SessionOption, formatSessionOption, validateSessionCapacity } from '../utils/sessionUtils'
+import {
+  BULK_UNDO_WINDOW_MS,
+  BulkActionResult,
+  bulkChangeNeedsReason,
+  findClosedCheckIns,
+  runBulkReschedule,
+  runBulkStatusChange,
+  undoBulkAction
+} from '../lib/candidateBulkActions'
+
+interface CandidateBulkActionsProps {
+  selected: Candidate[]
+  sessions: SessionOption[]
+  attendancePolicies: AttendancePolicy[]
+  onClearSelection: () => void
+  onChanged: () => Promise<void> | void
+}
+
+export function CandidateBulkActions({ selected, sessions, attendancePolicies, onClearSelection, onChanged }: CandidateBulkActionsProps) {
+  const { profile } = useAuth()
+  const [running, setRunning] = useState(false)
+  const [lastResult, setLastResult] = useState<BulkActionResult | null>(null)
+  // Only the most recent bulk action can be undone, and only for a short time
+  const [undoAvailable, setUndoAvailable] = useState(false)
+  const [showReschedule, setShowReschedule] = useState(false)
+  const [rescheduleSessionId, setRescheduleSessionId] = useState('')
+  const [rescheduleReason, setRescheduleReason] = useState('')
+
+  const isSupervisor = profile?.role === 'admin' || profile?.role === 'super_admin'
+
+  useEffect(() => {
+    if (!undoAvailable || !lastResult) return
+    const remaining = lastResult.completedAt.getTime() + BULK_UNDO_WINDOW_MS - Date.now()
+    const timer = setTimeout(() => setUndoAvailable(false), Math.max(0, remaining))
+    return () => clearTimeout(timer)
+  }, [undoAvailable, lastResult])
+
+  const finish = async (result: BulkActionResult, undoable: boolean) => {
+    setLastResult(result)
+    setUndoAvailable(undoable && result.succeeded.length > 0)
+    onClearSelection()
+    await onChanged()
+  }
+
+  const handleStatusChange = async (newStatus: CandidateStatus) => {
+    let reason: string | undefined
+    if (newStatus === 'cancelled') {
+      const entered = window.prompt(`Cancel ${selected.length} bookings? Please enter a reason:`)
+      if (entered === null) return
+      if (!entered.trim()) {
+        alert('A reason is required to cancel bookings')
+        return
+      }
+      reason = entered.trim()
+    } else if (bulkChangeNeedsReason(selected, newStatus)) {
+      const entered = window.prompt(`Some of these changes correct an earlier status. Please enter a reason for the audit log:`)
+      if (entered === null) return
+      reason = entered.trim() || undefined
+    }
+
+    let lateOverrideReason: string | undefined
+    if (newStatus === 'checked_in') {
+      const closed = findClosedCheckIns(selected, attendancePolicies)
+      if (closed.length > 0 && isSupervisor) {
+        const entered = window.prompt(
+          `${closed.length} of the selected candidates are past the check-in cut-off. Supervisor override reason (leave empty to skip them):`
+        )
+        if (entered === null) return
+        lateOverrideReason = entered.trim() || undefined
+      }
+    }
+
+    setRunning(true)
+    try {
+      const result = await runBulkStatusChange(selected, newStatus, {
+        reason,
+        policies: attendancePolicies,
+        lateOverrideReason
+      })
+      await finish(result, true)
+    } catch (error: any) {
+      console.error('Error running bulk status change:', error)
+      alert('Bulk update failed: ' + error.message)
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const handleReschedule = async () => {
+    const targetId = Number(rescheduleSessionId)
+    if (!targetId || !rescheduleReason.trim()) return
+
+    setRunning(true)
+    try {
+      const result = await runBulkReschedule(selected, targetId, rescheduleReason.trim())
+      setShowReschedule(false)
+      setRescheduleSessionId('')
+      setRescheduleReason('')
+      await finish(result, true)
+    } catch (error: any) {
+      console.error('Error running bulk reschedule:', error)
+      alert('Bulk reschedule failed: ' + error.message)
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const handleExport = () => {
+    downloadCSV(
+      `candidates-${formatDateForIST(new Date())}.csv`,
+      ['Confirmation Number', 'Candidate', 'Email', 'Phone', 'Client', 'Exam', 'Exam Date', 'Status'],
+      selected.map(c => [
+        c.confirmationNumber,
+        c.fullName,
+        c.email,
+        c.phone || '',
+        c.clientName || '',
+        c.examName || '',
+        c.examDate ? c.examDate.toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' }) : '',
+        formatCandidateStatus(c.status)
+      ])
+    )
+  }
+
+  const handleUndo = async () => {
+    if (!lastResult) return
+    setRunning(true)
+    try {
+      const result = await undoBulkAction(lastResult)
+      setLastResult(result)
+      setUndoAvailable(false)
+      await onChanged()
+    } catch (error: any) {
+      console.error('Error undoing bulk action:', error)
+      alert('Undo failed: ' + error.message)
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const targetSession = sessions.find(s => s.id === Number(rescheduleSessionId))
+  const rescheduleCapacity = targetSession ? validateSessionCapacity(targetSession.candidate_count + selected.length, targetSession.capacity) : null
+
+  return (
+    <>
+      {selected.length > 0 && (
+        <div className="modern-card p-4 mb-4 flex flex-col lg:flex-row lg:items-center justify-between gap-3 border-2 border-yellow-400">
+          <div className="flex items-center gap-3">
+            <span className="font-semibold text-gray-900">{selected.length} selected</span>
+            <button onClick={onClearSelection} className="text-sm text-gray-500 hover:text-gray-700">
+              Clear selection
+            </button>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={() => handleStatusChange('checked_in')}
+              disabled={running}
+              className="btn-secondary-modern flex items-center text-sm"
+            >
+              <UserCheck className="h-4 w-4 mr-1" />
+              Check In
+            </button>
+            <button
+              onClick={() => handleStatusChange('no_show')}
+              disabled={running}
+              className="flex items-center space-x-1 px-3 py-2 text-orange-600 bg-orange-50 hover:bg-orange-100 rounded-lg text-sm font-medium transition-colors"
+            >
+              <UserX className="h-4 w-4" />
+              <span>Mark No Show</span>
+            </button>
+            <button
+              onClick={() => setShowReschedule(true)}
+              disabled={running}
+              className="flex items-center space-x-1 px-3 py-2 text-purple-600 bg-purple-50 hover:bg-purple-100 rounded-lg text-sm font-medium transition-colors"
+            >
+              <CalendarClock className="h-4 w-4" />
+              <span>Reschedule</span>
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={running}
+              className="btn-tertiary-modern flex items-center text-sm"
+            >
+              <Download className="h-4 w-4 mr-1" />
+              Export CSV
+            </button>
+            <button
+              onClick={() => handleStatusChange('cancelled')}
+              disabled={running}
+              className="flex items-center space-x-1 px-3 py-2 text-red-600 bg-red-50 hover:bg-red-100 rounded-lg text-sm font-medium transition-colors"
+            >
+              <Ban className="h-4 w-4" />
+              <span>Cancel Bookings</span>
+            </button>
+          </div>
+        </div>
+      )}
+
+      {running && (
+        <p className="text-sm text-gray-600 mb-4">Working through the selected candidates...</p>
+      )}
+
+      {lastResult && !running && (
+        <div className={`modern-card p-4 mb-4 ${lastResult.failed.length > 0 ? 'border border-orange-300' : 'border border-green-300'}`}>
+          <div className="flex items-start justify-between gap-3">
+            <div>
+              <p className="font-semibold text-gray-900">
+                {lastResult.label}: {lastResult.succeeded.length} of {lastResult.total} candidates updated
+              </p>
+              {lastResult.failed.length > 0 && (
+                <p className="text-sm text-orange-700">{lastResult.failed.length} could not be updated</p>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              {undoAvailable && (
+                <button
+                  onClick={handleUndo}
+                  className="btn-secondary-modern flex items-center text-sm"
+                  title="Available for one minute after the action"
+                >
+                  <Undo2 className="h-4 w-4 mr-1" />
+                  Undo
+                </button>
+              )}
+              <button
+                onClick={() => {
+                  setLastResult(null)
+                  setUndoAvailable(false)
+                }}
+                className="text-gray-400 hover:text-gray-600 transition-colors"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+          </div>
+          {lastResult.failed.length > 0 && (
+            <ul className="mt-3 text-sm divide-y divide-gray-100 border border-gray-200 rounded-lg max-h-48 overflow-y-auto">
+              {lastResult.failed.map(failure => (
+                <li key={failure.candidate.id} className="px-3 py-2 flex justify-between gap-3">
+                  <span className="text-gray-900">
+                    {failure.candidate.fullName}
+                    <span className="text-gray-500 ml-2">{failure.candidate.confirmationNumber}</span>
+                  </span>
+                  <span className="text-red-600 text-right">{failure.error}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {showReschedule && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+          <div className="modern-card p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-2xl font-bold text-gray-900">Reschedule {selected.length} Candidates</h2>
+              <button
+                onClick={() => setShowReschedule(false)}
+                className="text-gray-400 hover:text-gray-600 transition-colors"
+              >
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Only registered and no-show candidates are moved. Everyone else is listed as not updated.
+              </p>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">New Session *</label>
+                <select
+                  className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent bg-white text-gray-900"
+                  value={rescheduleSessionId}
+                  onChange={(e) => setRescheduleSessionId(e.target.value)}
+                >
+                  <option value="">Select a session</option>
+                  {sessions.map(session => (
+                    <option key={session.id} value={session.id}>
+                      {formatSessionOption(session)}
+                    </option>
+                  ))}
+                </select>
+                {rescheduleCapacity && !rescheduleCapacity.isValid && (
+                  <p className="text-sm text-orange-600 mt-1">
+                    Not every selected candidate will fit; the rest will be reported as not updated.
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Reason *</label>
+                <textarea
+                  className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent bg-white text-gray-900 placeholder-gray-500 h-24 resize-none"
+                  placeholder="e.g. Session cancelled by the client"
+                  value={rescheduleReason}
+                  onChange={(e) => setRescheduleReason(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-end space-x-4 mt-6">
+              <button onClick={() => setShowReschedule(false)} className="btn-tertiary-modern">
+                Cancel
+              </button>
+              <button
+                onClick={handleReschedule}
+                disabled={running || !rescheduleSessionId || !rescheduleReason.trim()}
+                className="btn-primary-modern flex items-center"
+              >
+                <CalendarClock className="h-4 w-4 mr-2" />
+                {running ? 'Rescheduling...' : 'Reschedule'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
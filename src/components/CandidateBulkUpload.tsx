@@ -0,0 +1,679 @@
+import { useState } from 'react'
+import { Upload, X, ArrowRight, ArrowLeft, Download, AlertTriangle, CheckCircle } from 'lucide-react'
+import { supabase } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
+import {
+  CANDIDATE_IMPORT_FIELDS,
+  ColumnMapping,
+  DEFAULT_IMPORT_DATE_ORDER,
+  ImportDateOrder,
+  ParsedSheet,
+  getMissingRequiredFields,
+  mapRowToCandidate,
+  parseImportDate,
+  readRosterFile,
+  suggestColumnMapping,
+  suggestDateOrder
+} from '../utils/candidateImport'
+import { StagedCandidateRow, StagedRowWarningCheck, normalizePhone, stageCandidateRows, validateStagedRows } from '../utils/candidateValidation'
+import { describeDuplicateMatches, findDuplicateMatches } from '../utils/candidateDuplicates'
+import { downloadCSV } from '../utils/fileUtils'
+import { CENTRE_CODE } from '../utils/confirmationNumbers'
+import { SessionOption } from '../utils/sessionUtils'
+import { formatDateForIST } from '../utils/dateUtils'
+
+interface CandidateBulkUploadProps {
+  onClose: () => void
+  onImported: () => Promise<void> | void
+}
+
+type UploadStep = 'select' | 'mapping' | 'validating' | 'review' | 'uploading' | 'success' | 'error'
+
+const PREVIEW_ROWS = 5
+const LOOKUP_CHUNK = 100
+
+interface ExistingCandidate {
+  id: string
+  fullName: string
+  email: string
+  phone?: string
+  examDate?: Date
+}
+
+export function CandidateBulkUpload({ onClose, onImported }: CandidateBulkUploadProps) {
+  const { user } = useAuth()
+  const [uploadFile, setUploadFile] = useState<File | null>(null)
+  const [sheet, setSheet] = useState<ParsedSheet | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null)
+  const [dateOrder, setDateOrder] = useState<ImportDateOrder>(DEFAULT_IMPORT_DATE_ORDER)
+  const [step, setStep] = useState<UploadStep>('select')
+  const [stagedRows, setStagedRows] = useState<StagedCandidateRow[]>([])
+  const [existingCandidates, setExistingCandidates] = useState<ExistingCandidate[]>([])
+  const [sessions, setSessions] = useState<SessionOption[]>([])
+  const [showIssuesOnly, setShowIssuesOnly] = useState(false)
+  const [uploadResults, setUploadResults] = useState<{ success: number; errors: string[] }>({ success: 0, errors: [] })
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+
+    const name = file.name.toLowerCase()
+    if (!['.csv', '.tsv', '.txt', '.xlsx', '.xls'].some(ext => name.endsWith(ext))) {
+      alert('Please select a valid CSV or Excel file')
+      return
+    }
+
+    setUploadFile(file)
+    setUploadResults({ success: 0, errors: [] })
+
+    try {
+      const parsed = await readRosterFile(file)
+      const suggested = suggestColumnMapping(parsed.headers)
+      setSheet(parsed)
+      setMapping(suggested)
+      setDateOrder(suggestFileDateOrder(parsed, suggested.exam_date))
+      setStep('mapping')
+    } catch (error: any) {
+      console.error('Error reading roster file:', error)
+      setSheet(null)
+      setMapping(null)
+      setStep('error')
+      setUploadResults({ success: 0, errors: [error.message] })
+    }
+  }
+
+  const suggestFileDateOrder = (fileSheet: ParsedSheet, dateColumn: number | null): ImportDateOrder =>
+    dateColumn === null ? DEFAULT_IMPORT_DATE_ORDER : suggestDateOrder(fileSheet.rows.map(row => row[dateColumn] || ''))
+
+  // The date order is guessed again whenever the exam date column changes
+  const updateMapping = (fileSheet: ParsedSheet, nextMapping: ColumnMapping) => {
+    if (nextMapping.exam_date !== mapping?.exam_date) {
+      setDateOrder(suggestFileDateOrder(fileSheet, nextMapping.exam_date))
+    }
+    setMapping(nextMapping)
+  }
+
+  const getExistingEmails = (existing: ExistingCandidate[]) => new Set(existing.map(candidate => candidate.email.toLowerCase()))
+
+  // Matches on phone or name and exam date are flagged but do not block the row;
+  // an identical email is already a blocking issue
+  const getDuplicateWarnings = (existing: ExistingCandidate[]): StagedRowWarningCheck => values => {
+    let examDate: Date | undefined
+    try {
+      const parsed = parseImportDate(values.exam_date, dateOrder)
+      examDate = parsed ? new Date(parsed) : undefined
+    } catch {
+      examDate = undefined
+    }
+
+    const matches = findDuplicateMatches({
+      fullName: values.full_name,
+      email: values.email,
+      phone: values.phone,
+      examDate
+    }, existing).filter(match => match.reasons.some(reason => reason !== 'Same email'))
+
+    return describeDuplicateMatches(matches)
+  }
+
+  const fetchExistingCandidates = async (records: Record<string, string>[]): Promise<ExistingCandidate[]> => {
+    const found = new Map<string, ExistingCandidate>()
+    const addRows = (rows: any[] | null) => rows?.forEach(row => found.set(row.id, {
+      id: row.id,
+      fullName: row.full_name,
+      email: row.email || '',
+      phone: row.phone || undefined,
+      examDate: row.exam_date ? new Date(row.exam_date) : undefined
+    }))
+
+    const emails = Array.from(new Set(records.map(record => record.email).filter(Boolean)))
+    const phones = Array.from(new Set(records.map(record => record.phone).filter(Boolean)))
+
+    // Look up emails and phones in chunks to keep the query string short
+    for (const [column, values] of [['email', emails], ['phone', phones]] as const) {
+      for (let i = 0; i < values.length; i += LOOKUP_CHUNK) {
+        const chunk = values.slice(i, i + LOOKUP_CHUNK)
+        const normalized = column === 'phone'
+          ? chunk.map(value => normalizePhone(value) || value)
+          : chunk.map(value => value.toLowerCase())
+        const variants = Array.from(new Set([...chunk, ...normalized]))
+        const { data, error } = await supabase
+          .from('candidates')
+          .select('id, full_name, email, phone, exam_date')
+          .in(column, variants)
+
+        if (error) throw error
+        addRows(data)
+      }
+    }
+
+    // Same-name matches only count on the same exam date, so fetch the file's date range
+    const examDates = getExamDates(records)
+    if (examDates.length > 0) {
+      const from = new Date(examDates[0])
+      from.setHours(0, 0, 0, 0)
+      const to = new Date(examDates[examDates.length - 1])
+      to.setHours(23, 59, 59, 999)
+      const { data, error } = await supabase
+        .from('candidates')
+        .select('id, full_name, email, phone, exam_date')
+        .gte('exam_date', from.toISOString())
+        .lte('exam_date', to.toISOString())
+
+      if (error) throw error
+      addRows(data)
+    }
+
+    return Array.from(found.values())
+  }
+
+  const getExamDates = (records: Record<string, string>[]): string[] => records
+    .map(record => {
+      try {
+        return parseImportDate(record.exam_date, dateOrder)
+      } catch {
+        return null
+      }
+    })
+    .filter((date): date is string => !!date)
+    .sort()
+
+  // Sessions on the file's exam dates, which rows are matched against
+  const fetchSessions = async (records: Record<string, string>[]): Promise<SessionOption[]> => {
+    const examDates = getExamDates(records)
+    if (examDates.length === 0) return []
+
+    const { data, error } = await supabase
+      .from('sessions')
+      .select('id, client_name, exam_name, date, start_time, end_time, candidate_count, capacity')
+      .gte('date', formatDateForIST(examDates[0]))
+      .lte('date', formatDateForIST(examDates[examDates.length - 1]))
+
+    if (error) throw error
+    return data || []
+  }
+
+  const stageRows = async () => {
+    if (!sheet || !mapping) return
+
+    setStep('validating')
+    try {
+      const records = sheet.rows.map(row => mapRowToCandidate(row, mapping))
+      const existing = await fetchExistingCandidates(records)
+      const fileSessions = await fetchSessions(records)
+
+      setExistingCandidates(existing)
+      setSessions(fileSessions)
+      setStagedRows(stageCandidateRows(records, getExistingEmails(existing), getDuplicateWarnings(existing), fileSessions, dateOrder))
+      setShowIssuesOnly(false)
+      setStep('review')
+    } catch (error: any) {
+      console.error('Error validating roster:', error)
+      setStep('error')
+      setUploadResults({ success: 0, errors: [error.message] })
+    }
+  }
+
+  const updateStagedRow = (rowNumber: number, changes: Partial<StagedCandidateRow>) => {
+    setStagedRows(rows => validateStagedRows(
+      rows.map(row => row.rowNumber === rowNumber
+        ? { ...row, ...changes, values: { ...row.values, ...changes.values } }
+        : row
+      ),
+      getExistingEmails(existingCandidates),
+      getDuplicateWarnings(existingCandidates),
+      sessions,
+      dateOrder
+    ))
+  }
+
+  const downloadErrorReport = () => {
+    const rejected = stagedRows.filter(row => row.action === 'skip' || row.issues.length > 0)
+    const fields = CANDIDATE_IMPORT_FIELDS.map(field => field.key)
+    downloadCSV(
+      `${(uploadFile?.name || 'roster').replace(/\.[^.]+$/, '')}-errors.csv`,
+      [...fields, 'source_row', 'issues'],
+      rejected.map(row => [
+        ...fields.map(field => row.values[field]),
+        row.rowNumber,
+        row.issues.length > 0 ? row.issues.join('; ') : 'Skipped'
+      ])
+    )
+  }
+
+  const commitUpload = async () => {
+    if (!uploadFile || !sheet || !user) return
+
+    const acceptedRows = stagedRows.filter(row => row.action === 'accept')
+    const rejectedRows = stagedRows.filter(row => row.action === 'skip')
+    const errors = rejectedRows.map(row =>
+      `Row ${row.rowNumber}: ${row.issues.length > 0 ? row.issues.join('; ') : 'Skipped during review'}`
+    )
+
+    setStep('uploading')
+
+    // Record the upload attempt
+    const { data: uploadRecord, error: uploadError } = await supabase
+      .from('candidate_roster_uploads')
+      .insert({
+        filename: uploadFile.name,
+        total_candidates: sheet.rows.length,
+        uploaded_by_user_id: user.id,
+        status: 'processing'
+      })
+      .select()
+      .single()
+
+    if (uploadError) {
+      console.error('Error creating upload record:', uploadError)
+    }
+
+    let successCount = 0
+    try {
+      if (acceptedRows.length > 0) {
+        // A single insert statement commits all accepted rows or none of them
+        const { error } = await supabase
+          .from('candidates')
+          .insert(acceptedRows.map(row => ({
+            full_name: row.values.full_name,
+            email: row.values.email,
+            phone: normalizePhone(row.values.phone) || null,
+            // Exam name, client and date are copied from the session by the database
+            session_id: row.sessionId,
+            centre_code: CENTRE_CODE,
+            notes: row.values.notes || null,
+            status: 'registered',
+            user_id: user.id
+          })))
+
+        if (error) throw error
+        successCount = acceptedRows.length
+      }
+    } catch (error: any) {
+      console.error('Error committing roster:', error)
+      errors.unshift(`Database error - ${error.message}. No candidates were imported.`)
+    }
+
+    // Update upload record
+    if (uploadRecord) {
+      await supabase
+        .from('candidate_roster_uploads')
+        .update({
+          total_candidates: sheet.rows.length,
+          processed_candidates: successCount,
+          failed_candidates: sheet.rows.length - successCount,
+          status: successCount === 0 ? 'failed' : 'completed',
+          error_log: errors.length > 0 ? errors.join('\n') : null,
+          processed_date: new Date().toISOString()
+        })
+        .eq('id', uploadRecord.id)
+    }
+
+    setUploadResults({ success: successCount, errors })
+    setStep(successCount === 0 ? 'error' : 'success')
+
+    if (successCount > 0) {
+      await onImported()
+    }
+  }
+
+  const missingFields = mapping ? getMissingRequiredFields(mapping) : []
+  const acceptedCount = stagedRows.filter(row => row.action === 'accept').length
+  const blockingCount = stagedRows.filter(row => row.action === 'accept' && row.issues.length > 0).length
+  const rejectedCount = stagedRows.filter(row => row.action === 'skip' || row.issues.length > 0).length
+  const visibleRows = showIssuesOnly ? stagedRows.filter(row => row.issues.length > 0) : stagedRows
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <div className={`modern-card p-6 w-full ${step === 'review' ? 'max-w-6xl' : 'max-w-3xl'} max-h-[90vh] overflow-y-auto`}>
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">Bulk Upload Candidates</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="space-y-6">
+          {step === 'select' && (
+            <>
+              {/* Instructions */}
+              <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+                <h3 className="text-lg font-semibold text-blue-900 mb-2">Upload Instructions</h3>
+                <ul className="text-sm text-blue-800 space-y-1">
+                  <li>• Upload a CSV (comma, semicolon or tab separated) or XLSX file</li>
+                  <li>• First row should contain column headers</li>
+                  <li>• You will match your columns to <strong>full name</strong>, <strong>email</strong> and the optional fields in the next step</li>
+                  <li>• Date format: YYYY-MM-DD, DD/MM/YYYY or MM/DD/YYYY (you confirm which when matching columns; Excel date cells are read directly)</li>
+                  <li>• Every row is validated first; nothing is saved until you approve the review</li>
+                </ul>
+              </div>
+
+              {/* File Upload */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Select File</label>
+                <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 hover:border-gray-400 transition-colors">
+                  <div className="text-center">
+                    <Upload className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                    <input
+                      type="file"
+                      accept=".csv,.tsv,.txt,.xlsx"
+                      onChange={handleFileUpload}
+                      className="hidden"
+                      id="bulk-upload-input"
+                    />
+                    <label
+                      htmlFor="bulk-upload-input"
+                      className="cursor-pointer text-blue-600 hover:text-blue-700 font-medium"
+                    >
+                      Click to select file
+                    </label>
+                    <p className="text-gray-500 text-sm mt-1">CSV or XLSX files only</p>
+                  </div>
+                </div>
+              </div>
+            </>
+          )}
+
+          {/* Column Mapping */}
+          {step === 'mapping' && sheet && mapping && uploadFile && (
+            <>
+              <div className="p-3 bg-gray-50 rounded-lg">
+                <p className="text-sm text-gray-700">
+                  <strong>Selected:</strong> {uploadFile.name} ({Math.round(uploadFile.size / 1024)}KB) — {sheet.rows.length} data rows
+                </p>
+              </div>
+
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 mb-3">Match Columns</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {CANDIDATE_IMPORT_FIELDS.map(field => (
+                    <div key={field.key}>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        {field.label}{field.required && ' *'}
+                      </label>
+                      <select
+                        className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent bg-white text-gray-900"
+                        value={mapping[field.key] ?? ''}
+                        onChange={(e) => updateMapping(sheet, {
+                          ...mapping,
+                          [field.key]: e.target.value === '' ? null : parseInt(e.target.value, 10)
+                        })}
+                      >
+                        <option value="">— Not imported —</option>
+                        {sheet.headers.map((header, index) => (
+                          <option key={index} value={index}>
+                            {header || `Column ${index + 1}`}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Dates Written As</label>
+                    <select
+                      className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent bg-white text-gray-900"
+                      value={dateOrder}
+                      onChange={(e) => setDateOrder(e.target.value as ImportDateOrder)}
+                    >
+                      <option value="DMY">Day first (DD/MM/YYYY)</option>
+                      <option value="MDY">Month first (MM/DD/YYYY)</option>
+                    </select>
+                  </div>
+                </div>
+                {missingFields.length > 0 && (
+                  <p className="mt-3 text-sm text-red-600">
+                    Select a column for: {missingFields.join(', ')}
+                  </p>
+                )}
+              </div>
+
+              {/* Preview */}
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 mb-3">Preview</h3>
+                <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        {CANDIDATE_IMPORT_FIELDS.map(field => (
+                          <th key={field.key} className="text-left px-3 py-2 font-medium text-gray-600">{field.label}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {sheet.rows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => {
+                        const values = mapRowToCandidate(row, mapping)
+                        return (
+                          <tr key={rowIndex} className="border-t border-gray-100">
+                            {CANDIDATE_IMPORT_FIELDS.map(field => (
+                              <td key={field.key} className="px-3 py-2 text-gray-800 whitespace-pre-wrap">{values[field.key]}</td>
+                            ))}
+                          </tr>
+                        )
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+                {sheet.rows.length > PREVIEW_ROWS && (
+                  <p className="text-xs text-gray-500 mt-2">Showing first {PREVIEW_ROWS} of {sheet.rows.length} rows</p>
+                )}
+              </div>
+            </>
+          )}
+
+          {(step === 'validating' || step === 'uploading') && (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-yellow-500 mr-3"></div>
+              <span className="text-gray-600">
+                {step === 'validating' ? 'Validating rows...' : `Importing ${acceptedCount} candidates...`}
+              </span>
+            </div>
+          )}
+
+          {/* Review Grid */}
+          {step === 'review' && (
+            <>
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="flex items-center space-x-4 text-sm">
+                  <span className="flex items-center text-green-700">
+                    <CheckCircle className="h-4 w-4 mr-1" />
+                    {acceptedCount - blockingCount} ready
+                  </span>
+                  <span className="flex items-center text-red-700">
+                    <AlertTriangle className="h-4 w-4 mr-1" />
+                    {stagedRows.filter(row => row.issues.length > 0).length} with issues
+                  </span>
+                  <span className="text-gray-600">{stagedRows.filter(row => row.action === 'skip').length} skipped</span>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <label className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      className="mr-2"
+                      checked={showIssuesOnly}
+                      onChange={(e) => setShowIssuesOnly(e.target.checked)}
+                    />
+                    Only rows with issues
+                  </label>
+                  <button
+                    onClick={downloadErrorReport}
+                    className="btn-tertiary-modern flex items-center text-sm"
+                    disabled={rejectedCount === 0}
+                  >
+                    <Download className="h-4 w-4 mr-1" />
+                    Error CSV
+                  </button>
+                </div>
+              </div>
+
+              <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="text-left px-2 py-2 font-medium text-gray-600">Row</th>
+                      {CANDIDATE_IMPORT_FIELDS.map(field => (
+                        <th key={field.key} className="text-left px-2 py-2 font-medium text-gray-600">{field.label}</th>
+                      ))}
+                      <th className="text-left px-2 py-2 font-medium text-gray-600">Action</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visibleRows.map(row => (
+                      <tr
+                        key={row.rowNumber}
+                        className={`border-t border-gray-100 align-top ${
+                          row.action === 'skip' ? 'bg-gray-50 text-gray-400' :
+                          row.issues.length > 0 ? 'bg-red-50' :
+                          row.warnings.length > 0 ? 'bg-orange-50' : ''
+                        }`}
+                      >
+                        <td className="px-2 py-2 text-gray-500">{row.rowNumber}</td>
+                        {CANDIDATE_IMPORT_FIELDS.map(field => (
+                          <td key={field.key} className="px-2 py-2">
+                            <input
+                              type="text"
+                              className="w-full min-w-[8rem] px-2 py-1 border border-gray-200 rounded bg-white text-gray-900"
+                              value={row.values[field.key]}
+                              onChange={(e) => updateStagedRow(row.rowNumber, {
+                                values: { ...row.values, [field.key]: e.target.value }
+                              })}
+                            />
+                          </td>
+                        ))}
+                        <td className="px-2 py-2">
+                          <select
+                            className="px-2 py-1 border border-gray-200 rounded bg-white text-gray-900"
+                            value={row.action}
+                            onChange={(e) => updateStagedRow(row.rowNumber, { action: e.target.value as StagedCandidateRow['action'] })}
+                          >
+                            <option value="accept">Accept</option>
+                            <option value="skip">Skip</option>
+                          </select>
+                          {row.issues.length > 0 && (
+                            <ul className="mt-1 text-xs text-red-700 space-y-0.5">
+                              {row.issues.map((issue, index) => (
+                                <li key={index}>• {issue}</li>
+                              ))}
+                            </ul>
+                          )}
+                          {row.warnings.length > 0 && (
+                            <ul className="mt-1 text-xs text-orange-700 space-y-0.5">
+                              {row.warnings.map((warning, index) => (
+                                <li key={index}>• {warning}</li>
+                              ))}
+                            </ul>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {blockingCount > 0 && (
+                <p className="text-sm text-red-600">
+                  Fix or skip {blockingCount} accepted {blockingCount === 1 ? 'row' : 'rows'} with issues before importing.
+                </p>
+              )}
+            </>
+          )}
+
+          {/* Upload Results */}
+          {step === 'success' && (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+              <h3 className="text-lg font-semibold text-green-900 mb-2">Upload Completed!</h3>
+              <p className="text-green-800">
+                Successfully imported {uploadResults.success} candidates.
+              </p>
+              {uploadResults.errors.length > 0 && (
+                <details className="mt-3">
+                  <summary className="cursor-pointer text-yellow-700 font-medium">View {uploadResults.errors.length} rows not imported</summary>
+                  <ul className="mt-2 text-sm text-yellow-800 space-y-1 pl-4">
+                    {uploadResults.errors.map((error, index) => (
+                      <li key={index}>• {error}</li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+            </div>
+          )}
+
+          {step === 'error' && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+              <h3 className="text-lg font-semibold text-red-900 mb-2">Upload Failed</h3>
+              <ul className="text-red-800 space-y-1">
+                {uploadResults.errors.map((error, index) => (
+                  <li key={index}>• {error}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end space-x-4 mt-6">
+          {(step === 'success' || step === 'error') && rejectedCount > 0 && (
+            <button
+              onClick={downloadErrorReport}
+              className="btn-tertiary-modern flex items-center"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Download Error CSV
+            </button>
+          )}
+          {step === 'review' && (
+            <button
+              onClick={() => setStep('mapping')}
+              className="btn-tertiary-modern flex items-center"
+            >
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Columns
+            </button>
+          )}
+          {(step === 'mapping' || step === 'error') && (
+            <button
+              onClick={() => {
+                setUploadFile(null)
+                setSheet(null)
+                setMapping(null)
+                setStagedRows([])
+                setStep('select')
+              }}
+              className="btn-tertiary-modern flex items-center"
+            >
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Choose Another File
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="btn-tertiary-modern"
+            disabled={step === 'uploading' || step === 'validating'}
+          >
+            {step === 'success' ? 'Done' : 'Cancel'}
+          </button>
+          {step === 'mapping' && (
+            <button
+              onClick={stageRows}
+              className="btn-primary-modern flex items-center"
+              disabled={missingFields.length > 0}
+            >
+              Validate {sheet?.rows.length} Rows
+              <ArrowRight className="h-4 w-4 ml-2" />
+            </button>
+          )}
+          {step === 'review' && (
+            <button
+              onClick={commitUpload}
+              className="btn-primary-modern flex items-center"
+              disabled={acceptedCount === 0 || blockingCount > 0}
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Import {acceptedCount} Candidates
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,181 @@
+import { useState } from 'react'
+import { X, GitMerge, UserX, Mail, Phone, Calendar } from 'lucide-react'
+import { supabase } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
+import { DuplicatePair, getDuplicatePairKey, pickPrimaryCandidate } from '../utils/candidateDuplicates'
+import type { Candidate } from './CandidateTracker'
+
+interface CandidateDuplicatesProps {
+  pairs: DuplicatePair<Candidate>[]
+  onClose: () => void
+  onChanged: () => Promise<void> | void
+}
+
+export function CandidateDuplicates({ pairs, onClose, onChanged }: CandidateDuplicatesProps) {
+  const { user } = useAuth()
+  const [processingKey, setProcessingKey] = useState<string | null>(null)
+  // Which record to keep, per pair; defaults to the richest record
+  const [keepOverrides, setKeepOverrides] = useState<{ [pairKey: string]: string }>({})
+
+  const getKeptAndAbsorbed = (pair: DuplicatePair<Candidate>) => {
+    const key = getDuplicatePairKey(pair.first.id, pair.second.id)
+    const override = keepOverrides[key]
+    if (override) {
+      return override === pair.first.id
+        ? { primary: pair.first, absorbed: pair.second }
+        : { primary: pair.second, absorbed: pair.first }
+    }
+    return pickPrimaryCandidate(pair.first, pair.second)
+  }
+
+  const handleMerge = async (pair: DuplicatePair<Candidate>) => {
+    if (!user) return
+    const { primary, absorbed } = getKeptAndAbsorbed(pair)
+    if (!window.confirm(`Merge "${absorbed.fullName}" into "${primary.fullName}"? The absorbed record will be removed from the list.`)) {
+      return
+    }
+
+    const key = getDuplicatePairKey(pair.first.id, pair.second.id)
+    setProcessingKey(key)
+    try {
+      // One transaction: re-points the absorbed record's history, accommodations, reschedules and ID checks, then removes it
+      const { error } = await supabase.rpc('merge_candidates', {
+        p_primary_id: primary.id,
+        p_absorbed_id: absorbed.id,
+        p_match_reasons: pair.reasons
+      })
+
+      if (error) throw error
+
+      await onChanged()
+    } catch (error: any) {
+      console.error('Error merging candidates:', error)
+      alert('Failed to merge candidates: ' + error.message)
+    } finally {
+      setProcessingKey(null)
+    }
+  }
+
+  const handleDismiss = async (pair: DuplicatePair<Candidate>) => {
+    if (!user) return
+    const key = getDuplicatePairKey(pair.first.id, pair.second.id)
+    const [candidateA, candidateB] = [pair.first.id, pair.second.id].sort()
+
+    setProcessingKey(key)
+    try {
+      const { error } = await supabase
+        .from('candidate_duplicate_dismissals')
+        .insert({
+          candidate_a: candidateA,
+          candidate_b: candidateB,
+          dismissed_by: user.id
+        })
+
+      if (error) throw error
+      await onChanged()
+    } catch (error: any) {
+      console.error('Error dismissing duplicate:', error)
+      alert('Failed to dismiss duplicate: ' + error.message)
+    } finally {
+      setProcessingKey(null)
+    }
+  }
+
+  const renderCandidate = (candidate: Candidate, kept: boolean, pairKey: string) => (
+    <div className={`flex-1 p-4 rounded-lg border ${kept ? 'border-green-300 bg-green-50' : 'border-gray-200 bg-white'}`}>
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-semibold text-gray-900">{candidate.fullName}</h4>
+        <label className="flex items-center text-xs text-gray-600">
+          <input
+            type="radio"
+            name={`keep-${pairKey}`}
+            className="mr-1"
+            checked={kept}
+            onChange={() => setKeepOverrides({ ...keepOverrides, [pairKey]: candidate.id })}
+          />
+          Keep
+        </label>
+      </div>
+      <p className="text-xs text-gray-500 mb-2">{candidate.confirmationNumber} • {candidate.status.replace('_', ' ')}</p>
+      <div className="space-y-1 text-sm text-gray-700">
+        <div className="flex items-center space-x-2">
+          <Mail className="h-4 w-4 text-gray-400" />
+          <span>{candidate.email}</span>
+        </div>
+        {candidate.phone && (
+          <div className="flex items-center space-x-2">
+            <Phone className="h-4 w-4 text-gray-400" />
+            <span>{candidate.phone}</span>
+          </div>
+        )}
+        <div className="flex items-center space-x-2">
+          <Calendar className="h-4 w-4 text-gray-400" />
+          <span>{candidate.examName} — {candidate.examDate ? candidate.examDate.toLocaleString() : 'Not scheduled'}</span>
+        </div>
+      </div>
+    </div>
+  )
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <div className="modern-card p-6 w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">Possible Duplicates</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        {pairs.length === 0 ? (
+          <p className="text-gray-600 text-center py-8">No possible duplicates found.</p>
+        ) : (
+          <div className="space-y-4">
+            {pairs.map(pair => {
+              const key = getDuplicatePairKey(pair.first.id, pair.second.id)
+              const { primary } = getKeptAndAbsorbed(pair)
+              return (
+                <div key={key} className="border border-gray-200 rounded-lg p-4">
+                  <div className="flex items-center justify-between mb-3">
+                    <div className="flex flex-wrap gap-2">
+                      {pair.reasons.map(reason => (
+                        <span key={reason} className="px-2 py-1 rounded-full text-xs font-medium text-orange-700 bg-orange-50 border border-orange-200">
+                          {reason}
+                        </span>
+                      ))}
+                    </div>
+                    <span className="text-sm text-gray-500">{Math.round(pair.score * 100)}% match</span>
+                  </div>
+                  <div className="flex flex-col md:flex-row gap-3 mb-3">
+                    {renderCandidate(pair.first, primary.id === pair.first.id, key)}
+                    {renderCandidate(pair.second, primary.id === pair.second.id, key)}
+                  </div>
+                  <div className="flex justify-end space-x-2">
+                    <button
+                      onClick={() => handleDismiss(pair)}
+                      className="flex items-center space-x-1 px-3 py-2 text-gray-600 bg-gray-50 hover:bg-gray-100 rounded-lg text-sm font-medium transition-colors"
+                      disabled={processingKey !== null}
+                    >
+                      <UserX className="h-4 w-4" />
+                      <span>Not a Duplicate</span>
+                    </button>
+                    <button
+                      onClick={() => handleMerge(pair)}
+                      className="btn-primary-modern flex items-center text-sm"
+                      disabled={processingKey !== null}
+                    >
+                      <GitMerge className="h-4 w-4 mr-1" />
+                      {processingKey === key ? 'Working...' : 'Merge'}
+                    </button>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
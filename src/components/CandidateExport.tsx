@@ -0,0 +1,384 @@
+import { useState, useEffect } from 'react'
+import { X, Download, Plus, Trash2, ArrowUp, ArrowDown, Save } from 'lucide-react'
+import { supabase } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
+import { fetchCandidatesByExamDate, fetchCandidatesBySession } from '../lib/candidateList'
+import { downloadCSV, downloadXLSX } from '../utils/fileUtils'
+import { getCurrentISTDateString } from '../utils/dateUtils'
+import { SessionOption, formatSessionOption } from '../utils/sessionUtils'
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  EXPORT_FIELDS,
+  ExportColumn,
+  ExportField,
+  ExportFormat,
+  ExportPreset,
+  buildExportRows,
+  getExportFilename,
+  validateExportColumns
+} from '../utils/candidateExport'
+
+interface CandidateExportProps {
+  clientOptions: string[]
+  onClose: () => void
+}
+
+const inputClass = 'w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent bg-white text-gray-900'
+
+export function CandidateExport({ clientOptions, onClose }: CandidateExportProps) {
+  const { user } = useAuth()
+  const today = getCurrentISTDateString()
+  const [presets, setPresets] = useState<ExportPreset[]>([])
+  const [presetId, setPresetId] = useState('')
+  const [columns, setColumns] = useState<ExportColumn[]>(DEFAULT_EXPORT_COLUMNS)
+  const [format, setFormat] = useState<ExportFormat>('csv')
+  const [clientName, setClientName] = useState('')
+  const [scope, setScope] = useState<'dates' | 'session'>('dates')
+  const [fromDate, setFromDate] = useState(today)
+  const [toDate, setToDate] = useState(today)
+  const [sessions, setSessions] = useState<SessionOption[]>([])
+  const [sessionId, setSessionId] = useState('')
+  const [exporting, setExporting] = useState(false)
+
+  useEffect(() => {
+    loadPresets()
+  }, [])
+
+  useEffect(() => {
+    if (scope === 'session') loadSessions()
+  }, [scope, fromDate, toDate])
+
+  const loadPresets = async () => {
+    const { data, error } = await supabase
+      .from('candidate_export_presets')
+      .select('id, name, client_name, columns, format')
+      .order('name')
+
+    if (error) {
+      console.error('Error loading export presets:', error)
+      return
+    }
+    setPresets(data || [])
+  }
+
+  const loadSessions = async () => {
+    if (!fromDate || !toDate) return
+    const { data, error } = await supabase
+      .from('sessions')
+      .select('id, client_name, exam_name, date, start_time, end_time, candidate_count, capacity')
+      .gte('date', fromDate)
+      .lte('date', toDate)
+      .order('date', { ascending: true })
+      .order('start_time', { ascending: true })
+
+    if (error) {
+      console.error('Error loading sessions:', error)
+      return
+    }
+    setSessions(data || [])
+  }
+
+  const applyPreset = (id: string) => {
+    setPresetId(id)
+    const preset = presets.find(p => p.id === id)
+    if (!preset) return
+    setColumns(preset.columns)
+    setFormat(preset.format)
+    setClientName(preset.client_name || '')
+  }
+
+  const updateColumn = (index: number, changes: Partial<ExportColumn>) => {
+    setColumns(prev => prev.map((column, i) => (i === index ? { ...column, ...changes } : column)))
+  }
+
+  const moveColumn = (index: number, offset: number) => {
+    setColumns(prev => {
+      const next = [...prev]
+      const [column] = next.splice(index, 1)
+      next.splice(index + offset, 0, column)
+      return next
+    })
+  }
+
+  const addColumn = () => {
+    const field = EXPORT_FIELDS.find(f => !columns.some(c => c.field === f.value)) || EXPORT_FIELDS[0]
+    setColumns(prev => [...prev, { field: field.value, header: field.label }])
+  }
+
+  const savePreset = async (asNew: boolean) => {
+    const validationError = validateExportColumns(columns)
+    if (validationError) {
+      alert(validationError)
+      return
+    }
+
+    const current = presets.find(p => p.id === presetId)
+    const name = asNew || !current ? window.prompt('Preset name:', current ? `${current.name} (copy)` : '') : current.name
+    if (!name?.trim()) return
+
+    const values = {
+      name: name.trim(),
+      client_name: clientName || null,
+      columns: columns.map(c => ({ field: c.field, header: c.header.trim() })),
+      format,
+      updated_by: user?.id,
+      updated_at: new Date().toISOString()
+    }
+
+    try {
+      if (asNew || !current) {
+        const { data, error } = await supabase
+          .from('candidate_export_presets')
+          .insert({ ...values, created_by: user?.id })
+          .select('id')
+          .single()
+
+        if (error) throw error
+        await loadPresets()
+        setPresetId(data.id)
+      } else {
+        const { error } = await supabase
+          .from('candidate_export_presets')
+          .update(values)
+          .eq('id', current.id)
+
+        if (error) throw error
+        await loadPresets()
+      }
+      alert('Preset saved')
+    } catch (error: any) {
+      console.error('Error saving export preset:', error)
+      alert('Failed to save preset: ' + error.message)
+    }
+  }
+
+  const deletePreset = async () => {
+    const current = presets.find(p => p.id === presetId)
+    if (!current || !window.confirm(`Delete the "${current.name}" preset for everyone?`)) return
+
+    const { data, error } = await supabase
+      .from('candidate_export_presets')
+      .delete()
+      .eq('id', current.id)
+      .select('id')
+
+    if (error || !data?.length) {
+      console.error('Error deleting export preset:', error)
+      alert('Failed to delete preset. Only the person who created it or an administrator can delete it.')
+      return
+    }
+    setPresetId('')
+    await loadPresets()
+  }
+
+  const handleExport = async () => {
+    const validationError = validateExportColumns(columns)
+    if (validationError) {
+      alert(validationError)
+      return
+    }
+    if (scope === 'session' && !sessionId) {
+      alert('Choose a session to export')
+      return
+    }
+    if (scope === 'dates' && (!fromDate || !toDate || fromDate > toDate)) {
+      alert('Choose a valid date range')
+      return
+    }
+
+    setExporting(true)
+    try {
+      const candidates = scope === 'session'
+        ? (await fetchCandidatesBySession(Number(sessionId))).filter(c => !clientName || c.clientName === clientName)
+        : await fetchCandidatesByExamDate(fromDate, toDate, clientName || undefined)
+
+      if (candidates.length === 0) {
+        alert('No candidates match this export')
+        return
+      }
+
+      const { headers, rows } = buildExportRows(candidates, columns)
+      const label = presets.find(p => p.id === presetId)?.name || clientName || 'candidates'
+      const scopeLabel = scope === 'session'
+        ? `session-${sessionId}`
+        : fromDate === toDate ? fromDate : `${fromDate}-to-${toDate}`
+      const filename = getExportFilename(label, scopeLabel, format)
+
+      if (format === 'xlsx') {
+        downloadXLSX(filename, headers, rows, 'Attendance')
+      } else {
+        downloadCSV(filename, headers, rows)
+      }
+    } catch (error: any) {
+      console.error('Error exporting candidates:', error)
+      alert('Export failed: ' + error.message)
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <div className="modern-card p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">Export Attendance</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="space-y-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Preset</label>
+            <div className="flex gap-2">
+              <select className={inputClass} value={presetId} onChange={(e) => applyPreset(e.target.value)}>
+                <option value="">Custom layout</option>
+                {presets.map(preset => (
+                  <option key={preset.id} value={preset.id}>
+                    {preset.name}{preset.client_name ? ` (${preset.client_name})` : ''}
+                  </option>
+                ))}
+              </select>
+              {presetId && (
+                <button onClick={deletePreset} className="btn-tertiary-modern text-red-600" title="Delete preset">
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Client</label>
+              <select className={inputClass} value={clientName} onChange={(e) => setClientName(e.target.value)}>
+                <option value="">All clients</option>
+                {clientOptions.map(client => (
+                  <option key={client} value={client}>{client}</option>
+                ))}
+                {clientName && !clientOptions.includes(clientName) && (
+                  <option value={clientName}>{clientName}</option>
+                )}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Format</label>
+              <select className={inputClass} value={format} onChange={(e) => setFormat(e.target.value as ExportFormat)}>
+                <option value="csv">CSV</option>
+                <option value="xlsx">Excel (XLSX)</option>
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center gap-4 mb-2">
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input type="radio" checked={scope === 'dates'} onChange={() => setScope('dates')} />
+                Date range
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input type="radio" checked={scope === 'session'} onChange={() => setScope('session')} />
+                Single session
+              </label>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <input type="date" className={inputClass} value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+              <input type="date" className={inputClass} value={toDate} onChange={(e) => setToDate(e.target.value)} />
+            </div>
+            {scope === 'session' && (
+              <select className={`${inputClass} mt-3`} value={sessionId} onChange={(e) => setSessionId(e.target.value)}>
+                <option value="">Select a session</option>
+                {sessions
+                  .filter(session => !clientName || session.client_name === clientName)
+                  .map(session => (
+                    <option key={session.id} value={session.id}>{formatSessionOption(session)}</option>
+                  ))}
+              </select>
+            )}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-gray-700">Columns</label>
+              <button onClick={addColumn} className="btn-secondary-modern flex items-center text-sm">
+                <Plus className="h-4 w-4 mr-1" />
+                Add Column
+              </button>
+            </div>
+            <div className="space-y-2">
+              {columns.map((column, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <select
+                    className="flex-1 px-3 py-2 border border-gray-200 rounded-lg bg-white text-gray-900 text-sm"
+                    value={column.field}
+                    onChange={(e) => updateColumn(index, { field: e.target.value as ExportField })}
+                  >
+                    {EXPORT_FIELDS.map(field => (
+                      <option key={field.value} value={field.value}>{field.label}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    placeholder="Column header"
+                    className="flex-1 px-3 py-2 border border-gray-200 rounded-lg bg-white text-gray-900 text-sm"
+                    value={column.header}
+                    onChange={(e) => updateColumn(index, { header: e.target.value })}
+                  />
+                  <button
+                    onClick={() => moveColumn(index, -1)}
+                    disabled={index === 0}
+                    className="p-2 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                    title="Move up"
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => moveColumn(index, 1)}
+                    disabled={index === columns.length - 1}
+                    className="p-2 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                    title="Move down"
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => setColumns(prev => prev.filter((_, i) => i !== index))}
+                    className="p-2 text-red-500 hover:text-red-700"
+                    title="Remove column"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-end gap-3 mt-6">
+          <button onClick={onClose} className="btn-tertiary-modern">
+            Close
+          </button>
+          {presetId && (
+            <button onClick={() => savePreset(false)} className="btn-secondary-modern flex items-center">
+              <Save className="h-4 w-4 mr-2" />
+              Update Preset
+            </button>
+          )}
+          <button onClick={() => savePreset(true)} className="btn-secondary-modern flex items-center">
+            <Save className="h-4 w-4 mr-2" />
+            Save as New Preset
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={exporting}
+            className="btn-primary-modern flex items-center"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            {exporting ? 'Exporting...' : `Export ${format.toUpperCase()}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,190 @@
+import { useState, useEffect, useRef } from 'react'
+import { X, Camera, CameraOff, RotateCcw, ShieldCheck } from 'lucide-react'
+import { IdCheckDetails } from '../lib/idVerification'
+import { ID_TYPES, IdType, validateIdLast4 } from '../utils/idVerification'
+
+interface CandidateIdCheckProps {
+  candidateName: string
+  onCancel: () => void
+  onConfirm: (details: IdCheckDetails) => Promise<void> | void
+}
+
+export function CandidateIdCheck({ candidateName, onCancel, onConfirm }: CandidateIdCheckProps) {
+  const [idType, setIdType] = useState<IdType>('aadhaar')
+  const [idLast4, setIdLast4] = useState('')
+  const [photo, setPhoto] = useState<Blob | null>(null)
+  const [photoUrl, setPhotoUrl] = useState<string | null>(null)
+  const [cameraOn, setCameraOn] = useState(false)
+  const [cameraError, setCameraError] = useState('')
+  const [saving, setSaving] = useState(false)
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const streamRef = useRef<MediaStream | null>(null)
+
+  const stopCamera = () => {
+    streamRef.current?.getTracks().forEach(track => track.stop())
+    streamRef.current = null
+    setCameraOn(false)
+  }
+
+  // Release the camera and the preview when the dialog closes
+  useEffect(() => () => stopCamera(), [])
+  useEffect(() => () => {
+    if (photoUrl) URL.revokeObjectURL(photoUrl)
+  }, [photoUrl])
+
+  const startCamera = async () => {
+    setCameraError('')
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'user' }, audio: false })
+      streamRef.current = stream
+      setCameraOn(true)
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream
+        await videoRef.current.play()
+      }
+    } catch (error: any) {
+      console.error('Error starting camera:', error)
+      setCameraError('Camera unavailable: ' + error.message)
+    }
+  }
+
+  const capturePhoto = () => {
+    const video = videoRef.current
+    if (!video || !video.videoWidth) return
+    const canvas = document.createElement('canvas')
+    canvas.width = video.videoWidth
+    canvas.height = video.videoHeight
+    canvas.getContext('2d')?.drawImage(video, 0, 0)
+    canvas.toBlob(blob => {
+      if (!blob) return
+      setPhoto(blob)
+      setPhotoUrl(URL.createObjectURL(blob))
+      stopCamera()
+    }, 'image/jpeg', 0.85)
+  }
+
+  const retakePhoto = () => {
+    setPhoto(null)
+    setPhotoUrl(null)
+    startCamera()
+  }
+
+  const handleConfirm = async () => {
+    const validationError = validateIdLast4(idLast4)
+    if (validationError) {
+      alert(validationError)
+      return
+    }
+    setSaving(true)
+    try {
+      await onConfirm({ idType, idLast4, photo })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <div className="modern-card p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">Verify Photo ID</h2>
+          <button
+            onClick={onCancel}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <p className="text-gray-600">
+            Check <span className="font-medium text-gray-900">{candidateName}</span>'s photo ID before checking them in.
+          </p>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">ID Type *</label>
+              <select
+                className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent bg-white text-gray-900"
+                value={idType}
+                onChange={(e) => setIdType(e.target.value as IdType)}
+              >
+                {ID_TYPES.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Last 4 of ID Number *</label>
+              <input
+                type="text"
+                maxLength={4}
+                placeholder="e.g. 4821"
+                className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent bg-white text-gray-900 placeholder-gray-500 uppercase font-mono"
+                value={idLast4}
+                onChange={(e) => setIdLast4(e.target.value.replace(/[^A-Za-z0-9]/g, ''))}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Photo (optional)</label>
+            <div className="bg-gray-50 rounded-lg p-3">
+              <video
+                ref={videoRef}
+                className={`w-full rounded-lg ${cameraOn ? '' : 'hidden'}`}
+                muted
+                playsInline
+              />
+              {photoUrl && (
+                <img src={photoUrl} alt="Captured ID check" className="w-full rounded-lg" />
+              )}
+              <div className="flex items-center gap-2 mt-2">
+                {!cameraOn && !photo && (
+                  <button onClick={startCamera} className="btn-secondary-modern flex items-center text-sm">
+                    <Camera className="h-4 w-4 mr-1" />
+                    Start Camera
+                  </button>
+                )}
+                {cameraOn && (
+                  <>
+                    <button onClick={capturePhoto} className="btn-primary-modern flex items-center text-sm">
+                      <Camera className="h-4 w-4 mr-1" />
+                      Take Photo
+                    </button>
+                    <button onClick={stopCamera} className="btn-tertiary-modern flex items-center text-sm">
+                      <CameraOff className="h-4 w-4 mr-1" />
+                      Stop
+                    </button>
+                  </>
+                )}
+                {photo && (
+                  <button onClick={retakePhoto} className="btn-tertiary-modern flex items-center text-sm">
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    Retake
+                  </button>
+                )}
+              </div>
+              {cameraError && <p className="text-sm text-red-600 mt-2">{cameraError}</p>}
+              <p className="text-xs text-gray-500 mt-2">Photos are deleted automatically after the retention period set in Settings.</p>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end space-x-4 mt-6">
+          <button onClick={onCancel} className="btn-tertiary-modern">
+            Cancel
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={saving || idLast4.length !== 4}
+            className="btn-primary-modern flex items-center"
+          >
+            <ShieldCheck className="h-4 w-4 mr-2" />
+            {saving ? 'Checking in...' : 'Verify and Check In'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
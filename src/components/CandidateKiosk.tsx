@@ -0,0 +1,374 @@
+import { useState, useEffect, useRef } from 'react'
+import { Lock, ScanLine, UserCheck, ShieldCheck, ArrowLeft, CheckCircle, AlertCircle } from 'lucide-react'
+import { supabase } from '../lib/supabase'
+import { applyStatusChange, findCandidateByConfirmationNumber } from '../lib/candidateCheckIn'
+import { CENTRE_CODE } from '../utils/confirmationNumbers'
+import { CandidateStatus } from '../utils/candidateStatus'
+import { isToday } from '../utils/dateUtils'
+import { checkArrival, formatPolicyTime, getAttendancePolicy } from '../utils/attendancePolicy'
+
+interface CandidateKioskProps {
+  onExit: () => void
+}
+
+interface KioskCandidate {
+  id: string
+  full_name: string
+  email: string
+  phone?: string
+  exam_name?: string
+  exam_date?: string
+  client_name?: string
+  status: CandidateStatus
+}
+
+type KioskStep = 'lookup' | 'confirm' | 'rules' | 'done'
+
+const CENTRE_RULES = [
+  'I will present a valid, original government-issued photo ID that matches my registration.',
+  'I will store my phone, watch, bag and all personal items in the assigned locker before entering the testing room.',
+  'I will not bring notes, food or drink into the testing room unless an approved accommodation allows it.',
+  'I understand the testing room is monitored by video and audio recording.',
+  'I will follow the instructions of the test administrator at all times.',
+  'I understand that breaking these rules may lead to my exam being stopped and reported to the exam sponsor.'
+]
+
+// Return to the start screen if a candidate walks away mid check-in
+const IDLE_TIMEOUT_MS = 60000
+const DONE_RESET_MS = 8000
+
+const maskEmail = (email: string): string => {
+  const [name, domain] = email.split('@')
+  if (!domain) return email
+  return `${name.slice(0, 2)}${'•'.repeat(Math.max(name.length - 2, 1))}@${domain}`
+}
+
+const maskPhone = (phone: string): string => {
+  return phone.length > 4 ? `${'•'.repeat(phone.length - 4)}${phone.slice(-4)}` : phone
+}
+
+export function CandidateKiosk({ onExit }: CandidateKioskProps) {
+  const [step, setStep] = useState<KioskStep>('lookup')
+  const [confirmationInput, setConfirmationInput] = useState('')
+  const [candidate, setCandidate] = useState<KioskCandidate | null>(null)
+  const [hasAccommodations, setHasAccommodations] = useState(false)
+  const [rulesAccepted, setRulesAccepted] = useState(false)
+  const [message, setMessage] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [showPinPad, setShowPinPad] = useState(false)
+  const [pin, setPin] = useState('')
+  const [pinError, setPinError] = useState('')
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  const resetKiosk = () => {
+    setStep('lookup')
+    setConfirmationInput('')
+    setCandidate(null)
+    setRulesAccepted(false)
+    setMessage('')
+  }
+
+  // Keep the browser's back button from leaving the kiosk
+  useEffect(() => {
+    window.history.pushState(null, '', window.location.href)
+    const handlePopState = () => window.history.pushState(null, '', window.location.href)
+    window.addEventListener('popstate', handlePopState)
+    return () => window.removeEventListener('popstate', handlePopState)
+  }, [])
+
+  useEffect(() => {
+    if (step === 'lookup' && !showPinPad) {
+      inputRef.current?.focus()
+    }
+  }, [step, showPinPad])
+
+  useEffect(() => {
+    if (step === 'lookup') return
+    const timer = setTimeout(resetKiosk, step === 'done' ? DONE_RESET_MS : IDLE_TIMEOUT_MS)
+    return () => clearTimeout(timer)
+  }, [step, rulesAccepted])
+
+  const handleLookup = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setMessage('')
+    setBusy(true)
+    try {
+      const { candidate: match, error, ambiguous } = await findCandidateByConfirmationNumber(
+        confirmationInput,
+        'id, full_name, email, phone, exam_name, exam_date, client_name, status'
+      )
+      if (error) {
+        setMessage(ambiguous ? 'We found more than one booking with this number. Please see the front desk.' : error)
+        return
+      }
+      if (match.status !== 'registered') {
+        setMessage(match.status === 'checked_in' || match.status === 'in_progress'
+          ? 'You are already checked in. Please wait to be called.'
+          : 'We cannot check you in here. Please see the front desk.')
+        return
+      }
+      if (!match.exam_date || !isToday(new Date(match.exam_date))) {
+        setMessage('Your exam is not scheduled for today. Please see the front desk.')
+        return
+      }
+
+      const { data: policies, error: policyError } = await supabase
+        .from('clients')
+        .select('client_name:name, aliases, late_grace_minutes, no_show_after_minutes')
+
+      if (policyError) throw policyError
+      const arrival = checkArrival(new Date(match.exam_date), getAttendancePolicy(policies || [], match.client_name))
+      if (arrival.state === 'closed') {
+        setMessage(`Check-in for your exam closed at ${formatPolicyTime(arrival.cutOff!)}. Please see the front desk.`)
+        return
+      }
+
+      // Details stay private on a public screen; staff see them at the desk
+      const { count, error: accommodationsError } = await supabase
+        .from('candidate_accommodations')
+        .select('id', { count: 'exact', head: true })
+        .eq('candidate_id', match.id)
+        .eq('status', 'approved')
+
+      if (accommodationsError) throw accommodationsError
+      setHasAccommodations((count || 0) > 0)
+      setCandidate(match)
+      setStep('confirm')
+    } catch (error: any) {
+      console.error('Kiosk lookup failed:', error)
+      setMessage('Something went wrong. Please see the front desk.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleCheckIn = async () => {
+    if (!candidate || !rulesAccepted) return
+    setBusy(true)
+    try {
+      const result = await applyStatusChange(candidate, 'checked_in', 'Self check-in at kiosk', {
+        rules_accepted_at: new Date().toISOString()
+      })
+      if (!result.ok) {
+        setMessage('We could not check you in. Please see the front desk.')
+        setStep('lookup')
+        setCandidate(null)
+        setRulesAccepted(false)
+        return
+      }
+      setStep('done')
+    } catch (error) {
+      console.error('Kiosk check-in failed:', error)
+      setMessage('Something went wrong. Please see the front desk.')
+      setStep('lookup')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleExit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    // Attempts and lockouts are tracked by verify_kiosk_pin, not here
+    try {
+      const { data: result, error } = await supabase.rpc('verify_kiosk_pin', {
+        p_centre_code: CENTRE_CODE,
+        p_pin: pin
+      })
+      if (error) throw error
+
+      if (result === 'ok') {
+        onExit()
+        return
+      }
+
+      setPin('')
+      setPinError(result === 'locked' ? 'Too many attempts. The kiosk is locked for now; try again later.' : 'Incorrect PIN')
+    } catch (error: any) {
+      console.error('Error verifying kiosk PIN:', error)
+      setPinError('Could not verify PIN: ' + error.message)
+    }
+  }
+
+  return (
+    <div className="golden-theme min-h-screen flex flex-col items-center justify-center p-6 relative select-none">
+      <button
+        onClick={() => {
+          setPin('')
+          setPinError('')
+          setShowPinPad(true)
+        }}
+        className="absolute top-4 right-4 p-3 text-gray-400 hover:text-gray-600 transition-colors"
+        title="Staff exit"
+      >
+        <Lock className="h-5 w-5" />
+      </button>
+
+      <div className="text-center mb-8">
+        <div className="golden-logo inline-block mb-4">
+          <img src="/fets-point-logo.png" alt="FETS POINT" className="h-12 w-12" />
+        </div>
+        <h1 className="golden-title text-4xl">Candidate Check-in</h1>
+      </div>
+
+      <div className="golden-card p-8 w-full max-w-xl">
+        {step === 'lookup' && (
+          <form onSubmit={handleLookup} className="space-y-6 text-center">
+            <ScanLine className="h-12 w-12 mx-auto text-yellow-500" />
+            <div>
+              <h2 className="text-2xl font-semibold text-gray-900">Scan or enter your confirmation number</h2>
+              <p className="text-gray-600 mt-2">You can find it on your admission slip or confirmation email.</p>
+            </div>
+            <input
+              ref={inputRef}
+              type="text"
+              value={confirmationInput}
+              onChange={(e) => setConfirmationInput(e.target.value)}
+              className="golden-input w-full text-center text-2xl tracking-widest uppercase"
+              placeholder="ETS-KOC26-000423"
+              autoComplete="off"
+              spellCheck={false}
+              disabled={busy}
+            />
+            {message && (
+              <div className="flex items-center justify-center text-red-600">
+                <AlertCircle className="h-5 w-5 mr-2 flex-shrink-0" />
+                <span>{message}</span>
+              </div>
+            )}
+            <button
+              type="submit"
+              disabled={busy || !confirmationInput.trim()}
+              className="golden-button w-full text-lg"
+            >
+              {busy ? 'Looking up...' : 'Continue'}
+            </button>
+          </form>
+        )}
+
+        {step === 'confirm' && candidate && (
+          <div className="space-y-6">
+            <div className="text-center">
+              <UserCheck className="h-12 w-12 mx-auto text-yellow-500" />
+              <h2 className="text-2xl font-semibold text-gray-900 mt-2">Is this you?</h2>
+            </div>
+            <dl className="grid grid-cols-3 gap-3 text-lg">
+              <dt className="text-gray-500">Name</dt>
+              <dd className="col-span-2 font-semibold text-gray-900">{candidate.full_name}</dd>
+              <dt className="text-gray-500">Email</dt>
+              <dd className="col-span-2 text-gray-900">{maskEmail(candidate.email)}</dd>
+              {candidate.phone && (
+                <>
+                  <dt className="text-gray-500">Phone</dt>
+                  <dd className="col-span-2 text-gray-900">{maskPhone(candidate.phone)}</dd>
+                </>
+              )}
+              <dt className="text-gray-500">Exam</dt>
+              <dd className="col-span-2 text-gray-900">{candidate.exam_name || 'Exam Session'}</dd>
+              <dt className="text-gray-500">Time</dt>
+              <dd className="col-span-2 text-gray-900">
+                {candidate.exam_date && new Date(candidate.exam_date).toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit', timeZone: 'Asia/Kolkata' })}
+              </dd>
+            </dl>
+            <div className="flex gap-4">
+              <button
+                onClick={resetKiosk}
+                className="flex-1 px-6 py-3 rounded-xl border-2 border-gray-200 text-gray-700 font-semibold hover:bg-gray-50 transition-colors"
+              >
+                No, start over
+              </button>
+              <button onClick={() => setStep('rules')} className="golden-button flex-1 text-lg">
+                Yes, that's me
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'rules' && candidate && (
+          <div className="space-y-6">
+            <div className="text-center">
+              <ShieldCheck className="h-12 w-12 mx-auto text-yellow-500" />
+              <h2 className="text-2xl font-semibold text-gray-900 mt-2">Test centre rules</h2>
+            </div>
+            <ul className="space-y-3 text-gray-700 list-disc pl-6">
+              {CENTRE_RULES.map(rule => (
+                <li key={rule}>{rule}</li>
+              ))}
+            </ul>
+            <label className="flex items-start space-x-3 p-4 rounded-xl bg-yellow-50 border border-yellow-200 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={rulesAccepted}
+                onChange={(e) => setRulesAccepted(e.target.checked)}
+                className="mt-1 h-5 w-5"
+              />
+              <span className="text-gray-900 font-medium">I have read and agree to the test centre rules</span>
+            </label>
+            <div className="flex gap-4">
+              <button
+                onClick={() => setStep('confirm')}
+                className="px-6 py-3 rounded-xl border-2 border-gray-200 text-gray-700 font-semibold hover:bg-gray-50 transition-colors flex items-center"
+              >
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back
+              </button>
+              <button
+                onClick={handleCheckIn}
+                disabled={!rulesAccepted || busy}
+                className="golden-button flex-1 text-lg"
+              >
+                {busy ? 'Checking in...' : 'Check me in'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'done' && candidate && (
+          <div className="space-y-4 text-center">
+            <CheckCircle className="h-16 w-16 mx-auto text-green-500" />
+            <h2 className="text-2xl font-semibold text-gray-900">You're checked in, {candidate.full_name.split(' ')[0]}</h2>
+            <p className="text-gray-600">Please take a seat. A test administrator will call you for ID verification.</p>
+            {hasAccommodations && (
+              <p className="text-gray-900 font-medium">A member of staff will help you with your approved testing arrangements.</p>
+            )}
+            <button onClick={resetKiosk} className="golden-button">
+              Done
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Staff exit PIN */}
+      {showPinPad && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+          <form onSubmit={handleExit} className="golden-card p-6 w-full max-w-xs space-y-4 text-center">
+            <Lock className="h-8 w-8 mx-auto text-gray-500" />
+            <h2 className="text-lg font-semibold text-gray-900">Staff PIN required</h2>
+            <input
+              type="password"
+              inputMode="numeric"
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+              className="golden-input w-full text-center text-2xl tracking-widest"
+              maxLength={8}
+              autoFocus
+            />
+            {pinError && <p className="text-sm text-red-600">{pinError}</p>}
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={() => setShowPinPad(false)}
+                className="flex-1 px-4 py-2 rounded-xl border-2 border-gray-200 text-gray-700 font-semibold hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button type="submit" disabled={pin.length < 4} className="golden-button flex-1">
+                Exit Kiosk
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,185 @@
+import { useState, useEffect } from 'react'
+import { X, Download } from 'lucide-react'
+import type { Candidate } from './CandidateTracker'
+import { downloadCSV } from '../utils/fileUtils'
+import { formatDateForIST, getCurrentISTDateString } from '../utils/dateUtils'
+import { fetchCandidatesByExamDate } from '../lib/candidateList'
+
+interface CandidateNoShowReportProps {
+  onClose: () => void
+}
+
+interface ClientAttendance {
+  clientName: string
+  booked: number
+  noShows: number
+  late: number
+  overrides: number
+}
+
+const formatRate = (count: number, total: number) => total > 0 ? `${Math.round((count / total) * 100)}%` : '—'
+
+export function CandidateNoShowReport({ onClose }: CandidateNoShowReportProps) {
+  const today = getCurrentISTDateString()
+  const [fromDate, setFromDate] = useState(`${today.slice(0, 8)}01`)
+  const [toDate, setToDate] = useState(today)
+  const [inRange, setInRange] = useState<Candidate[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    loadReport()
+  }, [fromDate, toDate])
+
+  // Cancelled bookings are not counted as expected attendance
+  const loadReport = async () => {
+    if (!fromDate || !toDate || fromDate > toDate) {
+      setInRange([])
+      setLoading(false)
+      return
+    }
+    try {
+      setLoading(true)
+      setInRange(await fetchCandidatesByExamDate(fromDate, toDate))
+    } catch (error) {
+      console.error('Error loading no-show report:', error)
+      setInRange([])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const byClient = new Map<string, ClientAttendance>()
+  inRange.forEach(candidate => {
+    const clientName = candidate.clientName || 'Unassigned'
+    const row = byClient.get(clientName) || { clientName, booked: 0, noShows: 0, late: 0, overrides: 0 }
+    row.booked++
+    if (candidate.status === 'no_show') row.noShows++
+    if (candidate.lateMinutes) row.late++
+    if (candidate.lateOverrideReason) row.overrides++
+    byClient.set(clientName, row)
+  })
+  const clientRows = Array.from(byClient.values()).sort((a, b) => a.clientName.localeCompare(b.clientName))
+
+  const noShows = inRange
+    .filter(c => c.status === 'no_show')
+    .sort((a, b) => a.examDate!.getTime() - b.examDate!.getTime() || a.fullName.localeCompare(b.fullName))
+
+  const handleExport = () => {
+    downloadCSV(
+      `no-show-report-${fromDate}-to-${toDate}.csv`,
+      ['Exam Date', 'Client', 'Exam', 'Candidate', 'Confirmation Number', 'Email', 'Phone'],
+      noShows.map(c => [
+        formatDateForIST(c.examDate!),
+        c.clientName || '',
+        c.examName || '',
+        c.fullName,
+        c.confirmationNumber,
+        c.email,
+        c.phone || ''
+      ])
+    )
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <div className="modern-card p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">No-show Report</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">From</label>
+              <input
+                type="date"
+                className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent bg-white text-gray-900"
+                value={fromDate}
+                onChange={(e) => setFromDate(e.target.value)}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">To</label>
+              <input
+                type="date"
+                className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent bg-white text-gray-900"
+                value={toDate}
+                onChange={(e) => setToDate(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {loading ? (
+            <p className="text-gray-500 text-sm">Loading report...</p>
+          ) : clientRows.length === 0 ? (
+            <p className="text-gray-500 text-sm">No candidates were booked in this period.</p>
+          ) : (
+            <div className="border border-gray-200 rounded-lg overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-gray-500 text-xs uppercase tracking-wide">
+                  <tr>
+                    <th className="text-left px-4 py-2">Client</th>
+                    <th className="text-right px-4 py-2">Booked</th>
+                    <th className="text-right px-4 py-2">No Shows</th>
+                    <th className="text-right px-4 py-2">Rate</th>
+                    <th className="text-right px-4 py-2">Late</th>
+                    <th className="text-right px-4 py-2">Overrides</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {clientRows.map(row => (
+                    <tr key={row.clientName}>
+                      <td className="px-4 py-2 font-medium text-gray-900">{row.clientName}</td>
+                      <td className="px-4 py-2 text-right text-gray-700">{row.booked}</td>
+                      <td className="px-4 py-2 text-right text-red-600 font-medium">{row.noShows}</td>
+                      <td className="px-4 py-2 text-right text-gray-700">{formatRate(row.noShows, row.booked)}</td>
+                      <td className="px-4 py-2 text-right text-orange-600">{row.late}</td>
+                      <td className="px-4 py-2 text-right text-gray-700">{row.overrides}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {noShows.length > 0 && (
+            <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-72 overflow-y-auto">
+              {noShows.map(candidate => (
+                <div key={candidate.id} className="flex items-center justify-between px-4 py-2 text-sm">
+                  <div>
+                    <p className="font-medium text-gray-900">{candidate.fullName}</p>
+                    <p className="text-gray-500">{candidate.clientName || 'Unassigned'} · {candidate.examName || 'Exam Session'}</p>
+                  </div>
+                  <div className="text-right">
+                    <p className="font-mono text-gray-700">{candidate.confirmationNumber}</p>
+                    <p className="text-gray-500">{formatDateForIST(candidate.examDate!)}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end space-x-4 mt-6">
+          <button onClick={onClose} className="btn-tertiary-modern">
+            Close
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={noShows.length === 0}
+            className="btn-primary-modern flex items-center"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Export No Shows
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
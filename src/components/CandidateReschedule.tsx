@@ -0,0 +1,127 @@
+import { useState } from 'react'
+import { X, CalendarClock } from 'lucide-react'
+import { supabase } from '../lib/supabase'
+import type { Candidate } from './CandidateTracker'
+import { SessionOption, formatSessionOption, validateSessionCapacity } from '../utils/sessionUtils'
+
+interface CandidateRescheduleProps {
+  candidate: Candidate
+  sessions: SessionOption[]
+  onClose: () => void
+  onRescheduled: () => void
+}
+
+export function CandidateReschedule({ candidate, sessions, onClose, onRescheduled }: CandidateRescheduleProps) {
+  const [sessionId, setSessionId] = useState('')
+  const [reason, setReason] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const handleReschedule = async () => {
+    const targetId = Number(sessionId)
+    if (!targetId || !reason.trim()) return
+
+    setSaving(true)
+    try {
+      // Re-read the booked count; the database makes the final check when the booking moves
+      const { data: session, error: sessionError } = await supabase
+        .from('sessions')
+        .select('candidate_count, capacity')
+        .eq('id', targetId)
+        .single()
+
+      if (sessionError) throw sessionError
+      const validation = validateSessionCapacity(session.candidate_count + 1, session.capacity)
+      if (!validation.isValid) {
+        alert(`This session is full. ${validation.error}`)
+        return
+      }
+
+      const { error } = await supabase.rpc('reschedule_candidate', {
+        p_candidate_id: candidate.id,
+        p_to_session_id: targetId,
+        p_reason: reason.trim()
+      })
+
+      if (error) throw error
+      onRescheduled()
+    } catch (error: any) {
+      console.error('Error rescheduling candidate:', error)
+      alert('Failed to reschedule candidate: ' + error.message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <div className="modern-card p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">Reschedule Candidate</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div className="p-4 bg-gray-50 rounded-lg text-sm">
+            <p className="font-medium text-gray-900">{candidate.fullName}</p>
+            <p className="text-gray-600">
+              Current booking: {candidate.examName || 'Not specified'}
+              {candidate.examDate ? `, ${candidate.examDate.toLocaleString()}` : ''}
+            </p>
+            {candidate.status === 'no_show' && (
+              <p className="text-orange-600 mt-1">This no-show will be registered again for the new session.</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">New Session *</label>
+            <select
+              className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent bg-white text-gray-900"
+              value={sessionId}
+              onChange={(e) => setSessionId(e.target.value)}
+            >
+              <option value="">Select a session</option>
+              {sessions.map(session => (
+                <option
+                  key={session.id}
+                  value={session.id}
+                  disabled={session.id === candidate.sessionId || !validateSessionCapacity(session.candidate_count + 1, session.capacity).isValid}
+                >
+                  {formatSessionOption(session)}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Reason *</label>
+            <textarea
+              className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent bg-white text-gray-900 placeholder-gray-500 h-24 resize-none"
+              placeholder="e.g. Candidate requested a later date, client moved the exam"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end space-x-4 mt-6">
+          <button onClick={onClose} className="btn-tertiary-modern">
+            Cancel
+          </button>
+          <button
+            onClick={handleReschedule}
+            disabled={saving || !sessionId || !reason.trim()}
+            className="btn-primary-modern flex items-center"
+          >
+            <CalendarClock className="h-4 w-4 mr-2" />
+            {saving ? 'Rescheduling...' : 'Reschedule'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,325 @@
+import { useState, useEffect } from 'react'
+import { Plus, Trash2, Hash, Lock, ShieldCheck } from 'lucide-react'
+import { supabase } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
+import { CENTRE_CODE, DEFAULT_CONFIRMATION_PREFIX } from '../utils/confirmationNumbers'
+import { DEFAULT_PHOTO_RETENTION_DAYS, MAX_PHOTO_RETENTION_DAYS, validatePhotoRetentionDays } from '../utils/idVerification'
+
+interface ConfirmationPrefix {
+  client_name: string
+  prefix: string
+}
+
+const PREFIX_PATTERN = /^[A-Z0-9]{2,6}$/
+
+export function CandidateSettings() {
+  const { user, profile } = useAuth()
+  const [prefixes, setPrefixes] = useState<ConfirmationPrefix[]>([])
+  const [newPrefix, setNewPrefix] = useState<ConfirmationPrefix>({ client_name: '', prefix: '' })
+  const [loading, setLoading] = useState(true)
+  const [message, setMessage] = useState('')
+  const [kioskPinConfigured, setKioskPinConfigured] = useState(false)
+  const [newKioskPin, setNewKioskPin] = useState('')
+  const [photoRetentionDays, setPhotoRetentionDays] = useState(String(DEFAULT_PHOTO_RETENTION_DAYS))
+
+  const canEdit = profile?.role === 'admin' || profile?.role === 'super_admin'
+
+  useEffect(() => {
+    loadPrefixes()
+    loadKioskPinStatus()
+    loadPhotoRetention()
+  }, [])
+
+  const showMessage = (text: string) => {
+    setMessage(text)
+    setTimeout(() => setMessage(''), 3000)
+  }
+
+  const loadPrefixes = async () => {
+    try {
+      setLoading(true)
+      const { data, error } = await supabase
+        .from('candidate_confirmation_prefixes')
+        .select('client_name, prefix')
+        .order('client_name')
+
+      if (error) throw error
+      setPrefixes(data || [])
+    } catch (error) {
+      console.error('Error loading confirmation prefixes:', error)
+      showMessage('Error loading confirmation prefixes')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const savePrefix = async (entry: ConfirmationPrefix) => {
+    const clientName = entry.client_name.trim()
+    const prefix = entry.prefix.trim().toUpperCase()
+    if (!clientName || !PREFIX_PATTERN.test(prefix)) {
+      showMessage('Error: prefixes must be 2-6 letters or digits')
+      return
+    }
+
+    try {
+      const { error } = await supabase
+        .from('candidate_confirmation_prefixes')
+        .upsert({
+          client_name: clientName,
+          prefix,
+          updated_by: user?.id,
+          updated_at: new Date().toISOString()
+        })
+
+      if (error) throw error
+      setNewPrefix({ client_name: '', prefix: '' })
+      showMessage('Prefix saved')
+      await loadPrefixes()
+    } catch (error: any) {
+      console.error('Error saving confirmation prefix:', error)
+      showMessage('Error saving prefix: ' + error.message)
+    }
+  }
+
+  const loadKioskPinStatus = async () => {
+    const { data, error } = await supabase.rpc('kiosk_pin_configured', { p_centre_code: CENTRE_CODE })
+    if (error) {
+      console.error('Error loading kiosk PIN status:', error)
+      return
+    }
+    setKioskPinConfigured(!!data)
+  }
+
+  const saveKioskPin = async () => {
+    if (!/^\d{4,8}$/.test(newKioskPin)) {
+      showMessage('Error: the kiosk PIN must be 4 to 8 digits')
+      return
+    }
+
+    try {
+      const { error } = await supabase.rpc('set_kiosk_pin', { p_centre_code: CENTRE_CODE, p_pin: newKioskPin })
+      if (error) throw error
+      setNewKioskPin('')
+      setKioskPinConfigured(true)
+      showMessage('Kiosk PIN saved')
+    } catch (error: any) {
+      console.error('Error saving kiosk PIN:', error)
+      showMessage('Error saving kiosk PIN: ' + error.message)
+    }
+  }
+
+  const loadPhotoRetention = async () => {
+    const { data, error } = await supabase
+      .from('id_verification_settings')
+      .select('photo_retention_days')
+      .eq('centre_code', CENTRE_CODE)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error loading ID photo retention:', error)
+      return
+    }
+    if (data) setPhotoRetentionDays(String(data.photo_retention_days))
+  }
+
+  const savePhotoRetention = async () => {
+    const days = Number(photoRetentionDays)
+    const validationError = validatePhotoRetentionDays(days)
+    if (validationError) {
+      showMessage(`Error: ${validationError}`)
+      return
+    }
+
+    try {
+      const { error } = await supabase
+        .from('id_verification_settings')
+        .upsert({
+          centre_code: CENTRE_CODE,
+          photo_retention_days: days,
+          updated_by: user?.id,
+          updated_at: new Date().toISOString()
+        })
+
+      if (error) throw error
+      showMessage('Photo retention saved')
+    } catch (error: any) {
+      console.error('Error saving ID photo retention:', error)
+      showMessage('Error saving photo retention: ' + error.message)
+    }
+  }
+
+  const deletePrefix = async (clientName: string) => {
+    if (!window.confirm(`Remove the prefix for ${clientName}? New candidates will use ${DEFAULT_CONFIRMATION_PREFIX}.`)) return
+
+    try {
+      const { error } = await supabase
+        .from('candidate_confirmation_prefixes')
+        .delete()
+        .eq('client_name', clientName)
+
+      if (error) throw error
+      await loadPrefixes()
+    } catch (error: any) {
+      console.error('Error deleting confirmation prefix:', error)
+      showMessage('Error deleting prefix: ' + error.message)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-white">Candidate Settings</h2>
+        {message && (
+          <span className={`text-sm ${message.includes('Error') ? 'text-red-400' : 'text-green-400'}`}>{message}</span>
+        )}
+      </div>
+
+      <div className="p-4 rounded-lg bg-white/5 space-y-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white flex items-center">
+            <Hash className="h-5 w-5 mr-2 text-yellow-400" />
+            Confirmation Number Prefixes
+          </h3>
+          <p className="text-sm text-gray-400 mt-1">
+            Numbers are issued in sequence per client prefix, centre ({CENTRE_CODE}) and year, with a check character
+            that catches typos at the desk. Clients without a prefix use {DEFAULT_CONFIRMATION_PREFIX}.
+            Changing a prefix only affects candidates registered afterwards.
+          </p>
+        </div>
+
+        {loading ? (
+          <p className="text-gray-400 text-sm">Loading...</p>
+        ) : (
+          <div className="space-y-2">
+            {prefixes.map(entry => (
+              <div key={entry.client_name} className="flex items-center gap-3">
+                <span className="flex-1 text-white">{entry.client_name}</span>
+                <input
+                  type="text"
+                  className="w-28 px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-white uppercase"
+                  defaultValue={entry.prefix}
+                  disabled={!canEdit}
+                  onBlur={(e) => {
+                    if (e.target.value.toUpperCase() !== entry.prefix) {
+                      savePrefix({ ...entry, prefix: e.target.value })
+                    }
+                  }}
+                />
+                {canEdit && (
+                  <button
+                    onClick={() => deletePrefix(entry.client_name)}
+                    className="p-2 text-red-400 hover:text-red-300"
+                    title="Remove prefix"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+            {prefixes.length === 0 && (
+              <p className="text-gray-400 text-sm">No client prefixes configured yet.</p>
+            )}
+          </div>
+        )}
+
+        {canEdit && (
+          <div className="flex items-center gap-3 pt-2 border-t border-white/10">
+            <input
+              type="text"
+              placeholder="Client name, e.g. ETS"
+              className="flex-1 px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-white placeholder-gray-500"
+              value={newPrefix.client_name}
+              onChange={(e) => setNewPrefix({ ...newPrefix, client_name: e.target.value })}
+            />
+            <input
+              type="text"
+              placeholder="Prefix"
+              className="w-28 px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-white placeholder-gray-500 uppercase"
+              value={newPrefix.prefix}
+              onChange={(e) => setNewPrefix({ ...newPrefix, prefix: e.target.value })}
+            />
+            <button
+              onClick={() => savePrefix(newPrefix)}
+              className="golden-button flex items-center space-x-2"
+              disabled={!newPrefix.client_name.trim() || !newPrefix.prefix.trim()}
+            >
+              <Plus className="h-4 w-4" />
+              <span>Add</span>
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="p-4 rounded-lg bg-white/5 space-y-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white flex items-center">
+            <Lock className="h-5 w-5 mr-2 text-yellow-400" />
+            Check-in Kiosk Exit PIN
+          </h3>
+          <p className="text-sm text-gray-400 mt-1">
+            Staff enter this PIN to leave self check-in kiosk mode. Kiosk mode cannot be started until a PIN is set.
+          </p>
+          <p className={`text-sm mt-2 ${kioskPinConfigured ? 'text-green-400' : 'text-orange-400'}`}>
+            {kioskPinConfigured ? `A PIN is set for ${CENTRE_CODE}` : `No PIN set for ${CENTRE_CODE}`}
+          </p>
+        </div>
+
+        {canEdit && (
+          <div className="flex items-center gap-3 pt-2 border-t border-white/10">
+            <input
+              type="password"
+              inputMode="numeric"
+              placeholder={kioskPinConfigured ? 'New PIN' : 'PIN (4-8 digits)'}
+              className="flex-1 px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-white placeholder-gray-500"
+              value={newKioskPin}
+              maxLength={8}
+              onChange={(e) => setNewKioskPin(e.target.value.replace(/\D/g, ''))}
+            />
+            <button
+              onClick={saveKioskPin}
+              className="golden-button flex items-center space-x-2"
+              disabled={newKioskPin.length < 4}
+            >
+              <Lock className="h-4 w-4" />
+              <span>{kioskPinConfigured ? 'Change PIN' : 'Set PIN'}</span>
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="p-4 rounded-lg bg-white/5 space-y-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white flex items-center">
+            <ShieldCheck className="h-5 w-5 mr-2 text-yellow-400" />
+            ID Verification Photos
+          </h3>
+          <p className="text-sm text-gray-400 mt-1">
+            Webcam photos taken at check-in are deleted after this many days. The ID type and last 4 digits stay on record.
+          </p>
+        </div>
+
+        <div className="flex items-center gap-3 pt-2 border-t border-white/10">
+          <input
+            type="number"
+            min={1}
+            max={MAX_PHOTO_RETENTION_DAYS}
+            className="w-32 px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-white"
+            value={photoRetentionDays}
+            onChange={(e) => setPhotoRetentionDays(e.target.value)}
+            disabled={!canEdit}
+          />
+          <span className="text-sm text-gray-400">days</span>
+          {canEdit && (
+            <button
+              onClick={savePhotoRetention}
+              className="golden-button flex items-center space-x-2"
+            >
+              <ShieldCheck className="h-4 w-4" />
+              <span>Save</span>
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,18 +1,46 @@
-import { useState, useEffect } from 'react'
-import { Users, Plus, Search, Filter, Eye, Edit, UserCheck, UserX, Clock, Phone, Mail, X, Calendar, Upload, Trash2 } from 'lucide-react'
+import { useState, useEffect, useRef } from 'react'
+import { Users, Plus, Search, Filter, Eye, ArrowUpDown, ChevronLeft, ChevronRight, Edit, UserCheck, UserX, Clock, Phone, Mail, X, Calendar, Upload, Ban, Copy, History, Undo2, Monitor, Printer, Download, AlarmClock, Accessibility, CalendarClock, ShieldCheck, Camera } from 'lucide-react'
 import { supabase } from '../lib/supabase'
 import { useAuth } from '../contexts/AuthContext'
-
-interface Candidate {
+import { CandidateBulkUpload } from './CandidateBulkUpload'
+import { CandidateDuplicates } from './CandidateDuplicates'
+import { CandidateAdmissionSlips } from './CandidateAdmissionSlips'
+import { CandidateNoShowReport } from './CandidateNoShowReport'
+import { CandidateAccommodations } from './CandidateAccommodations'
+import { CandidateReschedule } from './CandidateReschedule'
+import { CandidateBulkActions } from './CandidateBulkActions'
+import { CandidateIdCheck } from './CandidateIdCheck'
+import { CandidateExport } from './CandidateExport'
+import { describeDuplicateMatches, findDuplicateMatches, findDuplicatePairs, getDuplicatePairKey } from '../utils/candidateDuplicates'
+import { CANDIDATE_PAGE_SIZE, CANDIDATE_SORT_OPTIONS, CandidateListFilters, CandidateSortColumn, formatPageRange, parseCandidateFilters, serializeCandidateFilters } from '../utils/candidateListFilters'
+import { ID_VERIFICATION_PHOTOS_BUCKET, formatIdType, maskIdNumber } from '../utils/idVerification'
+import { IdCheckDetails, purgeExpiredIdPhotos, recordIdVerification } from '../lib/idVerification'
+import { CandidateOverview, fetchApprovedAccommodations, fetchCandidateOverview, fetchCandidatePage, fetchDuplicateCandidates, fetchUpcomingCandidates } from '../lib/candidateList'
+import { CENTRE_CODE } from '../utils/confirmationNumbers'
+import { applyStatusChange, findCandidateByConfirmationNumber } from '../lib/candidateCheckIn'
+import { downloadAdmissionSlipsPdf, printAdmissionSlips } from '../utils/admissionSlips'
+import { SessionOption, formatSessionOption, getSessionStart, validateSessionCapacity } from '../utils/sessionUtils'
+import { getCurrentISTDateString } from '../utils/dateUtils'
+import { CandidateStatus, formatCandidateStatus, getAllowedTransitions, getTransition, validateStatusTransition } from '../utils/candidateStatus'
+import { AttendancePolicy, checkArrival, formatPolicyTime, getAttendancePolicy } from '../utils/attendancePolicy'
+
+export interface Candidate {
   id: string
   fullName: string
   email: string
   phone?: string
   examDate?: Date
   examName?: string
-  status: 'registered' | 'checked_in' | 'in_progress' | 'completed' | 'no_show' | 'cancelled'
+  clientName?: string
+  sessionId?: number
+  status: CandidateStatus
   confirmationNumber: string
   checkInTime?: Date
+  // Minutes after the exam start the candidate checked in
+  lateMinutes?: number
+  lateOverrideReason?: string
+  // Approved accommodations, formatted for display
+  accommodations?: string[]
   notes?: string
   createdAt: Date
 }
@@ -27,12 +55,41 @@ interface ModernStatsCardProps {
   clickable?: boolean
 }
 
+interface StatusHistoryEntry {
+  id: string
+  fromStatus: CandidateStatus | null
+  toStatus: CandidateStatus
+  reason?: string
+  isRevert: boolean
+  changedBy?: string
+  changedAt: Date
+}
+
+interface RescheduleEntry {
+  id: string
+  fromLabel: string
+  toLabel: string
+  reason: string
+  rescheduledBy?: string
+  rescheduledAt: Date
+}
+
+interface IdVerificationEntry {
+  id: string
+  idType: string
+  idLast4: string
+  photoPath?: string
+  photoPurgedAt?: Date
+  verifiedBy: string
+  verifiedAt: Date
+}
+
+type CheckInCandidate = Pick<Candidate, 'id' | 'status' | 'examDate' | 'clientName' | 'fullName'>
+
 interface EditCandidateData {
   fullName: string
   email: string
   phone: string
-  examDate: string
-  examName: string
   notes: string
 }
 
@@ -67,73 +124,173 @@ function ModernStatsCard({
   )
 }
 
-export function CandidateTracker() {
-  const { user } = useAuth()
+interface CandidateTrackerProps {
+  onStartKiosk?: () => void
+}
+
+export function CandidateTracker({ onStartKiosk }: CandidateTrackerProps = {}) {
+  const { user, profile } = useAuth()
   const [candidates, setCandidates] = useState<Candidate[]>([])
   const [selectedCandidate, setSelectedCandidate] = useState<Candidate | null>(null)
   const [showNewCandidateModal, setShowNewCandidateModal] = useState(false)
   const [showEditCandidateModal, setShowEditCandidateModal] = useState(false)
   const [showDetailsModal, setShowDetailsModal] = useState(false)
   const [showBulkUploadModal, setShowBulkUploadModal] = useState(false)
-  const [searchQuery, setSearchQuery] = useState('')
-  const [filterStatus, setFilterStatus] = useState('all')
-  const [filterDate, setFilterDate] = useState('')
-  const [uploadFile, setUploadFile] = useState<File | null>(null)
-  const [uploadProgress, setUploadProgress] = useState(0)
-  const [uploadStatus, setUploadStatus] = useState<'idle' | 'uploading' | 'success' | 'error'>('idle')
-  const [uploadResults, setUploadResults] = useState<{ success: number; errors: string[] }>({ success: 0, errors: [] })
+  const [showDuplicatesModal, setShowDuplicatesModal] = useState(false)
+  const [showAdmissionSlipsModal, setShowAdmissionSlipsModal] = useState(false)
+  const [showNoShowReport, setShowNoShowReport] = useState(false)
+  const [showExportModal, setShowExportModal] = useState(false)
+  const [attendancePolicies, setAttendancePolicies] = useState<AttendancePolicy[]>([])
+  const [dismissedPairs, setDismissedPairs] = useState<Set<string>>(new Set())
+  // Filters live in the URL so a filtered view can be shared or bookmarked
+  const [filters, setFilters] = useState<CandidateListFilters>(() => parseCandidateFilters(window.location.search))
+  const [searchInput, setSearchInput] = useState(filters.search)
+  const [totalCandidates, setTotalCandidates] = useState(0)
+  const [overview, setOverview] = useState<CandidateOverview | null>(null)
+  const [upcomingCandidates, setUpcomingCandidates] = useState<Candidate[]>([])
+  const [clientOptions, setClientOptions] = useState<string[]>([])
   const [loading, setLoading] = useState(true)
+  const [listLoading, setListLoading] = useState(false)
+  // Selection is kept across pages so a group can be built up before acting on it
+  const [selection, setSelection] = useState<Map<string, Candidate>>(new Map())
+  const [sessionOptions, setSessionOptions] = useState<SessionOption[]>([])
+  const [deskConfirmationNumber, setDeskConfirmationNumber] = useState('')
+  const [deskMessage, setDeskMessage] = useState<{ type: 'success' | 'error'; text: string; accommodations?: string[] } | null>(null)
+  const [statusHistory, setStatusHistory] = useState<StatusHistoryEntry[]>([])
+  const [historyLoading, setHistoryLoading] = useState(false)
   const [newCandidate, setNewCandidate] = useState({
     fullName: '',
     email: '',
     phone: '',
-    examDate: '',
-    examName: '',
+    sessionId: '',
     notes: ''
   })
   const [editCandidate, setEditCandidate] = useState<EditCandidateData>({
     fullName: '',
     email: '',
     phone: '',
-    examDate: '',
-    examName: '',
     notes: ''
   })
+  const [rescheduleCandidate, setRescheduleCandidate] = useState<Candidate | null>(null)
+  const [rescheduleHistory, setRescheduleHistory] = useState<RescheduleEntry[]>([])
+  const [idVerifications, setIdVerifications] = useState<IdVerificationEntry[]>([])
+  const [idCheck, setIdCheck] = useState<{ candidate: CheckInCandidate; onCheckedIn?: () => Promise<void> | void } | null>(null)
 
   useEffect(() => {
     loadCandidates()
   }, [])
 
+  // The first page is loaded by loadCandidates, once no-shows are up to date
+  const initialFiltersLoaded = useRef(false)
+  useEffect(() => {
+    const params = serializeCandidateFilters(filters)
+    params.set('tab', 'candidate-tracker')
+    window.history.replaceState(null, '', `?${params.toString()}`)
+
+    if (!initialFiltersLoaded.current) {
+      initialFiltersLoaded.current = true
+      return
+    }
+    loadCandidatePage()
+  }, [filters])
+
+  // Search runs once typing pauses rather than on every keystroke
+  useEffect(() => {
+    if (searchInput === filters.search) return
+    const timer = setTimeout(() => updateFilters({ search: searchInput }), 300)
+    return () => clearTimeout(timer)
+  }, [searchInput])
+
+  const updateFilters = (changes: Partial<CandidateListFilters>) => {
+    // Any change other than paging starts again from the first page
+    setFilters(prev => ({ ...prev, page: 1, ...changes }))
+  }
+
+  const loadCandidatePage = async () => {
+    try {
+      setListLoading(true)
+      const page = await fetchCandidatePage(filters)
+      // A page beyond the end (e.g. after a shared link goes stale) falls back to the last page
+      if (page.candidates.length === 0 && page.total > 0 && filters.page > 1) {
+        updateFilters({ page: Math.ceil(page.total / CANDIDATE_PAGE_SIZE) })
+        return
+      }
+      setCandidates(page.candidates)
+      setTotalCandidates(page.total)
+      // Keep selected candidates in step with their latest status
+      setSelection(prev => {
+        if (!page.candidates.some(c => prev.has(c.id))) return prev
+        const next = new Map(prev)
+        for (const candidate of page.candidates) {
+          if (next.has(candidate.id)) next.set(candidate.id, candidate)
+        }
+        return next
+      })
+    } catch (error) {
+      console.error('Error loading candidates:', error)
+    } finally {
+      setListLoading(false)
+    }
+  }
+
   const loadCandidates = async () => {
     try {
-      setLoading(true)
       console.log('Loading candidates from Supabase...')
-      const { data: candidatesData, error } = await supabase
-        .from('candidates')
-        .select('*')
-        .order('created_at', { ascending: false })
+      // Catch up on no-shows in case the scheduled job is not running
+      const { error: noShowError } = await supabase.rpc('mark_no_shows')
+      if (noShowError) {
+        console.error('Error marking no-shows:', noShowError)
+      }
+      // ID photos are removed from storage here; the database cannot delete stored files itself
+      purgeExpiredIdPhotos().catch(error => console.error('Error purging expired ID photos:', error))
 
-      if (error) {
-        console.error('Error loading candidates:', error)
-        return
+      await loadCandidatePage()
+
+      try {
+        setOverview(await fetchCandidateOverview())
+      } catch (error) {
+        console.error('Error loading candidate overview:', error)
+      }
+
+      try {
+        setUpcomingCandidates(await fetchUpcomingCandidates())
+      } catch (error) {
+        console.error('Error loading upcoming candidates:', error)
+      }
+
+      const { data: dismissalsData, error: dismissalsError } = await supabase
+        .from('candidate_duplicate_dismissals')
+        .select('candidate_a, candidate_b')
+
+      if (dismissalsError) {
+        console.error('Error loading duplicate dismissals:', dismissalsError)
+      } else {
+        setDismissedPairs(new Set((dismissalsData || []).map(d => getDuplicatePairKey(d.candidate_a, d.candidate_b))))
+      }
+
+      const { data: policiesData, error: policiesError } = await supabase
+        .from('clients')
+        .select('client_name:name, aliases, late_grace_minutes, no_show_after_minutes')
+
+      if (policiesError) {
+        console.error('Error loading clients:', policiesError)
+      } else {
+        setAttendancePolicies(policiesData || [])
+        setClientOptions((policiesData || []).map(client => client.client_name).sort())
       }
 
-      if (candidatesData) {
-        const formattedCandidates: Candidate[] = candidatesData.map(candidate => ({
-          id: candidate.id,
-          fullName: candidate.full_name,
-          email: candidate.email,
-          phone: candidate.phone,
-          examDate: candidate.exam_date ? new Date(candidate.exam_date) : undefined,
-          examName: candidate.exam_name || 'Exam Session',
-          status: candidate.status,
-          confirmationNumber: candidate.confirmation_number || generateConfirmationNumber(),
-          checkInTime: candidate.check_in_time ? new Date(candidate.check_in_time) : undefined,
-          notes: candidate.notes,
-          createdAt: new Date(candidate.created_at)
-        }))
-        setCandidates(formattedCandidates)
-        console.log(`Loaded ${formattedCandidates.length} candidates`)
+      // Upcoming sessions candidates can be booked into
+      const { data: sessionsData, error: sessionsError } = await supabase
+        .from('sessions')
+        .select('id, client_name, exam_name, date, start_time, end_time, candidate_count, capacity')
+        .gte('date', getCurrentISTDateString())
+        .order('date', { ascending: true })
+        .order('start_time', { ascending: true })
+
+      if (sessionsError) {
+        console.error('Error loading sessions:', sessionsError)
+      } else {
+        setSessionOptions(sessionsData || [])
       }
     } catch (error) {
       console.error('Error loading candidates:', error)
@@ -142,28 +299,63 @@ export function CandidateTracker() {
     }
   }
 
-  const generateConfirmationNumber = () => {
-    const prefix = 'EXAM'
-    const year = new Date().getFullYear()
-    const random = Math.floor(Math.random() * 1000).toString().padStart(3, '0')
-    return `${prefix}${year}-${random}`
+  // Re-read the session's booked count so the check reflects registrations made elsewhere
+  const checkSessionHasSeat = async (sessionId: number): Promise<boolean> => {
+    const { data: session, error } = await supabase
+      .from('sessions')
+      .select('candidate_count, capacity')
+      .eq('id', sessionId)
+      .single()
+
+    if (error) {
+      console.error('Error checking session capacity:', error)
+      alert('Failed to check session capacity: ' + error.message)
+      return false
+    }
+
+    const validation = validateSessionCapacity(session.candidate_count + 1, session.capacity)
+    if (!validation.isValid) {
+      alert(`This session is full. ${validation.error}`)
+      return false
+    }
+    return true
   }
 
   const handleCreateCandidate = async () => {
+    const session = sessionOptions.find(s => s.id === Number(newCandidate.sessionId))
+    if (!session) {
+      alert('Please choose the exam session for this candidate.')
+      return
+    }
+
     try {
-      const confirmationNumber = generateConfirmationNumber()
-      
+      const record = {
+        fullName: newCandidate.fullName,
+        email: newCandidate.email,
+        phone: newCandidate.phone,
+        examDate: getSessionStart(session)
+      }
+      const matches = findDuplicateMatches(record, await fetchDuplicateCandidates(record))
+
+      if (matches.length > 0 && !window.confirm(
+        `${describeDuplicateMatches(matches.slice(0, 3)).join('\n')}\n\nRegister this candidate anyway?`
+      )) {
+        return
+      }
+
+      if (!(await checkSessionHasSeat(session.id))) return
+
       console.log('Creating new candidate...')
+      // Exam name, client and date are copied from the session by the database
       const { data, error } = await supabase
         .from('candidates')
         .insert({
           full_name: newCandidate.fullName,
           email: newCandidate.email,
           phone: newCandidate.phone || null,
-          exam_date: newCandidate.examDate ? new Date(newCandidate.examDate).toISOString() : null,
-          exam_name: newCandidate.examName || null,
+          session_id: session.id,
+          centre_code: CENTRE_CODE,
           status: 'registered',
-          confirmation_number: confirmationNumber,
           notes: newCandidate.notes || null,
           user_id: user?.id
         })
@@ -180,9 +372,9 @@ export function CandidateTracker() {
         console.log('Candidate created successfully!')
         await loadCandidates()
         
-        setNewCandidate({ fullName: '', email: '', phone: '', examDate: '', examName: '', notes: '' })
+        setNewCandidate({ fullName: '', email: '', phone: '', sessionId: '', notes: '' })
         setShowNewCandidateModal(false)
-        alert('Candidate created successfully!')
+        alert(`Candidate created successfully! Confirmation number: ${data.confirmation_number}`)
       }
     } catch (error) {
       console.error('Error creating candidate:', error)
@@ -193,6 +385,7 @@ export function CandidateTracker() {
   const handleEditCandidate = async () => {
     if (!selectedCandidate) return
 
+    // Session changes go through handleReschedule so the original booking is kept
     try {
       console.log('Updating candidate...')
       const { error } = await supabase
@@ -201,8 +394,6 @@ export function CandidateTracker() {
           full_name: editCandidate.fullName,
           email: editCandidate.email,
           phone: editCandidate.phone || null,
-          exam_date: editCandidate.examDate ? new Date(editCandidate.examDate).toISOString() : null,
-          exam_name: editCandidate.examName || null,
           notes: editCandidate.notes || null
         })
         .eq('id', selectedCandidate.id)
@@ -224,210 +415,317 @@ export function CandidateTracker() {
     }
   }
 
-  const handleDeleteCandidate = async (candidateId: string, candidateName: string) => {
-    if (!window.confirm(`Are you sure you want to delete candidate "${candidateName}"? This action cannot be undone.`)) {
+  // Cancelled candidates stay on record and can be reinstated from the details view
+  const handleCancelCandidate = async (candidate: Candidate) => {
+    const reason = window.prompt(`Cancel ${candidate.fullName}'s booking? Please enter a reason:`)
+    if (reason === null) return
+    if (!reason.trim()) {
+      alert('A reason is required to cancel a booking')
       return
     }
 
-    try {
-      console.log('Deleting candidate...')
-      const { error } = await supabase
-        .from('candidates')
-        .delete()
-        .eq('id', candidateId)
-
-      if (error) {
-        console.error('Error deleting candidate:', error)
-        alert('Failed to delete candidate: ' + error.message)
-        return
-      }
-      
-      console.log('Candidate deleted successfully!')
-      await loadCandidates()
-      alert('Candidate deleted successfully!')
-    } catch (error) {
-      console.error('Error deleting candidate:', error)
-      alert('Failed to delete candidate. Please try again.')
+    if (await handleUpdateStatus(candidate, 'cancelled', reason)) {
+      alert('Booking cancelled. The seat has been released.')
     }
   }
 
+  const handleRescheduled = async () => {
+    setRescheduleCandidate(null)
+    await loadCandidates()
+    alert('Candidate rescheduled successfully!')
+  }
+
   const openEditModal = (candidate: Candidate) => {
     setSelectedCandidate(candidate)
     setEditCandidate({
       fullName: candidate.fullName,
       email: candidate.email,
       phone: candidate.phone || '',
-      examDate: candidate.examDate ? candidate.examDate.toISOString().slice(0, 16) : '',
-      examName: candidate.examName || '',
       notes: candidate.notes || ''
     })
     setShowEditCandidateModal(true)
   }
 
-  const handleUpdateStatus = async (candidateId: string, newStatus: Candidate['status']) => {
+  const loadStatusHistory = async (candidateId: string) => {
     try {
-      const updateData: any = { status: newStatus }
-      if (newStatus === 'checked_in') {
-        updateData.check_in_time = new Date().toISOString()
+      setHistoryLoading(true)
+      const [
+        { data, error },
+        { data: reschedulesData, error: reschedulesError },
+        { data: verificationsData, error: verificationsError }
+      ] = await Promise.all([
+        supabase
+          .from('candidate_status_history')
+          .select('*')
+          .eq('candidate_id', candidateId)
+          .order('changed_at', { ascending: true }),
+        supabase
+          .from('candidate_reschedules')
+          .select('*')
+          .eq('candidate_id', candidateId)
+          .order('rescheduled_at', { ascending: true }),
+        supabase
+          .from('candidate_id_verifications')
+          .select('*')
+          .eq('candidate_id', candidateId)
+          .order('verified_at', { ascending: false })
+      ])
+
+      if (error) throw error
+      if (reschedulesError) throw reschedulesError
+      if (verificationsError) throw verificationsError
+
+      const userIds = [...new Set([
+        ...(data || []).map(entry => entry.changed_by),
+        ...(reschedulesData || []).map(entry => entry.rescheduled_by),
+        ...(verificationsData || []).map(entry => entry.verified_by)
+      ].filter(Boolean))]
+      const names = new Map<string, string>()
+      if (userIds.length > 0) {
+        const { data: profilesData, error: profilesError } = await supabase
+          .from('profiles')
+          .select('user_id, full_name')
+          .in('user_id', userIds)
+
+        if (profilesError) {
+          console.error('Error loading staff names:', profilesError)
+        }
+        (profilesData || []).forEach(p => names.set(p.user_id, p.full_name))
       }
 
-      const { error } = await supabase
-        .from('candidates')
-        .update(updateData)
-        .eq('id', candidateId)
+      setStatusHistory((data || []).map(entry => ({
+        id: entry.id,
+        fromStatus: entry.from_status,
+        toStatus: entry.to_status,
+        reason: entry.reason || undefined,
+        isRevert: entry.is_revert,
+        changedBy: entry.changed_by ? names.get(entry.changed_by) || 'Staff member' : undefined,
+        changedAt: new Date(entry.changed_at)
+      })))
+
+      const formatBooking = (examName: string | null, examDate: string | null) =>
+        `${examName || 'Not specified'}${examDate ? `, ${new Date(examDate).toLocaleString()}` : ''}`
+      setRescheduleHistory((reschedulesData || []).map(entry => ({
+        id: entry.id,
+        fromLabel: formatBooking(entry.from_exam_name, entry.from_exam_date),
+        toLabel: formatBooking(entry.to_exam_name, entry.to_exam_date),
+        reason: entry.reason,
+        rescheduledBy: entry.rescheduled_by ? names.get(entry.rescheduled_by) || 'Staff member' : undefined,
+        rescheduledAt: new Date(entry.rescheduled_at)
+      })))
+
+      setIdVerifications((verificationsData || []).map(entry => ({
+        id: entry.id,
+        idType: entry.id_type,
+        idLast4: entry.id_last4,
+        photoPath: entry.photo_path || undefined,
+        photoPurgedAt: entry.photo_purged_at ? new Date(entry.photo_purged_at) : undefined,
+        verifiedBy: names.get(entry.verified_by) || 'Staff member',
+        verifiedAt: new Date(entry.verified_at)
+      })))
+    } catch (error) {
+      console.error('Error loading status history:', error)
+      setStatusHistory([])
+      setRescheduleHistory([])
+      setIdVerifications([])
+    } finally {
+      setHistoryLoading(false)
+    }
+  }
 
-      if (error) {
-        console.error('Error updating status:', error)
-        alert('Failed to update status: ' + error.message)
-        return
+  const openDetailsModal = (candidate: Candidate) => {
+    setSelectedCandidate(candidate)
+    setStatusHistory([])
+    setRescheduleHistory([])
+    setShowDetailsModal(true)
+    loadStatusHistory(candidate.id)
+  }
+
+  // Moves a candidate along its lifecycle and records who made the change and why.
+  // Reverts prompt for a reason when none is given. Returns true when the change was saved.
+  const handleUpdateStatus = async (
+    candidate: Pick<Candidate, 'id' | 'status' | 'examDate' | 'clientName'>,
+    newStatus: CandidateStatus,
+    reason?: string
+  ): Promise<boolean> => {
+    const extraUpdates: Record<string, any> = {}
+    if (newStatus === 'checked_in' && (candidate.status === 'registered' || candidate.status === 'no_show')) {
+      const arrival = checkArrival(candidate.examDate, getAttendancePolicy(attendancePolicies, candidate.clientName))
+      if (arrival.state === 'closed') {
+        if (profile?.role !== 'admin' && profile?.role !== 'super_admin') {
+          alert(`Check-in closed at ${formatPolicyTime(arrival.cutOff!)}. Ask a supervisor to override.`)
+          return false
+        }
+        const entered = window.prompt(
+          `Check-in closed at ${formatPolicyTime(arrival.cutOff!)} (${arrival.minutesLate} minutes after the start). Supervisor override reason:`
+        )
+        if (entered === null) return false
+        if (!entered.trim()) {
+          alert('A supervisor override requires a reason')
+          return false
+        }
+        reason = `Supervisor override: ${entered.trim()}`
+        extraUpdates.late_override_reason = entered.trim()
+      }
+    }
+
+    const transition = getTransition(candidate.status, newStatus)
+    if (transition?.isRevert && reason === undefined) {
+      const entered = window.prompt(`${transition.label}: please enter a reason for the audit log`)
+      if (entered === null) return false
+      reason = entered
+    }
+
+    const validationError = validateStatusTransition(candidate.status, newStatus, reason)
+    if (validationError) {
+      alert(validationError)
+      return false
+    }
+
+    try {
+      const result = await applyStatusChange(candidate, newStatus, reason, extraUpdates)
+      if (result.conflict) {
+        alert('This candidate\'s status was changed by someone else. The list has been refreshed.')
+        await loadCandidates()
+        return false
+      }
+      if (!result.ok) {
+        alert('Failed to update status: ' + result.error)
+        return false
       }
 
       await loadCandidates()
+      return true
     } catch (error) {
       console.error('Error updating status:', error)
       alert('Failed to update status. Please try again.')
+      return false
     }
   }
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0]
-    if (file) {
-      const validTypes = ['text/csv', 'application/vnd.ms-excel', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet']
-      if (validTypes.includes(file.type) || file.name.endsWith('.csv')) {
-        setUploadFile(file)
-        setUploadStatus('idle')
-        setUploadResults({ success: 0, errors: [] })
-      } else {
-        alert('Please select a valid CSV or Excel file')
-      }
-    }
+  // Checking in always goes through the photo ID check; reverting an exam start does not
+  const requestCheckIn = (candidate: CheckInCandidate, onCheckedIn?: () => Promise<void> | void) => {
+    setIdCheck({ candidate, onCheckedIn })
   }
 
-  const processBulkUpload = async () => {
-    if (!uploadFile || !user) return
-
-    setUploadStatus('uploading')
-    setUploadProgress(0)
-    const errors: string[] = []
-    let successCount = 0
+  const handleIdVerified = async (details: IdCheckDetails) => {
+    if (!idCheck) return
+    const { candidate, onCheckedIn } = idCheck
+    if (!(await handleUpdateStatus(candidate, 'checked_in'))) {
+      setIdCheck(null)
+      return
+    }
 
     try {
-      // Record the upload attempt
-      const { data: uploadRecord, error: uploadError } = await supabase
-        .from('candidate_roster_uploads')
-        .insert({
-          filename: uploadFile.name,
-          total_candidates: 0, // Will update this after processing
-          uploaded_by_user_id: user.id,
-          status: 'processing'
-        })
-        .select()
-        .single()
-
-      if (uploadError) {
-        console.error('Error creating upload record:', uploadError)
-      }
-
-      const text = await uploadFile.text()
-      const lines = text.split('\n').filter(line => line.trim())
-      
-      if (lines.length < 2) {
-        throw new Error('File must contain at least a header row and one data row')
-      }
+      await recordIdVerification(candidate.id, details, user!.id)
+    } catch (error: any) {
+      console.error('Error recording ID verification:', error)
+      alert('The candidate is checked in, but the ID verification could not be saved: ' + error.message)
+    }
+    setIdCheck(null)
+    await onCheckedIn?.()
+  }
 
-      const headers = lines[0].split(',').map(h => h.trim().toLowerCase())
-      const dataLines = lines.slice(1)
+  const handleDetailsStatusChange = async (newStatus: CandidateStatus) => {
+    if (!selectedCandidate) return
+    const candidate = selectedCandidate
+    const afterChange = async () => {
+      setSelectedCandidate({
+        ...candidate,
+        status: newStatus,
+        checkInTime: newStatus === 'registered' && candidate.status === 'checked_in' ? undefined : candidate.checkInTime
+      })
+      await loadStatusHistory(candidate.id)
+    }
 
-      // Validate required headers
-      const requiredHeaders = ['full_name', 'email']
-      const missingHeaders = requiredHeaders.filter(h => !headers.some(header => header.includes(h.replace('_', ''))))
-      if (missingHeaders.length > 0) {
-        throw new Error(`Missing required columns: ${missingHeaders.join(', ')}`)
-      }
+    if (newStatus === 'checked_in' && (candidate.status === 'registered' || candidate.status === 'no_show')) {
+      requestCheckIn(candidate, afterChange)
+      return
+    }
+    if (await handleUpdateStatus(candidate, newStatus)) {
+      await afterChange()
+    }
+  }
 
-      for (let i = 0; i < dataLines.length; i++) {
-        try {
-          const values = dataLines[i].split(',').map(v => v.trim())
-          const candidateData: any = {}
-
-          headers.forEach((header, index) => {
-            const value = values[index] || ''
-            if (header.includes('name') || header.includes('full')) candidateData.full_name = value
-            if (header.includes('email')) candidateData.email = value
-            if (header.includes('phone')) candidateData.phone = value || null
-            if (header.includes('exam') && header.includes('name')) candidateData.exam_name = value || null
-            if (header.includes('exam') && header.includes('date')) {
-              candidateData.exam_date = value ? new Date(value).toISOString() : null
-            }
-            if (header.includes('note')) candidateData.notes = value || null
-          })
+  const openIdPhoto = async (photoPath: string) => {
+    // Photos are private; the link expires after five minutes
+    const { data, error } = await supabase.storage
+      .from(ID_VERIFICATION_PHOTOS_BUCKET)
+      .createSignedUrl(photoPath, 300)
 
-          // Validate required fields
-          if (!candidateData.full_name || !candidateData.email) {
-            errors.push(`Row ${i + 2}: Missing name or email`)
-            continue
-          }
-
-          // Check for duplicate email
-          const existingCandidate = candidates.find(c => c.email === candidateData.email)
-          if (existingCandidate) {
-            errors.push(`Row ${i + 2}: Email ${candidateData.email} already exists`)
-            continue
-          }
-
-          candidateData.status = 'registered'
-          candidateData.confirmation_number = generateConfirmationNumber()
-          candidateData.user_id = user.id
-
-          const { error } = await supabase
-            .from('candidates')
-            .insert(candidateData)
-
-          if (error) {
-            errors.push(`Row ${i + 2}: Database error - ${error.message}`)
-          } else {
-            successCount++
-          }
-        } catch (rowError: any) {
-          errors.push(`Row ${i + 2}: ${rowError.message}`)
-        }
+    if (error) {
+      console.error('Error opening ID photo:', error)
+      alert('Failed to open photo: ' + error.message)
+      return
+    }
+    window.open(data.signedUrl, '_blank', 'noopener')
+  }
 
-        setUploadProgress(Math.round(((i + 1) / dataLines.length) * 100))
+  const handleAdmissionSlip = async (candidate: Candidate, mode: 'print' | 'pdf') => {
+    try {
+      if (mode === 'print') {
+        await printAdmissionSlips([candidate])
+      } else {
+        await downloadAdmissionSlipsPdf([candidate], `admission-slip-${candidate.confirmationNumber}.pdf`)
       }
+    } catch (error: any) {
+      console.error('Error generating admission slip:', error)
+      alert('Failed to generate admission slip: ' + error.message)
+    }
+  }
 
-      // Update upload record
-      if (uploadRecord) {
-        await supabase
-          .from('candidate_roster_uploads')
-          .update({
-            total_candidates: dataLines.length,
-            processed_candidates: successCount,
-            failed_candidates: errors.length,
-            status: errors.length === dataLines.length ? 'failed' : 'completed',
-            error_log: errors.length > 0 ? errors.join('\n') : null,
-            processed_date: new Date().toISOString()
-          })
-          .eq('id', uploadRecord.id)
+  const handleStartKiosk = async () => {
+    try {
+      const { data: pinConfigured, error } = await supabase.rpc('kiosk_pin_configured', { p_centre_code: CENTRE_CODE })
+      if (error) throw error
+      if (!pinConfigured) {
+        alert('Set a kiosk exit PIN in Settings → Candidates before starting kiosk mode.')
+        return
       }
-
-      setUploadResults({ success: successCount, errors })
-      setUploadStatus(errors.length === dataLines.length ? 'error' : 'success')
-      
-      if (successCount > 0) {
-        await loadCandidates()
+      if (window.confirm('Start self check-in kiosk mode? A staff PIN is required to leave it.')) {
+        onStartKiosk?.()
       }
     } catch (error: any) {
-      setUploadStatus('error')
-      setUploadResults({ success: 0, errors: [error.message] })
+      console.error('Error checking kiosk PIN:', error)
+      alert('Failed to start kiosk mode: ' + error.message)
     }
   }
 
-  const resetBulkUpload = () => {
-    setUploadFile(null)
-    setUploadStatus('idle')
-    setUploadProgress(0)
-    setUploadResults({ success: 0, errors: [] })
-    setShowBulkUploadModal(false)
+  const handleDeskCheckIn = async (e: React.FormEvent) => {
+    e.preventDefault()
+    try {
+      const { candidate: match, error } = await findCandidateByConfirmationNumber(
+        deskConfirmationNumber,
+        'id, full_name, status, exam_date, client_name'
+      )
+      if (error) {
+        setDeskMessage({ type: 'error', text: error })
+        return
+      }
+      if (match.status !== 'registered') {
+        setDeskMessage({ type: 'error', text: `${match.full_name} is already ${formatCandidateStatus(match.status).toLowerCase()}` })
+        return
+      }
+      const examDate = match.exam_date ? new Date(match.exam_date) : undefined
+      const arrival = checkArrival(examDate, getAttendancePolicy(attendancePolicies, match.client_name))
+      requestCheckIn(
+        { id: match.id, status: match.status, examDate, clientName: match.client_name, fullName: match.full_name },
+        async () => {
+          const accommodations = await fetchApprovedAccommodations([match.id])
+          setDeskConfirmationNumber('')
+          setDeskMessage({
+            type: 'success',
+            text: arrival.minutesLate > 0
+              ? `${match.full_name} checked in ${arrival.minutesLate} minutes late`
+              : `${match.full_name} checked in`,
+            accommodations: accommodations.get(match.id)
+          })
+        }
+      )
+    } catch (error: any) {
+      console.error('Error checking in by confirmation number:', error)
+      setDeskMessage({ type: 'error', text: 'Lookup failed: ' + error.message })
+    }
   }
 
   const getStatusColor = (status: string) => {
@@ -452,25 +750,31 @@ export function CandidateTracker() {
     }
   }
 
-  const filteredCandidates = candidates.filter(candidate => {
-    const matchesSearch = 
-      candidate.fullName.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      candidate.email.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      candidate.confirmationNumber.toLowerCase().includes(searchQuery.toLowerCase())
-    
-    const matchesStatus = filterStatus === 'all' || candidate.status === filterStatus
-    
-    const matchesDate = !filterDate || 
-      (candidate.examDate && candidate.examDate.toISOString().split('T')[0] === filterDate)
-    
-    return matchesSearch && matchesStatus && matchesDate
-  })
+  const duplicatePairs = findDuplicatePairs(upcomingCandidates, dismissedPairs)
 
-  const todayCandidates = candidates.filter(candidate => {
-    if (!candidate.examDate) return false
-    const today = new Date().toISOString().split('T')[0]
-    return candidate.examDate.toISOString().split('T')[0] === today
-  })
+  const pageCount = Math.max(1, Math.ceil(totalCandidates / CANDIDATE_PAGE_SIZE))
+  const allOnPageSelected = candidates.length > 0 && candidates.every(c => selection.has(c.id))
+
+  const toggleSelected = (candidate: Candidate) => {
+    setSelection(prev => {
+      const next = new Map(prev)
+      if (next.has(candidate.id)) next.delete(candidate.id)
+      else next.set(candidate.id, candidate)
+      return next
+    })
+  }
+
+  const togglePageSelected = () => {
+    setSelection(prev => {
+      const next = new Map(prev)
+      for (const candidate of candidates) {
+        if (allOnPageSelected) next.delete(candidate.id)
+        else next.set(candidate.id, candidate)
+      }
+      return next
+    })
+  }
+  const hasActiveFilters = !!(filters.search || filters.status !== 'all' || filters.date || filters.client)
 
   if (loading) {
     return (
@@ -505,7 +809,7 @@ export function CandidateTracker() {
               </p>
               <div className="flex items-center justify-center sm:justify-start mt-3 text-sm">
                 <div className="w-2 h-2 bg-green-400 rounded-full mr-2 animate-pulse"></div>
-                <span className="text-white/80">{candidates.length} total candidates</span>
+                <span className="text-white/80">{overview?.total ?? totalCandidates} total candidates</span>
               </div>
             </div>
             
@@ -524,6 +828,38 @@ export function CandidateTracker() {
                 <Upload className="h-4 w-4 mr-2" />
                 Bulk Upload
               </button>
+              <button
+                onClick={() => setShowAdmissionSlipsModal(true)}
+                className="btn-tertiary-modern bg-white/20 text-white border-white/30 hover:bg-white/30 flex items-center justify-center"
+              >
+                <Printer className="h-4 w-4 mr-2" />
+                Admission Slips
+              </button>
+              <button
+                onClick={() => setShowExportModal(true)}
+                className="btn-tertiary-modern bg-white/20 text-white border-white/30 hover:bg-white/30 flex items-center justify-center"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Export
+              </button>
+              {onStartKiosk && (
+                <button
+                  onClick={handleStartKiosk}
+                  className="btn-tertiary-modern bg-white/20 text-white border-white/30 hover:bg-white/30 flex items-center justify-center"
+                >
+                  <Monitor className="h-4 w-4 mr-2" />
+                  Kiosk Mode
+                </button>
+              )}
+              {duplicatePairs.length > 0 && (
+                <button
+                  onClick={() => setShowDuplicatesModal(true)}
+                  className="btn-tertiary-modern bg-white/20 text-white border-white/30 hover:bg-white/30 flex items-center justify-center"
+                >
+                  <Copy className="h-4 w-4 mr-2" />
+                  Possible Duplicates ({duplicatePairs.length})
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -532,35 +868,85 @@ export function CandidateTracker() {
       {/* Modern Statistics Overview */}
       <div className="dashboard-section">
         <h2 className="section-title">Candidate Overview</h2>
-        <div className="grid-responsive grid-4">
+        <div className="grid-responsive grid-3">
           <ModernStatsCard
             title="Today's Candidates"
-            value={todayCandidates.length}
-            subtitle={todayCandidates.length > 0 ? `${todayCandidates.length} scheduled for today` : 'No candidates scheduled'}
+            value={overview?.today ?? 0}
+            subtitle={overview?.today ? `${overview.today} scheduled for today` : 'No candidates scheduled'}
             icon={Calendar}
             status="primary"
           />
           <ModernStatsCard
             title="Checked In"
-            value={candidates.filter(c => c.status === 'checked_in').length}
-            subtitle={candidates.filter(c => c.status === 'checked_in').length > 0 ? 'Ready for exam' : 'None checked in'}
+            value={overview?.checkedIn ?? 0}
+            subtitle={overview?.checkedIn ? 'Ready for exam' : 'None checked in'}
             icon={UserCheck}
             status="warning"
           />
           <ModernStatsCard
             title="In Progress"
-            value={candidates.filter(c => c.status === 'in_progress').length}
-            subtitle={candidates.filter(c => c.status === 'in_progress').length > 0 ? 'Currently testing' : 'No active exams'}
+            value={overview?.inProgress ?? 0}
+            subtitle={overview?.inProgress ? 'Currently testing' : 'No active exams'}
             icon={Clock}
             status="neutral"
           />
           <ModernStatsCard
             title="Completed"
-            value={candidates.filter(c => c.status === 'completed').length}
-            subtitle={candidates.filter(c => c.status === 'completed').length > 0 ? 'Exams finished' : 'No completions yet'}
+            value={overview?.completed ?? 0}
+            subtitle={overview?.completed ? 'Exams finished' : 'No completions yet'}
             icon={UserCheck}
             status="positive"
           />
+          <ModernStatsCard
+            title="No Shows Today"
+            value={overview?.noShowsToday ?? 0}
+            subtitle="View no-show report"
+            icon={UserX}
+            status="warning"
+            onClick={() => setShowNoShowReport(true)}
+            clickable
+          />
+          <ModernStatsCard
+            title="Late Arrivals Today"
+            value={overview?.lateToday ?? 0}
+            subtitle={`${overview?.overridesToday ?? 0} admitted by supervisor override`}
+            icon={AlarmClock}
+            status="neutral"
+          />
+        </div>
+      </div>
+
+      {/* Check-in Desk */}
+      <div className="dashboard-section">
+        <h2 className="section-title">Check-in Desk</h2>
+        <div className="modern-card p-6">
+          <form onSubmit={handleDeskCheckIn} className="flex flex-col sm:flex-row gap-3">
+            <input
+              type="text"
+              placeholder="Enter confirmation number, e.g. ETS-KOC26-000423"
+              className="flex-1 px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent bg-white text-gray-900 placeholder-gray-500 uppercase"
+              value={deskConfirmationNumber}
+              onChange={(e) => {
+                setDeskConfirmationNumber(e.target.value)
+                setDeskMessage(null)
+              }}
+            />
+            <button type="submit" className="btn-primary-modern flex items-center justify-center">
+              <UserCheck className="h-4 w-4 mr-2" />
+              Check In
+            </button>
+          </form>
+          {deskMessage && (
+            <p className={`mt-3 text-sm ${deskMessage.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+              {deskMessage.text}
+            </p>
+          )}
+          {deskMessage?.accommodations && (
+            <div className="mt-3 p-3 rounded-lg bg-amber-50 border border-amber-300 text-amber-800 text-sm flex items-start">
+              <Accessibility className="h-5 w-5 mr-2 flex-shrink-0" />
+              <span><strong>Approved accommodations:</strong> {deskMessage.accommodations.join(', ')}</span>
+            </div>
+          )}
         </div>
       </div>
 
@@ -573,17 +959,17 @@ export function CandidateTracker() {
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
               <input
                 type="text"
-                placeholder="Search candidates..."
+                placeholder="Name, email, phone or confirmation number"
                 className="w-full pl-10 pr-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent bg-white text-gray-900 placeholder-gray-500"
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
               />
             </div>
             
             <select
               className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent bg-white text-gray-900"
-              value={filterStatus}
-              onChange={(e) => setFilterStatus(e.target.value)}
+              value={filters.status}
+              onChange={(e) => updateFilters({ status: e.target.value as CandidateListFilters['status'] })}
             >
               <option value="all">All Status</option>
               <option value="registered">Registered</option>
@@ -597,15 +983,62 @@ export function CandidateTracker() {
             <input
               type="date"
               className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent bg-white text-gray-900"
-              value={filterDate}
-              onChange={(e) => setFilterDate(e.target.value)}
+              value={filters.date}
+              onChange={(e) => updateFilters({ date: e.target.value })}
               placeholder="Filter by exam date"
             />
 
-            <div className="flex items-center justify-center bg-gray-50 rounded-lg px-4 py-3">
+            <select
+              className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent bg-white text-gray-900"
+              value={filters.client}
+              onChange={(e) => updateFilters({ client: e.target.value })}
+            >
+              <option value="">All Clients</option>
+              {clientOptions.map(client => (
+                <option key={client} value={client}>{client}</option>
+              ))}
+              {filters.client && !clientOptions.includes(filters.client) && (
+                <option value={filters.client}>{filters.client}</option>
+              )}
+            </select>
+          </div>
+
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mt-4">
+            <div className="flex items-center gap-2">
+              <ArrowUpDown className="h-4 w-4 text-gray-500" />
+              <select
+                className="px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent bg-white text-gray-900 text-sm"
+                value={filters.sort}
+                onChange={(e) => updateFilters({ sort: e.target.value as CandidateSortColumn })}
+              >
+                {CANDIDATE_SORT_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>Sort by {option.label.toLowerCase()}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => updateFilters({ direction: filters.direction === 'asc' ? 'desc' : 'asc' })}
+                className="btn-tertiary-modern text-sm"
+                title="Change sort direction"
+              >
+                {filters.direction === 'asc' ? 'Ascending' : 'Descending'}
+              </button>
+              {hasActiveFilters && (
+                <button
+                  onClick={() => {
+                    setSearchInput('')
+                    updateFilters({ search: '', status: 'all', date: '', client: '' })
+                  }}
+                  className="text-sm text-gray-500 hover:text-gray-700"
+                >
+                  Clear filters
+                </button>
+              )}
+            </div>
+
+            <div className="flex items-center justify-center bg-gray-50 rounded-lg px-4 py-2">
               <Filter className="h-4 w-4 mr-2 text-gray-500" />
               <span className="text-sm text-gray-600">
-                {filteredCandidates.length} of {candidates.length} candidates
+                {listLoading ? 'Loading...' : `${formatPageRange(filters.page, totalCandidates)} candidates`}
               </span>
             </div>
           </div>
@@ -615,11 +1048,36 @@ export function CandidateTracker() {
       {/* Modern Candidates List */}
       <div className="dashboard-section">
         <h2 className="section-title">Candidate List</h2>
+        <CandidateBulkActions
+          selected={Array.from(selection.values())}
+          sessions={sessionOptions}
+          attendancePolicies={attendancePolicies}
+          onClearSelection={() => setSelection(new Map())}
+          onChanged={loadCandidates}
+        />
+        {candidates.length > 0 && (
+          <label className="flex items-center gap-2 mb-4 text-sm text-gray-600 cursor-pointer">
+            <input
+              type="checkbox"
+              className="h-4 w-4 accent-yellow-500"
+              checked={allOnPageSelected}
+              onChange={togglePageSelected}
+            />
+            Select all on this page
+          </label>
+        )}
         <div className="space-y-4">
-          {filteredCandidates.map((candidate) => (
+          {candidates.map((candidate) => (
             <div key={candidate.id} className="modern-card p-6">
               <div className="flex items-center justify-between mb-4">
                 <div className="flex items-center space-x-4">
+                  <input
+                    type="checkbox"
+                    className="h-5 w-5 accent-yellow-500 cursor-pointer"
+                    checked={selection.has(candidate.id)}
+                    onChange={() => toggleSelected(candidate)}
+                    aria-label={`Select ${candidate.fullName}`}
+                  />
                   <div className="w-12 h-12 rounded-full flex items-center justify-center text-white font-bold text-lg" style={{
                     background: 'var(--primary-gradient)'
                   }}>
@@ -631,6 +1089,21 @@ export function CandidateTracker() {
                   </div>
                 </div>
                 <div className="flex items-center space-x-2">
+                  {candidate.accommodations && (
+                    <span
+                      className="px-3 py-1 rounded-full text-xs font-medium flex items-center space-x-1 text-amber-700 bg-amber-50 border border-amber-300"
+                      title={candidate.accommodations.join(', ')}
+                    >
+                      <Accessibility className="h-4 w-4" />
+                      <span>ACCOMMODATION</span>
+                    </span>
+                  )}
+                  {candidate.lateMinutes && (
+                    <span className="px-3 py-1 rounded-full text-xs font-medium flex items-center space-x-1 text-orange-600 bg-orange-50 border border-orange-200">
+                      <AlarmClock className="h-4 w-4" />
+                      <span>LATE {candidate.lateMinutes} MIN</span>
+                    </span>
+                  )}
                   <span className={`px-3 py-1 rounded-full text-xs font-medium flex items-center space-x-1 ${getStatusColor(candidate.status)}`}>
                     {getStatusIcon(candidate.status)}
                     <span>{candidate.status.replace('_', ' ').toUpperCase()}</span>
@@ -671,7 +1144,7 @@ export function CandidateTracker() {
                 <div className="flex items-center space-x-2">
                   {candidate.status === 'registered' && (
                     <button
-                      onClick={() => handleUpdateStatus(candidate.id, 'checked_in')}
+                      onClick={() => requestCheckIn(candidate)}
                       className="btn-secondary-modern flex items-center text-sm"
                     >
                       <UserCheck className="h-4 w-4 mr-1" />
@@ -680,7 +1153,7 @@ export function CandidateTracker() {
                   )}
                   {candidate.status === 'checked_in' && (
                     <button
-                      onClick={() => handleUpdateStatus(candidate.id, 'in_progress')}
+                      onClick={() => handleUpdateStatus(candidate, 'in_progress')}
                       className="flex items-center space-x-1 px-3 py-2 text-orange-600 bg-orange-50 hover:bg-orange-100 rounded-lg text-sm font-medium transition-colors"
                     >
                       <Clock className="h-4 w-4" />
@@ -689,7 +1162,7 @@ export function CandidateTracker() {
                   )}
                   {candidate.status === 'in_progress' && (
                     <button
-                      onClick={() => handleUpdateStatus(candidate.id, 'completed')}
+                      onClick={() => handleUpdateStatus(candidate, 'completed')}
                       className="btn-secondary-modern flex items-center text-sm"
                     >
                       <UserCheck className="h-4 w-4 mr-1" />
@@ -700,10 +1173,7 @@ export function CandidateTracker() {
                 
                 <div className="flex items-center space-x-2">
                   <button
-                    onClick={() => {
-                      setSelectedCandidate(candidate)
-                      setShowDetailsModal(true)
-                    }}
+                    onClick={() => openDetailsModal(candidate)}
                     className="btn-tertiary-modern flex items-center text-sm"
                   >
                     <Eye className="h-4 w-4 mr-1" />
@@ -716,29 +1186,40 @@ export function CandidateTracker() {
                     <Edit className="h-4 w-4" />
                     <span>Edit</span>
                   </button>
-                  <button 
-                    onClick={() => handleDeleteCandidate(candidate.id, candidate.fullName)}
-                    className="flex items-center space-x-1 px-3 py-2 text-red-600 bg-red-50 hover:bg-red-100 rounded-lg text-sm font-medium transition-colors"
-                  >
-                    <Trash2 className="h-4 w-4" />
-                    <span>Delete</span>
-                  </button>
+                  {(candidate.status === 'registered' || candidate.status === 'no_show') && (
+                    <button
+                      onClick={() => setRescheduleCandidate(candidate)}
+                      className="flex items-center space-x-1 px-3 py-2 text-purple-600 bg-purple-50 hover:bg-purple-100 rounded-lg text-sm font-medium transition-colors"
+                    >
+                      <CalendarClock className="h-4 w-4" />
+                      <span>Reschedule</span>
+                    </button>
+                  )}
+                  {getTransition(candidate.status, 'cancelled') && (
+                    <button
+                      onClick={() => handleCancelCandidate(candidate)}
+                      className="flex items-center space-x-1 px-3 py-2 text-red-600 bg-red-50 hover:bg-red-100 rounded-lg text-sm font-medium transition-colors"
+                    >
+                      <Ban className="h-4 w-4" />
+                      <span>Cancel</span>
+                    </button>
+                  )}
                 </div>
               </div>
             </div>
           ))}
           
-          {filteredCandidates.length === 0 && (
+          {candidates.length === 0 && !listLoading && (
             <div className="modern-card p-12 text-center">
               <Users className="h-16 w-16 text-gray-300 mx-auto mb-4" />
               <h3 className="text-xl font-semibold text-gray-900 mb-2">No candidates found</h3>
               <p className="text-gray-500 mb-6">
-                {candidates.length === 0 
+                {!hasActiveFilters
                   ? "Get started by registering your first candidate or uploading a CSV file."
                   : "Try adjusting your search or filter criteria."
                 }
               </p>
-              {candidates.length === 0 && (
+              {!hasActiveFilters && (
                 <div className="flex justify-center space-x-4">
                   <button
                     onClick={() => setShowNewCandidateModal(true)}
@@ -759,6 +1240,30 @@ export function CandidateTracker() {
             </div>
           )}
         </div>
+
+        {totalCandidates > CANDIDATE_PAGE_SIZE && (
+          <div className="flex items-center justify-between mt-6">
+            <button
+              onClick={() => updateFilters({ page: filters.page - 1 })}
+              disabled={filters.page <= 1 || listLoading}
+              className="btn-tertiary-modern flex items-center text-sm"
+            >
+              <ChevronLeft className="h-4 w-4 mr-1" />
+              Previous
+            </button>
+            <span className="text-sm text-gray-600">
+              Page {filters.page} of {pageCount}
+            </span>
+            <button
+              onClick={() => updateFilters({ page: filters.page + 1 })}
+              disabled={filters.page >= pageCount || listLoading}
+              className="btn-tertiary-modern flex items-center text-sm"
+            >
+              Next
+              <ChevronRight className="h-4 w-4 ml-1" />
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Modern New Candidate Modal */}
@@ -805,27 +1310,26 @@ export function CandidateTracker() {
                 </div>
                 
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Exam Name</label>
-                  <input
-                    type="text"
-                    className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent bg-white text-gray-900 placeholder-gray-500"
-                    placeholder="AWS Solutions Architect, TOEFL, etc."
-                    value={newCandidate.examName}
-                    onChange={(e) => setNewCandidate({ ...newCandidate, examName: e.target.value })}
-                  />
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Exam Session *</label>
+                  <select
+                    className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent bg-white text-gray-900"
+                    value={newCandidate.sessionId}
+                    onChange={(e) => setNewCandidate({ ...newCandidate, sessionId: e.target.value })}
+                  >
+                    <option value="">Select a session</option>
+                    {sessionOptions.map(session => (
+                      <option
+                        key={session.id}
+                        value={session.id}
+                        disabled={!validateSessionCapacity(session.candidate_count + 1, session.capacity).isValid}
+                      >
+                        {formatSessionOption(session)}
+                      </option>
+                    ))}
+                  </select>
                 </div>
               </div>
               
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Exam Date & Time</label>
-                <input
-                  type="datetime-local"
-                  className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent bg-white text-gray-900"
-                  value={newCandidate.examDate}
-                  onChange={(e) => setNewCandidate({ ...newCandidate, examDate: e.target.value })}
-                />
-              </div>
-              
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
                 <textarea
@@ -847,7 +1351,7 @@ export function CandidateTracker() {
               <button
                 onClick={handleCreateCandidate}
                 className="btn-primary-modern"
-                disabled={!newCandidate.fullName.trim() || !newCandidate.email.trim()}
+                disabled={!newCandidate.fullName.trim() || !newCandidate.email.trim() || !newCandidate.sessionId}
               >
                 Register Candidate
               </button>
@@ -900,27 +1404,17 @@ export function CandidateTracker() {
                 </div>
                 
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Exam Name</label>
-                  <input
-                    type="text"
-                    className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent bg-white text-gray-900 placeholder-gray-500"
-                    placeholder="AWS Solutions Architect, TOEFL, etc."
-                    value={editCandidate.examName}
-                    onChange={(e) => setEditCandidate({ ...editCandidate, examName: e.target.value })}
-                  />
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Exam Session</label>
+                  <p className="px-4 py-3 border border-gray-200 rounded-lg bg-gray-50 text-gray-700">
+                    {selectedCandidate.examName || 'Not specified'}
+                    {selectedCandidate.examDate ? `, ${selectedCandidate.examDate.toLocaleString()}` : ''}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {selectedCandidate.sessionId ? 'Use Reschedule to move the candidate to another session.' : 'Not linked to a session. Use Reschedule to book one.'}
+                  </p>
                 </div>
               </div>
               
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Exam Date & Time</label>
-                <input
-                  type="datetime-local"
-                  className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent bg-white text-gray-900"
-                  value={editCandidate.examDate}
-                  onChange={(e) => setEditCandidate({ ...editCandidate, examDate: e.target.value })}
-                />
-              </div>
-              
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
                 <textarea
@@ -980,6 +1474,16 @@ export function CandidateTracker() {
                   </span>
                 </div>
               </div>
+
+              {candidates.find(c => c.id === selectedCandidate.id)?.accommodations && (
+                <div className="p-4 rounded-lg bg-amber-50 border border-amber-300 text-amber-800 flex items-start">
+                  <Accessibility className="h-5 w-5 mr-2 flex-shrink-0" />
+                  <div>
+                    <p className="font-semibold">Approved accommodations</p>
+                    <p className="text-sm">{candidates.find(c => c.id === selectedCandidate.id)!.accommodations!.join(', ')}</p>
+                  </div>
+                </div>
+              )}
               
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div>
@@ -1017,6 +1521,15 @@ export function CandidateTracker() {
                         <p className="text-gray-900 font-medium">{selectedCandidate.checkInTime.toLocaleString()}</p>
                       </div>
                     )}
+                    {selectedCandidate.lateMinutes && (
+                      <div>
+                        <p className="text-gray-500 text-sm font-medium uppercase tracking-wide">Late Arrival</p>
+                        <p className="text-orange-600 font-medium">{selectedCandidate.lateMinutes} minutes after the start</p>
+                        {selectedCandidate.lateOverrideReason && (
+                          <p className="text-gray-600 text-sm">Supervisor override: {selectedCandidate.lateOverrideReason}</p>
+                        )}
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
@@ -1036,6 +1549,127 @@ export function CandidateTracker() {
                   <p>Registered: {selectedCandidate.createdAt.toLocaleString()}</p>
                 </div>
               </div>
+
+              <CandidateAccommodations candidateId={selectedCandidate.id} onChanged={loadCandidates} />
+
+              <div>
+                <h4 className="text-lg font-semibold text-gray-900 mb-3 flex items-center">
+                  <ShieldCheck className="h-5 w-5 mr-2 text-gray-400" />
+                  ID Verification
+                </h4>
+                {historyLoading ? (
+                  <p className="text-sm text-gray-500">Loading ID checks...</p>
+                ) : idVerifications.length === 0 ? (
+                  <p className="text-sm text-gray-500">No photo ID check recorded.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {idVerifications.map(entry => (
+                      <div key={entry.id} className="p-3 border border-gray-200 rounded-lg text-sm flex flex-wrap items-center justify-between gap-2">
+                        <div>
+                          <p className="font-medium text-gray-900">
+                            {formatIdType(entry.idType)} <span className="font-mono text-gray-600 ml-1">{maskIdNumber(entry.idLast4)}</span>
+                          </p>
+                          <p className="text-xs text-gray-500 mt-1">
+                            Verified {entry.verifiedAt.toLocaleString()} by {entry.verifiedBy}
+                          </p>
+                        </div>
+                        {entry.photoPath ? (
+                          <button
+                            onClick={() => openIdPhoto(entry.photoPath!)}
+                            className="flex items-center text-sm text-blue-600 hover:text-blue-800"
+                          >
+                            <Camera className="h-4 w-4 mr-1" />
+                            Photo
+                          </button>
+                        ) : entry.photoPurgedAt ? (
+                          <span className="text-xs text-gray-500">Photo deleted {entry.photoPurgedAt.toLocaleDateString()}</span>
+                        ) : null}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {rescheduleHistory.length > 0 && (
+                <div>
+                  <h4 className="text-lg font-semibold text-gray-900 mb-3 flex items-center">
+                    <CalendarClock className="h-5 w-5 mr-2 text-gray-400" />
+                    Booking History
+                  </h4>
+                  <div className="space-y-3">
+                    {rescheduleHistory.map(entry => (
+                      <div key={entry.id} className="p-3 border border-gray-200 rounded-lg text-sm">
+                        <p className="text-gray-500 line-through">{entry.fromLabel}</p>
+                        <p className="text-gray-900 font-medium">→ {entry.toLabel}</p>
+                        <p className="text-gray-700 mt-1">{entry.reason}</p>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {entry.rescheduledAt.toLocaleString()}{entry.rescheduledBy ? ` by ${entry.rescheduledBy}` : ''}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <h4 className="text-lg font-semibold text-gray-900 mb-3 flex items-center">
+                  <History className="h-5 w-5 mr-2 text-gray-400" />
+                  Status History
+                </h4>
+                {historyLoading ? (
+                  <p className="text-sm text-gray-500">Loading history...</p>
+                ) : statusHistory.length === 0 ? (
+                  <p className="text-sm text-gray-500">No status changes recorded.</p>
+                ) : (
+                  <ol className="relative border-l-2 border-gray-200 ml-2 space-y-4">
+                    {statusHistory.map(entry => (
+                      <li key={entry.id} className="ml-4">
+                        <span className={`absolute -left-[7px] mt-1.5 w-3 h-3 rounded-full ${entry.isRevert ? 'bg-orange-400' : 'bg-yellow-400'}`} />
+                        <div className="flex flex-wrap items-center gap-2">
+                          {entry.fromStatus && (
+                            <>
+                              <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getStatusColor(entry.fromStatus)}`}>
+                                {formatCandidateStatus(entry.fromStatus)}
+                              </span>
+                              <span className="text-gray-400">→</span>
+                            </>
+                          )}
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getStatusColor(entry.toStatus)}`}>
+                            {formatCandidateStatus(entry.toStatus)}
+                          </span>
+                          {entry.isRevert && (
+                            <span className="text-xs font-medium text-orange-600">Revert</span>
+                          )}
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {entry.changedAt.toLocaleString()}{entry.changedBy ? ` by ${entry.changedBy}` : ''}
+                        </p>
+                        {entry.reason && (
+                          <p className="text-sm text-gray-700 mt-1">{entry.reason}</p>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+
+              <div>
+                <h4 className="text-lg font-semibold text-gray-900 mb-3">Change Status</h4>
+                <div className="flex flex-wrap gap-2">
+                  {getAllowedTransitions(selectedCandidate.status).map(transition => (
+                    <button
+                      key={transition.to}
+                      onClick={() => handleDetailsStatusChange(transition.to)}
+                      className={transition.isRevert
+                        ? 'flex items-center space-x-1 px-3 py-2 text-orange-600 bg-orange-50 hover:bg-orange-100 rounded-lg text-sm font-medium transition-colors'
+                        : 'btn-secondary-modern flex items-center text-sm'}
+                    >
+                      {transition.isRevert && <Undo2 className="h-4 w-4 mr-1" />}
+                      <span>{transition.label}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
             </div>
             
             <div className="flex items-center justify-end space-x-4 mt-6">
@@ -1045,6 +1679,24 @@ export function CandidateTracker() {
               >
                 Close
               </button>
+              {selectedCandidate.status !== 'cancelled' && (
+                <>
+                  <button
+                    onClick={() => handleAdmissionSlip(selectedCandidate, 'pdf')}
+                    className="btn-secondary-modern flex items-center"
+                  >
+                    <Download className="h-4 w-4 mr-2" />
+                    Slip PDF
+                  </button>
+                  <button
+                    onClick={() => handleAdmissionSlip(selectedCandidate, 'print')}
+                    className="btn-secondary-modern flex items-center"
+                  >
+                    <Printer className="h-4 w-4 mr-2" />
+                    Print Slip
+                  </button>
+                </>
+              )}
               <button 
                 onClick={() => {
                   setShowDetailsModal(false)
@@ -1059,136 +1711,62 @@ export function CandidateTracker() {
         </div>
       )}
 
-      {/* Modern Bulk Upload Modal */}
+      {/* Bulk Upload Modal */}
       {showBulkUploadModal && (
-        <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
-          <div className="modern-card p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
-            <div className="flex items-center justify-between mb-6">
-              <h2 className="text-2xl font-bold text-gray-900">Bulk Upload Candidates</h2>
-              <button
-                onClick={() => resetBulkUpload()}
-                className="text-gray-400 hover:text-gray-600 transition-colors"
-              >
-                <X className="h-6 w-6" />
-              </button>
-            </div>
+        <CandidateBulkUpload
+          onClose={() => setShowBulkUploadModal(false)}
+          onImported={loadCandidates}
+        />
+      )}
 
-            <div className="space-y-6">
-              {/* Instructions */}
-              <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-                <h3 className="text-lg font-semibold text-blue-900 mb-2">Upload Instructions</h3>
-                <ul className="text-sm text-blue-800 space-y-1">
-                  <li>• Upload a CSV file with candidate information</li>
-                  <li>• Required columns: <strong>full_name</strong>, <strong>email</strong></li>
-                  <li>• Optional columns: phone, exam_name, exam_date, notes</li>
-                  <li>• First row should contain column headers</li>
-                  <li>• Date format: YYYY-MM-DD or MM/DD/YYYY</li>
-                </ul>
-              </div>
+      {/* Admission Slips Modal */}
+      {showAdmissionSlipsModal && (
+        <CandidateAdmissionSlips
+          onClose={() => setShowAdmissionSlipsModal(false)}
+        />
+      )}
 
-              {/* File Upload */}
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Select CSV File</label>
-                <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 hover:border-gray-400 transition-colors">
-                  <div className="text-center">
-                    <Upload className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-                    <input
-                      type="file"
-                      accept=".csv,.xlsx,.xls"
-                      onChange={handleFileUpload}
-                      className="hidden"
-                      id="bulk-upload-input"
-                    />
-                    <label
-                      htmlFor="bulk-upload-input"
-                      className="cursor-pointer text-blue-600 hover:text-blue-700 font-medium"
-                    >
-                      Click to select file
-                    </label>
-                    <p className="text-gray-500 text-sm mt-1">CSV, XLS, or XLSX files only</p>
-                  </div>
-                  
-                  {uploadFile && (
-                    <div className="mt-4 p-3 bg-gray-50 rounded-lg">
-                      <p className="text-sm text-gray-700">
-                        <strong>Selected:</strong> {uploadFile.name} ({Math.round(uploadFile.size / 1024)}KB)
-                      </p>
-                    </div>
-                  )}
-                </div>
-              </div>
+      {/* Attendance Export Modal */}
+      {showExportModal && (
+        <CandidateExport
+          clientOptions={clientOptions}
+          onClose={() => setShowExportModal(false)}
+        />
+      )}
 
-              {/* Upload Progress */}
-              {uploadStatus === 'uploading' && (
-                <div>
-                  <div className="flex justify-between text-sm text-gray-600 mb-2">
-                    <span>Processing candidates...</span>
-                    <span>{uploadProgress}%</span>
-                  </div>
-                  <div className="w-full bg-gray-200 rounded-full h-3">
-                    <div 
-                      className="h-3 rounded-full transition-all duration-300"
-                      style={{ 
-                        width: `${uploadProgress}%`,
-                        background: 'var(--primary-gradient)'
-                      }}
-                    ></div>
-                  </div>
-                </div>
-              )}
+      {/* Photo ID Check Modal */}
+      {idCheck && (
+        <CandidateIdCheck
+          candidateName={idCheck.candidate.fullName}
+          onCancel={() => setIdCheck(null)}
+          onConfirm={handleIdVerified}
+        />
+      )}
 
-              {/* Upload Results */}
-              {uploadStatus === 'success' && (
-                <div className="bg-green-50 border border-green-200 rounded-lg p-4">
-                  <h3 className="text-lg font-semibold text-green-900 mb-2">Upload Completed!</h3>
-                  <p className="text-green-800">
-                    Successfully imported {uploadResults.success} candidates.
-                  </p>
-                  {uploadResults.errors.length > 0 && (
-                    <details className="mt-3">
-                      <summary className="cursor-pointer text-yellow-700 font-medium">View {uploadResults.errors.length} errors</summary>
-                      <ul className="mt-2 text-sm text-yellow-800 space-y-1 pl-4">
-                        {uploadResults.errors.map((error, index) => (
-                          <li key={index}>• {error}</li>
-                        ))}
-                      </ul>
-                    </details>
-                  )}
-                </div>
-              )}
+      {/* Reschedule Modal */}
+      {rescheduleCandidate && (
+        <CandidateReschedule
+          candidate={rescheduleCandidate}
+          sessions={sessionOptions}
+          onClose={() => setRescheduleCandidate(null)}
+          onRescheduled={handleRescheduled}
+        />
+      )}
 
-              {uploadStatus === 'error' && (
-                <div className="bg-red-50 border border-red-200 rounded-lg p-4">
-                  <h3 className="text-lg font-semibold text-red-900 mb-2">Upload Failed</h3>
-                  <ul className="text-red-800 space-y-1">
-                    {uploadResults.errors.map((error, index) => (
-                      <li key={index}>• {error}</li>
-                    ))}
-                  </ul>
-                </div>
-              )}
-            </div>
+      {/* No-show Report Modal */}
+      {showNoShowReport && (
+        <CandidateNoShowReport
+          onClose={() => setShowNoShowReport(false)}
+        />
+      )}
 
-            <div className="flex items-center justify-end space-x-4 mt-6">
-              <button
-                onClick={() => resetBulkUpload()}
-                className="btn-tertiary-modern"
-              >
-                {uploadStatus === 'success' ? 'Done' : 'Cancel'}
-              </button>
-              {uploadFile && uploadStatus !== 'uploading' && uploadStatus !== 'success' && (
-                <button
-                  onClick={processBulkUpload}
-                  className="btn-primary-modern"
-                  disabled={!uploadFile}
-                >
-                  <Upload className="h-4 w-4 mr-2" />
-                  Upload Candidates
-                </button>
-              )}
-            </div>
-          </div>
-        </div>
+      {/* Possible Duplicates Modal */}
+      {showDuplicatesModal && (
+        <CandidateDuplicates
+          pairs={duplicatePairs}
+          onClose={() => setShowDuplicatesModal(false)}
+          onChanged={loadCandidates}
+        />
       )}
     </div>
   )
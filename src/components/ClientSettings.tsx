@@ -0,0 +1,330 @@
+import { useState, useEffect } from 'react'
+import { Plus, Trash2, Building2, Save } from 'lucide-react'
+import { supabase } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
+import { fetchClients } from '../lib/clients'
+import { DEFAULT_LATE_GRACE_MINUTES, DEFAULT_NO_SHOW_AFTER_MINUTES } from '../utils/attendancePolicy'
+import {
+  Client,
+  DEFAULT_CLIENT_COLOR,
+  DEFAULT_SESSION_MINUTES,
+  MAX_SESSION_MINUTES,
+  MIN_SESSION_MINUTES,
+  getClientStyle,
+  parseAliases,
+  validateClient
+} from '../utils/clients'
+
+type ClientDraft = Omit<Client, 'id' | 'aliases'> & { id?: string; aliases: string }
+
+const EMPTY_DRAFT: ClientDraft = {
+  name: '',
+  aliases: '',
+  color: DEFAULT_CLIENT_COLOR,
+  default_session_minutes: DEFAULT_SESSION_MINUTES,
+  late_grace_minutes: DEFAULT_LATE_GRACE_MINUTES,
+  no_show_after_minutes: DEFAULT_NO_SHOW_AFTER_MINUTES,
+  contact_name: '',
+  contact_email: '',
+  contact_phone: '',
+  active: true
+}
+
+const inputClass = 'w-full px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-white placeholder-gray-500'
+
+export function ClientSettings() {
+  const { user, profile } = useAuth()
+  const [clients, setClients] = useState<Client[]>([])
+  const [draft, setDraft] = useState<ClientDraft | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [message, setMessage] = useState('')
+
+  const canEdit = profile?.role === 'admin' || profile?.role === 'super_admin'
+
+  useEffect(() => {
+    loadClients()
+  }, [])
+
+  const showMessage = (text: string) => {
+    setMessage(text)
+    setTimeout(() => setMessage(''), 3000)
+  }
+
+  const loadClients = async () => {
+    setLoading(true)
+    setClients(await fetchClients())
+    setLoading(false)
+  }
+
+  const editClient = (client: Client) => {
+    setDraft({
+      ...client,
+      aliases: client.aliases.join(', '),
+      contact_name: client.contact_name || '',
+      contact_email: client.contact_email || '',
+      contact_phone: client.contact_phone || ''
+    })
+  }
+
+  const updateDraft = (changes: Partial<ClientDraft>) => {
+    setDraft(prev => (prev ? { ...prev, ...changes } : prev))
+  }
+
+  const saveClient = async () => {
+    if (!draft) return
+    const client = {
+      ...draft,
+      name: draft.name.trim(),
+      aliases: parseAliases(draft.aliases),
+      contact_name: draft.contact_name?.trim() || null,
+      contact_email: draft.contact_email?.trim() || null,
+      contact_phone: draft.contact_phone?.trim() || null
+    }
+    const validationError = validateClient(client, clients)
+    if (validationError) {
+      showMessage(`Error: ${validationError}`)
+      return
+    }
+
+    const { id, ...values } = client
+    const row = { ...values, updated_by: user?.id, updated_at: new Date().toISOString() }
+    try {
+      const { data, error } = id
+        ? await supabase.from('clients').update(row).eq('id', id).select('id').single()
+        : await supabase.from('clients').insert(row).select('id').single()
+
+      if (error) throw error
+      showMessage('Client saved')
+      const saved = await fetchClients()
+      setClients(saved)
+      const current = saved.find(c => c.id === data.id)
+      if (current) editClient(current)
+    } catch (error: any) {
+      console.error('Error saving client:', error)
+      showMessage('Error saving client: ' + error.message)
+    }
+  }
+
+  const deleteClient = async (client: Client) => {
+    if (!window.confirm(`Delete ${client.name}? Clients with sessions cannot be deleted; mark them inactive instead.`)) return
+
+    try {
+      const { error } = await supabase
+        .from('clients')
+        .delete()
+        .eq('id', client.id)
+
+      if (error) {
+        // Sessions still reference the client
+        if (error.code === '23503') {
+          showMessage(`Error: ${client.name} has sessions; mark it inactive instead`)
+          return
+        }
+        throw error
+      }
+      setDraft(null)
+      await loadClients()
+    } catch (error: any) {
+      console.error('Error deleting client:', error)
+      showMessage('Error deleting client: ' + error.message)
+    }
+  }
+
+  const savedClient = clients.find(client => client.id === draft?.id)
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-white">Clients</h2>
+        {message && (
+          <span className={`text-sm ${message.includes('Error') ? 'text-red-400' : 'text-green-400'}`}>{message}</span>
+        )}
+      </div>
+
+      <div className="p-4 rounded-lg bg-white/5 space-y-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white flex items-center">
+            <Building2 className="h-5 w-5 mr-2 text-yellow-400" />
+            Client Registry
+          </h3>
+          <p className="text-sm text-gray-400 mt-1">
+            Sessions are booked for a client from this list, and the calendar, exports and analytics use its name and colour.
+            Names from imports and older sessions are matched to a client by its name or one of its aliases.
+            Candidates checking in after the exam start are flagged late; check-in closes when the client's grace window ends,
+            after which only a supervisor can check a candidate in, with a reason. Candidates still registered when the
+            no-show time passes are marked as no-shows automatically.
+          </p>
+        </div>
+
+        {loading ? (
+          <p className="text-gray-400 text-sm">Loading...</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {clients.map(client => (
+              <button
+                key={client.id}
+                onClick={() => editClient(client)}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center space-x-2 ${
+                  client.id === draft?.id ? 'bg-yellow-400 text-black' : 'bg-white/10 text-white hover:bg-white/20'
+                } ${client.active ? '' : 'opacity-50'}`}
+              >
+                <span className="h-3 w-3 rounded-full" style={{ backgroundColor: client.color }} />
+                <span>{client.name}</span>
+              </button>
+            ))}
+            {clients.length === 0 && (
+              <p className="text-gray-400 text-sm">No clients configured yet.</p>
+            )}
+            {canEdit && (
+              <button
+                onClick={() => setDraft({ ...EMPTY_DRAFT })}
+                className="px-4 py-2 rounded-lg text-sm font-medium bg-white/10 text-yellow-400 hover:bg-white/20 flex items-center space-x-1"
+              >
+                <Plus className="h-4 w-4" />
+                <span>New Client</span>
+              </button>
+            )}
+          </div>
+        )}
+
+        {draft && (
+          <div className="space-y-4 pt-4 border-t border-white/10">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm text-gray-400 mb-1">Display name</label>
+                <input
+                  type="text"
+                  className={inputClass}
+                  placeholder="e.g. Pearson VUE"
+                  value={draft.name}
+                  disabled={!canEdit}
+                  onChange={(e) => updateDraft({ name: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-gray-400 mb-1">Aliases, comma separated</label>
+                <input
+                  type="text"
+                  className={inputClass}
+                  placeholder="e.g. Pearson, VUE"
+                  value={draft.aliases}
+                  disabled={!canEdit}
+                  onChange={(e) => updateDraft({ aliases: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-gray-400 mb-1">Brand colour</label>
+                <div className="flex items-center gap-3">
+                  <input
+                    type="color"
+                    className="h-10 w-16 rounded bg-transparent"
+                    value={draft.color}
+                    disabled={!canEdit}
+                    onChange={(e) => updateDraft({ color: e.target.value })}
+                  />
+                  <span className="px-3 py-1 rounded-lg text-xs font-medium" style={getClientStyle(draft.color)}>
+                    {draft.name || 'Preview'}: 12
+                  </span>
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm text-gray-400 mb-1">Default session length (minutes)</label>
+                <input
+                  type="number"
+                  min={MIN_SESSION_MINUTES}
+                  max={MAX_SESSION_MINUTES}
+                  step={15}
+                  className={inputClass}
+                  value={draft.default_session_minutes}
+                  disabled={!canEdit}
+                  onChange={(e) => updateDraft({ default_session_minutes: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-gray-400 mb-1">Check-in grace window (minutes)</label>
+                <input
+                  type="number"
+                  min={0}
+                  className={inputClass}
+                  value={draft.late_grace_minutes}
+                  disabled={!canEdit}
+                  onChange={(e) => updateDraft({ late_grace_minutes: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-gray-400 mb-1">Mark no-show after (minutes)</label>
+                <input
+                  type="number"
+                  min={0}
+                  className={inputClass}
+                  value={draft.no_show_after_minutes}
+                  disabled={!canEdit}
+                  onChange={(e) => updateDraft({ no_show_after_minutes: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-gray-400 mb-1">Contact name</label>
+                <input
+                  type="text"
+                  className={inputClass}
+                  value={draft.contact_name || ''}
+                  disabled={!canEdit}
+                  onChange={(e) => updateDraft({ contact_name: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-gray-400 mb-1">Contact email</label>
+                <input
+                  type="email"
+                  className={inputClass}
+                  value={draft.contact_email || ''}
+                  disabled={!canEdit}
+                  onChange={(e) => updateDraft({ contact_email: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-gray-400 mb-1">Contact phone</label>
+                <input
+                  type="tel"
+                  className={inputClass}
+                  value={draft.contact_phone || ''}
+                  disabled={!canEdit}
+                  onChange={(e) => updateDraft({ contact_phone: e.target.value })}
+                />
+              </div>
+              <div className="flex items-end">
+                <label className="flex items-center space-x-2 text-sm text-white">
+                  <input
+                    type="checkbox"
+                    checked={draft.active}
+                    disabled={!canEdit}
+                    onChange={(e) => updateDraft({ active: e.target.checked })}
+                  />
+                  <span>Active — offered when booking new sessions</span>
+                </label>
+              </div>
+            </div>
+
+            {canEdit && (
+              <div className="flex items-center justify-between">
+                {savedClient ? (
+                  <button
+                    onClick={() => deleteClient(savedClient)}
+                    className="p-2 text-red-400 hover:text-red-300"
+                    title="Delete client"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                ) : <span />}
+                <button onClick={saveClient} className="golden-button flex items-center space-x-2">
+                  <Save className="h-4 w-4" />
+                  <span>Save Client</span>
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
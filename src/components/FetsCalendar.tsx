@@ -1,37 +1,89 @@
 import React, { useState, useEffect } from 'react'
-import { Calendar, Plus, ChevronLeft, ChevronRight, Edit, Trash2, X } from 'lucide-react'
+import { Calendar, Plus, ChevronLeft, ChevronRight, Edit, Trash2, X, LayoutGrid, Repeat, AlertTriangle, ChevronDown, Upload, Download, LayoutTemplate } from 'lucide-react'
 import { useAuth } from '../contexts/AuthContext'
 import { supabase } from '../lib/supabase'
-import { formatDateForIST, getCurrentISTDateString, isToday as isTodayIST, formatDateForDisplay } from '../utils/dateUtils'
-import { validateSessionCapacity, getCapacityStatusColor, formatCapacityDisplay } from '../utils/sessionUtils'
+import { formatDateForIST, getCurrentISTDateString, isToday as isTodayIST, formatDateForDisplay, createISTDate } from '../utils/dateUtils'
+import { getCapacityStatusColor, formatCapacityDisplay } from '../utils/sessionUtils'
+import { CENTRE_CODE } from '../utils/confirmationNumbers'
+import { TestingRoom, formatEquipment } from '../utils/seatAllocation'
+import { SessionSeating } from './SessionSeating'
+import { CalendarTimeGrid, SessionTimeChange } from './CalendarTimeGrid'
+import { CalendarAgenda } from './CalendarAgenda'
+import { CalendarCoverage } from './CalendarCoverage'
+import { SessionIcsImport } from './SessionIcsImport'
+import { SessionIcsExport } from './SessionIcsExport'
+import { SessionTemplateManager } from './SessionTemplateManager'
+import { SessionTemplateApply } from './SessionTemplateApply'
+import { fetchClients } from '../lib/clients'
+import { fetchSessionTemplates } from '../lib/sessionTemplates'
+import { fetchCandidatesPerInvigilator } from '../lib/staffing'
+import { Client, DEFAULT_CLIENT_COLOR, getClientStyle, getSessionClient } from '../utils/clients'
+import { formatTimeRange, getWeekDates, minutesToTime, timeToMinutes } from '../utils/calendarLayout'
+import { MAX_TEMPLATE_DATES, SessionTemplate, getDatesBetween } from '../utils/sessionTemplates'
+import { ConflictSession, SessionConflict, checkSessionConflicts, findCalendarConflicts } from '../utils/sessionConflicts'
+import { DEFAULT_CANDIDATES_PER_INVIGILATOR, MAX_REQUIRED_STAFF, RosterShift, getDayCoverage, getRequiredStaff } from '../utils/staffCoverage'
+import { parseSkills } from '../utils/rosterGenerator'
+import { SessionFields, SessionSeries, createSessionSeries, deleteSessionSeries, fetchSessionSeries, updateSessionSeries } from '../lib/sessionSeries'
+import {
+  MONTH_WEEK_OPTIONS,
+  RecurrenceFrequency,
+  RecurrenceRule,
+  SeriesEditScope,
+  WEEKDAY_LABELS,
+  addDays,
+  createDefaultRule,
+  describeRecurrence,
+  expandRecurrence,
+  validateRecurrenceRule
+} from '../utils/sessionRecurrence'
 
-interface Session {
+export interface Session {
   id?: number
+  client_id?: string | null
   client_name: string
   exam_name: string
   date: string
   candidate_count: number
+  capacity: number
   start_time: string
   end_time: string
+  room_id?: string | null
+  // Staff set by hand; null follows the candidate count
+  required_staff?: number | null
+  // Skills or roles someone rostered that day must have
+  required_skills?: string[] | null
+  series_id?: string | null
+  series_date?: string | null
   user_id: string
   created_at?: string
   updated_at?: string
 }
 
-const CLIENT_COLORS = {
-  'PEARSON': 'from-blue-500 to-blue-600 text-white',
-  'VUE': 'from-red-500 to-red-600 text-white', 
-  'ETS': 'from-green-500 to-green-600 text-white',
-  'PSI': 'from-purple-500 to-purple-600 text-white',
-  'PROMETRIC': 'from-orange-500 to-orange-600 text-white',
-  'OTHER': 'from-gray-500 to-gray-600 text-white'
-}
+type CalendarView = 'month' | 'week' | 'day' | 'agenda' | 'coverage'
+
+const CALENDAR_VIEWS: { value: CalendarView; label: string }[] = [
+  { value: 'month', label: 'Month' },
+  { value: 'week', label: 'Week' },
+  { value: 'day', label: 'Day' },
+  { value: 'agenda', label: 'Agenda' },
+  { value: 'coverage', label: 'Coverage' }
+]
 
-type ClientType = keyof typeof CLIENT_COLORS
+const AGENDA_DAY_OPTIONS = [7, 14, 30]
+
+interface SessionCandidate {
+  id: string
+  full_name: string
+  confirmation_number: string
+  status: string
+  session_id: number
+}
 
 export function FetsCalendar() {
   const { user } = useAuth()
   const [currentDate, setCurrentDate] = useState(new Date())
+  const [view, setView] = useState<CalendarView>('month')
+  const [agendaDays, setAgendaDays] = useState(14)
   const [sessions, setSessions] = useState<Session[]>([])
   const [loading, setLoading] = useState(true)
   const [showModal, setShowModal] = useState(false)
@@ -39,20 +91,67 @@ export function FetsCalendar() {
   const [selectedDate, setSelectedDate] = useState<Date | null>(null)
   const [editingSession, setEditingSession] = useState<Session | null>(null)
   const [notification, setNotification] = useState<{ type: 'success' | 'error' | 'warning'; message: string } | null>(null)
+  const [sessionCandidates, setSessionCandidates] = useState<SessionCandidate[]>([])
+  const [rooms, setRooms] = useState<TestingRoom[]>([])
+  const [clients, setClients] = useState<Client[]>([])
+  const [seatingSession, setSeatingSession] = useState<Session | null>(null)
+  const [seriesById, setSeriesById] = useState<Map<string, SessionSeries>>(new Map())
+  const [repeat, setRepeat] = useState(false)
+  const [recurrence, setRecurrence] = useState<RecurrenceRule>(createDefaultRule(getCurrentISTDateString()))
+  const [exceptionInput, setExceptionInput] = useState('')
+  // Roster for the days in view, used by the conflicts panel
+  const [rosterShifts, setRosterShifts] = useState<RosterShift[]>([])
+  const [candidatesPerInvigilator, setCandidatesPerInvigilator] = useState(DEFAULT_CANDIDATES_PER_INVIGILATOR)
+  const [showConflicts, setShowConflicts] = useState(false)
+  const [showIcsImport, setShowIcsImport] = useState(false)
+  const [showIcsExport, setShowIcsExport] = useState(false)
+  const [templates, setTemplates] = useState<SessionTemplate[]>([])
+  const [showTemplateManager, setShowTemplateManager] = useState(false)
+  // Dates being previewed for booking from a template
+  const [templateApplyDates, setTemplateApplyDates] = useState<string[] | null>(null)
+  // Dates picked in the month grid for a template, or null when not picking
+  const [templateDates, setTemplateDates] = useState<string[] | null>(null)
+  const [lastTemplateDate, setLastTemplateDate] = useState<string | null>(null)
+  // Sessions and roster on the date chosen in the form, checked against the session before it is saved
+  const [formDay, setFormDay] = useState<{ date: string; sessions: ConflictSession[]; shifts: RosterShift[] } | null>(null)
+  // Edits and deletes of a recurring session wait here until the user picks which occurrences they apply to
+  const [scopePrompt, setScopePrompt] = useState<{ action: 'edit' | 'delete'; session: Session } | null>(null)
   const [formData, setFormData] = useState({
+    client_id: '',
     client_name: '',
     exam_name: '',
     date: '',
-    candidate_count: 1,
     start_time: '09:00',
-    end_time: '17:00'
+    end_time: '17:00',
+    room_id: '',
+    // Blank follows the candidate count
+    required_staff: '',
+    // Comma-separated
+    required_skills: ''
   })
 
   useEffect(() => {
     if (user) {
       loadSessions()
     }
-  }, [user, currentDate])
+  }, [user, currentDate, view, agendaDays])
+
+  useEffect(() => {
+    if (user) {
+      loadRooms()
+      fetchClients().then(setClients)
+      fetchSessionTemplates().then(setTemplates)
+      fetchCandidatesPerInvigilator().then(setCandidatesPerInvigilator)
+    }
+  }, [user])
+
+  useEffect(() => {
+    if (showModal && formData.date) {
+      loadFormDay()
+    } else {
+      setFormDay(null)
+    }
+  }, [showModal, formData.date])
 
   // Auto-hide notifications
   useEffect(() => {
@@ -66,21 +165,33 @@ export function FetsCalendar() {
     setNotification({ type, message })
   }
 
+  // The coverage view covers the same month as the month grid
+  const isMonthView = view === 'month' || view === 'coverage'
+
+  // Days shown by the week, day and agenda views
+  const getViewDates = (): string[] => {
+    const anchor = formatDateForIST(currentDate)
+    if (view === 'week') return getWeekDates(anchor)
+    if (view === 'agenda') return Array.from({ length: agendaDays }, (_, day) => addDays(anchor, day))
+    return [anchor]
+  }
+
   const loadSessions = async () => {
     try {
       setLoading(true)
       
-      // Get sessions for current month using IST dates
+      // Get sessions for the current month, or the days in view, using IST dates
       const startOfMonth = new Date(currentDate.getFullYear(), currentDate.getMonth(), 1)
       const endOfMonth = new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 0)
+      const viewDates = getViewDates()
       
       // Use IST date formatting for consistent query
-      const startDateIST = formatDateForIST(startOfMonth)
-      const endDateIST = formatDateForIST(endOfMonth)
+      const startDateIST = isMonthView ? formatDateForIST(startOfMonth) : viewDates[0]
+      const endDateIST = isMonthView ? formatDateForIST(endOfMonth) : viewDates[viewDates.length - 1]
       
       const { data, error } = await supabase
         .from('sessions')
-        .select('*')
+        .select('*, capacity')
         .gte('date', startDateIST)
         .lte('date', endDateIST)
         .order('date', { ascending: true })
@@ -91,6 +202,9 @@ export function FetsCalendar() {
       }
       
       setSessions(data || [])
+      setRosterShifts(await fetchRosterShifts(startDateIST, endDateIST))
+      const seriesIds = [...new Set((data || []).map(session => session.series_id).filter(Boolean))]
+      setSeriesById(await fetchSessionSeries(seriesIds))
     } catch (error) {
       console.error('Error loading sessions:', error)
       showNotification('error', 'Failed to load sessions')
@@ -100,6 +214,49 @@ export function FetsCalendar() {
     }
   }
 
+  const loadRooms = async () => {
+    const { data, error } = await supabase
+      .from('testing_rooms')
+      .select('id, name, grid_rows, grid_cols, seat_count, equipment')
+      .eq('centre_code', CENTRE_CODE)
+      .order('name')
+
+    if (error) {
+      console.error('Error loading testing rooms:', error)
+      return
+    }
+    setRooms(data || [])
+  }
+
+  const fetchRosterShifts = async (startDate: string, endDate: string): Promise<RosterShift[]> => {
+    const { data, error } = await supabase
+      .from('roster_schedules')
+      .select('profile_id, date, shift_code, overtime_hours')
+      .gte('date', startDate)
+      .lte('date', endDate)
+
+    if (error) {
+      console.error('Error loading roster:', error)
+      return []
+    }
+    return data || []
+  }
+
+  const loadFormDay = async () => {
+    const date = formData.date
+    const { data, error } = await supabase
+      .from('sessions')
+      .select('id, client_name, exam_name, date, start_time, end_time, room_id, candidate_count, required_staff')
+      .eq('date', date)
+
+    if (error) {
+      console.error('Error loading sessions for the day:', error)
+      setFormDay(null)
+      return
+    }
+    setFormDay({ date, sessions: data || [], shifts: await fetchRosterShifts(date, date) })
+  }
+
   const getDaysInMonth = () => {
     const year = currentDate.getFullYear()
     const month = currentDate.getMonth()
@@ -128,16 +285,6 @@ export function FetsCalendar() {
     return sessions.filter(session => session.date === dateStr)
   }
 
-  const getClientType = (clientName: string): ClientType => {
-    const upperName = clientName.toUpperCase()
-    if (upperName.includes('PEARSON')) return 'PEARSON'
-    if (upperName.includes('VUE')) return 'VUE'
-    if (upperName.includes('ETS')) return 'ETS'
-    if (upperName.includes('PSI')) return 'PSI'
-    if (upperName.includes('PROMETRIC')) return 'PROMETRIC'
-    return 'OTHER'
-  }
-
   // Get per-client candidate counts for a date
   const getClientCounts = (date: Date) => {
     const daySessions = getSessionsForDate(date)
@@ -150,87 +297,231 @@ export function FetsCalendar() {
     return clientCounts
   }
 
-  const formatTimeRange = (startTime: string, endTime: string) => {
-    const formatTime = (time: string) => {
-      const [hours, minutes] = time.split(':')
-      const hour = parseInt(hours)
-      const ampm = hour >= 12 ? 'pm' : 'am'
-      const displayHour = hour > 12 ? hour - 12 : hour === 0 ? 12 : hour
-      return `${displayHour}:${minutes}${ampm}`
-    }
-    return `${formatTime(startTime)} - ${formatTime(endTime)}`
-  }
-
-  const openModal = (date?: Date, session?: Session) => {
+  const openModal = (date?: Date, session?: Session, startTime?: string) => {
     if (session) {
       setEditingSession(session)
       setFormData({
+        client_id: getSessionClient(clients, session)?.id || '',
         client_name: session.client_name,
         exam_name: session.exam_name,
         date: session.date,
-        candidate_count: session.candidate_count,
         start_time: session.start_time,
-        end_time: session.end_time
+        end_time: session.end_time,
+        room_id: session.room_id || '',
+        required_staff: session.required_staff?.toString() ?? '',
+        required_skills: (session.required_skills || []).join(', ')
       })
+      const series = session.series_id ? seriesById.get(session.series_id) : undefined
+      setRepeat(!!series)
+      setRecurrence(series || createDefaultRule(session.date))
     } else {
       setEditingSession(null)
       const dateStr = date ? formatDateForIST(date) : getCurrentISTDateString()
       setFormData({
+        client_id: '',
         client_name: '',
         exam_name: '',
         date: dateStr,
-        candidate_count: 1,
-        start_time: '09:00',
-        end_time: '17:00'
+        start_time: startTime || '09:00',
+        // Sessions added from a time slot default to three hours
+        end_time: startTime ? minutesToTime(Math.min(timeToMinutes(startTime) + 180, 23 * 60 + 45)) : '17:00',
+        room_id: rooms.find(room => room.seat_count > 0)?.id || '',
+        required_staff: '',
+        required_skills: ''
       })
+      setRepeat(false)
+      setRecurrence(createDefaultRule(dateStr))
     }
+    setExceptionInput('')
     setShowModal(true)
   }
 
+  const loadSessionCandidates = async (sessionIds: number[]) => {
+    try {
+      const { data, error } = await supabase
+        .from('candidates')
+        .select('id, full_name, confirmation_number, status, session_id')
+        .in('session_id', sessionIds)
+        .order('full_name', { ascending: true })
+
+      if (error) throw error
+      setSessionCandidates(data || [])
+    } catch (error) {
+      console.error('Error loading session candidates:', error)
+      showNotification('error', 'Failed to load candidates for this day')
+      setSessionCandidates([])
+    }
+  }
+
   const openDetailsModal = (date: Date) => {
     const daySessions = getSessionsForDate(date)
     if (daySessions.length > 0) {
       setSelectedDate(date)
+      setSessionCandidates([])
       setShowDetailsModal(true)
+      loadSessionCandidates(daySessions.map(session => session.id!))
     } else {
       openModal(date)
     }
   }
 
+  const openSessionDetails = (session: Session) => {
+    openDetailsModal(createISTDate(session.date))
+  }
+
+  // Dragging a recurring session moves only that occurrence
+  const handleSessionTimeChange = async (session: Session, changes: SessionTimeChange) => {
+    if (!user) return
+    const conflicts = checkSessionConflicts(
+      { ...session, ...changes },
+      sessions,
+      rooms,
+      rosterShifts.filter(shift => shift.date === changes.date),
+      candidatesPerInvigilator
+    )
+    const blocking = conflicts.find(conflict => conflict.severity === 'error')
+    if (blocking) {
+      showNotification('error', `${session.client_name} not moved: ${blocking.message}`)
+      return
+    }
+
+    setSessions(prev => prev.map(s => (s.id === session.id ? { ...s, ...changes } : s)))
+
+    try {
+      const { error } = await supabase
+        .from('sessions')
+        .update({ ...changes, user_id: user.id, updated_at: new Date().toISOString() })
+        .eq('id', session.id!)
+
+      if (error) throw error
+      const moved = `${session.client_name} moved to ${formatDateForDisplay(changes.date)}, ${formatTimeRange(changes.start_time, changes.end_time)}`
+      if (conflicts.length > 0) {
+        showNotification('warning', `${moved}. ${conflicts[0].message}`)
+      } else {
+        showNotification('success', moved)
+      }
+    } catch (error: any) {
+      console.error('Error moving session:', error)
+      showNotification('error', 'Failed to move session: ' + error.message)
+      await loadSessions()
+    }
+  }
+
   const closeModal = () => {
     setShowModal(false)
     setShowDetailsModal(false)
     setEditingSession(null)
     setSelectedDate(null)
     setFormData({
+      client_id: '',
       client_name: '',
       exam_name: '',
       date: '',
-      candidate_count: 1,
       start_time: '09:00',
-      end_time: '17:00'
+      end_time: '17:00',
+      room_id: '',
+      required_staff: '',
+      required_skills: ''
     })
   }
 
+  const getFormRequiredStaff = (): number | null =>
+    formData.required_staff === '' ? null : parseInt(formData.required_staff)
+
+  const getSessionFields = (): SessionFields => ({
+    client_id: formData.client_id || null,
+    client_name: formData.client_name,
+    exam_name: formData.exam_name,
+    start_time: formData.start_time,
+    end_time: formData.end_time,
+    room_id: formData.room_id || null,
+    required_staff: getFormRequiredStaff(),
+    required_skills: parseSkills(formData.required_skills)
+  })
+
+  const toOccurrence = (session: Session) => ({
+    id: session.id!,
+    series_id: session.series_id!,
+    series_date: session.series_date || session.date,
+    candidate_count: session.candidate_count
+  })
+
+  // Conflicts for the session as entered in the form, once the chosen day has loaded
+  const getFormConflicts = (): SessionConflict[] => {
+    if (!formDay || formDay.date !== formData.date) return []
+    return checkSessionConflicts(
+      {
+        id: editingSession?.id,
+        client_name: formData.client_name,
+        exam_name: formData.exam_name,
+        date: formData.date,
+        start_time: formData.start_time,
+        end_time: formData.end_time,
+        room_id: formData.room_id || null,
+        candidate_count: editingSession?.candidate_count || 0,
+        required_staff: getFormRequiredStaff()
+      },
+      formDay.sessions,
+      rooms,
+      formDay.shifts,
+      candidatesPerInvigilator
+    )
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!user) return
 
-    // Validate session capacity
-    const capacityValidation = validateSessionCapacity(formData.candidate_count)
-    
-    if (!capacityValidation.isValid) {
-      showNotification('error', capacityValidation.error!)
+    const requiredStaff = getFormRequiredStaff()
+    if (requiredStaff !== null && !(requiredStaff >= 0 && requiredStaff <= MAX_REQUIRED_STAFF)) {
+      showNotification('error', `Staff needed must be from 0 to ${MAX_REQUIRED_STAFF}, or blank`)
       return
     }
-    
-    if (capacityValidation.warning) {
-      showNotification('warning', capacityValidation.warning)
+
+    if (getFormConflicts().some(conflict => conflict.severity === 'error')) {
+      showNotification('error', 'Resolve the conflicts shown in the form before saving')
+      return
+    }
+
+    if (editingSession?.series_id) {
+      setScopePrompt({ action: 'edit', session: editingSession })
+      return
     }
 
+    if (!editingSession && repeat) {
+      const rule = { ...recurrence, start_date: formData.date }
+      const validationError = validateRecurrenceRule(rule)
+      if (validationError) {
+        showNotification('error', validationError)
+        return
+      }
+
+      try {
+        const created = await createSessionSeries(rule, getSessionFields(), user.id)
+        showNotification('success', `${created} sessions created!`)
+        closeModal()
+        await loadSessions()
+      } catch (error) {
+        console.error('Error creating session series:', error)
+        showNotification('error', 'Failed to create recurring sessions')
+      }
+      return
+    }
+
+    await saveSession()
+  }
+
+  const saveSession = async () => {
+    if (!user) return
+
+    // candidate_count is derived from registrations and never written here
     try {
       const sessionData = {
         ...formData,
+        client_id: formData.client_id || null,
+        room_id: formData.room_id || null,
+        required_staff: getFormRequiredStaff(),
+        required_skills: parseSkills(formData.required_skills),
         user_id: user.id,
         updated_at: new Date().toISOString()
       }
@@ -259,16 +550,82 @@ export function FetsCalendar() {
 
       closeModal()
       await loadSessions()
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error saving session:', error)
-      showNotification('error', 'Failed to save session')
+      showNotification('error', 'Failed to save session: ' + error.message)
+    }
+  }
+
+  const saveSeriesEdit = async (session: Session, scope: SeriesEditScope) => {
+    if (!user) return
+    setScopePrompt(null)
+    if (scope === 'this') {
+      await saveSession()
+      return
+    }
+
+    const validationError = validateRecurrenceRule(recurrence)
+    if (validationError) {
+      showNotification('error', validationError)
+      return
+    }
+
+    try {
+      await updateSessionSeries(toOccurrence(session), scope, recurrence, getSessionFields())
+      showNotification('success', scope === 'all' ? 'All sessions in the series updated!' : 'This and following sessions updated!')
+      closeModal()
+      await loadSessions()
+    } catch (error) {
+      console.error('Error updating session series:', error)
+      showNotification('error', error instanceof Error ? error.message : 'Failed to update the session series')
     }
   }
 
-  const handleDelete = async (sessionId: number) => {
+  const deleteSeriesSessions = async (session: Session, scope: SeriesEditScope) => {
+    setScopePrompt(null)
+    try {
+      const deleted = await deleteSessionSeries(toOccurrence(session), scope)
+      showNotification('success', deleted === 1 ? 'Session deleted successfully!' : `${deleted} sessions deleted successfully!`)
+      await loadSessions()
+      closeDetailsIfEmpty(session)
+    } catch (error) {
+      console.error('Error deleting session series:', error)
+      showNotification('error', error instanceof Error ? error.message : 'Failed to delete sessions')
+    }
+  }
+
+  // Close the details modal once the day has no sessions left
+  const closeDetailsIfEmpty = (deleted: Session) => {
+    if (selectedDate) {
+      const remainingSessions = getSessionsForDate(selectedDate).filter(s => s.id !== deleted.id)
+      if (remainingSessions.length === 0) {
+        setShowDetailsModal(false)
+      }
+    }
+  }
+
+  const handleDelete = async (session: Session) => {
+    if (session.series_id) {
+      setScopePrompt({ action: 'delete', session })
+      return
+    }
+    if (session.candidate_count > 0) {
+      showNotification('error', `Move or cancel the ${session.candidate_count} booked candidates before deleting this session`)
+      return
+    }
     if (!confirm('Are you sure you want to delete this session?')) return
+    const sessionId = session.id!
 
     try {
+      // Cancelled bookings do not hold the session open
+      const { error: unlinkError } = await supabase
+        .from('candidates')
+        .update({ session_id: null })
+        .eq('session_id', sessionId)
+        .eq('status', 'cancelled')
+
+      if (unlinkError) throw unlinkError
+
       const { error } = await supabase
         .from('sessions')
         .delete()
@@ -277,21 +634,97 @@ export function FetsCalendar() {
       if (error) throw error
       showNotification('success', 'Session deleted successfully!')
       await loadSessions()
-      
-      // Close details modal if no more sessions for this date
-      if (selectedDate) {
-        const remainingSessions = getSessionsForDate(selectedDate).filter(s => s.id !== sessionId)
-        if (remainingSessions.length === 0) {
-          setShowDetailsModal(false)
-        }
-      }
+      closeDetailsIfEmpty(session)
     } catch (error) {
       console.error('Error deleting session:', error)
       showNotification('error', 'Failed to delete session')
     }
   }
 
-  const navigateMonth = (direction: 'prev' | 'next') => {
+  // New sessions take the client's usual length
+  const selectClient = (clientId: string) => {
+    const client = clients.find(c => c.id === clientId)
+    setFormData(prev => ({
+      ...prev,
+      client_id: clientId,
+      client_name: client?.name || '',
+      end_time: client && !editingSession
+        ? minutesToTime(Math.min(timeToMinutes(prev.start_time) + client.default_session_minutes, 23 * 60 + 45))
+        : prev.end_time
+    }))
+  }
+
+  // Fills the form from a template; the date stays as chosen
+  const selectTemplate = (templateId: string) => {
+    const template = templates.find(t => t.id === templateId)
+    if (!template) return
+    setFormData(prev => ({
+      ...prev,
+      client_id: template.client_id,
+      client_name: clients.find(c => c.id === template.client_id)?.name || '',
+      exam_name: template.exam_name,
+      start_time: template.start_time.slice(0, 5),
+      end_time: template.end_time.slice(0, 5),
+      room_id: template.room_id || ''
+    }))
+  }
+
+  const startTemplatePicking = () => {
+    setView('month')
+    setTemplateDates([])
+    setLastTemplateDate(null)
+  }
+
+  const stopTemplatePicking = () => {
+    setTemplateDates(null)
+    setLastTemplateDate(null)
+  }
+
+  // A click picks or unpicks a day; a shift-click picks every day from the last one clicked
+  const pickTemplateDate = (day: Date, extend: boolean) => {
+    if (!templateDates) return
+    const date = formatDateForIST(day)
+    const picked = extend && lastTemplateDate
+      ? [...new Set([...templateDates, ...getDatesBetween(lastTemplateDate, date)])]
+      : templateDates.includes(date) ? templateDates.filter(d => d !== date) : [...templateDates, date]
+
+    if (picked.length > MAX_TEMPLATE_DATES) {
+      showNotification('error', `Pick at most ${MAX_TEMPLATE_DATES} dates at a time`)
+      return
+    }
+    setTemplateDates(picked.sort())
+    setLastTemplateDate(date)
+  }
+
+  const updateRecurrence = (changes: Partial<RecurrenceRule>) => {
+    setRecurrence(prev => ({ ...prev, ...changes }))
+  }
+
+  const toggleRepeat = (checked: boolean) => {
+    setRepeat(checked)
+    if (checked) setRecurrence(createDefaultRule(formData.date || getCurrentISTDateString()))
+  }
+
+  const toggleWeekday = (weekday: number) => {
+    updateRecurrence({
+      weekdays: recurrence.weekdays.includes(weekday)
+        ? recurrence.weekdays.filter(day => day !== weekday)
+        : [...recurrence.weekdays, weekday]
+    })
+  }
+
+  const addException = () => {
+    if (!exceptionInput || recurrence.exception_dates.includes(exceptionInput)) return
+    updateRecurrence({ exception_dates: [...recurrence.exception_dates, exceptionInput].sort() })
+    setExceptionInput('')
+  }
+
+  const navigatePeriod = (direction: 'prev' | 'next') => {
+    if (!isMonthView) {
+      const step = { week: 7, day: 1, agenda: agendaDays }[view]
+      setCurrentDate(createISTDate(addDays(formatDateForIST(currentDate), direction === 'prev' ? -step : step)))
+      return
+    }
     const newDate = new Date(currentDate)
     if (direction === 'prev') {
       newDate.setMonth(newDate.getMonth() - 1)
@@ -301,13 +734,58 @@ export function FetsCalendar() {
     setCurrentDate(newDate)
   }
 
+  const changeView = (newView: CalendarView) => {
+    // The agenda lists the days ahead, so it starts from today
+    if (newView === 'agenda') setCurrentDate(new Date())
+    // Template dates are picked in the month grid
+    if (newView !== 'month') stopTemplatePicking()
+    setView(newView)
+  }
+
   const monthYear = currentDate.toLocaleDateString('en-IN', { 
     month: 'long', 
     year: 'numeric',
     timeZone: 'Asia/Kolkata'
   })
 
+  const viewDates = getViewDates()
+  const selectedRoom = rooms.find(room => room.id === formData.room_id)
+  const formConflicts = showModal ? getFormConflicts() : []
+  const formHasErrors = formConflicts.some(conflict => conflict.severity === 'error')
+  // Candidates booked by other sessions in the chosen room at the chosen time
+  const roomSeatsTaken = selectedRoom && formDay?.date === formData.date
+    ? formDay.sessions
+      .filter(session =>
+        session.id !== editingSession?.id &&
+        session.room_id === selectedRoom.id &&
+        timeToMinutes(session.start_time) < timeToMinutes(formData.end_time) &&
+        timeToMinutes(formData.start_time) < timeToMinutes(session.end_time)
+      )
+      .reduce((total, session) => total + session.candidate_count, 0)
+    : null
+  const periodConflicts = findCalendarConflicts(sessions, rooms, rosterShifts, candidatesPerInvigilator)
+  const conflictDates = [...new Set(periodConflicts.map(conflict => conflict.date))]
+  const formatShortDate = (date: string) =>
+    createISTDate(date).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'Asia/Kolkata' })
+  const periodTitle =
+    isMonthView ? monthYear :
+    view === 'day' ? formatDateForDisplay(viewDates[0]) :
+    `${formatShortDate(viewDates[0])} – ${formatShortDate(viewDates[viewDates.length - 1])}`
+  const getSessionColor = (session: Session) => getSessionClient(clients, session)?.color || DEFAULT_CLIENT_COLOR
+  const activeClients = clients.filter(client => client.active || client.id === formData.client_id)
+
   const days = getDaysInMonth()
+  const monthCoverage = isMonthView
+    ? days.filter(Boolean).map(day => getDayCoverage(formatDateForIST(day!), sessions, rosterShifts, candidatesPerInvigilator))
+    : []
+  // Staff the session in the form needs when none is set on it
+  const derivedRequiredStaff = getRequiredStaff(
+    { date: formData.date, start_time: formData.start_time, end_time: formData.end_time, candidate_count: editingSession?.candidate_count || 0 },
+    candidatesPerInvigilator
+  )
+  const previewRule = editingSession ? recurrence : { ...recurrence, start_date: formData.date }
+  const recurrenceError = repeat ? validateRecurrenceRule(previewRule) : null
+  const recurrenceDates = repeat && !recurrenceError ? expandRecurrence(previewRule) : []
   const isToday = (date: Date | null) => {
     if (!date) return false
     return isTodayIST(date)
@@ -355,32 +833,90 @@ export function FetsCalendar() {
             </div>
           </div>
           
-          <button
-            onClick={() => openModal()}
-            className="bg-gradient-to-r from-turquoise to-cyan text-white px-6 py-3 rounded-xl font-medium hover:shadow-2xl transform hover:scale-105 transition-all duration-200 flex items-center space-x-2"
-          >
-            <Plus className="h-5 w-5" />
-            <span>Add Session</span>
-          </button>
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              onClick={startTemplatePicking}
+              className="px-4 py-3 rounded-xl border border-turquoise/30 text-turquoise font-medium hover:bg-turquoise/10 transition-all flex items-center space-x-2"
+            >
+              <LayoutTemplate className="h-5 w-5" />
+              <span>Templates</span>
+            </button>
+            <button
+              onClick={() => setShowIcsImport(true)}
+              className="px-4 py-3 rounded-xl border border-turquoise/30 text-turquoise font-medium hover:bg-turquoise/10 transition-all flex items-center space-x-2"
+            >
+              <Upload className="h-5 w-5" />
+              <span>Import .ics</span>
+            </button>
+            <button
+              onClick={() => setShowIcsExport(true)}
+              className="px-4 py-3 rounded-xl border border-turquoise/30 text-turquoise font-medium hover:bg-turquoise/10 transition-all flex items-center space-x-2"
+            >
+              <Download className="h-5 w-5" />
+              <span>Export .ics</span>
+            </button>
+            <button
+              onClick={() => openModal()}
+              className="bg-gradient-to-r from-turquoise to-cyan text-white px-6 py-3 rounded-xl font-medium hover:shadow-2xl transform hover:scale-105 transition-all duration-200 flex items-center space-x-2"
+            >
+              <Plus className="h-5 w-5" />
+              <span>Add Session</span>
+            </button>
+          </div>
         </div>
       </div>
 
-      {/* Month Navigation */}
-      <div className="backdrop-blur-md bg-white/70 border border-white/20 shadow-xl rounded-2xl p-4">
+      {/* Period Navigation */}
+      <div className="backdrop-blur-md bg-white/70 border border-white/20 shadow-xl rounded-2xl p-4 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex rounded-xl bg-white/50 p-1">
+            {CALENDAR_VIEWS.map(option => (
+              <button
+                key={option.value}
+                onClick={() => changeView(option.value)}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+                  view === option.value ? 'bg-gradient-to-r from-turquoise to-cyan text-white shadow-md' : 'text-gray-600 hover:text-turquoise'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            {view === 'agenda' && (
+              <select
+                value={agendaDays}
+                onChange={(e) => setAgendaDays(parseInt(e.target.value))}
+                className="px-3 py-2 border border-white/30 rounded-xl focus:outline-none focus:ring-2 focus:ring-turquoise bg-white/80 text-gray-800 text-sm shadow-md"
+              >
+                {AGENDA_DAY_OPTIONS.map(option => (
+                  <option key={option} value={option}>Next {option} days</option>
+                ))}
+              </select>
+            )}
+            <button
+              onClick={() => setCurrentDate(new Date())}
+              className="px-4 py-2 rounded-xl border border-turquoise/30 text-turquoise text-sm font-medium hover:bg-turquoise/10 transition-all"
+            >
+              Today
+            </button>
+          </div>
+        </div>
+
         <div className="flex items-center justify-between">
           <button
-            onClick={() => navigateMonth('prev')}
+            onClick={() => navigatePeriod('prev')}
             className="p-3 rounded-xl bg-gradient-to-r from-turquoise to-cyan text-white hover:shadow-lg transform hover:scale-105 transition-all duration-200"
           >
             <ChevronLeft className="h-5 w-5" />
           </button>
           
           <h2 className="text-2xl font-bold text-center min-w-[250px] bg-gradient-to-r from-turquoise to-cyan bg-clip-text text-transparent">
-            {monthYear}
+            {periodTitle}
           </h2>
           
           <button
-            onClick={() => navigateMonth('next')}
+            onClick={() => navigatePeriod('next')}
             className="p-3 rounded-xl bg-gradient-to-r from-turquoise to-cyan text-white hover:shadow-lg transform hover:scale-105 transition-all duration-200"
           >
             <ChevronRight className="h-5 w-5" />
@@ -388,72 +924,207 @@ export function FetsCalendar() {
         </div>
       </div>
 
-      {/* Calendar Grid */}
-      <div className="backdrop-blur-md bg-white/70 border border-white/20 shadow-xl rounded-2xl p-6">
-        {/* Weekday Headers */}
-        <div className="grid grid-cols-7 gap-2 mb-4">
-          {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map((day) => (
-            <div key={day} className="text-center text-sm font-bold text-turquoise py-3 backdrop-blur-sm bg-white/50 rounded-xl">
-              {day}
-            </div>
-          ))}
+      {/* Template Date Picking */}
+      {templateDates && (
+        <div className="backdrop-blur-md bg-white/70 border border-turquoise/30 shadow-xl rounded-2xl p-4 flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <p className="font-semibold text-gray-800">
+              {templateDates.length === 0 ? 'Pick dates in the calendar' : `${templateDates.length} ${templateDates.length === 1 ? 'date' : 'dates'} picked`}
+            </p>
+            <p className="text-xs text-gray-500">
+              {templates.length === 0
+                ? 'Add a template under Manage Templates first.'
+                : 'Click a day to pick it, or shift-click to pick every day since the last one.'}
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={() => setShowTemplateManager(true)}
+              className="px-4 py-2 rounded-xl border border-turquoise/30 text-turquoise text-sm font-medium hover:bg-turquoise/10 transition-all"
+            >
+              Manage Templates
+            </button>
+            <button
+              onClick={stopTemplatePicking}
+              className="px-4 py-2 rounded-xl border border-gray-300 text-gray-700 text-sm font-medium hover:bg-gray-50 transition-all"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => setTemplateApplyDates(templateDates)}
+              disabled={templateDates.length === 0 || templates.length === 0}
+              className="px-4 py-2 rounded-xl bg-gradient-to-r from-turquoise to-cyan text-white text-sm font-medium hover:shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Preview Sessions
+            </button>
+          </div>
         </div>
+      )}
 
-        {/* Calendar Days */}
-        <div className="grid grid-cols-7 gap-2">
-          {days.map((day, index) => {
-            if (!day) {
-              return <div key={index} className="aspect-square"></div>
-            }
-
-            const clientCounts = getClientCounts(day)
-            const hasEvents = Object.keys(clientCounts).length > 0
-            const todayClass = isToday(day)
-
-            return (
-              <div
-                key={index}
-                className={`aspect-square rounded-2xl p-3 cursor-pointer transition-all duration-200 hover:scale-105 backdrop-blur-sm ${
-                  todayClass 
-                    ? 'bg-gradient-to-br from-yellow-400/80 to-orange-400/80 text-white shadow-2xl border border-yellow-300' 
-                    : hasEvents 
-                    ? 'bg-gradient-to-br from-turquoise/20 to-cyan/30 border border-turquoise/30 hover:shadow-xl'
-                    : 'bg-white/50 border border-white/30 hover:bg-white/70 hover:shadow-lg'
-                }`}
-                onClick={() => openDetailsModal(day)}
-              >
-                <div className={`text-lg font-bold mb-2 ${
-                  todayClass ? 'text-white' : 'text-gray-800'
-                }`}>
-                  {day.getDate()}
+      {/* Conflicts Panel */}
+      {periodConflicts.length > 0 && (
+        <div className="backdrop-blur-md bg-white/70 border border-amber-200 shadow-xl rounded-2xl p-4">
+          <button
+            onClick={() => setShowConflicts(!showConflicts)}
+            className="w-full flex items-center justify-between text-left"
+          >
+            <div className="flex items-center space-x-2">
+              <AlertTriangle className={`h-5 w-5 ${periodConflicts.some(c => c.severity === 'error') ? 'text-red-500' : 'text-amber-500'}`} />
+              <span className="font-semibold text-gray-800">
+                {periodConflicts.length} {periodConflicts.length === 1 ? 'conflict' : 'conflicts'} {isMonthView ? 'this month' : 'in this period'}
+              </span>
+            </div>
+            <ChevronDown className={`h-5 w-5 text-gray-500 transition-transform ${showConflicts ? 'rotate-180' : ''}`} />
+          </button>
+
+          {showConflicts && (
+            <div className="mt-4 space-y-4">
+              {conflictDates.map(date => (
+                <div key={date}>
+                  <button
+                    onClick={() => openDetailsModal(createISTDate(date))}
+                    className="text-sm font-bold text-turquoise hover:underline mb-2"
+                  >
+                    {formatDateForDisplay(date)}
+                  </button>
+                  <div className="space-y-1">
+                    {periodConflicts.filter(conflict => conflict.date === date).map((conflict, index) => (
+                      <div
+                        key={index}
+                        className={`flex items-start space-x-2 text-sm ${conflict.severity === 'error' ? 'text-red-700' : 'text-amber-700'}`}
+                      >
+                        <span className={`mt-1.5 h-2 w-2 rounded-full shrink-0 ${conflict.severity === 'error' ? 'bg-red-500' : 'bg-amber-500'}`} />
+                        <span>{conflict.message}</span>
+                      </div>
+                    ))}
+                  </div>
                 </div>
-                
-                <div className="space-y-1 overflow-hidden">
-                  {Object.entries(clientCounts).slice(0, 3).map(([client, count], idx) => {
-                    const clientType = getClientType(client)
-                    const colorClass = CLIENT_COLORS[clientType]
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Week and Day Views */}
+      {(view === 'week' || view === 'day') && (
+        <div className="backdrop-blur-md bg-white/70 border border-white/20 shadow-xl rounded-2xl p-6">
+          <CalendarTimeGrid
+            dates={viewDates}
+            sessions={sessions}
+            getColor={getSessionColor}
+            onSessionOpen={openSessionDetails}
+            onSlotClick={(date, startTime) => openModal(createISTDate(date), undefined, startTime)}
+            onSessionChange={handleSessionTimeChange}
+          />
+          <p className="mt-3 text-xs text-gray-500">
+            Drag a session to move it, or drag its bottom edge to change the end time. Moving a recurring session only moves that occurrence.
+          </p>
+        </div>
+      )}
+
+      {/* Agenda View */}
+      {view === 'agenda' && (
+        <div className="backdrop-blur-md bg-white/70 border border-white/20 shadow-xl rounded-2xl p-6">
+          <CalendarAgenda
+            dates={viewDates}
+            sessions={sessions}
+            getColor={getSessionColor}
+            onSessionOpen={openSessionDetails}
+          />
+        </div>
+      )}
+
+      {/* Staff Coverage View */}
+      {view === 'coverage' && (
+        <div className="backdrop-blur-md bg-white/70 border border-white/20 shadow-xl rounded-2xl p-6">
+          <CalendarCoverage
+            coverage={monthCoverage}
+            candidatesPerInvigilator={candidatesPerInvigilator}
+            onDateOpen={(date) => openDetailsModal(createISTDate(date))}
+          />
+        </div>
+      )}
+
+      {/* Calendar Grid */}
+      {view === 'month' && (
+        <div className="backdrop-blur-md bg-white/70 border border-white/20 shadow-xl rounded-2xl p-6">
+          {/* Weekday Headers */}
+          <div className="grid grid-cols-7 gap-2 mb-4">
+            {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map((day) => (
+              <div key={day} className="text-center text-sm font-bold text-turquoise py-3 backdrop-blur-sm bg-white/50 rounded-xl">
+                {day}
+              </div>
+            ))}
+          </div>
+
+          {/* Calendar Days */}
+          <div className="grid grid-cols-7 gap-2">
+            {days.map((day, index) => {
+              if (!day) {
+                return <div key={index} className="aspect-square"></div>
+              }
+
+              const clientCounts = getClientCounts(day)
+              const hasEvents = Object.keys(clientCounts).length > 0
+              const todayClass = isToday(day)
+              const picked = templateDates?.includes(formatDateForIST(day))
+              const coverage = monthCoverage.find(c => c.date === formatDateForIST(day))
+
+              return (
+                <div
+                  key={index}
+                  className={`aspect-square rounded-2xl p-3 cursor-pointer transition-all duration-200 hover:scale-105 backdrop-blur-sm ${
+                    todayClass 
+                      ? 'bg-gradient-to-br from-yellow-400/80 to-orange-400/80 text-white shadow-2xl border border-yellow-300' 
+                      : hasEvents 
+                      ? 'bg-gradient-to-br from-turquoise/20 to-cyan/30 border border-turquoise/30 hover:shadow-xl'
+                      : 'bg-white/50 border border-white/30 hover:bg-white/70 hover:shadow-lg'
+                  } ${picked ? 'ring-4 ring-turquoise' : ''}`}
+                  onClick={(e) => (templateDates ? pickTemplateDate(day, e.shiftKey) : openDetailsModal(day))}
+                >
+                  <div className={`text-lg font-bold mb-2 ${
+                    todayClass ? 'text-white' : 'text-gray-800'
+                  }`}>
+                    {day.getDate()}
+                  </div>
+                  
+                  <div className="space-y-1 overflow-hidden">
+                    {Object.entries(clientCounts).slice(0, 3).map(([client, count], idx) => {
+                      const color = getSessionClient(clients, { client_name: client })?.color
+                      
+                      return (
+                        <div
+                          key={idx}
+                          className="text-xs px-2 py-1 rounded-lg shadow-md"
+                          style={getClientStyle(color)}
+                        >
+                          <div className="font-medium truncate">{client}: {count}</div>
+                        </div>
+                      )
+                    })}
                     
-                    return (
+                    {Object.keys(clientCounts).length > 3 && (
+                      <div className="text-xs text-turquoise font-semibold text-center bg-white/50 rounded-lg py-1">
+                        +{Object.keys(clientCounts).length - 3} more
+                      </div>
+                    )}
+
+                    {coverage && coverage.shortfall > 0 && (
                       <div
-                        key={idx}
-                        className={`text-xs px-2 py-1 rounded-lg bg-gradient-to-r ${colorClass} shadow-md`}
+                        className="text-xs text-red-700 font-semibold bg-red-100 rounded-lg px-2 py-1 flex items-center space-x-1"
+                        title={`${coverage.required} staff needed at the busiest hour, ${coverage.rostered} rostered`}
                       >
-                        <div className="font-medium truncate">{client}: {count}</div>
+                        <AlertTriangle className="h-3 w-3 shrink-0" />
+                        <span className="truncate">Short {coverage.shortfall} staff</span>
                       </div>
-                    )
-                  })}
-                  
-                  {Object.keys(clientCounts).length > 3 && (
-                    <div className="text-xs text-turquoise font-semibold text-center bg-white/50 rounded-lg py-1">
-                      +{Object.keys(clientCounts).length - 3} more
-                    </div>
-                  )}
+                    )}
+                  </div>
                 </div>
-              </div>
-            )
-          })}
+              )
+            })}
+          </div>
         </div>
-      </div>
+      )}
 
       {/* Session Details Modal - Exact match to reference image */}
       {showDetailsModal && selectedDate && (
@@ -497,49 +1168,84 @@ export function FetsCalendar() {
                 </thead>
                 <tbody>
                   {getSessionsForDate(selectedDate).map((session) => (
-                    <tr key={session.id} className="border-b border-gray-800/50 hover:bg-gray-800/30 transition-colors">
-                      <td className="py-4 px-4">
-                        <div className="flex items-center">
-                          <div className="w-2 h-2 bg-orange-400 rounded-full mr-3"></div>
-                          <span className="text-white font-medium">Morning</span>
-                        </div>
-                      </td>
-                      <td className="py-4 px-4 text-white font-medium">
-                        {session.client_name}
-                      </td>
-                      <td className="py-4 px-4 text-white">
-                        {session.exam_name}
-                      </td>
-                      <td className="py-4 px-4 text-white">
-                        {formatTimeRange(session.start_time, session.end_time)}
-                      </td>
-                      <td className="py-4 px-4 text-center">
-                        <div className={`px-2 py-1 rounded text-xs font-semibold ${getCapacityStatusColor(session.candidate_count)}`}>
-                          {formatCapacityDisplay(session.candidate_count)}
-                        </div>
-                      </td>
-                      <td className="py-4 px-4">
-                        <div className="flex space-x-2">
-                          <button
-                            onClick={() => {
-                              setShowDetailsModal(false)
-                              openModal(undefined, session)
-                            }}
-                            className="p-2 text-turquoise hover:text-cyan transition-colors hover:bg-gray-700/50 rounded-lg"
-                            title="Edit session"
-                          >
-                            <Edit className="h-4 w-4" />
-                          </button>
-                          <button
-                            onClick={() => session.id && handleDelete(session.id)}
-                            className="p-2 text-red-400 hover:text-red-300 transition-colors hover:bg-gray-700/50 rounded-lg"
-                            title="Delete session"
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </button>
-                        </div>
-                      </td>
-                    </tr>
+                    <React.Fragment key={session.id}>
+                      <tr className="border-b border-gray-800/50 hover:bg-gray-800/30 transition-colors">
+                        <td className="py-4 px-4">
+                          <div className="flex items-center">
+                            <div className="w-2 h-2 bg-orange-400 rounded-full mr-3"></div>
+                            <span className="text-white font-medium">Morning</span>
+                          </div>
+                        </td>
+                        <td className="py-4 px-4 text-white font-medium">
+                          {session.client_name}
+                        </td>
+                        <td className="py-4 px-4 text-white">
+                          {session.exam_name}
+                          {session.series_id && seriesById.get(session.series_id) && (
+                            <div className="flex items-center mt-1 text-xs text-turquoise">
+                              <Repeat className="h-3 w-3 mr-1" />
+                              {describeRecurrence(seriesById.get(session.series_id)!)}
+                            </div>
+                          )}
+                        </td>
+                        <td className="py-4 px-4 text-white">
+                          {formatTimeRange(session.start_time, session.end_time)}
+                        </td>
+                        <td className="py-4 px-4 text-center">
+                          <div className={`px-2 py-1 rounded text-xs font-semibold ${getCapacityStatusColor(session.candidate_count, session.capacity)}`}>
+                            {formatCapacityDisplay(session.candidate_count, session.capacity)}
+                          </div>
+                        </td>
+                        <td className="py-4 px-4">
+                          <div className="flex space-x-2">
+                            <button
+                              onClick={() => setSeatingSession(session)}
+                              className="p-2 text-turquoise hover:text-cyan transition-colors hover:bg-gray-700/50 rounded-lg"
+                              title="Seating plan"
+                            >
+                              <LayoutGrid className="h-4 w-4" />
+                            </button>
+                            <button
+                              onClick={() => {
+                                setShowDetailsModal(false)
+                                openModal(undefined, session)
+                              }}
+                              className="p-2 text-turquoise hover:text-cyan transition-colors hover:bg-gray-700/50 rounded-lg"
+                              title="Edit session"
+                            >
+                              <Edit className="h-4 w-4" />
+                            </button>
+                            <button
+                              onClick={() => handleDelete(session)}
+                              className="p-2 text-red-400 hover:text-red-300 transition-colors hover:bg-gray-700/50 rounded-lg"
+                              title="Delete session"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                      <tr className="border-b border-gray-800/50">
+                        <td colSpan={6} className="px-4 pb-4">
+                          {sessionCandidates.filter(candidate => candidate.session_id === session.id).length === 0 ? (
+                            <p className="text-sm text-gray-500">No candidates registered yet</p>
+                          ) : (
+                            <div className="flex flex-wrap gap-2">
+                              {sessionCandidates.filter(candidate => candidate.session_id === session.id).map(candidate => (
+                                <div
+                                  key={candidate.id}
+                                  className={`px-3 py-1 rounded-lg text-xs bg-gray-800/60 border border-gray-700 ${candidate.status === 'cancelled' ? 'text-gray-500 line-through' : 'text-white'}`}
+                                  title={candidate.confirmation_number}
+                                >
+                                  <span className="font-medium">{candidate.full_name}</span>
+                                  <span className="ml-2 text-turquoise">{candidate.status.replace('_', ' ')}</span>
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    </React.Fragment>
                   ))}
                 </tbody>
               </table>
@@ -579,16 +1285,40 @@ export function FetsCalendar() {
             </div>
             
             <form onSubmit={handleSubmit} className="space-y-5">
+              {!editingSession && templates.length > 0 && (
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">Start from a Template</label>
+                  <select
+                    value=""
+                    onChange={(e) => selectTemplate(e.target.value)}
+                    className="w-full px-4 py-3 border border-white/30 rounded-xl focus:outline-none focus:ring-2 focus:ring-turquoise focus:border-transparent transition-all bg-white/80 backdrop-blur-sm text-gray-800 shadow-md"
+                  >
+                    <option value="">Choose a template…</option>
+                    {templates.map(template => (
+                      <option key={template.id} value={template.id}>{template.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               <div>
-                <label className="block text-sm font-semibold text-gray-700 mb-2">Client Name</label>
-                <input
-                  type="text"
-                  value={formData.client_name}
-                  onChange={(e) => setFormData({ ...formData, client_name: e.target.value })}
+                <label className="block text-sm font-semibold text-gray-700 mb-2">Client</label>
+                <select
+                  value={formData.client_id}
+                  onChange={(e) => selectClient(e.target.value)}
                   className="w-full px-4 py-3 border border-white/30 rounded-xl focus:outline-none focus:ring-2 focus:ring-turquoise focus:border-transparent transition-all bg-white/80 backdrop-blur-sm text-gray-800 shadow-md"
-                  placeholder="e.g., Pearson VUE, ETS, PSI..."
                   required
-                />
+                >
+                  <option value="">Select a client</option>
+                  {activeClients.map(client => (
+                    <option key={client.id} value={client.id}>{client.name}</option>
+                  ))}
+                </select>
+                {editingSession && !formData.client_id && (
+                  <p className="mt-2 text-xs text-orange-600">
+                    "{editingSession.client_name}" is not in the client registry. Choose a client, or add it in Settings → Clients.
+                  </p>
+                )}
               </div>
               
               <div>
@@ -639,47 +1369,260 @@ export function FetsCalendar() {
               </div>
               
               <div>
-                <label className="block text-sm font-semibold text-gray-700 mb-2">Candidate Count</label>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">Testing Room</label>
+                <select
+                  value={formData.room_id}
+                  onChange={(e) => setFormData({ ...formData, room_id: e.target.value })}
+                  className="w-full px-4 py-3 border border-white/30 rounded-xl focus:outline-none focus:ring-2 focus:ring-turquoise focus:border-transparent transition-all bg-white/80 backdrop-blur-sm text-gray-800 shadow-md"
+                >
+                  <option value="">No room (seats not allocated)</option>
+                  {rooms.map(room => (
+                    <option key={room.id} value={room.id}>{room.name} ({room.seat_count} seats)</option>
+                  ))}
+                </select>
+                {selectedRoom && (
+                  <p className={`mt-2 text-xs ${
+                    roomSeatsTaken !== null && (editingSession?.candidate_count || 0) + roomSeatsTaken > selectedRoom.seat_count ? 'text-red-600' : 'text-gray-500'
+                  }`}>
+                    {selectedRoom.seat_count} seats
+                    {roomSeatsTaken !== null && ` · ${roomSeatsTaken} booked by other sessions at this time · ${Math.max(selectedRoom.seat_count - roomSeatsTaken, 0)} available`}
+                    {selectedRoom.equipment.length > 0 && ` · ${selectedRoom.equipment.map(formatEquipment).join(', ')}`}
+                  </p>
+                )}
+              </div>
+              
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">Staff Needed</label>
                 <input
                   type="number"
-                  min="1"
-                  max="40"
-                  value={formData.candidate_count}
-                  onChange={(e) => {
-                    const count = parseInt(e.target.value) || 1
-                    setFormData({ ...formData, candidate_count: count })
-                    
-                    // Real-time capacity validation
-                    const validation = validateSessionCapacity(count)
-                    if (validation.warning) {
-                      showNotification('warning', validation.warning)
-                    } else if (validation.error) {
-                      showNotification('error', validation.error)
-                    }
-                  }}
-                  className={`w-full px-4 py-3 border border-white/30 rounded-xl focus:outline-none focus:ring-2 focus:ring-turquoise focus:border-transparent transition-all bg-white/80 backdrop-blur-sm text-gray-800 shadow-md ${
-                    formData.candidate_count >= 40 ? 'border-red-300 bg-red-50' :
-                    formData.candidate_count >= 30 ? 'border-yellow-300 bg-yellow-50' :
-                    'border-white/30'
-                  }`}
-                  required
+                  min={0}
+                  max={MAX_REQUIRED_STAFF}
+                  value={formData.required_staff}
+                  onChange={(e) => setFormData({ ...formData, required_staff: e.target.value })}
+                  className="w-full px-4 py-3 border border-white/30 rounded-xl focus:outline-none focus:ring-2 focus:ring-turquoise focus:border-transparent transition-all bg-white/80 backdrop-blur-sm text-gray-800 shadow-md"
+                  placeholder={`Automatic: ${derivedRequiredStaff}`}
                 />
-                <div className="mt-2 text-xs">
-                  <span className={`font-medium ${
-                    formData.candidate_count >= 40 ? 'text-red-600' :
-                    formData.candidate_count >= 30 ? 'text-orange-600' :
-                    'text-green-600'
-                  }`}>
-                    {formatCapacityDisplay(formData.candidate_count)}
-                  </span>
-                  {formData.candidate_count >= 30 && (
-                    <span className="ml-2 text-xs text-gray-500">
-                      {formData.candidate_count >= 40 ? 'Maximum capacity reached' : 'Approaching capacity'}
-                    </span>
+                <p className="mt-2 text-xs text-gray-500">
+                  Leave blank for one invigilator per {candidatesPerInvigilator} booked candidates
+                  {editingSession ? ` (${derivedRequiredStaff} for ${editingSession.candidate_count} booked)` : ''}.
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">Required Skills</label>
+                <input
+                  type="text"
+                  value={formData.required_skills}
+                  onChange={(e) => setFormData({ ...formData, required_skills: e.target.value })}
+                  className="w-full px-4 py-3 border border-white/30 rounded-xl focus:outline-none focus:ring-2 focus:ring-turquoise focus:border-transparent transition-all bg-white/80 backdrop-blur-sm text-gray-800 shadow-md"
+                  placeholder="e.g. Pearson VUE, admin"
+                />
+                <p className="mt-2 text-xs text-gray-500">
+                  Comma-separated skills or roles; the roster generator keeps someone with each of them at work that day.
+                </p>
+              </div>
+
+              {(!editingSession || editingSession.series_id) && (
+                <div>
+                  <label className="flex items-center space-x-2 text-sm font-semibold text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={repeat}
+                      disabled={!!editingSession}
+                      onChange={(e) => toggleRepeat(e.target.checked)}
+                      className="rounded text-turquoise focus:ring-turquoise"
+                    />
+                    <Repeat className="h-4 w-4 text-turquoise" />
+                    <span>Repeat</span>
+                  </label>
+
+                  {repeat && (
+                    <div className="mt-3 space-y-4 p-4 rounded-xl bg-white/60 border border-white/30">
+                      <div className="flex items-center space-x-2">
+                        <span className="text-sm text-gray-700">Every</span>
+                        <input
+                          type="number"
+                          min={1}
+                          max={12}
+                          value={recurrence.interval_count}
+                          onChange={(e) => updateRecurrence({ interval_count: parseInt(e.target.value) || 1 })}
+                          className="w-20 px-3 py-2 border border-white/30 rounded-xl focus:outline-none focus:ring-2 focus:ring-turquoise focus:border-transparent bg-white/80 text-gray-800 shadow-md"
+                        />
+                        <select
+                          value={recurrence.frequency}
+                          onChange={(e) => updateRecurrence({ frequency: e.target.value as RecurrenceFrequency })}
+                          className="flex-1 px-3 py-2 border border-white/30 rounded-xl focus:outline-none focus:ring-2 focus:ring-turquoise focus:border-transparent bg-white/80 text-gray-800 shadow-md"
+                        >
+                          <option value="daily">{recurrence.interval_count === 1 ? 'day' : 'days'}</option>
+                          <option value="weekly">{recurrence.interval_count === 1 ? 'week' : 'weeks'}</option>
+                          <option value="monthly">{recurrence.interval_count === 1 ? 'month' : 'months'}</option>
+                        </select>
+                      </div>
+
+                      {recurrence.frequency === 'weekly' && (
+                        <div className="flex flex-wrap gap-1">
+                          {WEEKDAY_LABELS.map((label, weekday) => (
+                            <button
+                              key={label}
+                              type="button"
+                              onClick={() => toggleWeekday(weekday)}
+                              className={`px-2 py-1 rounded-lg text-xs font-semibold transition-all ${
+                                recurrence.weekdays.includes(weekday)
+                                  ? 'bg-gradient-to-r from-turquoise to-cyan text-white shadow-md'
+                                  : 'bg-white/80 text-gray-600 border border-gray-200'
+                              }`}
+                            >
+                              {label}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+
+                      {recurrence.frequency === 'monthly' && (
+                        <div className="flex items-center space-x-2">
+                          <span className="text-sm text-gray-700">On the</span>
+                          <select
+                            value={recurrence.month_week ?? 1}
+                            onChange={(e) => updateRecurrence({ month_week: parseInt(e.target.value) })}
+                            className="flex-1 px-3 py-2 border border-white/30 rounded-xl focus:outline-none focus:ring-2 focus:ring-turquoise focus:border-transparent bg-white/80 text-gray-800 shadow-md"
+                          >
+                            {MONTH_WEEK_OPTIONS.map(option => (
+                              <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                          </select>
+                          <select
+                            value={recurrence.month_weekday ?? 0}
+                            onChange={(e) => updateRecurrence({ month_weekday: parseInt(e.target.value) })}
+                            className="flex-1 px-3 py-2 border border-white/30 rounded-xl focus:outline-none focus:ring-2 focus:ring-turquoise focus:border-transparent bg-white/80 text-gray-800 shadow-md"
+                          >
+                            {WEEKDAY_LABELS.map((label, weekday) => (
+                              <option key={label} value={weekday}>{label}</option>
+                            ))}
+                          </select>
+                        </div>
+                      )}
+
+                      <div className="space-y-2">
+                        <span className="block text-sm text-gray-700">Ends</span>
+                        <label className="flex items-center space-x-2 text-sm text-gray-700">
+                          <input
+                            type="radio"
+                            checked={recurrence.occurrence_count !== null}
+                            onChange={() => updateRecurrence({ occurrence_count: 10, until_date: null })}
+                            className="text-turquoise focus:ring-turquoise"
+                          />
+                          <span>After</span>
+                          <input
+                            type="number"
+                            min={1}
+                            value={recurrence.occurrence_count ?? ''}
+                            disabled={recurrence.occurrence_count === null}
+                            onChange={(e) => updateRecurrence({ occurrence_count: parseInt(e.target.value) || 1 })}
+                            className="w-20 px-3 py-2 border border-white/30 rounded-xl focus:outline-none focus:ring-2 focus:ring-turquoise focus:border-transparent bg-white/80 text-gray-800 shadow-md"
+                          />
+                          <span>sessions</span>
+                        </label>
+                        <label className="flex items-center space-x-2 text-sm text-gray-700">
+                          <input
+                            type="radio"
+                            checked={recurrence.occurrence_count === null}
+                            onChange={() => updateRecurrence({ occurrence_count: null, until_date: previewRule.start_date })}
+                            className="text-turquoise focus:ring-turquoise"
+                          />
+                          <span>On</span>
+                          <input
+                            type="date"
+                            value={recurrence.until_date ?? ''}
+                            disabled={recurrence.occurrence_count !== null}
+                            onChange={(e) => updateRecurrence({ until_date: e.target.value || null })}
+                            className="flex-1 px-3 py-2 border border-white/30 rounded-xl focus:outline-none focus:ring-2 focus:ring-turquoise focus:border-transparent bg-white/80 text-gray-800 shadow-md"
+                          />
+                        </label>
+                      </div>
+
+                      <div>
+                        <span className="block text-sm text-gray-700 mb-2">Skip dates</span>
+                        <div className="flex items-center space-x-2">
+                          <input
+                            type="date"
+                            value={exceptionInput}
+                            onChange={(e) => setExceptionInput(e.target.value)}
+                            className="flex-1 px-3 py-2 border border-white/30 rounded-xl focus:outline-none focus:ring-2 focus:ring-turquoise focus:border-transparent bg-white/80 text-gray-800 shadow-md"
+                          />
+                          <button
+                            type="button"
+                            onClick={addException}
+                            className="px-3 py-2 rounded-xl bg-gradient-to-r from-turquoise to-cyan text-white text-sm font-medium"
+                          >
+                            Skip
+                          </button>
+                        </div>
+                        {recurrence.exception_dates.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-2">
+                            {recurrence.exception_dates.map(date => (
+                              <span key={date} className="flex items-center px-2 py-1 rounded-lg text-xs bg-white/80 border border-gray-200 text-gray-700">
+                                {date}
+                                <button
+                                  type="button"
+                                  onClick={() => updateRecurrence({ exception_dates: recurrence.exception_dates.filter(d => d !== date) })}
+                                  className="ml-1 text-gray-400 hover:text-red-500"
+                                >
+                                  <X className="h-3 w-3" />
+                                </button>
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+
+                      {recurrenceError ? (
+                        <p className="text-xs text-red-600">{recurrenceError}</p>
+                      ) : (
+                        <p className="text-xs text-gray-600">
+                          {describeRecurrence(previewRule)}: {recurrenceDates.length} sessions from {recurrenceDates[0]} to {recurrenceDates[recurrenceDates.length - 1]}
+                        </p>
+                      )}
+                      {editingSession && (
+                        <p className="text-xs text-gray-500">
+                          Changes to the repeat rule apply when you save this and following sessions or all sessions.
+                        </p>
+                      )}
+                    </div>
                   )}
                 </div>
-              </div>
+              )}
+              
+              {editingSession && (
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">Candidates</label>
+                  <div className={`inline-block px-3 py-1 rounded-lg text-sm font-semibold ${getCapacityStatusColor(editingSession.candidate_count, editingSession.capacity)}`}>
+                    {formatCapacityDisplay(editingSession.candidate_count, editingSession.capacity)}
+                  </div>
+                  <p className="mt-2 text-xs text-gray-500">
+                    Counted from candidates registered to this session in Candidate Tracker.
+                  </p>
+                </div>
+              )}
               
+              {formConflicts.length > 0 && (
+                <div className="space-y-2">
+                  {formConflicts.map((conflict, index) => (
+                    <div
+                      key={index}
+                      className={`flex items-start space-x-2 p-3 rounded-xl text-sm border ${
+                        conflict.severity === 'error' ? 'bg-red-50 border-red-200 text-red-700' : 'bg-amber-50 border-amber-200 text-amber-700'
+                      }`}
+                    >
+                      <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                      <span>{conflict.message}</span>
+                    </div>
+                  ))}
+                  {repeat && !editingSession && (
+                    <p className="text-xs text-gray-500">Checked against the first occurrence only.</p>
+                  )}
+                </div>
+              )}
+
               <div className="flex space-x-4 pt-4">
                 <button
                   type="button"
@@ -690,7 +1633,8 @@ export function FetsCalendar() {
                 </button>
                 <button
                   type="submit"
-                  className="flex-1 bg-gradient-to-r from-turquoise to-cyan text-white px-6 py-3 rounded-xl font-medium hover:shadow-2xl transform hover:scale-105 transition-all duration-200"
+                  disabled={formHasErrors}
+                  className="flex-1 bg-gradient-to-r from-turquoise to-cyan text-white px-6 py-3 rounded-xl font-medium hover:shadow-2xl transform hover:scale-105 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100"
                 >
                   {editingSession ? 'Update Session' : 'Create Session'}
                 </button>
@@ -699,6 +1643,105 @@ export function FetsCalendar() {
           </div>
         </div>
       )}
+
+      {/* Recurring Session Scope Modal */}
+      {scopePrompt && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+          <div className="backdrop-blur-md bg-white/95 border border-white/20 shadow-2xl rounded-2xl p-6 w-full max-w-sm">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-bold bg-gradient-to-r from-turquoise to-cyan bg-clip-text text-transparent">
+                {scopePrompt.action === 'edit' ? 'Edit Recurring Session' : 'Delete Recurring Session'}
+              </h2>
+              <button
+                onClick={() => setScopePrompt(null)}
+                className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            {scopePrompt.action === 'edit' && formData.date !== scopePrompt.session.date && (
+              <p className="mb-4 text-xs text-gray-500">Moving the date only applies to this occurrence.</p>
+            )}
+            <div className="space-y-2">
+              {([
+                { scope: 'this', label: 'This session' },
+                { scope: 'following', label: 'This and following sessions' },
+                { scope: 'all', label: 'All sessions in the series' }
+              ] as { scope: SeriesEditScope; label: string }[]).map(option => (
+                <button
+                  key={option.scope}
+                  disabled={scopePrompt.action === 'edit' && option.scope !== 'this' && formData.date !== scopePrompt.session.date}
+                  onClick={() => scopePrompt.action === 'edit'
+                    ? saveSeriesEdit(scopePrompt.session, option.scope)
+                    : deleteSeriesSessions(scopePrompt.session, option.scope)}
+                  className={`w-full px-4 py-3 rounded-xl text-left font-medium transition-all disabled:opacity-40 disabled:cursor-not-allowed ${
+                    scopePrompt.action === 'delete'
+                      ? 'border border-red-200 text-red-600 hover:bg-red-50'
+                      : 'border border-gray-200 text-gray-700 hover:bg-turquoise/10'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Seating Plan Modal */}
+      {seatingSession && (
+        <SessionSeating
+          session={seatingSession}
+          onClose={() => {
+            setSeatingSession(null)
+            loadSessionCandidates(getSessionsForDate(selectedDate!).map(session => session.id!))
+          }}
+        />
+      )}
+
+      {showIcsImport && (
+        <SessionIcsImport
+          rooms={rooms}
+          clients={clients}
+          onClose={() => setShowIcsImport(false)}
+          onImported={loadSessions}
+        />
+      )}
+
+      {showIcsExport && (
+        <SessionIcsExport
+          rooms={rooms}
+          clients={clients}
+          initialMonth={formatDateForIST(currentDate).slice(0, 7)}
+          onClose={() => setShowIcsExport(false)}
+        />
+      )}
+
+      {showTemplateManager && (
+        <SessionTemplateManager
+          templates={templates}
+          clients={clients}
+          rooms={rooms}
+          onClose={() => setShowTemplateManager(false)}
+          onChanged={() => fetchSessionTemplates().then(setTemplates)}
+        />
+      )}
+
+      {templateApplyDates && (
+        <SessionTemplateApply
+          templates={templates}
+          clients={clients}
+          rooms={rooms}
+          dates={templateApplyDates}
+          candidatesPerInvigilator={candidatesPerInvigilator}
+          onClose={() => setTemplateApplyDates(null)}
+          onApplied={() => {
+            setTemplateDates([])
+            setLastTemplateDate(null)
+            loadSessions()
+          }}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react'
 import { Brain, TrendingUp, BarChart, Calendar, AlertTriangle, CheckCircle, Clock } from 'lucide-react'
 import { supabase } from '../lib/supabase'
+import { fetchClients } from '../lib/clients'
+import { DEFAULT_CLIENT_COLOR, getSessionClient } from '../utils/clients'
 // import { useAuth } from '../contexts/AuthContext'
 
 interface Analytics {
@@ -9,6 +11,7 @@ interface Analytics {
   avgDuration: string
   peakHours: string
   topExams: { name: string; count: number }[]
+  topClients: { name: string; color: string; count: number }[]
   monthlyTrend: { month: string; sessions: number }[]
   issueReports: { type: string; count: number; trend: 'up' | 'down' | 'stable' }[]
 }
@@ -87,6 +90,20 @@ export function FetsIntelligence() {
           .slice(0, 5)
           .map(([name, count]) => ({ name, count: count as number }))
 
+        // Group by registry client so aliases and older spellings count together
+        const clients = await fetchClients()
+        const clientCounts = sessions.reduce<Record<string, Analytics['topClients'][number]>>((acc, session) => {
+          const client = getSessionClient(clients, session)
+          const name = client?.name || session.client_name || 'Unknown'
+          acc[name] = acc[name] || { name, color: client?.color || DEFAULT_CLIENT_COLOR, count: 0 }
+          acc[name].count++
+          return acc
+        }, {})
+
+        const topClients = Object.values(clientCounts)
+          .sort((a, b) => b.count - a.count)
+          .slice(0, 5)
+
         // Generate monthly trend (mock data)
         const monthlyTrend = [
           { month: 'Jan', sessions: 45 },
@@ -112,6 +129,7 @@ export function FetsIntelligence() {
           avgDuration,
           peakHours,
           topExams,
+          topClients,
           monthlyTrend,
           issueReports
         })
@@ -215,6 +233,12 @@ export function FetsIntelligence() {
         { name: 'CISSP', count: 18 },
         { name: 'CompTIA Security+', count: 15 }
       ],
+      topClients: [
+        { name: 'Pearson VUE', color: '#3b82f6', count: 64 },
+        { name: 'ETS', color: '#22c55e', count: 42 },
+        { name: 'Prometric', color: '#f97316', count: 26 },
+        { name: 'PSI', color: '#a855f7', count: 15 }
+      ],
       monthlyTrend: [
         { month: 'Jan', sessions: 45 },
         { month: 'Feb', sessions: 52 },
@@ -403,6 +427,22 @@ export function FetsIntelligence() {
                 </div>
               </div>
 
+              {/* Sessions by Client */}
+              <div>
+                <h3 className="text-lg font-semibold text-white mb-4">Sessions by Client</h3>
+                <div className="space-y-3">
+                  {analytics.topClients.map((client, index) => (
+                    <div key={index} className="flex items-center justify-between p-3 rounded-lg bg-white/5">
+                      <div className="flex items-center space-x-3">
+                        <span className="h-3 w-3 rounded-full" style={{ backgroundColor: client.color }} />
+                        <span className="text-white">{client.name}</span>
+                      </div>
+                      <span className="text-gray-400">{client.count} sessions</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
               {/* Issue Reports */}
               <div>
                 <h3 className="text-lg font-semibold text-white mb-4">Issue Analysis</h3>
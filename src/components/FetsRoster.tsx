@@ -2,9 +2,13 @@ import React, { useState, useEffect } from 'react'
 import { ChevronLeft, ChevronRight, Bell, Users, Settings, Plus, Eye, Clock, Calendar, CheckCircle, XCircle, AlertCircle, BarChart3, Trash2 } from 'lucide-react'
 import { useAuth } from '../contexts/AuthContext'
 import { supabase } from '../lib/supabase'
+import { fetchCandidatesPerInvigilator } from '../lib/staffing'
 import { formatDateForIST } from '../utils/dateUtils'
 import { getDisplayRole, filterStaffForRoster } from '../utils/staffUtils'
 import { useIsMobile } from '../hooks/use-mobile'
+import { DEFAULT_CANDIDATES_PER_INVIGILATOR, StaffedSession, getDayCoverage } from '../utils/staffCoverage'
+import { SHIFT_CODES, ShiftCode } from '../utils/rosterShifts'
+import { RosterGenerator } from './RosterGenerator'
 
 interface RosterSchedule {
   id?: string
@@ -65,17 +69,6 @@ interface OvertimeTracking {
   created_at?: string
 }
 
-const SHIFT_CODES = {
-  'D': { name: 'Day Shift (8AM-5PM)', color: 'bg-gradient-to-r from-turquoise to-cyan', textColor: 'text-white' },
-  'HD': { name: 'Half Day', color: 'bg-gradient-to-r from-green-400 to-green-600', textColor: 'text-white' },
-  'RD': { name: 'Rest Day', color: 'bg-gradient-to-r from-gray-400 to-gray-600', textColor: 'text-white' },
-  'TOIL': { name: 'Time Off In Lieu', color: 'bg-gradient-to-r from-purple-400 to-purple-600', textColor: 'text-white' },
-  'L': { name: 'Leave', color: 'bg-gradient-to-r from-red-400 to-red-600', textColor: 'text-white' },
-  'OT': { name: 'Overtime', color: 'bg-gradient-to-r from-orange-400 to-orange-600', textColor: 'text-white' },
-}
-
-type ShiftCode = keyof typeof SHIFT_CODES
-
 const REQUEST_TYPES = {
   'leave': 'Leave Request',
   'half_day': 'Half Day Request', 
@@ -92,6 +85,8 @@ export function FetsRoster() {
   const [requests, setRequests] = useState<LeaveRequest[]>([])
   const [versions, setVersions] = useState<RosterVersion[]>([])
   const [overtimeData, setOvertimeData] = useState<OvertimeTracking[]>([])
+  const [monthSessions, setMonthSessions] = useState<StaffedSession[]>([])
+  const [candidatesPerInvigilator, setCandidatesPerInvigilator] = useState(DEFAULT_CANDIDATES_PER_INVIGILATOR)
   const [loading, setLoading] = useState(true)
   const [activeView, setActiveView] = useState<'roster' | 'requests' | 'overtime' | 'analytics'>('roster')
   
@@ -100,6 +95,7 @@ export function FetsRoster() {
   const [showEditModal, setShowEditModal] = useState(false)
   const [showOvertimeModal, setShowOvertimeModal] = useState(false)
   const [showApprovalModal, setShowApprovalModal] = useState(false)
+  const [showGenerator, setShowGenerator] = useState(false)
   const [selectedEdit, setSelectedEdit] = useState<{ profileId: string; date: string } | null>(null)
   const [selectedRequest, setSelectedRequest] = useState<LeaveRequest | null>(null)
   
@@ -240,6 +236,17 @@ export function FetsRoster() {
       if (overtimeError) throw overtimeError
       setOvertimeData(overtimeDataResult || [])
 
+      // Calendar sessions, to flag days with fewer staff rostered than the sessions need
+      const { data: sessionData, error: sessionError } = await supabase
+        .from('sessions')
+        .select('date, start_time, end_time, candidate_count, required_staff')
+        .gte('date', startOfMonth.toISOString().split('T')[0])
+        .lte('date', endOfMonth.toISOString().split('T')[0])
+
+      if (sessionError) console.error('Error loading sessions for staff coverage:', sessionError)
+      setMonthSessions(sessionData || [])
+      setCandidatesPerInvigilator(await fetchCandidatesPerInvigilator())
+
       // Load requests based on role - using staff_profiles for user mapping
       if (isSuperAdmin) {
         // Super admin sees all requests
@@ -570,62 +577,10 @@ export function FetsRoster() {
     }
   }
 
-  const quickAddMonth = async () => {
-    if (!isAdmin) {
-      showNotification('warning', 'Only admins can use Quick Add')
-      return
-    }
-
-    try {
-      console.log('🚀 Quick Add Month triggered...')
-      const days = getDaysInMonth()
-      const schedulesToCreate: any[] = []
-
-      console.log('🔍 Staff profiles for Quick Add:', staffProfiles.length, 'profiles')
-
-      staffProfiles.forEach(staff => {
-        let dayCounter = 0
-        days.forEach(day => {
-          const dateStr = day.toISOString().split('T')[0]
-          const existing = schedules.find(s => s.profile_id === staff.id && s.date === dateStr)
-          
-          if (!existing) {
-            // Apply 6 days work + 1 day rest pattern
-            const shiftCode = (dayCounter % 7 === 6) ? 'RD' : 'D'
-            schedulesToCreate.push({
-              profile_id: staff.id,
-              date: dateStr,
-              shift_code: shiftCode,
-              status: 'confirmed',
-              created_at: new Date().toISOString()
-            })
-          }
-          dayCounter++
-        })
-      })
-
-      console.log('🔍 Schedules to create:', schedulesToCreate.length)
-
-      if (schedulesToCreate.length > 0) {
-        const { error } = await supabase
-          .from('roster_schedules')
-          .insert(schedulesToCreate)
-        
-        if (error) {
-          console.error('❌ Quick Add database error:', error)
-          throw error
-        }
-        
-        await createNewVersion(`Quick add generated ${schedulesToCreate.length} schedules`)
-        await loadData()
-        showNotification('success', `Generated ${schedulesToCreate.length} roster entries successfully!`)
-      } else {
-        showNotification('warning', 'All roster entries already exist for this month')
-      }
-    } catch (error) {
-      console.error('❌ Error in Quick Add:', error)
-      showNotification('error', 'Failed to generate month roster. Check console for details.')
-    }
+  const handleRosterPublished = async (editLog: string) => {
+    await createNewVersion(editLog)
+    await loadData()
+    showNotification('success', 'Generated roster published')
   }
 
   const saveOvertime = async (profileId: string, date: string, hours: number, description: string) => {
@@ -750,11 +705,11 @@ export function FetsRoster() {
             
             {isAdmin && (
               <button
-                onClick={quickAddMonth}
+                onClick={() => setShowGenerator(true)}
                 className="bg-gradient-to-r from-purple-500 to-purple-700 text-white px-3 py-2 sm:px-6 sm:py-3 rounded-xl sm:rounded-2xl font-medium hover:shadow-2xl transform hover:scale-105 transition-all duration-200 flex items-center space-x-1 sm:space-x-2 backdrop-blur-md min-h-[44px] flex-shrink-0"
               >
                 <Calendar className="h-4 w-4 sm:h-5 sm:w-5" />
-                <span className="text-sm sm:text-base hidden sm:inline">Quick Add</span>
+                <span className="text-sm sm:text-base hidden sm:inline">Generate</span>
               </button>
             )}
             
@@ -848,6 +803,8 @@ export function FetsRoster() {
                     const isToday = day.toDateString() === new Date().toDateString()
                     const dayOfWeek = day.getDay()
                     const isWeekend = dayOfWeek === 0 || dayOfWeek === 6
+                    const coverage = getDayCoverage(formatDateForIST(day), monthSessions, schedules, candidatesPerInvigilator)
+                    const understaffed = coverage.shortfall > 0
                     
                     return (
                       <div
@@ -858,12 +815,18 @@ export function FetsRoster() {
                             : isWeekend
                               ? 'bg-gradient-to-r from-gray-100 to-gray-200 text-gray-600'
                               : 'bg-gradient-to-r from-turquoise/10 to-cyan/10 text-turquoise'
-                        }`}
+                        } ${understaffed ? 'ring-2 ring-inset ring-red-500' : ''}`}
+                        title={coverage.sessions > 0 ? `${coverage.sessions} sessions need ${coverage.required} staff at the busiest hour; ${coverage.rostered} rostered` : undefined}
                       >
                         <div className="text-lg">{day.getDate()}</div>
                         <div className="text-xs opacity-75">
                           {day.toLocaleDateString('en-US', { weekday: 'short' })}
                         </div>
+                        {understaffed && (
+                          <div className="mt-1 text-[10px] font-bold text-red-600 bg-red-100 rounded-full px-1">
+                            Short {coverage.shortfall}
+                          </div>
+                        )}
                       </div>
                     )
                   })}
@@ -1171,6 +1134,7 @@ export function FetsRoster() {
           <p>• Standard Hours: 8:00 AM - 5:00 PM (9 hours with 1-hour break)</p>
           <p>• Break Time: 1 hour (typically 12:00 PM - 1:00 PM)</p>
           <p>• Overtime: Any hours worked after 5:00 PM</p>
+          <p>• Days outlined in red have fewer staff on D, HD or OT shifts than that day's exam sessions need</p>
         </div>
       </div>
 
@@ -1419,6 +1383,15 @@ export function FetsRoster() {
           </div>
         </div>
       )}
+
+      {showGenerator && (
+        <RosterGenerator
+          staff={filterStaffForRoster(staffProfiles)}
+          currentDate={currentDate}
+          onClose={() => setShowGenerator(false)}
+          onPublished={handleRosterPublished}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react'
-import { Activity, CheckCircle, Clock, AlertTriangle, Users, Monitor } from 'lucide-react'
+import { Activity, CheckCircle, Clock, AlertTriangle, Users, Monitor, Accessibility } from 'lucide-react'
 import { supabase } from '../lib/supabase'
+import { getApprovedExtraMinutes, getExpectedEndTime } from '../utils/accommodations'
+import { getSessionEnd } from '../utils/sessionUtils'
 
 interface SystemStatus {
   id: string
@@ -17,6 +19,15 @@ interface LiveTimer {
   type: 'session' | 'exam' | 'break'
 }
 
+interface LiveCandidate {
+  id: string
+  name: string
+  examName: string
+  status: string
+  scheduledEnd: Date
+  extraMinutes: number
+}
+
 export function LiveStatusBoard() {
   const [systemStatuses] = useState<SystemStatus[]>([
     { id: '1', name: 'Main Server', status: 'online', lastUpdate: '2 min ago', uptime: '99.9%' },
@@ -27,6 +38,7 @@ export function LiveStatusBoard() {
   ])
 
   const [liveTimers, setLiveTimers] = useState<LiveTimer[]>([])
+  const [liveCandidates, setLiveCandidates] = useState<LiveCandidate[]>([])
   const [activeSessions, setActiveSessions] = useState(0)
   const [onlineUsers, setOnlineUsers] = useState(0)
 
@@ -59,6 +71,36 @@ export function LiveStatusBoard() {
         }))
         setLiveTimers(formattedTimers)
       }
+
+      // Candidates in the building, with finish times extended by approved extra time
+      const { data: candidates } = await supabase
+        .from('candidates')
+        .select('id, full_name, status, sessions(exam_name, date, end_time)')
+        .in('status', ['checked_in', 'in_progress'])
+        .not('session_id', 'is', null)
+
+      if (candidates) {
+        const { data: accommodations } = await supabase
+          .from('candidate_accommodations')
+          .select('candidate_id, type, status, extra_time_minutes')
+          .in('candidate_id', candidates.map(candidate => candidate.id))
+          .eq('status', 'approved')
+
+        const formattedCandidates: LiveCandidate[] = candidates
+          .filter((candidate: any) => candidate.sessions)
+          .map((candidate: any) => ({
+            id: candidate.id,
+            name: candidate.full_name,
+            examName: candidate.sessions.exam_name,
+            status: candidate.status,
+            scheduledEnd: getSessionEnd(candidate.sessions),
+            extraMinutes: getApprovedExtraMinutes((accommodations || []).filter(a => a.candidate_id === candidate.id))
+          }))
+        formattedCandidates.sort((a, b) =>
+          getExpectedEndTime(a.scheduledEnd, a.extraMinutes).getTime() - getExpectedEndTime(b.scheduledEnd, b.extraMinutes).getTime()
+        )
+        setLiveCandidates(formattedCandidates)
+      }
     } catch (error) {
       console.error('Error loading live data:', error)
       // Set safe fallback values
@@ -205,6 +247,44 @@ export function LiveStatusBoard() {
         </div>
       </div>
 
+      {/* Exams in Progress */}
+      <div className="golden-card p-6 mt-6">
+        <h2 className="text-xl font-bold text-white mb-6">Candidates On Site</h2>
+        {liveCandidates.length === 0 ? (
+          <p className="text-gray-400">No candidates are checked in or testing</p>
+        ) : (
+          <div className="space-y-3 max-h-96 overflow-y-auto">
+            {liveCandidates.map(candidate => (
+              <div key={candidate.id} className="flex items-center justify-between p-3 rounded-lg bg-white/5">
+                <div>
+                  <p className="font-medium text-white">{candidate.name}</p>
+                  <p className="text-sm text-gray-400">
+                    {candidate.examName} · {candidate.status === 'in_progress' ? 'Testing' : 'Checked in'}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className="text-lg font-mono text-yellow-400">
+                    {getExpectedEndTime(candidate.scheduledEnd, candidate.extraMinutes).toLocaleTimeString('en-IN', {
+                      hour: '2-digit',
+                      minute: '2-digit',
+                      timeZone: 'Asia/Kolkata'
+                    })}
+                  </p>
+                  {candidate.extraMinutes > 0 ? (
+                    <p className="text-xs text-yellow-300 flex items-center justify-end">
+                      <Accessibility className="h-3 w-3 mr-1" />
+                      +{candidate.extraMinutes} min extra time
+                    </p>
+                  ) : (
+                    <p className="text-xs text-gray-400">Expected end</p>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
       {/* Real-time Activity Feed */}
       <div className="golden-card p-6 mt-6">
         <h2 className="text-xl font-bold text-white mb-6">Real-time Activity Feed</h2>
@@ -0,0 +1,553 @@
+import { useState, useEffect } from 'react'
+import { X, AlertTriangle, CheckCircle, Save, Wand2 } from 'lucide-react'
+import { useAuth } from '../contexts/AuthContext'
+import { supabase } from '../lib/supabase'
+import { fetchCandidatesPerInvigilator } from '../lib/staffing'
+import { addDays, getWeekday } from '../utils/sessionRecurrence'
+import { getDatesBetween } from '../utils/sessionTemplates'
+import { SHIFT_CODES, ShiftCode } from '../utils/rosterShifts'
+import {
+  DEFAULT_MAX_CONSECUTIVE_DAYS,
+  FIXED_SHIFT_CODES,
+  GeneratorStaff,
+  MAX_CONSECUTIVE_DAYS_LIMIT,
+  RosterDayNeed,
+  RosterEntry,
+  RosterGeneratorInput,
+  WEEKDAY_LABELS,
+  checkRoster,
+  generateRoster,
+  getCarryInStreaks,
+  getRosterNeeds,
+  parseSkills,
+  summariseRoster,
+  validateMaxConsecutiveDays
+} from '../utils/rosterGenerator'
+
+interface RosterGeneratorProps {
+  // Staff who appear on the roster grid
+  staff: { id: string; full_name: string; role: string }[]
+  currentDate: Date
+  onClose: () => void
+  onPublished: (editLog: string) => void
+}
+
+interface StaffPreference {
+  preferred_rest_days: number[]
+  // Comma-separated, as typed
+  skills: string
+}
+
+interface RosterDraft {
+  id: string
+  max_consecutive_days: number
+  created_at: string
+}
+
+interface PlanningData {
+  needs: RosterDayNeed[]
+  fixed: RosterEntry[]
+  carryIn: Record<string, number>
+}
+
+// Days before the month checked for a run of working days carried into it
+const CARRY_IN_DAYS = MAX_CONSECUTIVE_DAYS_LIMIT
+
+const NO_PREFERENCE: StaffPreference = { preferred_rest_days: [], skills: '' }
+
+// Order a draft cell steps through when clicked
+const CELL_CYCLE: ShiftCode[] = ['D', 'RD', 'HD', 'OT', 'L', 'TOIL']
+
+const inputClass = 'w-full px-4 py-3 border border-white/30 rounded-xl focus:outline-none focus:ring-2 focus:ring-turquoise focus:border-transparent transition-all bg-white/80 text-gray-800 shadow-md'
+
+export function RosterGenerator({ staff, currentDate, onClose, onPublished }: RosterGeneratorProps) {
+  const { user } = useAuth()
+  const [maxConsecutiveDays, setMaxConsecutiveDays] = useState(String(DEFAULT_MAX_CONSECUTIVE_DAYS))
+  const [preferences, setPreferences] = useState<Record<string, StaffPreference>>({})
+  const [planning, setPlanning] = useState<PlanningData | null>(null)
+  const [draft, setDraft] = useState<RosterDraft | null>(null)
+  const [draftShifts, setDraftShifts] = useState<RosterEntry[]>([])
+  const [busy, setBusy] = useState(false)
+
+  const year = currentDate.getFullYear()
+  const month = currentDate.getMonth() + 1
+  const firstDate = `${year}-${String(month).padStart(2, '0')}-01`
+  const lastDate = `${year}-${String(month).padStart(2, '0')}-${String(new Date(year, month, 0).getDate()).padStart(2, '0')}`
+  const dates = getDatesBetween(firstDate, lastDate)
+  const monthLabel = currentDate.toLocaleDateString('en-IN', { month: 'long', year: 'numeric' })
+  const staffIds = staff.map(person => person.id)
+
+  useEffect(() => {
+    loadPlanningData()
+  }, [])
+
+  const loadPlanningData = async () => {
+    try {
+      const { data: sessions, error: sessionsError } = await supabase
+        .from('sessions')
+        .select('date, start_time, end_time, candidate_count, required_staff, required_skills')
+        .gte('date', firstDate)
+        .lte('date', lastDate)
+
+      if (sessionsError) throw sessionsError
+
+      const { data: leave, error: leaveError } = await supabase
+        .from('leave_requests')
+        .select('user_id, request_type, requested_date')
+        .eq('status', 'approved')
+        .in('request_type', ['leave', 'half_day'])
+        .gte('requested_date', firstDate)
+        .lte('requested_date', lastDate)
+
+      if (leaveError) throw leaveError
+
+      const { data: roster, error: rosterError } = await supabase
+        .from('roster_schedules')
+        .select('profile_id, date, shift_code, overtime_hours')
+        .gte('date', addDays(firstDate, -CARRY_IN_DAYS))
+        .lte('date', lastDate)
+
+      if (rosterError) throw rosterError
+
+      const { data: savedPreferences, error: preferencesError } = await supabase
+        .from('staff_roster_preferences')
+        .select('profile_id, preferred_rest_days, skills')
+
+      if (preferencesError) throw preferencesError
+
+      const { data: openDraft, error: draftError } = await supabase
+        .from('roster_drafts')
+        .select('id, max_consecutive_days, created_at')
+        .eq('year', year)
+        .eq('month', month)
+        .eq('status', 'draft')
+        .maybeSingle()
+
+      if (draftError) throw draftError
+
+      // Approved leave first, then leave, time off, half days and overtime already on the roster
+      const fixed: RosterEntry[] = (leave || [])
+        .filter(request => staffIds.includes(request.user_id))
+        .map(request => ({
+          profile_id: request.user_id,
+          date: request.requested_date,
+          shift_code: request.request_type === 'half_day' ? 'HD' : 'L'
+        }))
+      const keptShifts = (roster || []).filter(entry =>
+        entry.date >= firstDate &&
+        (FIXED_SHIFT_CODES.includes(entry.shift_code) || Number(entry.overtime_hours) > 0) &&
+        staffIds.includes(entry.profile_id) &&
+        !fixed.some(other => other.profile_id === entry.profile_id && other.date === entry.date)
+      )
+      fixed.push(...keptShifts.map(({ profile_id, date, shift_code }) => ({ profile_id, date, shift_code })))
+
+      const loaded: Record<string, StaffPreference> = {}
+      for (const preference of savedPreferences || []) {
+        loaded[preference.profile_id] = {
+          preferred_rest_days: preference.preferred_rest_days || [],
+          skills: (preference.skills || []).join(', ')
+        }
+      }
+      setPreferences(loaded)
+
+      setPlanning({
+        needs: getRosterNeeds(dates, sessions || [], await fetchCandidatesPerInvigilator()),
+        fixed,
+        carryIn: getCarryInStreaks(staffIds, (roster || []).filter(entry => entry.date < firstDate), firstDate)
+      })
+
+      if (openDraft) {
+        await loadDraftShifts(openDraft)
+      }
+    } catch (error: any) {
+      console.error('Error loading roster planning data:', error)
+      alert('Failed to load roster planning data: ' + error.message)
+      onClose()
+    }
+  }
+
+  const loadDraftShifts = async (openDraft: RosterDraft) => {
+    const { data, error } = await supabase
+      .from('roster_draft_shifts')
+      .select('profile_id, date, shift_code')
+      .eq('draft_id', openDraft.id)
+
+    if (error) throw error
+    setDraft(openDraft)
+    setDraftShifts(data || [])
+    setMaxConsecutiveDays(String(openDraft.max_consecutive_days))
+  }
+
+  const getPreference = (profileId: string): StaffPreference => preferences[profileId] || NO_PREFERENCE
+
+  const updatePreference = (profileId: string, changes: Partial<StaffPreference>) => {
+    setPreferences(prev => ({ ...prev, [profileId]: { ...(prev[profileId] || NO_PREFERENCE), ...changes } }))
+  }
+
+  const toggleRestDay = (profileId: string, weekday: number) => {
+    const restDays = getPreference(profileId).preferred_rest_days
+    updatePreference(profileId, {
+      preferred_rest_days: restDays.includes(weekday)
+        ? restDays.filter(day => day !== weekday)
+        : [...restDays, weekday].sort()
+    })
+  }
+
+  const getGeneratorStaff = (): GeneratorStaff[] => staff.map(person => ({
+    id: person.id,
+    name: person.full_name,
+    role: person.role,
+    skills: parseSkills(getPreference(person.id).skills),
+    preferred_rest_days: getPreference(person.id).preferred_rest_days
+  }))
+
+  const getGeneratorInput = (maxDays: number): RosterGeneratorInput | null => planning && {
+    dates,
+    staff: getGeneratorStaff(),
+    needs: planning.needs,
+    fixed: planning.fixed,
+    carryIn: planning.carryIn,
+    maxConsecutiveDays: maxDays
+  }
+
+  const savePreferences = async () => {
+    setBusy(true)
+    try {
+      const now = new Date().toISOString()
+      const { error } = await supabase
+        .from('staff_roster_preferences')
+        .upsert(staff.map(person => ({
+          profile_id: person.id,
+          preferred_rest_days: getPreference(person.id).preferred_rest_days,
+          skills: parseSkills(getPreference(person.id).skills),
+          updated_by: user?.id,
+          updated_at: now
+        })))
+
+      if (error) throw error
+      alert('Staff preferences saved')
+    } catch (error: any) {
+      console.error('Error saving roster preferences:', error)
+      alert('Failed to save staff preferences: ' + error.message)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleGenerate = async () => {
+    const maxDays = Number(maxConsecutiveDays)
+    const validationError = validateMaxConsecutiveDays(maxDays)
+    if (validationError) {
+      alert(validationError)
+      return
+    }
+
+    const input = getGeneratorInput(maxDays)
+    if (!user || !input) return
+    if (draft && !confirm('Replace the open draft for this month? Changes made to it will be lost.')) return
+
+    setBusy(true)
+    try {
+      if (draft) {
+        const { error: discardError } = await supabase
+          .from('roster_drafts')
+          .update({ status: 'discarded' })
+          .eq('id', draft.id)
+
+        if (discardError) throw discardError
+        setDraft(null)
+        setDraftShifts([])
+      }
+
+      const { data: created, error } = await supabase
+        .from('roster_drafts')
+        .insert({ year, month, max_consecutive_days: maxDays, created_by: user.id })
+        .select('id, max_consecutive_days, created_at')
+        .single()
+
+      if (error) throw error
+
+      const shifts = generateRoster(input)
+      const { error: shiftsError } = await supabase
+        .from('roster_draft_shifts')
+        .insert(shifts.map(shift => ({ ...shift, draft_id: created.id })))
+
+      if (shiftsError) throw shiftsError
+      setDraft(created)
+      setDraftShifts(shifts)
+    } catch (error: any) {
+      console.error('Error generating roster draft:', error)
+      alert('Failed to generate roster draft: ' + error.message)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const cycleShift = async (profileId: string, date: string) => {
+    if (!draft || busy) return
+
+    const current = draftShifts.find(shift => shift.profile_id === profileId && shift.date === date)?.shift_code as ShiftCode
+    const next = CELL_CYCLE[(CELL_CYCLE.indexOf(current) + 1) % CELL_CYCLE.length]
+    const { error } = await supabase
+      .from('roster_draft_shifts')
+      .upsert({ draft_id: draft.id, profile_id: profileId, date, shift_code: next })
+
+    if (error) {
+      console.error('Error updating draft shift:', error)
+      alert('Failed to update draft shift: ' + error.message)
+      return
+    }
+    setDraftShifts(prev => [
+      ...prev.filter(shift => !(shift.profile_id === profileId && shift.date === date)),
+      { profile_id: profileId, date, shift_code: next }
+    ])
+  }
+
+  const handleDiscard = async () => {
+    if (!draft || !confirm('Discard this draft? The published roster is not changed.')) return
+
+    const { error } = await supabase
+      .from('roster_drafts')
+      .update({ status: 'discarded' })
+      .eq('id', draft.id)
+
+    if (error) {
+      console.error('Error discarding roster draft:', error)
+      alert('Failed to discard draft: ' + error.message)
+      return
+    }
+    setDraft(null)
+    setDraftShifts([])
+  }
+
+  const handlePublish = async () => {
+    if (!draft) return
+    if (!confirm(`Publish this draft? It replaces the ${monthLabel} roster for the staff in it.`)) return
+
+    setBusy(true)
+    try {
+      const { data: count, error } = await supabase.rpc('publish_roster_draft', { p_draft_id: draft.id })
+
+      if (error) throw error
+      onPublished(`Published generated roster with ${count} entries`)
+      onClose()
+    } catch (error: any) {
+      console.error('Error publishing roster draft:', error)
+      alert('Failed to publish roster draft: ' + error.message)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const draftInput = draft ? getGeneratorInput(draft.max_consecutive_days) : null
+  const issues = draftInput ? checkRoster(draftInput, draftShifts) : []
+  const summaries = draftInput ? summariseRoster(draftInput, draftShifts) : []
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="backdrop-blur-md bg-white/95 border border-white/20 shadow-2xl rounded-2xl p-6 w-full max-w-6xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold bg-gradient-to-r from-turquoise to-cyan bg-clip-text text-transparent">
+            Generate Roster · {monthLabel}
+          </h2>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600 transition-colors">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        {planning === null ? (
+          <p className="text-sm text-gray-600">Loading sessions, leave and the current roster…</p>
+        ) : (
+          <div className="space-y-6">
+            <p className="text-sm text-gray-600">
+              The generator keeps approved leave and time off, rosters at least the staff each day's sessions need with the skills they ask for,
+              rests anyone who reaches the limit of working days in a row, and gives out preferred rest days and weekends off as evenly as
+              the sessions allow. Nothing changes on the roster until the draft is published.
+            </p>
+
+            <div>
+              <h3 className="text-lg font-semibold text-gray-800 mb-3">Staff Preferences</h3>
+              <div className="border border-gray-200 rounded-xl overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 text-gray-600">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-semibold">Staff</th>
+                      <th className="px-3 py-2 text-left font-semibold">Preferred Rest Days</th>
+                      <th className="px-3 py-2 text-left font-semibold">Skills</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {staff.map(person => (
+                      <tr key={person.id} className="border-t border-gray-100 text-gray-800">
+                        <td className="px-3 py-2 whitespace-nowrap">{person.full_name}</td>
+                        <td className="px-3 py-2">
+                          <div className="flex gap-1">
+                            {WEEKDAY_LABELS.map((label, weekday) => (
+                              <button
+                                key={label}
+                                onClick={() => toggleRestDay(person.id, weekday)}
+                                className={`px-2 py-1 rounded-lg text-xs font-medium transition-all ${
+                                  getPreference(person.id).preferred_rest_days.includes(weekday)
+                                    ? 'bg-gradient-to-r from-turquoise to-cyan text-white'
+                                    : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                                }`}
+                              >
+                                {label}
+                              </button>
+                            ))}
+                          </div>
+                        </td>
+                        <td className="px-3 py-2">
+                          <input
+                            type="text"
+                            className="w-full px-3 py-1.5 border border-gray-200 rounded-lg bg-white/80 text-gray-800"
+                            value={getPreference(person.id).skills}
+                            onChange={(e) => updatePreference(person.id, { skills: e.target.value })}
+                            placeholder="e.g. Pearson VUE, CELPIP"
+                          />
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div className="flex justify-end mt-3">
+                <button
+                  onClick={savePreferences}
+                  disabled={busy}
+                  className="px-4 py-2 border border-gray-300 rounded-xl hover:bg-gray-50 transition-all text-gray-700 font-medium flex items-center space-x-2 disabled:opacity-50"
+                >
+                  <Save className="h-4 w-4" />
+                  <span>Save Preferences</span>
+                </button>
+              </div>
+            </div>
+
+            <div className="flex items-end gap-4">
+              <div className="w-64">
+                <label className="block text-sm font-semibold text-gray-700 mb-2">Most Working Days in a Row</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_CONSECUTIVE_DAYS_LIMIT}
+                  className={inputClass}
+                  value={maxConsecutiveDays}
+                  onChange={(e) => setMaxConsecutiveDays(e.target.value)}
+                />
+              </div>
+              <button
+                onClick={handleGenerate}
+                disabled={busy}
+                className="bg-gradient-to-r from-turquoise to-cyan text-white px-6 py-3 rounded-xl font-medium hover:shadow-2xl transition-all duration-200 flex items-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Wand2 className="h-5 w-5" />
+                <span>{draft ? 'Regenerate Draft' : 'Generate Draft'}</span>
+              </button>
+            </div>
+
+            {draft && (
+              <div className="space-y-4">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-800">Draft</h3>
+                  <p className="text-sm text-gray-600">
+                    Generated {new Date(draft.created_at).toLocaleString('en-IN')}. Click a cell to change its shift.
+                  </p>
+                </div>
+
+                <div className="overflow-x-auto border border-gray-200 rounded-xl">
+                  <table className="text-xs">
+                    <thead className="bg-gray-50 text-gray-600">
+                      <tr>
+                        <th className="px-3 py-2 text-left font-semibold sticky left-0 bg-gray-50">Staff</th>
+                        {dates.map(date => (
+                          <th key={date} className="px-1 py-2 font-semibold text-center min-w-[2.25rem]">
+                            <div>{Number(date.slice(8))}</div>
+                            <div className="font-normal">{WEEKDAY_LABELS[getWeekday(date)].charAt(0)}</div>
+                          </th>
+                        ))}
+                        <th className="px-3 py-2 text-left font-semibold whitespace-nowrap">Days · Weekends · Rest kept</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {staff.map(person => {
+                        const summary = summaries.find(s => s.profile_id === person.id)
+                        return (
+                          <tr key={person.id} className="border-t border-gray-100">
+                            <td className="px-3 py-1 whitespace-nowrap text-gray-800 sticky left-0 bg-white">{person.full_name}</td>
+                            {dates.map(date => {
+                              const code = draftShifts.find(shift => shift.profile_id === person.id && shift.date === date)?.shift_code as ShiftCode
+                              const info = code ? SHIFT_CODES[code] : null
+                              return (
+                                <td key={date} className="px-0.5 py-1">
+                                  <button
+                                    onClick={() => cycleShift(person.id, date)}
+                                    title={info?.name || 'Not set'}
+                                    className={`w-8 h-7 rounded-md font-bold ${info ? `${info.color} ${info.textColor}` : 'bg-gray-100 text-gray-400'}`}
+                                  >
+                                    {code || '-'}
+                                  </button>
+                                </td>
+                              )
+                            })}
+                            <td className="px-3 py-1 whitespace-nowrap text-gray-700">
+                              {summary && `${summary.workingDays} · ${summary.weekendDays} · ${summary.preferredRestKept}/${summary.preferredRestDays}`}
+                            </td>
+                          </tr>
+                        )
+                      })}
+                      <tr className="border-t border-gray-200 bg-gray-50">
+                        <td className="px-3 py-1 whitespace-nowrap font-semibold text-gray-600 sticky left-0 bg-gray-50">Needed</td>
+                        {dates.map(date => (
+                          <td key={date} className="px-0.5 py-1 text-center text-gray-600">
+                            {planning.needs.find(need => need.date === date)?.staff || ''}
+                          </td>
+                        ))}
+                        <td />
+                      </tr>
+                    </tbody>
+                  </table>
+                </div>
+
+                {issues.length === 0 ? (
+                  <p className="flex items-center space-x-2 text-sm font-semibold text-green-700">
+                    <CheckCircle className="h-4 w-4" />
+                    <span>The draft meets every staffing, skill, leave and rest constraint.</span>
+                  </p>
+                ) : (
+                  <div className="p-3 rounded-xl bg-red-50 border border-red-200 text-sm text-red-700">
+                    <p className="font-semibold mb-1">{issues.length} {issues.length === 1 ? 'problem' : 'problems'} in this draft</p>
+                    <ul className="space-y-0.5">
+                      {issues.map((issue, index) => (
+                        <li key={index} className="flex items-start space-x-1">
+                          <AlertTriangle className="h-3 w-3 mt-1 shrink-0" />
+                          <span>{Number(issue.date.slice(8))} {monthLabel}: {issue.message}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                <div className="flex space-x-4 pt-2">
+                  <button
+                    onClick={handleDiscard}
+                    disabled={busy}
+                    className="flex-1 px-6 py-3 border border-gray-300 rounded-xl hover:bg-gray-50 transition-all text-gray-700 font-medium disabled:opacity-50"
+                  >
+                    Discard Draft
+                  </button>
+                  <button
+                    onClick={handlePublish}
+                    disabled={busy}
+                    className="flex-1 bg-gradient-to-r from-turquoise to-cyan text-white px-6 py-3 rounded-xl font-medium hover:shadow-2xl transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {busy ? 'Working…' : 'Publish Draft'}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
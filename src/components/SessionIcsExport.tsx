@@ -0,0 +1,206 @@
+import { useState, useEffect } from 'react'
+import { X, Download } from 'lucide-react'
+import { useAuth } from '../contexts/AuthContext'
+import { supabase } from '../lib/supabase'
+import { TestingRoom } from '../utils/seatAllocation'
+import { downloadFile } from '../utils/fileUtils'
+import { timeToMinutes } from '../utils/calendarLayout'
+import { addDays } from '../utils/sessionRecurrence'
+import { RosterShift, getShiftMinutes } from '../utils/staffCoverage'
+import { IcsSession, buildIcs, getIcsFilename } from '../utils/sessionIcs'
+import { Client, getSessionClient } from '../utils/clients'
+
+interface SessionIcsExportProps {
+  rooms: TestingRoom[]
+  clients: Client[]
+  // Month shown when the dialog opens, YYYY-MM
+  initialMonth: string
+  onClose: () => void
+}
+
+interface ExportSession extends IcsSession {
+  client_id: string | null
+  room_id: string | null
+}
+
+const inputClass = 'w-full px-4 py-3 border border-white/30 rounded-xl focus:outline-none focus:ring-2 focus:ring-turquoise focus:border-transparent transition-all bg-white/80 text-gray-800 shadow-md'
+
+export function SessionIcsExport({ rooms, clients, initialMonth, onClose }: SessionIcsExportProps) {
+  const { user } = useAuth()
+  const [month, setMonth] = useState(initialMonth)
+  const [clientId, setClientId] = useState('')
+  const [roomId, setRoomId] = useState('')
+  const [onlyMine, setOnlyMine] = useState(false)
+  const [sessions, setSessions] = useState<ExportSession[]>([])
+  const [myShifts, setMyShifts] = useState<RosterShift[] | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (month) loadMonth()
+  }, [month])
+
+  const getMonthRange = () => {
+    const [year, monthNumber] = month.split('-').map(Number)
+    const nextMonth = monthNumber === 12 ? `${year + 1}-01-01` : `${year}-${String(monthNumber + 1).padStart(2, '0')}-01`
+    return { startDate: `${month}-01`, endDate: addDays(nextMonth, -1) }
+  }
+
+  const loadMonth = async () => {
+    setLoading(true)
+    const { startDate, endDate } = getMonthRange()
+    try {
+      const { data, error } = await supabase
+        .from('sessions')
+        .select('id, ics_uid, client_id, client_name, exam_name, date, start_time, end_time, candidate_count, room_id')
+        .gte('date', startDate)
+        .lte('date', endDate)
+        .order('date', { ascending: true })
+        .order('start_time', { ascending: true })
+
+      if (error) throw error
+      setSessions((data || []).map(session => ({
+        ...session,
+        room_name: rooms.find(room => room.id === session.room_id)?.name || null
+      })))
+      setMyShifts(await loadMyShifts(startDate, endDate))
+    } catch (error: any) {
+      console.error('Error loading sessions for export:', error)
+      alert('Failed to load sessions: ' + error.message)
+      setSessions([])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // The signed-in user's roster for the month, or null when they have no staff profile
+  const loadMyShifts = async (startDate: string, endDate: string): Promise<RosterShift[] | null> => {
+    const { data: profile, error: profileError } = await supabase
+      .from('staff_profiles')
+      .select('id')
+      .eq('user_id', user?.id)
+      .maybeSingle()
+
+    if (profileError) {
+      console.error('Error loading staff profile:', profileError)
+      return null
+    }
+    if (!profile) return null
+
+    const { data, error } = await supabase
+      .from('roster_schedules')
+      .select('profile_id, date, shift_code, overtime_hours')
+      .eq('profile_id', profile.id)
+      .gte('date', startDate)
+      .lte('date', endDate)
+
+    if (error) {
+      console.error('Error loading roster:', error)
+      return null
+    }
+    return data || []
+  }
+
+  // Sessions that overlap one of the user's working shifts
+  const isOnMyShift = (session: ExportSession) =>
+    (myShifts || []).some(shift => {
+      const window = shift.date === session.date ? getShiftMinutes(shift) : null
+      return !!window && window.start < timeToMinutes(session.end_time) && timeToMinutes(session.start_time) < window.end
+    })
+
+  const selected = sessions.filter(session =>
+    (!clientId || getSessionClient(clients, session)?.id === clientId) &&
+    (!roomId || session.room_id === roomId) &&
+    (!onlyMine || isOnMyShift(session))
+  )
+
+  const handleExport = () => {
+    if (selected.length === 0) {
+      alert('No sessions match this export')
+      return
+    }
+    const clientName = clients.find(client => client.id === clientId)?.name || ''
+    const roomName = rooms.find(room => room.id === roomId)?.name || ''
+    const labels = [month, clientName, roomName, onlyMine ? 'my-shifts' : '']
+    const calendarName = ['FETS', ...labels.filter(Boolean)].join(' ')
+    downloadFile(buildIcs(selected, calendarName), getIcsFilename(labels), 'text/calendar;charset=utf-8')
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="backdrop-blur-md bg-white/95 border border-white/20 shadow-2xl rounded-2xl p-6 w-full max-w-md max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold bg-gradient-to-r from-turquoise to-cyan bg-clip-text text-transparent">
+            Export Calendar File
+          </h2>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600 transition-colors">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="space-y-5">
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">Month</label>
+            <input type="month" className={inputClass} value={month} onChange={(e) => setMonth(e.target.value)} required />
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">Client</label>
+            <select className={inputClass} value={clientId} onChange={(e) => setClientId(e.target.value)}>
+              <option value="">All clients</option>
+              {clients.map(client => (
+                <option key={client.id} value={client.id}>{client.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">Testing Room</label>
+            <select className={inputClass} value={roomId} onChange={(e) => setRoomId(e.target.value)}>
+              <option value="">All rooms</option>
+              {rooms.map(room => (
+                <option key={room.id} value={room.id}>{room.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="flex items-center space-x-2 text-sm font-semibold text-gray-700">
+              <input
+                type="checkbox"
+                checked={onlyMine}
+                disabled={myShifts === null}
+                onChange={(e) => setOnlyMine(e.target.checked)}
+                className="rounded text-turquoise focus:ring-turquoise"
+              />
+              <span>Only sessions during my rostered shifts</span>
+            </label>
+            {myShifts === null && !loading && (
+              <p className="mt-1 text-xs text-gray-500">Your account has no staff profile on the roster.</p>
+            )}
+          </div>
+
+          <p className="text-sm text-gray-600">
+            {loading ? 'Loading sessions…' : `${selected.length} ${selected.length === 1 ? 'session' : 'sessions'} will be exported`}
+          </p>
+
+          <div className="flex space-x-4 pt-2">
+            <button
+              onClick={onClose}
+              className="flex-1 px-6 py-3 border border-gray-300 rounded-xl hover:bg-gray-50 transition-all text-gray-700 font-medium"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={loading || selected.length === 0}
+              className="flex-1 bg-gradient-to-r from-turquoise to-cyan text-white px-6 py-3 rounded-xl font-medium hover:shadow-2xl transition-all duration-200 flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Download className="h-5 w-5" />
+              <span>Download .ics</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
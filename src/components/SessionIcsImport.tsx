@@ -0,0 +1,264 @@
+import React, { useState } from 'react'
+import { X, Upload } from 'lucide-react'
+import { useAuth } from '../contexts/AuthContext'
+import { supabase } from '../lib/supabase'
+import { TestingRoom } from '../utils/seatAllocation'
+import { decodeTextBuffer } from '../utils/candidateImport'
+import { formatDateForDisplay } from '../utils/dateUtils'
+import { formatTimeRange } from '../utils/calendarLayout'
+import { IcsEvent, IcsSkippedEvent, parseIcs } from '../utils/sessionIcs'
+import { Client, findClient } from '../utils/clients'
+
+interface SessionIcsImportProps {
+  rooms: TestingRoom[]
+  clients: Client[]
+  onClose: () => void
+  onImported: () => void
+}
+
+interface ExistingSession {
+  id: number
+  ics_uid: string
+  client_name: string
+  exam_name: string
+  date: string
+  start_time: string
+  end_time: string
+  room_id: string | null
+}
+
+type ImportAction = 'create' | 'update' | 'unchanged'
+
+interface ImportRow {
+  event: IcsEvent
+  action: ImportAction
+  existing?: ExistingSession
+  // The organiser's client in the registry; unmatched organisers are imported by name
+  client?: Client
+  room_id: string | null
+}
+
+const ACTION_LABELS: Record<ImportAction, { label: string; className: string }> = {
+  create: { label: 'New', className: 'bg-green-100 text-green-700' },
+  update: { label: 'Update', className: 'bg-blue-100 text-blue-700' },
+  unchanged: { label: 'Unchanged', className: 'bg-gray-100 text-gray-600' }
+}
+
+export function SessionIcsImport({ rooms, clients, onClose, onImported }: SessionIcsImportProps) {
+  const { user } = useAuth()
+  const [fileName, setFileName] = useState('')
+  const [rows, setRows] = useState<ImportRow[]>([])
+  const [skipped, setSkipped] = useState<IcsSkippedEvent[]>([])
+  const [failures, setFailures] = useState<string[]>([])
+  const [reading, setReading] = useState(false)
+  const [importing, setImporting] = useState(false)
+
+  // Events whose location names a testing room are booked into it
+  const findRoomId = (location: string): string | null =>
+    rooms.find(room => room.name.trim().toLowerCase() === location.toLowerCase())?.id || null
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    setReading(true)
+    setFailures([])
+    try {
+      const parsed = parseIcs(decodeTextBuffer(await file.arrayBuffer()))
+      if (parsed.events.length === 0 && parsed.skipped.length === 0) {
+        alert('No events found in this file')
+        return
+      }
+
+      const uids = parsed.events.map(event => event.uid)
+      const { data, error } = uids.length > 0
+        ? await supabase
+          .from('sessions')
+          .select('id, ics_uid, client_name, exam_name, date, start_time, end_time, room_id')
+          .in('ics_uid', uids)
+        : { data: [], error: null }
+
+      if (error) throw error
+      const existingByUid = new Map<string, ExistingSession>((data || []).map(session => [session.ics_uid, session]))
+
+      setFileName(file.name)
+      setSkipped(parsed.skipped)
+      setRows(parsed.events.map(event => {
+        const existing = existingByUid.get(event.uid)
+        const client = findClient(clients, event.client_name)
+        const room_id = findRoomId(event.location) ?? existing?.room_id ?? null
+        const unchanged = existing &&
+          existing.client_name === (client?.name || event.client_name) &&
+          existing.exam_name === event.exam_name &&
+          existing.date === event.date &&
+          existing.start_time.slice(0, 5) === event.start_time &&
+          existing.end_time.slice(0, 5) === event.end_time &&
+          existing.room_id === room_id
+        return { event, existing, client, room_id, action: unchanged ? 'unchanged' : existing ? 'update' : 'create' }
+      }))
+    } catch (error: any) {
+      console.error('Error reading calendar file:', error)
+      alert('Failed to read calendar file: ' + error.message)
+    } finally {
+      setReading(false)
+    }
+  }
+
+  const handleImport = async () => {
+    if (!user) return
+    const pending = rows.filter(row => row.action !== 'unchanged')
+    if (pending.length === 0) return
+
+    setImporting(true)
+    const failed: string[] = []
+    const saved = new Set<string>()
+    let created = 0
+    let updated = 0
+
+    // One row at a time so a full room or a bad event does not stop the rest
+    for (const row of pending) {
+      const values = {
+        client_id: row.client?.id || null,
+        client_name: row.client?.name || row.event.client_name,
+        exam_name: row.event.exam_name,
+        date: row.event.date,
+        start_time: row.event.start_time,
+        end_time: row.event.end_time,
+        room_id: row.room_id,
+        user_id: user.id,
+        updated_at: new Date().toISOString()
+      }
+
+      const { error } = row.existing
+        ? await supabase.from('sessions').update(values).eq('id', row.existing.id)
+        : await supabase.from('sessions').insert({ ...values, ics_uid: row.event.uid, created_at: new Date().toISOString() })
+
+      if (error) {
+        console.error('Error importing calendar event:', error)
+        failed.push(`${row.event.exam_name} on ${formatDateForDisplay(row.event.date)}: ${error.message}`)
+      } else {
+        saved.add(row.event.uid)
+        if (row.existing) updated++
+        else created++
+      }
+    }
+
+    setImporting(false)
+    setFailures(failed)
+    // Saved events are left out if the user retries the ones that failed
+    setRows(prev => prev.map(row => (saved.has(row.event.uid) ? { ...row, action: 'unchanged' } : row)))
+    if (created + updated > 0) onImported()
+    if (failed.length === 0) {
+      alert(`${created} sessions created, ${updated} updated`)
+      onClose()
+    }
+  }
+
+  const pendingCount = rows.filter(row => row.action !== 'unchanged').length
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="backdrop-blur-md bg-white/95 border border-white/20 shadow-2xl rounded-2xl p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold bg-gradient-to-r from-turquoise to-cyan bg-clip-text text-transparent">
+            Import Calendar File
+          </h2>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600 transition-colors">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="space-y-5">
+          <label className="flex flex-col items-center justify-center p-6 border-2 border-dashed border-turquoise/40 rounded-xl cursor-pointer hover:bg-turquoise/5 transition-all">
+            <Upload className="h-8 w-8 text-turquoise mb-2" />
+            <span className="text-sm font-medium text-gray-700">
+              {reading ? 'Reading…' : fileName || 'Choose an .ics file from an exam provider'}
+            </span>
+            <span className="text-xs text-gray-500 mt-1">
+              The organiser becomes the client and the event title the exam. Events already imported are matched by their UID and updated.
+            </span>
+            <input type="file" accept=".ics,text/calendar" className="hidden" onChange={handleFileChange} disabled={reading || importing} />
+          </label>
+
+          {rows.length > 0 && (
+            <div className="border border-gray-200 rounded-xl overflow-hidden">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-gray-600">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-semibold">Date</th>
+                    <th className="px-3 py-2 text-left font-semibold">Time</th>
+                    <th className="px-3 py-2 text-left font-semibold">Client</th>
+                    <th className="px-3 py-2 text-left font-semibold">Exam</th>
+                    <th className="px-3 py-2 text-left font-semibold">Room</th>
+                    <th className="px-3 py-2 text-left font-semibold"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => (
+                    <tr key={row.event.uid} className="border-t border-gray-100 text-gray-800">
+                      <td className="px-3 py-2 whitespace-nowrap">{formatDateForDisplay(row.event.date)}</td>
+                      <td className="px-3 py-2 whitespace-nowrap">{formatTimeRange(row.event.start_time, row.event.end_time)}</td>
+                      <td className="px-3 py-2">
+                        {row.client?.name || row.event.client_name}
+                        {!row.client && <div className="text-xs text-amber-600">Not in the client registry; add it as an alias to link it</div>}
+                      </td>
+                      <td className="px-3 py-2">
+                        {row.event.exam_name}
+                        {row.event.recurring && <div className="text-xs text-amber-600">Repeats; only the first date is imported</div>}
+                      </td>
+                      <td className="px-3 py-2">{rooms.find(room => room.id === row.room_id)?.name || '—'}</td>
+                      <td className="px-3 py-2">
+                        <span className={`px-2 py-0.5 rounded text-xs font-semibold ${ACTION_LABELS[row.action].className}`}>
+                          {ACTION_LABELS[row.action].label}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {skipped.length > 0 && (
+            <div className="p-3 rounded-xl bg-amber-50 border border-amber-200 text-sm text-amber-800">
+              <p className="font-semibold mb-1">{skipped.length} events skipped</p>
+              <ul className="space-y-0.5">
+                {skipped.map((event, index) => (
+                  <li key={index}>{event.summary}: {event.reason}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {failures.length > 0 && (
+            <div className="p-3 rounded-xl bg-red-50 border border-red-200 text-sm text-red-700">
+              <p className="font-semibold mb-1">{failures.length} events could not be saved</p>
+              <ul className="space-y-0.5">
+                {failures.map((failure, index) => (
+                  <li key={index}>{failure}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex space-x-4 pt-2">
+            <button
+              onClick={onClose}
+              className="flex-1 px-6 py-3 border border-gray-300 rounded-xl hover:bg-gray-50 transition-all text-gray-700 font-medium"
+            >
+              {failures.length > 0 ? 'Close' : 'Cancel'}
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={pendingCount === 0 || importing}
+              className="flex-1 bg-gradient-to-r from-turquoise to-cyan text-white px-6 py-3 rounded-xl font-medium hover:shadow-2xl transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {importing ? 'Importing…' : `Import ${pendingCount} ${pendingCount === 1 ? 'Session' : 'Sessions'}`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,324 @@
+import { useState, useEffect } from 'react'
+import { X, Printer, Wand2, Accessibility } from 'lucide-react'
+import { supabase } from '../lib/supabase'
+import { formatAccommodation } from '../utils/accommodations'
+import {
+  SeatedCandidate,
+  TestingRoom,
+  Workstation,
+  buildSeatGrid,
+  planSeatAssignments,
+  printSeatingPlan
+} from '../utils/seatAllocation'
+
+interface SeatingSession {
+  id?: number
+  client_name: string
+  exam_name: string
+  date: string
+  start_time: string
+  end_time: string
+  room_id?: string | null
+}
+
+interface SessionSeatingProps {
+  session: SeatingSession
+  onClose: () => void
+}
+
+// Statuses that occupy a seat in the testing room
+const SEATED_STATUSES = ['checked_in', 'in_progress', 'completed']
+
+export function SessionSeating({ session, onClose }: SessionSeatingProps) {
+  const [room, setRoom] = useState<TestingRoom | null>(null)
+  const [workstations, setWorkstations] = useState<Workstation[]>([])
+  const [candidates, setCandidates] = useState<SeatedCandidate[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [draggedCandidateId, setDraggedCandidateId] = useState<string | null>(null)
+  // Seats held by candidates of other sessions using the room at the same time
+  const [sharedSeatIds, setSharedSeatIds] = useState<Set<string>>(new Set())
+
+  useEffect(() => {
+    loadSeating()
+  }, [session.id])
+
+  const loadSeating = async () => {
+    try {
+      setLoading(true)
+      if (session.room_id) {
+        const [{ data: roomData, error: roomError }, { data: seatsData, error: seatsError }] = await Promise.all([
+          supabase.from('testing_rooms').select('id, name, grid_rows, grid_cols, seat_count, equipment').eq('id', session.room_id).single(),
+          supabase.from('workstations').select('*').eq('room_id', session.room_id).order('seat_number')
+        ])
+        if (roomError) throw roomError
+        if (seatsError) throw seatsError
+        setRoom(roomData)
+        setWorkstations(seatsData || [])
+        setSharedSeatIds(await loadSharedSeats(session.room_id))
+      }
+
+      const { data, error } = await supabase
+        .from('candidates')
+        .select('id, full_name, confirmation_number, status, workstation_id')
+        .eq('session_id', session.id)
+        .order('full_name')
+
+      if (error) throw error
+
+      const { data: accommodationsData, error: accommodationsError } = await supabase
+        .from('candidate_accommodations')
+        .select('candidate_id, type, extra_time_minutes, details')
+        .in('candidate_id', (data || []).map(candidate => candidate.id))
+        .eq('status', 'approved')
+
+      if (accommodationsError) throw accommodationsError
+
+      setCandidates((data || []).map(candidate => {
+        const accommodations = (accommodationsData || [])
+          .filter(accommodation => accommodation.candidate_id === candidate.id)
+          .map(formatAccommodation)
+        return {
+          id: candidate.id,
+          fullName: candidate.full_name,
+          confirmationNumber: candidate.confirmation_number,
+          status: candidate.status,
+          workstationId: candidate.workstation_id || undefined,
+          accommodations: accommodations.length > 0 ? accommodations : undefined
+        }
+      }))
+    } catch (error: any) {
+      console.error('Error loading seating:', error)
+      alert('Failed to load seating: ' + error.message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const loadSharedSeats = async (roomId: string): Promise<Set<string>> => {
+    const { data: overlapping, error } = await supabase
+      .from('sessions')
+      .select('id')
+      .eq('room_id', roomId)
+      .eq('date', session.date)
+      .lt('start_time', session.end_time)
+      .gt('end_time', session.start_time)
+      .neq('id', session.id!)
+
+    if (error) throw error
+    if (!overlapping || overlapping.length === 0) return new Set()
+
+    const { data, error: seatsError } = await supabase
+      .from('candidates')
+      .select('workstation_id')
+      .in('session_id', overlapping.map(other => other.id))
+      .not('workstation_id', 'is', null)
+
+    if (seatsError) throw seatsError
+    return new Set((data || []).map(candidate => candidate.workstation_id))
+  }
+
+  const setWorkstation = async (candidateId: string, workstationId: string | null) => {
+    const { error } = await supabase
+      .from('candidates')
+      .update({ workstation_id: workstationId })
+      .eq('id', candidateId)
+
+    if (error) throw error
+  }
+
+  // Dropping onto an occupied seat swaps the two candidates
+  const moveCandidate = async (candidateId: string, target: Workstation | null) => {
+    const candidate = candidates.find(c => c.id === candidateId)
+    if (!candidate || candidate.workstationId === target?.id) return
+    if (target?.status === 'out_of_service') {
+      alert(`Seat ${target.seat_number} is out of service`)
+      return
+    }
+    if (target && sharedSeatIds.has(target.id)) {
+      alert(`Seat ${target.seat_number} is in use by another session in this room`)
+      return
+    }
+
+    const occupant = target ? candidates.find(c => c.workstationId === target.id) : undefined
+    setSaving(true)
+    try {
+      if (occupant) {
+        await setWorkstation(candidate.id, null)
+        await setWorkstation(occupant.id, candidate.workstationId || null)
+      }
+      await setWorkstation(candidate.id, target?.id || null)
+      await loadSeating()
+    } catch (error: any) {
+      console.error('Error moving candidate:', error)
+      alert('Failed to move candidate: ' + error.message)
+      await loadSeating()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleAutoAssign = async () => {
+    const assignments = planSeatAssignments(candidates, workstations.filter(w => !sharedSeatIds.has(w.id)))
+    if (assignments.length === 0) {
+      alert('Every checked-in candidate already has a seat, or no standard seats are free.')
+      return
+    }
+
+    setSaving(true)
+    try {
+      for (const assignment of assignments) {
+        await setWorkstation(assignment.candidateId, assignment.workstationId)
+      }
+      await loadSeating()
+    } catch (error: any) {
+      console.error('Error assigning seats:', error)
+      alert('Failed to assign seats: ' + error.message)
+      await loadSeating()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handlePrint = () => {
+    if (!room) return
+    try {
+      printSeatingPlan(
+        `${session.client_name} – ${session.exam_name}, ${session.date} ${session.start_time.slice(0, 5)}–${session.end_time.slice(0, 5)}`,
+        room,
+        workstations,
+        candidates
+      )
+    } catch (error: any) {
+      alert(error.message)
+    }
+  }
+
+  const seatedCandidates = new Map(candidates.filter(c => c.workstationId).map(c => [c.workstationId!, c]))
+  const waitingCandidates = candidates.filter(c => SEATED_STATUSES.includes(c.status) && !c.workstationId)
+  const notArrivedCount = candidates.filter(c => c.status === 'registered').length
+
+  const getSeatClass = (workstation: Workstation, occupied: boolean) => {
+    if (workstation.status === 'out_of_service') return 'bg-gray-800 border-gray-700 text-gray-600'
+    if (sharedSeatIds.has(workstation.id)) return 'bg-gray-800/60 border-gray-700 border-dashed text-gray-500'
+    if (occupied) return 'bg-turquoise/20 border-turquoise text-white'
+    if (workstation.is_accommodation) return 'bg-yellow-400/10 border-yellow-400 border-dashed text-yellow-300'
+    return 'bg-gray-800/40 border-gray-600 text-gray-400'
+  }
+
+  const renderChip = (candidate: SeatedCandidate) => (
+    <div
+      draggable={!saving}
+      onDragStart={() => setDraggedCandidateId(candidate.id)}
+      onDragEnd={() => setDraggedCandidateId(null)}
+      className={`px-2 py-1 rounded-md bg-gray-900/80 text-xs text-white cursor-move truncate flex items-center ${
+        candidate.accommodations ? 'ring-1 ring-yellow-400' : ''
+      }`}
+      title={[`${candidate.fullName} (${candidate.confirmationNumber})`, ...(candidate.accommodations || [])].join('\n')}
+    >
+      {candidate.accommodations && <Accessibility className="h-3 w-3 mr-1 text-yellow-300 flex-shrink-0" />}
+      <span className="truncate">{candidate.fullName}</span>
+    </div>
+  )
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="bg-gradient-to-br from-gray-900/95 to-black/95 backdrop-blur-md border border-gray-700/50 rounded-2xl p-6 w-full max-w-6xl max-h-[90vh] overflow-y-auto shadow-2xl">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-turquoise">Seating: {session.exam_name}</h2>
+            <p className="text-gray-400 text-sm">
+              {session.client_name} · {session.date} · {session.start_time.slice(0, 5)}–{session.end_time.slice(0, 5)}
+              {room && ` · ${room.name}`}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-white transition-colors"
+          >
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        {loading ? (
+          <p className="text-gray-400">Loading seating...</p>
+        ) : !room ? (
+          <p className="text-gray-400">
+            This session has no testing room. Edit the session to choose one; rooms are set up under Settings → Rooms.
+          </p>
+        ) : (
+          <div className="flex flex-col lg:flex-row gap-6">
+            <div className="flex-1 overflow-x-auto">
+              <p className="text-xs text-gray-500 text-center mb-2">Front of room</p>
+              <div
+                className="grid gap-2 mx-auto w-max"
+                style={{ gridTemplateColumns: `repeat(${room.grid_cols}, 7rem)` }}
+              >
+                {buildSeatGrid(room, workstations).flat().map((workstation, index) => {
+                  if (!workstation) return <div key={`empty-${index}`} className="h-16" />
+                  const occupant = seatedCandidates.get(workstation.id)
+                  return (
+                    <div
+                      key={workstation.id}
+                      onDragOver={(e) => {
+                        if (workstation.status !== 'out_of_service' && !sharedSeatIds.has(workstation.id)) e.preventDefault()
+                      }}
+                      onDrop={(e) => {
+                        e.preventDefault()
+                        if (draggedCandidateId) moveCandidate(draggedCandidateId, workstation)
+                      }}
+                      className={`h-16 rounded-lg border p-1 flex flex-col gap-1 ${getSeatClass(workstation, !!occupant)}`}
+                    >
+                      <span className="text-xs font-bold">{workstation.seat_number}</span>
+                      {occupant && renderChip(occupant)}
+                      {!occupant && sharedSeatIds.has(workstation.id) && (
+                        <span className="text-[10px] leading-tight">Other session</span>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+
+            <div
+              className="lg:w-64 space-y-3"
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={(e) => {
+                e.preventDefault()
+                if (draggedCandidateId) moveCandidate(draggedCandidateId, null)
+              }}
+            >
+              <h3 className="text-sm font-semibold text-turquoise uppercase tracking-wider">Waiting for a seat</h3>
+              <div className="space-y-2 min-h-[4rem] p-2 rounded-lg border border-dashed border-gray-700">
+                {waitingCandidates.map(candidate => (
+                  <div key={candidate.id}>{renderChip(candidate)}</div>
+                ))}
+                {waitingCandidates.length === 0 && (
+                  <p className="text-xs text-gray-500">Drag a candidate here to free their seat</p>
+                )}
+              </div>
+              <p className="text-xs text-gray-500">{notArrivedCount} registered candidates not yet checked in</p>
+              <div className="flex flex-col gap-2">
+                <button
+                  onClick={handleAutoAssign}
+                  disabled={saving}
+                  className="bg-gradient-to-r from-turquoise to-cyan text-white px-4 py-2 rounded-xl font-medium hover:shadow-xl transition-all flex items-center justify-center space-x-2"
+                >
+                  <Wand2 className="h-4 w-4" />
+                  <span>Auto-assign Seats</span>
+                </button>
+                <button
+                  onClick={handlePrint}
+                  className="px-4 py-2 rounded-xl border border-gray-600 text-white hover:bg-gray-800 transition-colors flex items-center justify-center space-x-2"
+                >
+                  <Printer className="h-4 w-4" />
+                  <span>Print Seating Plan</span>
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,222 @@
+import { useState, useEffect } from 'react'
+import { X, AlertTriangle } from 'lucide-react'
+import { useAuth } from '../contexts/AuthContext'
+import { supabase } from '../lib/supabase'
+import { TestingRoom } from '../utils/seatAllocation'
+import { Client } from '../utils/clients'
+import { formatDateForDisplay } from '../utils/dateUtils'
+import { formatTimeRange } from '../utils/calendarLayout'
+import { ConflictSession } from '../utils/sessionConflicts'
+import { RosterShift } from '../utils/staffCoverage'
+import { SessionTemplate, previewTemplateSessions } from '../utils/sessionTemplates'
+
+interface SessionTemplateApplyProps {
+  templates: SessionTemplate[]
+  clients: Client[]
+  rooms: TestingRoom[]
+  // Dates picked in the month grid, YYYY-MM-DD
+  dates: string[]
+  candidatesPerInvigilator: number
+  onClose: () => void
+  onApplied: () => void
+}
+
+const inputClass = 'w-full px-4 py-3 border border-white/30 rounded-xl focus:outline-none focus:ring-2 focus:ring-turquoise focus:border-transparent transition-all bg-white/80 text-gray-800 shadow-md'
+
+export function SessionTemplateApply({ templates, clients, rooms, dates, candidatesPerInvigilator, onClose, onApplied }: SessionTemplateApplyProps) {
+  const { user } = useAuth()
+  const [templateId, setTemplateId] = useState(templates[0]?.id || '')
+  const [existing, setExisting] = useState<ConflictSession[] | null>(null)
+  const [shifts, setShifts] = useState<RosterShift[]>([])
+  const [savedDates, setSavedDates] = useState<string[]>([])
+  const [failures, setFailures] = useState<string[]>([])
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    loadDays()
+  }, [])
+
+  const loadDays = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('sessions')
+        .select('id, client_name, exam_name, date, start_time, end_time, room_id, candidate_count, required_staff')
+        .in('date', dates)
+
+      if (error) throw error
+
+      const { data: roster, error: rosterError } = await supabase
+        .from('roster_schedules')
+        .select('profile_id, date, shift_code, overtime_hours')
+        .in('date', dates)
+
+      if (rosterError) console.error('Error loading roster:', rosterError)
+      setExisting(data || [])
+      setShifts(roster || [])
+    } catch (error: any) {
+      console.error('Error loading sessions for the selected dates:', error)
+      alert('Failed to load sessions: ' + error.message)
+      onClose()
+    }
+  }
+
+  const template = templates.find(t => t.id === templateId)
+  const client = clients.find(c => c.id === template?.client_id)
+  const previews = template && existing
+    ? previewTemplateSessions(
+      template,
+      dates.filter(date => !savedDates.includes(date)),
+      clients,
+      existing,
+      rooms,
+      shifts,
+      candidatesPerInvigilator
+    )
+    : []
+  const bookable = previews.filter(preview => !preview.conflicts.some(conflict => conflict.severity === 'error'))
+
+  const handleApply = async () => {
+    if (!user || !template || bookable.length === 0) return
+
+    setSaving(true)
+    const failed: string[] = []
+    const saved: string[] = []
+
+    // One date at a time so a room that fills up meanwhile only fails its own date
+    for (const { session } of bookable) {
+      const now = new Date().toISOString()
+      const { error } = await supabase
+        .from('sessions')
+        .insert({
+          client_id: template.client_id,
+          client_name: session.client_name,
+          exam_name: session.exam_name,
+          date: session.date,
+          start_time: session.start_time,
+          end_time: session.end_time,
+          room_id: session.room_id,
+          user_id: user.id,
+          created_at: now,
+          updated_at: now
+        })
+
+      if (error) {
+        console.error('Error booking session from template:', error)
+        failed.push(`${formatDateForDisplay(session.date)}: ${error.message}`)
+      } else {
+        saved.push(session.date)
+      }
+    }
+
+    setSaving(false)
+    setFailures(failed)
+    setSavedDates(prev => [...prev, ...saved])
+    if (saved.length > 0) onApplied()
+    if (failed.length === 0) {
+      alert(`${saved.length} ${saved.length === 1 ? 'session' : 'sessions'} booked from ${template.name}`)
+      onClose()
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="backdrop-blur-md bg-white/95 border border-white/20 shadow-2xl rounded-2xl p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold bg-gradient-to-r from-turquoise to-cyan bg-clip-text text-transparent">
+            Book from Template
+          </h2>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600 transition-colors">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="space-y-5">
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-2">Template</label>
+            <select className={inputClass} value={templateId} onChange={(e) => setTemplateId(e.target.value)}>
+              {templates.map(t => (
+                <option key={t.id} value={t.id}>{t.name}</option>
+              ))}
+            </select>
+            {template && !client && (
+              <p className="mt-2 text-xs text-orange-600">This template's client is no longer in the registry.</p>
+            )}
+          </div>
+
+          {existing === null ? (
+            <p className="text-sm text-gray-600">Loading sessions for the selected dates…</p>
+          ) : (
+            <div className="border border-gray-200 rounded-xl overflow-hidden">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-gray-600">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-semibold">Date</th>
+                    <th className="px-3 py-2 text-left font-semibold">Session</th>
+                    <th className="px-3 py-2 text-left font-semibold">Conflicts</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {previews.map(({ session, conflicts }) => (
+                    <tr key={session.date} className="border-t border-gray-100 text-gray-800 align-top">
+                      <td className="px-3 py-2 whitespace-nowrap">{formatDateForDisplay(session.date)}</td>
+                      <td className="px-3 py-2">
+                        <div>{session.client_name} · {session.exam_name}</div>
+                        <div className="text-xs text-gray-500">
+                          {formatTimeRange(session.start_time, session.end_time)}
+                          {' · '}{rooms.find(room => room.id === session.room_id)?.name || 'No room'}
+                          {' · '}{session.candidate_count} seats
+                        </div>
+                      </td>
+                      <td className="px-3 py-2">
+                        {conflicts.length === 0 && <span className="text-green-700">None</span>}
+                        {conflicts.map((conflict, index) => (
+                          <div
+                            key={index}
+                            className={`flex items-start space-x-1 text-xs ${conflict.severity === 'error' ? 'text-red-700' : 'text-amber-700'}`}
+                          >
+                            <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+                            <span>{conflict.message}</span>
+                          </div>
+                        ))}
+                        {conflicts.some(conflict => conflict.severity === 'error') && (
+                          <div className="text-xs font-semibold text-red-700 mt-1">Not booked</div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {failures.length > 0 && (
+            <div className="p-3 rounded-xl bg-red-50 border border-red-200 text-sm text-red-700">
+              <p className="font-semibold mb-1">{failures.length} sessions could not be booked</p>
+              <ul className="space-y-0.5">
+                {failures.map((failure, index) => (
+                  <li key={index}>{failure}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex space-x-4 pt-2">
+            <button
+              onClick={onClose}
+              className="flex-1 px-6 py-3 border border-gray-300 rounded-xl hover:bg-gray-50 transition-all text-gray-700 font-medium"
+            >
+              {failures.length > 0 ? 'Close' : 'Cancel'}
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={saving || !client || bookable.length === 0}
+              className="flex-1 bg-gradient-to-r from-turquoise to-cyan text-white px-6 py-3 rounded-xl font-medium hover:shadow-2xl transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Booking…' : `Book ${bookable.length} ${bookable.length === 1 ? 'Session' : 'Sessions'}`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,244 @@
+import { useState } from 'react'
+import { X, Plus, Trash2, Save } from 'lucide-react'
+import { useAuth } from '../contexts/AuthContext'
+import { supabase } from '../lib/supabase'
+import { TestingRoom } from '../utils/seatAllocation'
+import { Client, getClientStyle } from '../utils/clients'
+import { formatTimeRange } from '../utils/calendarLayout'
+import { SessionTemplate, validateSessionTemplate } from '../utils/sessionTemplates'
+
+interface SessionTemplateManagerProps {
+  templates: SessionTemplate[]
+  clients: Client[]
+  rooms: TestingRoom[]
+  onClose: () => void
+  onChanged: () => void
+}
+
+type TemplateDraft = Omit<SessionTemplate, 'id'> & { id?: string }
+
+const EMPTY_DRAFT: TemplateDraft = {
+  name: '',
+  client_id: '',
+  exam_name: '',
+  start_time: '09:00',
+  end_time: '12:00',
+  seats: 0,
+  room_id: null
+}
+
+const inputClass = 'w-full px-4 py-3 border border-white/30 rounded-xl focus:outline-none focus:ring-2 focus:ring-turquoise focus:border-transparent transition-all bg-white/80 text-gray-800 shadow-md'
+
+export function SessionTemplateManager({ templates, clients, rooms, onClose, onChanged }: SessionTemplateManagerProps) {
+  const { user } = useAuth()
+  const [draft, setDraft] = useState<TemplateDraft>({ ...EMPTY_DRAFT })
+  const [saving, setSaving] = useState(false)
+
+  const activeClients = clients.filter(client => client.active || client.id === draft.client_id)
+
+  const updateDraft = (changes: Partial<TemplateDraft>) => {
+    setDraft(prev => ({ ...prev, ...changes }))
+  }
+
+  const editTemplate = (template: SessionTemplate) => {
+    setDraft({
+      ...template,
+      start_time: template.start_time.slice(0, 5),
+      end_time: template.end_time.slice(0, 5)
+    })
+  }
+
+  const saveTemplate = async () => {
+    if (!user) return
+    const template = { ...draft, name: draft.name.trim(), exam_name: draft.exam_name.trim() }
+    const validationError = validateSessionTemplate(template, templates)
+    if (validationError) {
+      alert(validationError)
+      return
+    }
+
+    setSaving(true)
+    const { id, ...values } = template
+    const row = { ...values, updated_at: new Date().toISOString() }
+    try {
+      const { error } = id
+        ? await supabase.from('session_templates').update(row).eq('id', id)
+        : await supabase.from('session_templates').insert({ ...row, created_by: user.id })
+
+      if (error) throw error
+      setDraft({ ...EMPTY_DRAFT })
+      onChanged()
+    } catch (error: any) {
+      console.error('Error saving session template:', error)
+      alert('Failed to save template: ' + error.message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteTemplate = async (template: SessionTemplate) => {
+    if (!window.confirm(`Delete the template "${template.name}"? Sessions already booked from it are kept.`)) return
+
+    const { error } = await supabase
+      .from('session_templates')
+      .delete()
+      .eq('id', template.id)
+
+    if (error) {
+      console.error('Error deleting session template:', error)
+      alert('Failed to delete template: ' + error.message)
+      return
+    }
+    if (draft.id === template.id) setDraft({ ...EMPTY_DRAFT })
+    onChanged()
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+      <div className="backdrop-blur-md bg-white/95 border border-white/20 shadow-2xl rounded-2xl p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold bg-gradient-to-r from-turquoise to-cyan bg-clip-text text-transparent">
+            Session Templates
+          </h2>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600 transition-colors">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            {templates.map(template => {
+              const client = clients.find(c => c.id === template.client_id)
+              const room = rooms.find(r => r.id === template.room_id)
+              return (
+                <div
+                  key={template.id}
+                  onClick={() => editTemplate(template)}
+                  className={`p-3 rounded-xl border cursor-pointer transition-all ${
+                    draft.id === template.id ? 'border-turquoise bg-turquoise/10' : 'border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-semibold text-gray-800">{template.name}</span>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        deleteTemplate(template)
+                      }}
+                      className="p-1 text-red-500 hover:text-red-600"
+                      title="Delete template"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                  <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-gray-600">
+                    {client && <span className="px-2 py-0.5 rounded" style={getClientStyle(client.color)}>{client.name}</span>}
+                    <span>{template.exam_name}</span>
+                    <span>{formatTimeRange(template.start_time, template.end_time)}</span>
+                    <span>{template.seats} seats</span>
+                    {room && <span>{room.name}</span>}
+                  </div>
+                </div>
+              )
+            })}
+            {templates.length === 0 && (
+              <p className="text-sm text-gray-500">No templates yet. Save the sessions you book most often to add them in a few clicks.</p>
+            )}
+          </div>
+
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold text-gray-800">{draft.id ? 'Edit Template' : 'New Template'}</h3>
+              {draft.id && (
+                <button
+                  onClick={() => setDraft({ ...EMPTY_DRAFT })}
+                  className="text-sm text-turquoise font-medium flex items-center space-x-1 hover:underline"
+                >
+                  <Plus className="h-4 w-4" />
+                  <span>New</span>
+                </button>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">Name</label>
+              <input
+                type="text"
+                className={inputClass}
+                placeholder="e.g. ETS GRE morning"
+                value={draft.name}
+                onChange={(e) => updateDraft({ name: e.target.value })}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">Client</label>
+              <select className={inputClass} value={draft.client_id} onChange={(e) => updateDraft({ client_id: e.target.value })}>
+                <option value="">Select a client</option>
+                {activeClients.map(client => (
+                  <option key={client.id} value={client.id}>{client.name}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">Exam Name</label>
+              <input
+                type="text"
+                className={inputClass}
+                placeholder="e.g., TOEFL, GRE, CompTIA..."
+                value={draft.exam_name}
+                onChange={(e) => updateDraft({ exam_name: e.target.value })}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">Start Time</label>
+                <input type="time" className={inputClass} value={draft.start_time} onChange={(e) => updateDraft({ start_time: e.target.value })} />
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">End Time</label>
+                <input type="time" className={inputClass} value={draft.end_time} onChange={(e) => updateDraft({ end_time: e.target.value })} />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">Seats</label>
+                <input
+                  type="number"
+                  min={0}
+                  className={inputClass}
+                  value={draft.seats}
+                  onChange={(e) => updateDraft({ seats: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">Testing Room</label>
+                <select className={inputClass} value={draft.room_id || ''} onChange={(e) => updateDraft({ room_id: e.target.value || null })}>
+                  <option value="">No room</option>
+                  {rooms.map(room => (
+                    <option key={room.id} value={room.id}>{room.name} ({room.seat_count} seats)</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              Seats are the candidates you expect; they are checked against the room and the roster when the template is applied.
+            </p>
+
+            <button
+              onClick={saveTemplate}
+              disabled={saving}
+              className="w-full bg-gradient-to-r from-turquoise to-cyan text-white px-6 py-3 rounded-xl font-medium hover:shadow-2xl transition-all duration-200 flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Save className="h-5 w-5" />
+              <span>{saving ? 'Saving…' : 'Save Template'}</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
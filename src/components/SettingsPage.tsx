@@ -1,7 +1,11 @@
 import { useState, useEffect } from 'react'
-import { Settings, User, Shield, Bell, Monitor, Database, Key, Save, RefreshCw, AlertTriangle, CheckCircle, Eye, EyeOff, X } from 'lucide-react'
+import { Settings, User, Shield, Bell, Monitor, Database, Key, Save, RefreshCw, AlertTriangle, CheckCircle, Eye, EyeOff, X, Users, LayoutGrid, Building2, UserCheck } from 'lucide-react'
 import { supabase } from '../lib/supabase'
 import { useAuth } from '../contexts/AuthContext'
+import { CandidateSettings } from './CandidateSettings'
+import { TestingRooms } from './TestingRooms'
+import { ClientSettings } from './ClientSettings'
+import { StaffingSettings } from './StaffingSettings'
 
 interface UserSettings {
   notifications: {
@@ -163,6 +167,10 @@ export function SettingsPage() {
     { id: 'notifications', name: 'Notifications', icon: Bell },
     { id: 'display', name: 'Display', icon: Monitor },
     { id: 'security', name: 'Security', icon: Shield },
+    { id: 'candidates', name: 'Candidates', icon: Users },
+    { id: 'clients', name: 'Clients', icon: Building2 },
+    { id: 'rooms', name: 'Rooms', icon: LayoutGrid },
+    { id: 'staffing', name: 'Staffing', icon: UserCheck },
     { id: 'system', name: 'System', icon: Database }
   ]
 
@@ -533,6 +541,18 @@ export function SettingsPage() {
               </div>
             )}
 
+            {/* Candidate Settings */}
+            {activeTab === 'candidates' && <CandidateSettings />}
+
+            {/* Client Registry */}
+            {activeTab === 'clients' && <ClientSettings />}
+
+            {/* Testing Rooms */}
+            {activeTab === 'rooms' && <TestingRooms />}
+
+            {/* Staffing */}
+            {activeTab === 'staffing' && <StaffingSettings />}
+
             {/* System Settings */}
             {activeTab === 'system' && (
               <div className="space-y-6">
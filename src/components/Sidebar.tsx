@@ -10,7 +10,8 @@ import {
   AlertTriangle,
   CheckCircle,
   Home,
-  Vault
+  Vault,
+  Activity
 } from 'lucide-react'
 
 interface SidebarProps {
@@ -37,6 +38,7 @@ const navigationGroups = {
     { id: 'candidate-tracker', name: 'Candidate Tracker', icon: Users },
     { id: 'fets-roster', name: 'FETS Roster', icon: UserCheck, badge: '0' },
     { id: 'fets-calendar', name: 'FETS Calendar', icon: Calendar },
+    { id: 'live-status-board', name: 'Live Status Board', icon: Activity },
   ],
   compliance: [
     { id: 'log-incident', name: 'Log Incident', icon: AlertTriangle },
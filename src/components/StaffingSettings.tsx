@@ -0,0 +1,96 @@
+import { useState, useEffect } from 'react'
+import { UserCheck, Save } from 'lucide-react'
+import { supabase } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
+import { fetchCandidatesPerInvigilator } from '../lib/staffing'
+import { CENTRE_CODE } from '../utils/confirmationNumbers'
+import { DEFAULT_CANDIDATES_PER_INVIGILATOR, MAX_CANDIDATES_PER_INVIGILATOR, validateCandidatesPerInvigilator } from '../utils/staffCoverage'
+
+export function StaffingSettings() {
+  const { user, profile } = useAuth()
+  const [candidatesPerInvigilator, setCandidatesPerInvigilator] = useState(String(DEFAULT_CANDIDATES_PER_INVIGILATOR))
+  const [message, setMessage] = useState('')
+
+  const canEdit = profile?.role === 'admin' || profile?.role === 'super_admin'
+
+  useEffect(() => {
+    fetchCandidatesPerInvigilator().then(ratio => setCandidatesPerInvigilator(String(ratio)))
+  }, [])
+
+  const showMessage = (text: string) => {
+    setMessage(text)
+    setTimeout(() => setMessage(''), 3000)
+  }
+
+  const saveRatio = async () => {
+    const ratio = Number(candidatesPerInvigilator)
+    const validationError = validateCandidatesPerInvigilator(ratio)
+    if (validationError) {
+      showMessage(`Error: ${validationError}`)
+      return
+    }
+
+    try {
+      const { error } = await supabase
+        .from('staffing_settings')
+        .upsert({
+          centre_code: CENTRE_CODE,
+          candidates_per_invigilator: ratio,
+          updated_by: user?.id,
+          updated_at: new Date().toISOString()
+        })
+
+      if (error) throw error
+      showMessage('Staffing ratio saved')
+    } catch (error: any) {
+      console.error('Error saving staffing ratio:', error)
+      showMessage('Error saving staffing ratio: ' + error.message)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-white">Staffing</h2>
+        {message && (
+          <span className={`text-sm ${message.includes('Error') ? 'text-red-400' : 'text-green-400'}`}>{message}</span>
+        )}
+      </div>
+
+      <div className="p-4 rounded-lg bg-white/5 space-y-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white flex items-center">
+            <UserCheck className="h-5 w-5 mr-2 text-yellow-400" />
+            Invigilators per Session
+          </h3>
+          <p className="text-sm text-gray-400 mt-1">
+            Each session needs one invigilator for every this many booked candidates, unless a number is set on the session itself.
+            The calendar and the roster flag days when fewer staff are on D, HD or OT shifts than the sessions running at the same time need.
+          </p>
+        </div>
+
+        <div className="flex items-center gap-3 pt-2 border-t border-white/10">
+          <input
+            type="number"
+            min={1}
+            max={MAX_CANDIDATES_PER_INVIGILATOR}
+            className="w-32 px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-white"
+            value={candidatesPerInvigilator}
+            onChange={(e) => setCandidatesPerInvigilator(e.target.value)}
+            disabled={!canEdit}
+          />
+          <span className="text-sm text-gray-400">candidates per invigilator</span>
+          {canEdit && (
+            <button
+              onClick={saveRatio}
+              className="golden-button flex items-center space-x-2"
+            >
+              <Save className="h-4 w-4" />
+              <span>Save</span>
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,328 @@
+import { useState, useEffect } from 'react'
+import { Plus, Trash2, LayoutGrid, Monitor } from 'lucide-react'
+import { supabase } from '../lib/supabase'
+import { useAuth } from '../contexts/AuthContext'
+import { CENTRE_CODE } from '../utils/confirmationNumbers'
+import { ROOM_EQUIPMENT, TestingRoom, Workstation, buildSeatGrid, formatEquipment, generateWorkstations, isAutoAssignable } from '../utils/seatAllocation'
+
+const getSeatClass = (workstation: Workstation) => {
+  if (workstation.status === 'out_of_service') return 'bg-gray-700/60 text-gray-500 border-gray-600 line-through'
+  if (workstation.is_accommodation) return 'bg-yellow-400/20 text-yellow-300 border-yellow-400 border-dashed'
+  return 'bg-white/10 text-white border-white/20'
+}
+
+export function TestingRooms() {
+  const { profile } = useAuth()
+  const [rooms, setRooms] = useState<TestingRoom[]>([])
+  const [selectedRoomId, setSelectedRoomId] = useState<string | null>(null)
+  const [workstations, setWorkstations] = useState<Workstation[]>([])
+  const [newRoom, setNewRoom] = useState({ name: '', rows: 5, cols: 8 })
+  const [loading, setLoading] = useState(true)
+  const [message, setMessage] = useState('')
+
+  const canEdit = profile?.role === 'admin' || profile?.role === 'super_admin'
+  const selectedRoom = rooms.find(room => room.id === selectedRoomId) || null
+
+  useEffect(() => {
+    loadRooms()
+  }, [])
+
+  useEffect(() => {
+    if (selectedRoomId) {
+      loadWorkstations(selectedRoomId)
+    } else {
+      setWorkstations([])
+    }
+  }, [selectedRoomId])
+
+  const showMessage = (text: string) => {
+    setMessage(text)
+    setTimeout(() => setMessage(''), 3000)
+  }
+
+  const loadRooms = async () => {
+    try {
+      setLoading(true)
+      const { data, error } = await supabase
+        .from('testing_rooms')
+        .select('id, name, grid_rows, grid_cols, seat_count, equipment')
+        .eq('centre_code', CENTRE_CODE)
+        .order('name')
+
+      if (error) throw error
+      setRooms(data || [])
+      if (!selectedRoomId && data && data.length > 0) {
+        setSelectedRoomId(data[0].id)
+      }
+    } catch (error) {
+      console.error('Error loading testing rooms:', error)
+      showMessage('Error loading testing rooms')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const loadWorkstations = async (roomId: string) => {
+    const { data, error } = await supabase
+      .from('workstations')
+      .select('*')
+      .eq('room_id', roomId)
+      .order('seat_number')
+
+    if (error) {
+      console.error('Error loading workstations:', error)
+      showMessage('Error loading seat map')
+      return
+    }
+    setWorkstations(data || [])
+  }
+
+  const createRoom = async () => {
+    const name = newRoom.name.trim()
+    if (!name || newRoom.rows < 1 || newRoom.cols < 1 || newRoom.rows > 30 || newRoom.cols > 30) {
+      showMessage('Error: enter a room name and 1-30 rows and columns')
+      return
+    }
+
+    try {
+      const { data: room, error } = await supabase
+        .from('testing_rooms')
+        .insert({ name, centre_code: CENTRE_CODE, grid_rows: newRoom.rows, grid_cols: newRoom.cols })
+        .select('id, name, grid_rows, grid_cols, seat_count, equipment')
+        .single()
+
+      if (error) throw error
+
+      const { error: seatsError } = await supabase
+        .from('workstations')
+        .insert(generateWorkstations(room.id, room.grid_rows, room.grid_cols))
+
+      if (seatsError) throw seatsError
+
+      setNewRoom({ name: '', rows: 5, cols: 8 })
+      setSelectedRoomId(room.id)
+      showMessage('Room created')
+      await loadRooms()
+    } catch (error: any) {
+      console.error('Error creating testing room:', error)
+      showMessage('Error creating room: ' + error.message)
+    }
+  }
+
+  const deleteRoom = async (room: TestingRoom) => {
+    if (!window.confirm(`Delete ${room.name} and its seat map? Sessions in this room will no longer allocate seats.`)) return
+
+    try {
+      const { error } = await supabase
+        .from('testing_rooms')
+        .delete()
+        .eq('id', room.id)
+
+      if (error) throw error
+      setSelectedRoomId(null)
+      await loadRooms()
+    } catch (error: any) {
+      console.error('Error deleting testing room:', error)
+      showMessage('Error deleting room: ' + error.message)
+    }
+  }
+
+  // Standard → accommodation → out of service → standard
+  const cycleSeat = async (workstation: Workstation) => {
+    const next = workstation.status === 'out_of_service'
+      ? { status: 'active', is_accommodation: false }
+      : workstation.is_accommodation
+        ? { status: 'out_of_service', is_accommodation: false }
+        : { status: 'active', is_accommodation: true }
+
+    const { error } = await supabase
+      .from('workstations')
+      .update(next)
+      .eq('id', workstation.id)
+
+    if (error) {
+      console.error('Error updating workstation:', error)
+      showMessage('Error updating seat: ' + error.message)
+      return
+    }
+    const updated = workstations.map(w => w.id === workstation.id ? { ...w, ...next } as Workstation : w)
+    setWorkstations(updated)
+    // The database recounts the room's seats; mirror it so capacity shown here stays current
+    setRooms(current => current.map(room => room.id === workstation.room_id
+      ? { ...room, seat_count: updated.filter(isAutoAssignable).length }
+      : room))
+  }
+
+  const toggleEquipment = async (room: TestingRoom, value: string) => {
+    const equipment = room.equipment.includes(value)
+      ? room.equipment.filter(item => item !== value)
+      : [...room.equipment, value]
+
+    const { error } = await supabase
+      .from('testing_rooms')
+      .update({ equipment })
+      .eq('id', room.id)
+
+    if (error) {
+      console.error('Error updating room equipment:', error)
+      showMessage('Error updating equipment: ' + error.message)
+      return
+    }
+    setRooms(current => current.map(r => r.id === room.id ? { ...r, equipment } : r))
+  }
+
+  const activeCount = workstations.filter(w => w.status === 'active').length
+  const accommodationCount = workstations.filter(w => w.status === 'active' && w.is_accommodation).length
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-white">Testing Rooms</h2>
+        {message && (
+          <span className={`text-sm ${message.includes('Error') ? 'text-red-400' : 'text-green-400'}`}>{message}</span>
+        )}
+      </div>
+
+      <div className="p-4 rounded-lg bg-white/5 space-y-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white flex items-center">
+            <LayoutGrid className="h-5 w-5 mr-2 text-yellow-400" />
+            Seat Maps
+          </h3>
+          <p className="text-sm text-gray-400 mt-1">
+            A room holds as many candidates as it has standard seats in service, shared by every session booked into it at the same time.
+            Checked-in candidates are given the lowest numbered free standard seat in their session's room.
+            Click a seat to mark it as an accommodation seat (kept free for approved accommodations, so not counted in the room's capacity) or out of service.
+          </p>
+        </div>
+
+        {loading ? (
+          <p className="text-gray-400 text-sm">Loading...</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {rooms.map(room => (
+              <button
+                key={room.id}
+                onClick={() => setSelectedRoomId(room.id)}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                  room.id === selectedRoomId ? 'bg-yellow-400 text-black' : 'bg-white/10 text-white hover:bg-white/20'
+                }`}
+              >
+                {room.name} · {room.seat_count} seats
+              </button>
+            ))}
+            {rooms.length === 0 && (
+              <p className="text-gray-400 text-sm">No testing rooms configured yet.</p>
+            )}
+          </div>
+        )}
+
+        {selectedRoom && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between text-sm text-gray-400">
+              <span>
+                {activeCount} seats in service · {accommodationCount} accommodation · {workstations.length - activeCount} out of service
+              </span>
+              {canEdit && (
+                <button
+                  onClick={() => deleteRoom(selectedRoom)}
+                  className="p-2 text-red-400 hover:text-red-300"
+                  title="Delete room"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold text-white flex items-center">
+                <Monitor className="h-4 w-4 mr-2 text-yellow-400" />
+                Equipment
+              </h4>
+              <div className="flex flex-wrap gap-2">
+                {canEdit ? ROOM_EQUIPMENT.map(option => (
+                  <button
+                    key={option.value}
+                    onClick={() => toggleEquipment(selectedRoom, option.value)}
+                    className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+                      selectedRoom.equipment.includes(option.value) ? 'bg-yellow-400 text-black' : 'bg-white/10 text-gray-300 hover:bg-white/20'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                )) : selectedRoom.equipment.map(value => (
+                  <span key={value} className="px-3 py-1 rounded-full text-xs bg-white/10 text-gray-300">{formatEquipment(value)}</span>
+                ))}
+                {!canEdit && selectedRoom.equipment.length === 0 && (
+                  <span className="text-xs text-gray-500">No equipment recorded</span>
+                )}
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 text-center">Front of room</p>
+            <div className="overflow-x-auto">
+              <div
+                className="grid gap-2 mx-auto w-max"
+                style={{ gridTemplateColumns: `repeat(${selectedRoom.grid_cols}, 3rem)` }}
+              >
+                {buildSeatGrid(selectedRoom, workstations).flat().map((workstation, index) => workstation ? (
+                  <button
+                    key={workstation.id}
+                    onClick={() => canEdit && cycleSeat(workstation)}
+                    disabled={!canEdit}
+                    className={`h-12 rounded-lg border text-sm font-semibold transition-colors ${getSeatClass(workstation)}`}
+                    title={workstation.status === 'out_of_service' ? 'Out of service' : workstation.is_accommodation ? 'Accommodation seat' : 'Standard seat'}
+                  >
+                    {workstation.seat_number}
+                  </button>
+                ) : (
+                  <div key={`empty-${index}`} className="h-12" />
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {canEdit && (
+          <div className="flex flex-wrap items-center gap-3 pt-2 border-t border-white/10">
+            <input
+              type="text"
+              placeholder="Room name, e.g. Lab 1"
+              className="flex-1 px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-white placeholder-gray-500"
+              value={newRoom.name}
+              onChange={(e) => setNewRoom({ ...newRoom, name: e.target.value })}
+            />
+            <label className="text-sm text-gray-400 flex items-center gap-2">
+              Rows
+              <input
+                type="number"
+                min={1}
+                max={30}
+                className="w-20 px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-white"
+                value={newRoom.rows}
+                onChange={(e) => setNewRoom({ ...newRoom, rows: parseInt(e.target.value) || 1 })}
+              />
+            </label>
+            <label className="text-sm text-gray-400 flex items-center gap-2">
+              Columns
+              <input
+                type="number"
+                min={1}
+                max={30}
+                className="w-20 px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-white"
+                value={newRoom.cols}
+                onChange={(e) => setNewRoom({ ...newRoom, cols: parseInt(e.target.value) || 1 })}
+              />
+            </label>
+            <button
+              onClick={createRoom}
+              className="golden-button flex items-center space-x-2"
+              disabled={!newRoom.name.trim()}
+            >
+              <Plus className="h-4 w-4" />
+              <span>Add Room</span>
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,231 @@
+import { supabase } from './supabase'
+import { applyStatusChange } from './candidateCheckIn'
+import type { Candidate } from '../components/CandidateTracker'
+import { CandidateStatus, formatCandidateStatus, getTransition, validateStatusTransition } from '../utils/candidateStatus'
+import { AttendancePolicy, checkArrival, formatPolicyTime, getAttendancePolicy } from '../utils/attendancePolicy'
+
+// Bulk actions apply the single-candidate rules to each selected candidate and keep going past failures
+
+// How long the last bulk action can be undone
+export const BULK_UNDO_WINDOW_MS = 60 * 1000
+
+export interface BulkFailure {
+  candidate: Candidate
+  error: string
+}
+
+// What changed for one candidate, so the change can be reversed
+export interface BulkUndoStep {
+  candidate: Candidate
+  fromStatus: CandidateStatus
+  toStatus: CandidateStatus
+  fromSessionId?: number
+  toSessionId?: number
+}
+
+export interface BulkActionResult {
+  label: string
+  total: number
+  succeeded: BulkUndoStep[]
+  failed: BulkFailure[]
+  completedAt: Date
+}
+
+interface BulkStatusOptions {
+  reason?: string
+  policies: AttendancePolicy[]
+  // Supervisor reason for admitting candidates past the check-in cut-off
+  lateOverrideReason?: string
+}
+
+/**
+ * Find the selected candidates that are past their check-in cut-off
+ * @param candidates - Selected candidates
+ * @param policies - Client attendance policies
+ * @returns Candidates that need a supervisor override to check in
+ */
+export const findClosedCheckIns = (candidates: Candidate[], policies: AttendancePolicy[]): Candidate[] => {
+  return candidates.filter(candidate =>
+    (candidate.status === 'registered' || candidate.status === 'no_show') &&
+    checkArrival(candidate.examDate, getAttendancePolicy(policies, candidate.clientName)).state === 'closed'
+  )
+}
+
+/**
+ * Move each candidate to a new status, validating every change on its own
+ * @param candidates - Selected candidates
+ * @param newStatus - Status to move to
+ * @param options - Who is making the change, the reason and override details
+ * @returns Which candidates changed and which failed, with the error for each
+ */
+export const runBulkStatusChange = async (
+  candidates: Candidate[],
+  newStatus: CandidateStatus,
+  options: BulkStatusOptions
+): Promise<BulkActionResult> => {
+  const result: BulkActionResult = {
+    label: formatCandidateStatus(newStatus),
+    total: candidates.length,
+    succeeded: [],
+    failed: [],
+    completedAt: new Date()
+  }
+
+  for (const candidate of candidates) {
+    let reason = options.reason
+    const extraUpdates: Record<string, any> = {}
+
+    if (newStatus === 'checked_in' && (candidate.status === 'registered' || candidate.status === 'no_show')) {
+      const arrival = checkArrival(candidate.examDate, getAttendancePolicy(options.policies, candidate.clientName))
+      if (arrival.state === 'closed') {
+        if (!options.lateOverrideReason) {
+          result.failed.push({ candidate, error: `Check-in closed at ${formatPolicyTime(arrival.cutOff!)}` })
+          continue
+        }
+        reason = `Supervisor override: ${options.lateOverrideReason}`
+        extraUpdates.late_override_reason = options.lateOverrideReason
+      }
+    }
+
+    const validationError = validateStatusTransition(candidate.status, newStatus, reason)
+    if (validationError) {
+      result.failed.push({ candidate, error: validationError })
+      continue
+    }
+
+    const change = await applyStatusChange(candidate, newStatus, reason, extraUpdates)
+    if (change.ok) {
+      result.succeeded.push({ candidate, fromStatus: candidate.status, toStatus: newStatus })
+    } else {
+      result.failed.push({ candidate, error: change.conflict ? 'Status was changed by someone else' : change.error || 'Update failed' })
+    }
+  }
+
+  result.completedAt = new Date()
+  return result
+}
+
+/**
+ * Move each candidate to another session
+ * Capacity is checked by the database for every move, so a session that fills up part-way fails the rest
+ * @param candidates - Selected candidates
+ * @param toSessionId - Session to move them to
+ * @param reason - Reason recorded against every reschedule
+ * @returns Which candidates moved and which failed
+ */
+export const runBulkReschedule = async (
+  candidates: Candidate[],
+  toSessionId: number,
+  reason: string
+): Promise<BulkActionResult> => {
+  const result: BulkActionResult = {
+    label: 'Reschedule',
+    total: candidates.length,
+    succeeded: [],
+    failed: [],
+    completedAt: new Date()
+  }
+
+  for (const candidate of candidates) {
+    if (candidate.status !== 'registered' && candidate.status !== 'no_show') {
+      result.failed.push({ candidate, error: `${formatCandidateStatus(candidate.status)} candidates cannot be rescheduled` })
+      continue
+    }
+    if (candidate.sessionId === toSessionId) {
+      result.failed.push({ candidate, error: 'Already booked into this session' })
+      continue
+    }
+
+    const { error } = await supabase.rpc('reschedule_candidate', {
+      p_candidate_id: candidate.id,
+      p_to_session_id: toSessionId,
+      p_reason: reason
+    })
+
+    if (error) {
+      result.failed.push({ candidate, error: error.message })
+    } else {
+      result.succeeded.push({
+        candidate,
+        fromStatus: candidate.status,
+        toStatus: 'registered',
+        fromSessionId: candidate.sessionId,
+        toSessionId
+      })
+    }
+  }
+
+  result.completedAt = new Date()
+  return result
+}
+
+/**
+ * Reverse the changes made by a bulk action
+ * Candidates changed again since the bulk action are left alone and reported as failures
+ * @param action - Result of the bulk action
+ * @returns Which candidates were restored and which could not be
+ */
+export const undoBulkAction = async (action: BulkActionResult): Promise<BulkActionResult> => {
+  const result: BulkActionResult = {
+    label: `Undo ${action.label.toLowerCase()}`,
+    total: action.succeeded.length,
+    succeeded: [],
+    failed: [],
+    completedAt: new Date()
+  }
+  const reason = `Undo bulk action: ${action.label}`
+
+  for (const step of action.succeeded) {
+    const { candidate } = step
+
+    if (step.toSessionId !== undefined) {
+      if (!step.fromSessionId) {
+        result.failed.push({ candidate, error: 'No original session to return to' })
+        continue
+      }
+      const { error } = await supabase.rpc('reschedule_candidate', {
+        p_candidate_id: candidate.id,
+        p_to_session_id: step.fromSessionId,
+        p_reason: reason
+      })
+      if (error) {
+        result.failed.push({ candidate, error: error.message })
+        continue
+      }
+      if (step.fromStatus === 'no_show') {
+        const change = await applyStatusChange({ id: candidate.id, status: 'registered' }, 'no_show', reason)
+        if (!change.ok) {
+          result.failed.push({ candidate, error: 'Moved back, but the no-show status could not be restored' })
+          continue
+        }
+      }
+      result.succeeded.push({ ...step, fromStatus: step.toStatus, toStatus: step.fromStatus })
+      continue
+    }
+
+    // The status guard in applyStatusChange skips candidates someone has changed since
+    const extraUpdates: Record<string, any> = {}
+    if (step.toStatus === 'checked_in') {
+      Object.assign(extraUpdates, { check_in_time: null, late_minutes: null, late_override_reason: null })
+    }
+    const change = await applyStatusChange({ id: candidate.id, status: step.toStatus }, step.fromStatus, reason, extraUpdates)
+    if (change.ok) {
+      result.succeeded.push({ ...step, fromStatus: step.toStatus, toStatus: step.fromStatus })
+    } else {
+      result.failed.push({ candidate, error: change.conflict ? 'Status was changed again since the bulk action' : change.error || 'Update failed' })
+    }
+  }
+
+  result.completedAt = new Date()
+  return result
+}
+
+/**
+ * Check whether any selected candidate needs a reason for the requested status change
+ * @param candidates - Selected candidates
+ * @param newStatus - Status to move to
+ * @returns True when at least one change is a correction that must be explained
+ */
+export const bulkChangeNeedsReason = (candidates: Candidate[], newStatus: CandidateStatus): boolean => {
+  return candidates.some(candidate => getTransition(candidate.status, newStatus)?.isRevert)
+}
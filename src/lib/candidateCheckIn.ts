@@ -0,0 +1,101 @@
+import { supabase } from './supabase'
+import { CandidateStatus } from '../utils/candidateStatus'
+import { validateConfirmationNumber } from '../utils/confirmationNumbers'
+import { isToday } from '../utils/dateUtils'
+
+// Shared by the staff check-in desk and the self-service kiosk
+
+export interface CheckInLookupResult {
+  candidate?: any
+  confirmationNumber: string
+  error?: string
+  // An old number shared by more than one candidate who cannot be told apart
+  ambiguous?: boolean
+}
+
+export interface StatusChangeResult {
+  ok: boolean
+  // Someone else changed the status first
+  conflict?: boolean
+  error?: string
+}
+
+/**
+ * Find a candidate by a typed or scanned confirmation number
+ * Old EXAM{year}-{nnn} numbers can repeat; a repeated one resolves to the candidate sitting today, if only one is
+ * @param input - Raw confirmation number
+ * @param columns - Columns to select, including exam_date
+ * @returns The candidate row, or an error message for the user
+ */
+export const findCandidateByConfirmationNumber = async (input: string, columns = '*'): Promise<CheckInLookupResult> => {
+  const validation = validateConfirmationNumber(input)
+  if (!validation.isValid) {
+    return { confirmationNumber: validation.value, error: validation.error }
+  }
+
+  const { data, error } = await supabase
+    .from('candidates')
+    .select(columns)
+    .eq(validation.isLegacy ? 'legacy_confirmation_number' : 'confirmation_number', validation.value)
+
+  if (error) throw error
+  const rows: any[] = data || []
+  if (rows.length === 0) {
+    return { confirmationNumber: validation.value, error: `No candidate found for ${validation.value}` }
+  }
+  if (rows.length === 1) {
+    return { candidate: rows[0], confirmationNumber: validation.value }
+  }
+
+  const today = rows.filter(row => row.exam_date && isToday(new Date(row.exam_date)))
+  if (today.length === 1) {
+    return { candidate: today[0], confirmationNumber: validation.value }
+  }
+  return {
+    confirmationNumber: validation.value,
+    error: `${validation.value} belongs to ${rows.length} candidates; find the candidate by name instead`,
+    ambiguous: true
+  }
+}
+
+/**
+ * Save a status change
+ * The database checks the transition and records it in the candidate's status history in the same update,
+ * so the change is never saved without its history row
+ * @param candidate - Candidate id and the status it is expected to have
+ * @param newStatus - Status to move to
+ * @param reason - Reason for the change
+ * @param extraUpdates - Additional candidate columns to update
+ * @returns Whether the change was saved
+ */
+export const applyStatusChange = async (
+  candidate: { id: string; status: CandidateStatus },
+  newStatus: CandidateStatus,
+  reason?: string,
+  extraUpdates: Record<string, any> = {}
+): Promise<StatusChangeResult> => {
+  const updateData: Record<string, any> = { ...extraUpdates, status: newStatus, status_reason: reason?.trim() || null }
+  if (newStatus === 'checked_in' && (candidate.status === 'registered' || candidate.status === 'no_show')) {
+    updateData.check_in_time = new Date().toISOString()
+  } else if (newStatus === 'registered' && candidate.status === 'checked_in') {
+    updateData.check_in_time = null
+  }
+
+  // Only update if nobody else changed the status in the meantime
+  const { data: updated, error } = await supabase
+    .from('candidates')
+    .update(updateData)
+    .eq('id', candidate.id)
+    .eq('status', candidate.status)
+    .select('id')
+
+  if (error) {
+    console.error('Error updating status:', error)
+    return { ok: false, error: error.message }
+  }
+  if (!updated || updated.length === 0) {
+    return { ok: false, conflict: true }
+  }
+
+  return { ok: true }
+}
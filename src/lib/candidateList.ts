@@ -0,0 +1,244 @@
+import { supabase } from './supabase'
+import type { Candidate } from '../components/CandidateTracker'
+import { formatAccommodation } from '../utils/accommodations'
+import { normalizePhone } from '../utils/candidateValidation'
+import { formatDateForIST, getCurrentISTDateString } from '../utils/dateUtils'
+import {
+  CANDIDATE_PAGE_SIZE,
+  CandidateListFilters,
+  buildCandidateSearchFilter,
+  getISTDayRange
+} from '../utils/candidateListFilters'
+
+// Candidate queries run on the server so the list stays fast however many candidates are on record
+
+export interface CandidatePage {
+  candidates: Candidate[]
+  total: number
+}
+
+export interface CandidateOverview {
+  total: number
+  today: number
+  checkedIn: number
+  inProgress: number
+  completed: number
+  noShowsToday: number
+  lateToday: number
+  overridesToday: number
+}
+
+/**
+ * Convert a candidates row into the shape the UI works with
+ * @param row - Row from the candidates table
+ * @param accommodations - Approved accommodations, formatted for display
+ * @returns Candidate
+ */
+export const toCandidate = (row: any, accommodations?: string[]): Candidate => ({
+  id: row.id,
+  fullName: row.full_name,
+  email: row.email,
+  phone: row.phone,
+  examDate: row.exam_date ? new Date(row.exam_date) : undefined,
+  examName: row.exam_name || 'Exam Session',
+  clientName: row.client_name || undefined,
+  sessionId: row.session_id || undefined,
+  status: row.status,
+  confirmationNumber: row.confirmation_number || '',
+  checkInTime: row.check_in_time ? new Date(row.check_in_time) : undefined,
+  lateMinutes: row.late_minutes || undefined,
+  lateOverrideReason: row.late_override_reason || undefined,
+  accommodations,
+  notes: row.notes,
+  createdAt: new Date(row.created_at)
+})
+
+/**
+ * Load approved accommodations for a set of candidates
+ * @param candidateIds - Candidate ids
+ * @returns Formatted accommodations keyed by candidate id
+ */
+export const fetchApprovedAccommodations = async (candidateIds: string[]): Promise<Map<string, string[]>> => {
+  const byCandidate = new Map<string, string[]>()
+  if (candidateIds.length === 0) return byCandidate
+
+  const { data, error } = await supabase
+    .from('candidate_accommodations')
+    .select('candidate_id, type, extra_time_minutes, details')
+    .eq('status', 'approved')
+    .in('candidate_id', candidateIds)
+
+  if (error) throw error
+  for (const accommodation of data || []) {
+    const labels = byCandidate.get(accommodation.candidate_id) || []
+    labels.push(formatAccommodation(accommodation))
+    byCandidate.set(accommodation.candidate_id, labels)
+  }
+  return byCandidate
+}
+
+/**
+ * Load one page of the candidate list
+ * @param filters - Search, filters, sort order and page
+ * @returns The page of candidates and the total number of matches
+ */
+export const fetchCandidatePage = async (filters: CandidateListFilters): Promise<CandidatePage> => {
+  const from = (filters.page - 1) * CANDIDATE_PAGE_SIZE
+  let query = supabase
+    .from('candidates')
+    .select('*', { count: 'exact' })
+
+  const search = buildCandidateSearchFilter(filters.search)
+  if (search) query = query.or(search)
+  if (filters.status !== 'all') query = query.eq('status', filters.status)
+  if (filters.client) query = query.eq('client_name', filters.client)
+  if (filters.date) {
+    const { start, end } = getISTDayRange(filters.date)
+    query = query.gte('exam_date', start).lt('exam_date', end)
+  }
+
+  // The id tie-breaker keeps rows from shifting between pages when sort values are equal
+  const { data, count, error } = await query
+    .order(filters.sort, { ascending: filters.direction === 'asc', nullsFirst: false })
+    .order('id', { ascending: true })
+    .range(from, from + CANDIDATE_PAGE_SIZE - 1)
+
+  if (error) throw error
+  const rows = data || []
+  const accommodations = await fetchApprovedAccommodations(rows.map(row => row.id))
+  return {
+    candidates: rows.map(row => toCandidate(row, accommodations.get(row.id))),
+    total: count || 0
+  }
+}
+
+/**
+ * Load the counts shown in the candidate overview cards
+ * @returns Candidate counts
+ */
+export const fetchCandidateOverview = async (): Promise<CandidateOverview> => {
+  const { start, end } = getISTDayRange(getCurrentISTDateString())
+  const countStatus = (status?: string) => {
+    const query = supabase.from('candidates').select('id', { count: 'exact', head: true })
+    return status ? query.eq('status', status) : query
+  }
+
+  const [total, checkedIn, inProgress, completed, today] = await Promise.all([
+    countStatus(),
+    countStatus('checked_in'),
+    countStatus('in_progress'),
+    countStatus('completed'),
+    supabase
+      .from('candidates')
+      .select('status, late_minutes, late_override_reason')
+      .gte('exam_date', start)
+      .lt('exam_date', end)
+  ])
+
+  const error = total.error || checkedIn.error || inProgress.error || completed.error || today.error
+  if (error) throw error
+
+  const todayRows = today.data || []
+  return {
+    total: total.count || 0,
+    today: todayRows.length,
+    checkedIn: checkedIn.count || 0,
+    inProgress: inProgress.count || 0,
+    completed: completed.count || 0,
+    noShowsToday: todayRows.filter(row => row.status === 'no_show').length,
+    lateToday: todayRows.filter(row => row.late_minutes).length,
+    overridesToday: todayRows.filter(row => row.late_override_reason).length
+  }
+}
+
+/**
+ * Load candidates whose exam falls between two IST dates
+ * @param fromDate - First exam date, YYYY-MM-DD
+ * @param toDate - Last exam date, YYYY-MM-DD
+ * @param clientName - Only load this client's candidates
+ * @returns Candidates ordered by exam date, excluding cancelled bookings
+ */
+export const fetchCandidatesByExamDate = async (fromDate: string, toDate: string, clientName?: string): Promise<Candidate[]> => {
+  let query = supabase
+    .from('candidates')
+    .select('*')
+    .neq('status', 'cancelled')
+    .gte('exam_date', getISTDayRange(fromDate).start)
+    .lt('exam_date', getISTDayRange(toDate).end)
+
+  if (clientName) query = query.eq('client_name', clientName)
+
+  const { data, error } = await query
+    .order('exam_date', { ascending: true })
+    .order('full_name', { ascending: true })
+
+  if (error) throw error
+  return (data || []).map(row => toCandidate(row))
+}
+
+/**
+ * Load the candidates booked into one session
+ * @param sessionId - Session id
+ * @returns Candidates ordered by name, excluding cancelled bookings
+ */
+export const fetchCandidatesBySession = async (sessionId: number): Promise<Candidate[]> => {
+  const { data, error } = await supabase
+    .from('candidates')
+    .select('*')
+    .neq('status', 'cancelled')
+    .eq('session_id', sessionId)
+    .order('full_name', { ascending: true })
+
+  if (error) throw error
+  return (data || []).map(row => toCandidate(row))
+}
+
+/**
+ * Load candidates to scan for duplicate records
+ * Only upcoming bookings are scanned; past exams have already been run
+ * @returns Candidates with an exam today or later, excluding cancelled bookings
+ */
+export const fetchUpcomingCandidates = async (): Promise<Candidate[]> => {
+  const { data, error } = await supabase
+    .from('candidates')
+    .select('*')
+    .neq('status', 'cancelled')
+    .gte('exam_date', getISTDayRange(getCurrentISTDateString()).start)
+
+  if (error) throw error
+  return (data || []).map(row => toCandidate(row))
+}
+
+// Matches the whole value ignoring case: LIKE wildcards are escaped, then the value is quoted so commas and brackets
+// cannot end the .or() filter. PostgREST still reads * as a wildcard; rows it lets through are dropped when matches are scored
+const quoteIlikeValue = (value: string): string =>
+  `"${value.replace(/[\\%_]/g, '\\$&').replace(/["\\]/g, '\\$&')}"`
+
+/**
+ * Load existing candidates that could be the same person as a new registration
+ * Returns everyone sharing the email, phone number or exam date; the caller scores the matches
+ * @param record - Details of the candidate being registered
+ * @returns Possible matches
+ */
+export const fetchDuplicateCandidates = async (record: { email: string; phone?: string; examDate?: Date }): Promise<Candidate[]> => {
+  const conditions: string[] = []
+  const email = record.email.trim()
+  if (email) conditions.push(`email.ilike.${quoteIlikeValue(email)}`)
+  const phone = record.phone ? normalizePhone(record.phone) : null
+  // Phone numbers are stored as typed, so match on the last ten digits
+  if (phone) conditions.push(`phone.ilike.*${phone.slice(-10)}`)
+  if (record.examDate) {
+    const { start, end } = getISTDayRange(formatDateForIST(record.examDate))
+    conditions.push(`and(exam_date.gte.${start},exam_date.lt.${end})`)
+  }
+  if (conditions.length === 0) return []
+
+  const { data, error } = await supabase
+    .from('candidates')
+    .select('*')
+    .neq('status', 'cancelled')
+    .or(conditions.join(','))
+
+  if (error) throw error
+  return (data || []).map(row => toCandidate(row))
+}
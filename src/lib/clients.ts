@@ -0,0 +1,21 @@
+import { supabase } from './supabase'
+import { CLIENT_COLUMNS, Client } from '../utils/clients'
+
+// The client registry is small, so screens load all of it and match names locally
+
+/**
+ * Load every client, active or not, by name
+ * @returns Clients, or an empty list if they cannot be loaded
+ */
+export const fetchClients = async (): Promise<Client[]> => {
+  const { data, error } = await supabase
+    .from('clients')
+    .select(CLIENT_COLUMNS)
+    .order('name')
+
+  if (error) {
+    console.error('Error loading clients:', error)
+    return []
+  }
+  return data || []
+}
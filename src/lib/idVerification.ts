@@ -0,0 +1,61 @@
+import { supabase } from './supabase'
+import { ID_VERIFICATION_PHOTOS_BUCKET, IdType } from '../utils/idVerification'
+
+// Recording ID checks and removing their photos once the retention period has passed
+
+export interface IdCheckDetails {
+  idType: IdType
+  idLast4: string
+  photo?: Blob | null
+}
+
+/**
+ * Save an ID check for a candidate, uploading the webcam photo first when there is one
+ * @param candidateId - Candidate id
+ * @param details - ID type, last four characters and optional photo
+ * @param verifiedBy - Staff user id
+ */
+export const recordIdVerification = async (candidateId: string, details: IdCheckDetails, verifiedBy: string): Promise<void> => {
+  let photoPath: string | null = null
+  if (details.photo) {
+    photoPath = `${candidateId}/${Date.now()}.jpg`
+    const { error: uploadError } = await supabase.storage
+      .from(ID_VERIFICATION_PHOTOS_BUCKET)
+      .upload(photoPath, details.photo, { contentType: 'image/jpeg' })
+
+    if (uploadError) throw uploadError
+  }
+
+  const { error } = await supabase
+    .from('candidate_id_verifications')
+    .insert({
+      candidate_id: candidateId,
+      id_type: details.idType,
+      id_last4: details.idLast4.trim().toUpperCase(),
+      photo_path: photoPath,
+      verified_by: verifiedBy
+    })
+
+  if (error) throw error
+}
+
+/**
+ * Remove ID photos held longer than the centre's retention period
+ * Runs whenever the Candidate Tracker loads; storage can only be cleared from the client
+ * @returns Number of photos removed
+ */
+export const purgeExpiredIdPhotos = async (): Promise<number> => {
+  const { data: paths, error } = await supabase.rpc('expired_id_verification_photos')
+  if (error) throw error
+  if (!paths || paths.length === 0) return 0
+
+  const { error: removeError } = await supabase.storage
+    .from(ID_VERIFICATION_PHOTOS_BUCKET)
+    .remove(paths)
+
+  if (removeError) throw removeError
+
+  const { error: markError } = await supabase.rpc('mark_id_photos_purged', { p_paths: paths })
+  if (markError) throw markError
+  return paths.length
+}
@@ -0,0 +1,235 @@
+import { supabase } from './supabase'
+import { RecurrenceRule, SeriesEditScope, expandRecurrence, splitRecurrence } from '../utils/sessionRecurrence'
+
+// Recurring sessions are stored as a rule plus one ordinary session row per occurrence
+
+export interface SessionSeries extends RecurrenceRule {
+  id: string
+}
+
+// The session details a series copies onto each occurrence
+export interface SessionFields {
+  client_id: string | null
+  client_name: string
+  exam_name: string
+  start_time: string
+  end_time: string
+  room_id: string | null
+  required_staff: number | null
+  required_skills: string[]
+}
+
+// The parts of an occurrence the series changes need
+export interface SeriesOccurrence {
+  id: number
+  series_id: string
+  series_date: string
+  candidate_count: number
+}
+
+const SERIES_COLUMNS =
+  'id, frequency, interval_count, weekdays, month_week, month_weekday, start_date, until_date, occurrence_count, exception_dates'
+
+// Only the fields used by the rule's frequency are kept
+const toSeriesRow = (rule: RecurrenceRule) => ({
+  frequency: rule.frequency,
+  interval_count: rule.interval_count,
+  weekdays: rule.frequency === 'weekly' ? rule.weekdays : [],
+  month_week: rule.frequency === 'monthly' ? rule.month_week : null,
+  month_weekday: rule.frequency === 'monthly' ? rule.month_weekday : null,
+  start_date: rule.start_date,
+  until_date: rule.until_date,
+  occurrence_count: rule.occurrence_count,
+  exception_dates: rule.exception_dates,
+  updated_at: new Date().toISOString()
+})
+
+/**
+ * Load series rules
+ * @param seriesIds - Series ids
+ * @returns Series keyed by id
+ */
+export const fetchSessionSeries = async (seriesIds: string[]): Promise<Map<string, SessionSeries>> => {
+  const byId = new Map<string, SessionSeries>()
+  if (seriesIds.length === 0) return byId
+
+  const { data, error } = await supabase
+    .from('session_series')
+    .select(SERIES_COLUMNS)
+    .in('id', seriesIds)
+
+  if (error) throw error
+  for (const series of data || []) {
+    byId.set(series.id, series)
+  }
+  return byId
+}
+
+const fetchOccurrences = async (seriesId: string): Promise<SeriesOccurrence[]> => {
+  const { data, error } = await supabase
+    .from('sessions')
+    .select('id, series_id, series_date, candidate_count')
+    .eq('series_id', seriesId)
+    .order('series_date', { ascending: true })
+
+  if (error) throw error
+  return data || []
+}
+
+// Occurrences with bookings are never deleted to fit a new rule; the caller has to move the candidates first
+const assertRemovable = (occurrences: SeriesOccurrence[]) => {
+  const booked = occurrences.filter(occurrence => occurrence.candidate_count > 0)
+  if (booked.length > 0) {
+    throw new Error(`Move or cancel the candidates booked on ${booked.map(o => o.series_date).join(', ')} first`)
+  }
+}
+
+const deleteOccurrences = async (sessionIds: number[]) => {
+  if (sessionIds.length === 0) return
+
+  // Cancelled bookings do not hold the session open
+  const { error: unlinkError } = await supabase
+    .from('candidates')
+    .update({ session_id: null })
+    .in('session_id', sessionIds)
+    .eq('status', 'cancelled')
+
+  if (unlinkError) throw unlinkError
+
+  const { error } = await supabase
+    .from('sessions')
+    .delete()
+    .in('id', sessionIds)
+
+  if (error) throw error
+}
+
+const insertOccurrences = async (seriesId: string, dates: string[], fields: SessionFields, userId: string) => {
+  if (dates.length === 0) return
+  const now = new Date().toISOString()
+  const { error } = await supabase
+    .from('sessions')
+    .insert(dates.map(date => ({
+      ...fields,
+      date,
+      series_id: seriesId,
+      series_date: date,
+      user_id: userId,
+      created_at: now,
+      updated_at: now
+    })))
+
+  if (error) throw error
+}
+
+/**
+ * Create a series and a session for each of its dates
+ * @param rule - Validated recurrence rule
+ * @param fields - Session details
+ * @param userId - User creating the series
+ * @returns Number of sessions created
+ */
+export const createSessionSeries = async (rule: RecurrenceRule, fields: SessionFields, userId: string): Promise<number> => {
+  const { data, error } = await supabase
+    .from('session_series')
+    .insert([{ ...toSeriesRow(rule), created_by: userId }])
+    .select('id')
+    .single()
+
+  if (error) throw error
+
+  const dates = expandRecurrence(rule)
+  try {
+    await insertOccurrences(data.id, dates, fields, userId)
+  } catch (insertError) {
+    await supabase.from('session_series').delete().eq('id', data.id)
+    throw insertError
+  }
+  return dates.length
+}
+
+/**
+ * Apply a rule and session details to this and following occurrences, or to the whole series
+ * Occurrences the new rule no longer generates are deleted and new dates get a session;
+ * occurrences that were moved to another date keep their date. The database makes the whole change
+ * in one transaction, so the series and its sessions never disagree
+ * @param occurrence - Occurrence being edited
+ * @param scope - Which occurrences to change
+ * @param rule - Validated rule for the whole series
+ * @param fields - Session details
+ */
+export const updateSessionSeries = async (
+  occurrence: SeriesOccurrence,
+  scope: Exclude<SeriesEditScope, 'this'>,
+  rule: RecurrenceRule,
+  fields: SessionFields
+): Promise<void> => {
+  const current = (await fetchSessionSeries([occurrence.series_id])).get(occurrence.series_id)
+  if (!current) throw new Error('This session series no longer exists')
+
+  const existing = await fetchOccurrences(occurrence.series_id)
+  // Changing this and following from the first occurrence changes the whole series
+  const splitting = scope === 'following' && existing.some(o => o.series_date < occurrence.series_date)
+  const target = splitting ? splitRecurrence(rule, occurrence.series_date).after : rule
+  if (target.occurrence_count !== null && target.occurrence_count < 1) {
+    throw new Error('The number of sessions leaves none from this occurrence onwards')
+  }
+
+  const { error } = await supabase.rpc('update_session_series', {
+    p_series_id: occurrence.series_id,
+    p_split_from: splitting ? occurrence.series_date : null,
+    p_before: splitting ? toSeriesRow(splitRecurrence(current, occurrence.series_date).before) : null,
+    p_target: toSeriesRow(target),
+    p_dates: expandRecurrence(target),
+    p_fields: fields
+  })
+
+  if (error) throw new Error(error.message)
+}
+
+/**
+ * Delete this occurrence, this and following occurrences, or the whole series
+ * A single deleted occurrence is recorded as an exception so later rule changes do not bring it back
+ * @param occurrence - Occurrence being deleted
+ * @param scope - Which occurrences to delete
+ * @returns Number of sessions deleted
+ */
+export const deleteSessionSeries = async (occurrence: SeriesOccurrence, scope: SeriesEditScope): Promise<number> => {
+  const current = (await fetchSessionSeries([occurrence.series_id])).get(occurrence.series_id)
+  if (!current) throw new Error('This session series no longer exists')
+
+  if (scope === 'this') {
+    assertRemovable([occurrence])
+    await deleteOccurrences([occurrence.id])
+    const { error } = await supabase
+      .from('session_series')
+      .update(toSeriesRow({ ...current, exception_dates: [...current.exception_dates, occurrence.series_date] }))
+      .eq('id', occurrence.series_id)
+
+    if (error) throw error
+    return 1
+  }
+
+  const existing = await fetchOccurrences(occurrence.series_id)
+  const splitting = scope === 'following' && existing.some(o => o.series_date < occurrence.series_date)
+  const inScope = splitting ? existing.filter(o => o.series_date >= occurrence.series_date) : existing
+  assertRemovable(inScope)
+  await deleteOccurrences(inScope.map(o => o.id))
+
+  if (splitting) {
+    const { error } = await supabase
+      .from('session_series')
+      .update(toSeriesRow(splitRecurrence(current, occurrence.series_date).before))
+      .eq('id', occurrence.series_id)
+
+    if (error) throw error
+  } else {
+    const { error } = await supabase
+      .from('session_series')
+      .delete()
+      .eq('id', occurrence.series_id)
+
+    if (error) throw error
+  }
+  return inScope.length
+}
@@ -0,0 +1,21 @@
+import { supabase } from './supabase'
+import { SESSION_TEMPLATE_COLUMNS, SessionTemplate } from '../utils/sessionTemplates'
+
+// Templates are shared by every coordinator at the centre
+
+/**
+ * Load every session template by name
+ * @returns Templates, or an empty list if they cannot be loaded
+ */
+export const fetchSessionTemplates = async (): Promise<SessionTemplate[]> => {
+  const { data, error } = await supabase
+    .from('session_templates')
+    .select(SESSION_TEMPLATE_COLUMNS)
+    .order('name')
+
+  if (error) {
+    console.error('Error loading session templates:', error)
+    return []
+  }
+  return data || []
+}
@@ -0,0 +1,23 @@
+import { supabase } from './supabase'
+import { CENTRE_CODE } from '../utils/confirmationNumbers'
+import { DEFAULT_CANDIDATES_PER_INVIGILATOR } from '../utils/staffCoverage'
+
+// The staffing ratio is set per centre; until it is, the default applies
+
+/**
+ * Load the centre's staffing ratio
+ * @returns Candidates one invigilator can supervise
+ */
+export const fetchCandidatesPerInvigilator = async (): Promise<number> => {
+  const { data, error } = await supabase
+    .from('staffing_settings')
+    .select('candidates_per_invigilator')
+    .eq('centre_code', CENTRE_CODE)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error loading staffing settings:', error)
+    return DEFAULT_CANDIDATES_PER_INVIGILATOR
+  }
+  return data?.candidates_per_invigilator || DEFAULT_CANDIDATES_PER_INVIGILATOR
+}
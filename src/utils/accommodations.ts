@@ -0,0 +1,102 @@
+// Candidate accommodation requests: extra time, separate room, assistive equipment
+
+export type AccommodationType = 'extra_time' | 'separate_room' | 'assistive_equipment' | 'other'
+export type AccommodationStatus = 'pending' | 'approved' | 'rejected'
+
+export interface Accommodation {
+  id: string
+  candidate_id: string
+  type: AccommodationType
+  details?: string | null
+  extra_time_minutes?: number | null
+  documentation_path?: string | null
+  documentation_name?: string | null
+  status: AccommodationStatus
+  requested_at: string
+  reviewed_at?: string | null
+  review_notes?: string | null
+}
+
+export const ACCOMMODATION_TYPES: { value: AccommodationType; label: string }[] = [
+  { value: 'extra_time', label: 'Extra Time' },
+  { value: 'separate_room', label: 'Separate Room' },
+  { value: 'assistive_equipment', label: 'Assistive Equipment' },
+  { value: 'other', label: 'Other' }
+]
+
+export const ACCOMMODATION_DOCUMENTS_BUCKET = 'accommodation-documents'
+
+// Supporting documents are letters and scans, not arbitrary uploads
+const MAX_DOCUMENT_SIZE = 10 * 1024 * 1024
+const DOCUMENT_EXTENSIONS = ['pdf', 'jpg', 'jpeg', 'png']
+
+/**
+ * Short description of an accommodation for badges and check-in
+ * @param accommodation - Accommodation type, minutes and details
+ * @returns Label such as "Extra Time +30 min"
+ */
+export const formatAccommodation = (
+  accommodation: Pick<Accommodation, 'type' | 'extra_time_minutes' | 'details'>
+): string => {
+  const label = ACCOMMODATION_TYPES.find(t => t.value === accommodation.type)?.label || accommodation.type
+  if (accommodation.type === 'extra_time' && accommodation.extra_time_minutes) {
+    return `${label} +${accommodation.extra_time_minutes} min`
+  }
+  if (accommodation.details && (accommodation.type === 'assistive_equipment' || accommodation.type === 'other')) {
+    return `${label}: ${accommodation.details}`
+  }
+  return label
+}
+
+/**
+ * Total approved extra time for a candidate
+ * @param accommodations - The candidate's accommodations
+ * @returns Extra minutes, 0 when none is approved
+ */
+export const getApprovedExtraMinutes = (accommodations: Pick<Accommodation, 'type' | 'status' | 'extra_time_minutes'>[]): number => {
+  return accommodations
+    .filter(a => a.status === 'approved' && a.type === 'extra_time')
+    .reduce((total, a) => total + (a.extra_time_minutes || 0), 0)
+}
+
+/**
+ * Validate a new accommodation request
+ * @param type - Accommodation type
+ * @param extraTimeMinutes - Minutes requested for extra time
+ * @param details - Description of the adjustment
+ * @param file - Optional supporting document
+ * @returns Error message, or null when valid
+ */
+export const validateAccommodationRequest = (
+  type: AccommodationType,
+  extraTimeMinutes: number | undefined,
+  details: string,
+  file?: File | null
+): string | null => {
+  if (type === 'extra_time' && (!extraTimeMinutes || extraTimeMinutes < 1 || !Number.isInteger(extraTimeMinutes))) {
+    return 'Enter the extra time in whole minutes'
+  }
+  if ((type === 'assistive_equipment' || type === 'other') && !details.trim()) {
+    return 'Describe the equipment or adjustment needed'
+  }
+  if (file) {
+    const extension = file.name.split('.').pop()?.toLowerCase() || ''
+    if (!DOCUMENT_EXTENSIONS.includes(extension)) {
+      return 'Supporting documents must be PDF, JPG or PNG files'
+    }
+    if (file.size > MAX_DOCUMENT_SIZE) {
+      return 'Supporting documents must be 10 MB or smaller'
+    }
+  }
+  return null
+}
+
+/**
+ * Expected finish time including approved extra time
+ * @param scheduledEnd - Scheduled end of the session
+ * @param extraMinutes - Approved extra minutes
+ * @returns Expected end time
+ */
+export const getExpectedEndTime = (scheduledEnd: Date, extraMinutes: number): Date => {
+  return new Date(scheduledEnd.getTime() + extraMinutes * 60000)
+}
@@ -0,0 +1,188 @@
+// Candidate admission slips: printable HTML and PDF export
+// The QR code holds only the confirmation number, so handheld scanners at the
+// check-in desk and kiosk type it straight into the confirmation number field
+import QRCode from 'qrcode'
+import { jsPDF } from 'jspdf'
+import { escapeHtml } from './fileUtils'
+
+export interface AdmissionSlip {
+  fullName: string
+  confirmationNumber: string
+  examName?: string
+  clientName?: string
+  examDate?: Date
+}
+
+export const CENTRE_NAME = 'FETS Kochi Test Centre'
+export const CENTRE_ADDRESS = import.meta.env.VITE_CENTRE_ADDRESS || 'Kochi, Kerala, India'
+
+export const ID_REQUIREMENTS = [
+  'Bring one valid, original, unexpired government-issued photo ID (passport, Aadhaar, driving licence, PAN or voter ID).',
+  'The name on your ID must exactly match the name on this slip.',
+  'Photocopies, digital IDs and expired documents are not accepted.',
+  'Arrive at least 30 minutes before your exam time to complete check-in.'
+]
+
+const formatSlipDate = (date?: Date): string => {
+  if (!date) return 'To be confirmed'
+  return date.toLocaleDateString('en-IN', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'Asia/Kolkata'
+  })
+}
+
+const formatSlipTime = (date?: Date): string => {
+  if (!date) return 'To be confirmed'
+  return `${date.toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit', timeZone: 'Asia/Kolkata' })} IST`
+}
+
+const getSlipFields = (slip: AdmissionSlip): [string, string][] => [
+  ['Candidate', slip.fullName],
+  ['Exam', slip.examName || 'Exam Session'],
+  ...(slip.clientName ? [['Client', slip.clientName] as [string, string]] : []),
+  ['Date', formatSlipDate(slip.examDate)],
+  ['Time', formatSlipTime(slip.examDate)],
+  ['Centre', `${CENTRE_NAME}, ${CENTRE_ADDRESS}`]
+]
+
+/**
+ * Build a print-ready HTML document with one admission slip per page
+ * @param slips - Slips to render
+ * @returns Complete HTML document
+ */
+export const renderAdmissionSlipsHtml = async (slips: AdmissionSlip[]): Promise<string> => {
+  const pages = await Promise.all(slips.map(async slip => {
+    const qrSvg = await QRCode.toString(slip.confirmationNumber, { type: 'svg', errorCorrectionLevel: 'M', margin: 1 })
+    const rows = getSlipFields(slip)
+      .map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`)
+      .join('')
+
+    return `
+      <section class="slip">
+        <header>
+          <h1>Admission Slip</h1>
+          <p>${escapeHtml(CENTRE_NAME)}</p>
+        </header>
+        <div class="main">
+          <table>${rows}</table>
+          <div class="qr">
+            ${qrSvg}
+            <p>${escapeHtml(slip.confirmationNumber)}</p>
+          </div>
+        </div>
+        <h2>ID Requirements</h2>
+        <ul>${ID_REQUIREMENTS.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>
+      </section>`
+  }))
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>Admission Slips</title>
+  <style>
+    body { font-family: Arial, sans-serif; color: #1a1a1a; margin: 0; }
+    .slip { padding: 32px; page-break-after: always; }
+    .slip:last-child { page-break-after: auto; }
+    header { border-bottom: 3px solid #fbc00e; margin-bottom: 24px; }
+    header h1 { margin: 0; font-size: 26px; }
+    header p { margin: 4px 0 12px; color: #555; }
+    .main { display: flex; justify-content: space-between; gap: 24px; }
+    table { border-collapse: collapse; font-size: 15px; }
+    th { text-align: left; color: #555; padding: 6px 16px 6px 0; vertical-align: top; white-space: nowrap; }
+    td { padding: 6px 0; font-weight: bold; }
+    .qr { text-align: center; }
+    .qr svg { width: 160px; height: 160px; }
+    .qr p { margin: 4px 0 0; font-family: monospace; font-size: 15px; letter-spacing: 1px; }
+    h2 { font-size: 17px; margin-top: 28px; }
+    li { margin-bottom: 6px; font-size: 14px; }
+  </style>
+</head>
+<body>${pages.join('')}</body>
+</html>`
+}
+
+/**
+ * Open the slips in a new window and show the print dialog
+ * @param slips - Slips to print
+ */
+export const printAdmissionSlips = async (slips: AdmissionSlip[]): Promise<void> => {
+  // Open the window before any await so popup blockers treat it as user initiated
+  const printWindow = window.open('', '_blank')
+  if (!printWindow) {
+    throw new Error('Allow pop-ups for this site to print admission slips')
+  }
+
+  const html = await renderAdmissionSlipsHtml(slips)
+  printWindow.document.open()
+  printWindow.document.write(html)
+  printWindow.document.close()
+  printWindow.focus()
+  printWindow.print()
+}
+
+/**
+ * Generate a PDF with one admission slip per A4 page and download it
+ * @param slips - Slips to export
+ * @param filename - Download file name
+ */
+export const downloadAdmissionSlipsPdf = async (slips: AdmissionSlip[], filename: string): Promise<void> => {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' })
+  const pageWidth = doc.internal.pageSize.getWidth()
+  const margin = 18
+  const qrSize = 45
+
+  for (let index = 0; index < slips.length; index++) {
+    const slip = slips[index]
+    if (index > 0) doc.addPage()
+
+    doc.setFont('helvetica', 'bold')
+    doc.setFontSize(20)
+    doc.text('Admission Slip', margin, 25)
+    doc.setFont('helvetica', 'normal')
+    doc.setFontSize(11)
+    doc.setTextColor(85)
+    doc.text(CENTRE_NAME, margin, 32)
+    doc.setDrawColor(251, 192, 14)
+    doc.setLineWidth(1)
+    doc.line(margin, 36, pageWidth - margin, 36)
+    doc.setTextColor(26)
+
+    const qrDataUrl = await QRCode.toDataURL(slip.confirmationNumber, { errorCorrectionLevel: 'M', margin: 1, width: 400 })
+    doc.addImage(qrDataUrl, 'PNG', pageWidth - margin - qrSize, 44, qrSize, qrSize)
+    doc.setFont('courier', 'bold')
+    doc.setFontSize(11)
+    doc.text(slip.confirmationNumber, pageWidth - margin - qrSize / 2, 44 + qrSize + 6, { align: 'center' })
+
+    let y = 50
+    const valueX = margin + 28
+    const valueWidth = pageWidth - margin * 2 - qrSize - 34
+    getSlipFields(slip).forEach(([label, value]) => {
+      doc.setFont('helvetica', 'normal')
+      doc.setTextColor(85)
+      doc.text(label, margin, y)
+      doc.setFont('helvetica', 'bold')
+      doc.setTextColor(26)
+      const lines = doc.splitTextToSize(value, valueWidth)
+      doc.text(lines, valueX, y)
+      y += 8 * lines.length
+    })
+
+    y = Math.max(y, 44 + qrSize + 12) + 8
+    doc.setFontSize(13)
+    doc.text('ID Requirements', margin, y)
+    y += 8
+    doc.setFont('helvetica', 'normal')
+    doc.setFontSize(10)
+    ID_REQUIREMENTS.forEach(item => {
+      const lines = doc.splitTextToSize(`•  ${item}`, pageWidth - margin * 2)
+      doc.text(lines, margin, y)
+      y += 5.5 * lines.length + 1.5
+    })
+  }
+
+  doc.save(filename)
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest'
+import {
+  AttendancePolicy,
+  checkArrival,
+  DEFAULT_LATE_GRACE_MINUTES,
+  DEFAULT_NO_SHOW_AFTER_MINUTES,
+  getAttendancePolicy,
+  validateAttendancePolicy
+} from './attendancePolicy'
+
+const policy = (overrides: Partial<AttendancePolicy> = {}): AttendancePolicy => ({
+  client_name: 'Prometric',
+  late_grace_minutes: 10,
+  no_show_after_minutes: 20,
+  ...overrides
+})
+
+describe('getAttendancePolicy', () => {
+  const policies = [
+    policy(),
+    policy({ client_name: 'Pearson VUE', aliases: ['VUE', ' pearson '], late_grace_minutes: 0 }),
+    policy({ client_name: 'Pearson', late_grace_minutes: 5 })
+  ]
+
+  it('finds a client by name or alias, ignoring case and spaces', () => {
+    expect(getAttendancePolicy(policies, ' prometric ').client_name).toBe('Prometric')
+    expect(getAttendancePolicy(policies, 'vue').client_name).toBe('Pearson VUE')
+  })
+
+  it('prefers a client named exactly over another client listing the name as an alias', () => {
+    expect(getAttendancePolicy(policies, 'Pearson').late_grace_minutes).toBe(5)
+  })
+
+  it('falls back to the default windows for unknown clients', () => {
+    expect(getAttendancePolicy(policies, 'ETS')).toEqual({
+      client_name: 'ETS',
+      late_grace_minutes: DEFAULT_LATE_GRACE_MINUTES,
+      no_show_after_minutes: DEFAULT_NO_SHOW_AFTER_MINUTES
+    })
+    expect(getAttendancePolicy(policies).client_name).toBe('')
+  })
+})
+
+describe('validateAttendancePolicy', () => {
+  it('accepts whole minutes with no-show marking at or after the cut-off', () => {
+    expect(validateAttendancePolicy(0, 0)).toBeNull()
+    expect(validateAttendancePolicy(15, 30)).toBeNull()
+  })
+
+  it('rejects negative or fractional grace and early no-show marking', () => {
+    expect(validateAttendancePolicy(-1, 30)).toBe('The grace window must be zero or more whole minutes')
+    expect(validateAttendancePolicy(2.5, 30)).toBe('The grace window must be zero or more whole minutes')
+    expect(validateAttendancePolicy(15, 10)).toBe('No-show marking cannot happen before check-in closes')
+  })
+})
+
+describe('checkArrival', () => {
+  const start = new Date('2026-11-02T04:00:00Z')
+  const at = (minutes: number) => new Date(start.getTime() + minutes * 60000)
+  const cutOff = at(10)
+
+  it('treats early arrivals and candidates without an exam time as on time', () => {
+    expect(checkArrival(start, policy(), at(-30))).toEqual({ state: 'on_time', minutesLate: 0, cutOff })
+    expect(checkArrival(undefined, policy(), at(60))).toEqual({ state: 'on_time', minutesLate: 0 })
+  })
+
+  it('keeps check-in open until the grace window has fully passed', () => {
+    expect(checkArrival(start, policy(), at(10.5))).toEqual({ state: 'late', minutesLate: 10, cutOff })
+    expect(checkArrival(start, policy(), at(11))).toEqual({ state: 'closed', minutesLate: 11, cutOff })
+  })
+
+  it('closes check-in at the start when there is no grace window', () => {
+    expect(checkArrival(start, policy({ late_grace_minutes: 0 }), at(1)).state).toBe('closed')
+  })
+})
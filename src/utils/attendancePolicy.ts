@@ -0,0 +1,79 @@
+// Late arrival and no-show policy per client, set in the client registry
+// Mirrors candidate_attendance_policy() and candidates_enforce_late_policy() in the database
+
+export const DEFAULT_LATE_GRACE_MINUTES = 15
+export const DEFAULT_NO_SHOW_AFTER_MINUTES = 30
+
+export interface AttendancePolicy {
+  client_name: string
+  // Other names of the client; candidates booked under any of them follow the policy
+  aliases?: string[]
+  late_grace_minutes: number
+  no_show_after_minutes: number
+}
+
+export type ArrivalState = 'on_time' | 'late' | 'closed'
+
+export interface ArrivalCheck {
+  state: ArrivalState
+  minutesLate: number
+  // When check-in closes without a supervisor override
+  cutOff?: Date
+}
+
+/**
+ * Find the policy that applies to a client
+ * @param policies - Configured client policies
+ * @param clientName - Candidate's client
+ * @returns The client's policy, or the defaults
+ */
+export const getAttendancePolicy = (policies: AttendancePolicy[], clientName?: string): AttendancePolicy => {
+  const key = (clientName || '').trim().toLowerCase()
+  const matches = (name: string) => name.trim().toLowerCase() === key
+  return policies.find(policy => matches(policy.client_name)) ||
+    policies.find(policy => (policy.aliases || []).some(matches)) || {
+    client_name: clientName || '',
+    late_grace_minutes: DEFAULT_LATE_GRACE_MINUTES,
+    no_show_after_minutes: DEFAULT_NO_SHOW_AFTER_MINUTES
+  }
+}
+
+/**
+ * Validate policy minutes before saving
+ * @param lateGraceMinutes - Minutes after the start that check-in stays open
+ * @param noShowAfterMinutes - Minutes after the start that registered candidates become no-shows
+ * @returns Error message, or null when valid
+ */
+export const validateAttendancePolicy = (lateGraceMinutes: number, noShowAfterMinutes: number): string | null => {
+  if (!Number.isInteger(lateGraceMinutes) || lateGraceMinutes < 0) {
+    return 'The grace window must be zero or more whole minutes'
+  }
+  if (!Number.isInteger(noShowAfterMinutes) || noShowAfterMinutes < lateGraceMinutes) {
+    return 'No-show marking cannot happen before check-in closes'
+  }
+  return null
+}
+
+/**
+ * Work out whether a candidate arriving now is on time, late, or past the check-in cut-off
+ * @param examDate - Exam start
+ * @param policy - Client policy
+ * @param now - Arrival time
+ * @returns Arrival state and minutes late
+ */
+export const checkArrival = (examDate: Date | undefined, policy: AttendancePolicy, now: Date = new Date()): ArrivalCheck => {
+  if (!examDate) return { state: 'on_time', minutesLate: 0 }
+
+  const cutOff = new Date(examDate.getTime() + policy.late_grace_minutes * 60000)
+  const minutesLate = Math.floor((now.getTime() - examDate.getTime()) / 60000)
+  if (minutesLate <= 0) return { state: 'on_time', minutesLate: 0, cutOff }
+  return { state: minutesLate > policy.late_grace_minutes ? 'closed' : 'late', minutesLate, cutOff }
+}
+
+/**
+ * Time of day in IST for policy messages
+ * @param date - Date to format
+ * @returns Time such as "09:15 am"
+ */
+export const formatPolicyTime = (date: Date): string =>
+  date.toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit', timeZone: 'Asia/Kolkata' })
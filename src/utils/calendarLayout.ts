@@ -0,0 +1,162 @@
+// Layout helpers for the time-axis calendar views
+import { addDays, getWeekday } from './sessionRecurrence'
+
+// Dragged sessions snap to quarter hours
+export const SNAP_MINUTES = 15
+
+// Opening hours shown even when no session falls outside them
+const DEFAULT_FIRST_HOUR = 7
+const DEFAULT_LAST_HOUR = 21
+
+interface TimedSession {
+  start_time: string
+  end_time: string
+}
+
+export interface SessionLayout<T extends TimedSession> {
+  session: T
+  column: number
+  columns: number
+}
+
+/**
+ * Convert a time of day to minutes since midnight
+ * @param time - Time in HH:MM or HH:MM:SS format
+ * @returns Minutes since midnight
+ */
+export const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(part => parseInt(part, 10))
+  return hours * 60 + (minutes || 0)
+}
+
+/**
+ * Convert minutes since midnight to a time of day
+ * @param minutes - Minutes since midnight, clamped to the same day
+ * @returns Time in HH:MM format
+ */
+export const minutesToTime = (minutes: number): string => {
+  const clamped = Math.min(Math.max(Math.round(minutes), 0), 24 * 60 - 1)
+  return `${String(Math.floor(clamped / 60)).padStart(2, '0')}:${String(clamped % 60).padStart(2, '0')}`
+}
+
+/**
+ * Round minutes to the nearest snap interval
+ * @param minutes - Minutes
+ * @returns Snapped minutes
+ */
+export const snapMinutes = (minutes: number): number => Math.round(minutes / SNAP_MINUTES) * SNAP_MINUTES
+
+/**
+ * Format a session's times for display
+ * @param startTime - Start time, HH:MM
+ * @param endTime - End time, HH:MM
+ * @returns Range such as "9:00am - 1:30pm"
+ */
+export const formatTimeRange = (startTime: string, endTime: string): string => {
+  const formatTime = (time: string) => {
+    const [hours, minutes] = time.split(':')
+    const hour = parseInt(hours)
+    const ampm = hour >= 12 ? 'pm' : 'am'
+    const displayHour = hour > 12 ? hour - 12 : hour === 0 ? 12 : hour
+    return `${displayHour}:${minutes}${ampm}`
+  }
+  return `${formatTime(startTime)} - ${formatTime(endTime)}`
+}
+
+/**
+ * The Sunday-to-Saturday week containing a date
+ * @param date - Date string in YYYY-MM-DD format
+ * @returns Seven YYYY-MM-DD dates
+ */
+export const getWeekDates = (date: string): string[] => {
+  const sunday = addDays(date, -getWeekday(date))
+  return Array.from({ length: 7 }, (_, day) => addDays(sunday, day))
+}
+
+/**
+ * Hours to show on the time axis
+ * @param sessions - Sessions in view
+ * @returns First hour and the hour the axis ends at
+ */
+export const getVisibleHours = (sessions: TimedSession[]): { firstHour: number; lastHour: number } => {
+  let firstHour = DEFAULT_FIRST_HOUR
+  let lastHour = DEFAULT_LAST_HOUR
+  for (const session of sessions) {
+    firstHour = Math.min(firstHour, Math.floor(timeToMinutes(session.start_time) / 60))
+    lastHour = Math.max(lastHour, Math.ceil(timeToMinutes(session.end_time) / 60))
+  }
+  return { firstHour, lastHour: Math.min(lastHour, 24) }
+}
+
+/**
+ * Place one day's sessions side by side where they overlap
+ * Sessions that overlap, directly or through another session, share the width of the day equally
+ * @param sessions - Sessions on one day
+ * @returns Each session with its column and the number of columns in its group
+ */
+export const layoutDaySessions = <T extends TimedSession>(sessions: T[]): SessionLayout<T>[] => {
+  const sorted = [...sessions].sort((a, b) =>
+    timeToMinutes(a.start_time) - timeToMinutes(b.start_time) || timeToMinutes(b.end_time) - timeToMinutes(a.end_time)
+  )
+  const layouts: SessionLayout<T>[] = []
+  let group: SessionLayout<T>[] = []
+  let columnEnds: number[] = []
+  let groupEnd = -1
+
+  const closeGroup = () => {
+    for (const layout of group) layout.columns = columnEnds.length
+    group = []
+    columnEnds = []
+  }
+
+  for (const session of sorted) {
+    const start = timeToMinutes(session.start_time)
+    // Zero-length sessions still take up a slot
+    const end = Math.max(timeToMinutes(session.end_time), start + SNAP_MINUTES)
+    if (start >= groupEnd) closeGroup()
+
+    let column = columnEnds.findIndex(columnEnd => columnEnd <= start)
+    if (column === -1) {
+      column = columnEnds.length
+      columnEnds.push(end)
+    } else {
+      columnEnds[column] = end
+    }
+
+    const layout = { session, column, columns: 1 }
+    group.push(layout)
+    layouts.push(layout)
+    groupEnd = Math.max(groupEnd, end)
+  }
+  closeGroup()
+  return layouts
+}
+
+/**
+ * Work out where a dragged session ends up
+ * @param session - Session being dragged
+ * @param mode - Moving the whole session or resizing its end
+ * @param deltaMinutes - Vertical drag, in minutes
+ * @returns New start and end times
+ */
+export const getDraggedTimes = (
+  session: TimedSession,
+  mode: 'move' | 'resize',
+  deltaMinutes: number
+): { start_time: string; end_time: string } => {
+  const start = timeToMinutes(session.start_time)
+  const end = timeToMinutes(session.end_time)
+  const delta = snapMinutes(deltaMinutes)
+
+  if (mode === 'resize') {
+    return {
+      start_time: minutesToTime(start),
+      end_time: minutesToTime(Math.min(Math.max(end + delta, start + SNAP_MINUTES), 24 * 60 - SNAP_MINUTES))
+    }
+  }
+
+  // Moved sessions stay on their day, ending by the last quarter hour
+  const duration = end - start
+  const newStart = Math.min(Math.max(start + delta, 0), Math.max(24 * 60 - SNAP_MINUTES - duration, 0))
+  return { start_time: minutesToTime(newStart), end_time: minutesToTime(newStart + duration) }
+}
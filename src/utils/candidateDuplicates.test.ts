@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest'
+import {
+  describeDuplicateMatches,
+  findDuplicateMatches,
+  findDuplicatePairs,
+  getDuplicatePairKey,
+  nameSimilarity,
+  normalizeName,
+  pickPrimaryCandidate
+} from './candidateDuplicates'
+
+interface TestCandidate {
+  id: string
+  fullName: string
+  email: string
+  phone?: string
+  examDate?: Date
+  status?: string
+  notes?: string
+  createdAt?: Date
+}
+
+const candidate = (overrides: Partial<TestCandidate> = {}): TestCandidate => ({
+  id: 'a',
+  fullName: 'Anil Kumar',
+  email: 'anil@example.com',
+  examDate: new Date('2026-11-02T10:00:00Z'),
+  ...overrides
+})
+
+describe('name matching', () => {
+  it('ignores word order, punctuation and accents', () => {
+    expect(normalizeName('Kumar, Anil')).toBe('anil kumar')
+    expect(nameSimilarity('José  Peña', 'jose pena')).toBe(1)
+  })
+
+  it('scores near misses by edit distance', () => {
+    expect(nameSimilarity('Anil Kumar', 'Anil Kumaar')).toBeCloseTo(1 - 1 / 11)
+    expect(nameSimilarity('Anil Kumar', 'Priya Nair')).toBeLessThan(0.5)
+    expect(nameSimilarity('', 'Anil Kumar')).toBe(0)
+  })
+})
+
+describe('findDuplicateMatches', () => {
+  it('matches on email, phone in any format, or a similar name on the same exam day', () => {
+    const existing = [
+      candidate({ id: 'email', fullName: 'Someone Else', email: 'ANIL@example.com', examDate: undefined }),
+      candidate({ id: 'phone', fullName: 'A K', email: 'ak@example.com', phone: '098765 43210', examDate: undefined }),
+      candidate({ id: 'name', fullName: 'Kumar Anil', email: 'other@example.com' }),
+      candidate({ id: 'other-day', fullName: 'Anil Kumar', email: 'x@example.com', examDate: new Date('2026-11-03T10:00:00Z') })
+    ]
+
+    const matches = findDuplicateMatches({ fullName: 'Anil Kumar', email: 'anil@example.com', phone: '+91 98765 43210', examDate: new Date('2026-11-02T04:00:00Z') }, existing)
+
+    expect(matches.map(match => [match.candidate.id, match.reasons])).toEqual([
+      ['email', ['Same email']],
+      ['name', ['Same name and exam date']],
+      ['phone', ['Same phone']]
+    ])
+  })
+
+  it('skips the record being edited and ranks stronger evidence first', () => {
+    const existing = [candidate(), candidate({ id: 'b', phone: '9876543210' })]
+
+    const matches = findDuplicateMatches({ ...candidate(), phone: '9876543210' }, existing)
+
+    expect(matches).toHaveLength(1)
+    expect(matches[0].reasons).toEqual(['Same email', 'Same phone', 'Same name and exam date'])
+    expect(matches[0].score).toBe(1)
+    expect(describeDuplicateMatches(matches)).toEqual(['Possible duplicate of Anil Kumar (Same email, Same phone, Same name and exam date)'])
+  })
+})
+
+describe('findDuplicatePairs', () => {
+  it('reports each pair once across shared buckets and leaves out dismissed pairs', () => {
+    const candidates = [
+      candidate({ id: 'a', phone: '9876543210' }),
+      candidate({ id: 'b', phone: '+919876543210' }),
+      candidate({ id: 'c', fullName: 'Anil Kumaar', email: 'c@example.com' }),
+      candidate({ id: 'd', fullName: 'Priya Nair', email: 'd@example.com' })
+    ]
+
+    const pairs = findDuplicatePairs(candidates, new Set([getDuplicatePairKey('c', 'b')]))
+
+    expect(pairs.map(pair => getDuplicatePairKey(pair.first.id, pair.second.id))).toEqual(['a:b', 'a:c'])
+  })
+})
+
+describe('pickPrimaryCandidate', () => {
+  it('keeps the fuller record, then the one further along, then the older one', () => {
+    const bare = candidate({ id: 'bare' })
+    const noted = candidate({ id: 'noted', notes: 'Needs a wheelchair' })
+    expect(pickPrimaryCandidate(bare, noted).primary.id).toBe('noted')
+
+    const checkedIn = candidate({ id: 'in', status: 'checked_in' })
+    expect(pickPrimaryCandidate(candidate({ status: 'registered' }), checkedIn).primary.id).toBe('in')
+
+    const older = candidate({ id: 'older', createdAt: new Date('2026-01-01') })
+    const newer = candidate({ id: 'newer', createdAt: new Date('2026-02-01') })
+    expect(pickPrimaryCandidate(newer, older)).toEqual({ primary: older, absorbed: newer })
+  })
+})
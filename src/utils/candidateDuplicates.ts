@@ -0,0 +1,231 @@
+// Candidate duplicate detection utilities
+import { normalizePhone } from './candidateValidation'
+
+interface DuplicateCheckCandidate {
+  id: string
+  fullName: string
+  email: string
+  phone?: string
+  examDate?: Date
+  examName?: string
+  status?: string
+  confirmationNumber?: string
+  checkInTime?: Date
+  notes?: string
+  createdAt?: Date
+}
+
+export interface DuplicateMatch<T extends DuplicateCheckCandidate> {
+  candidate: T
+  reasons: string[]
+  score: number
+}
+
+export interface DuplicatePair<T extends DuplicateCheckCandidate> {
+  first: T
+  second: T
+  reasons: string[]
+  score: number
+}
+
+// Names at least this similar on the same exam date are treated as the same person
+const NAME_SIMILARITY_THRESHOLD = 0.85
+
+const STATUS_PROGRESS = ['cancelled', 'registered', 'no_show', 'checked_in', 'in_progress', 'completed']
+
+/**
+ * Normalise a person's name for comparison
+ * Lower-cases, strips punctuation and diacritics, and sorts tokens so "Kumar, Anil" equals "Anil Kumar"
+ * @param name - Name as entered
+ * @returns Comparable name key
+ */
+export const normalizeName = (name: string): string => {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .sort()
+    .join(' ')
+}
+
+const levenshtein = (a: string, b: string): number => {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0]
+    previous[0] = i
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j]
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+      diagonal = above
+    }
+  }
+  return previous[b.length]
+}
+
+/**
+ * Similarity between two names from 0 (different) to 1 (identical after normalisation)
+ * @param a - First name
+ * @param b - Second name
+ * @returns Similarity ratio based on edit distance
+ */
+export const nameSimilarity = (a: string, b: string): number => {
+  const left = normalizeName(a)
+  const right = normalizeName(b)
+  if (!left || !right) return 0
+  if (left === right) return 1
+  return 1 - levenshtein(left, right) / Math.max(left.length, right.length)
+}
+
+const dayKey = (date?: Date): string | null => (date ? date.toISOString().split('T')[0] : null)
+
+/**
+ * Explain why two candidate records look like the same person
+ * @param a - First candidate
+ * @param b - Second candidate
+ * @returns Matching reasons with a 0-1 confidence score, or null when unrelated
+ */
+export const compareCandidates = (a: DuplicateCheckCandidate, b: DuplicateCheckCandidate): { reasons: string[]; score: number } | null => {
+  const reasons: string[] = []
+  let score = 0
+
+  if (a.email && b.email && a.email.trim().toLowerCase() === b.email.trim().toLowerCase()) {
+    reasons.push('Same email')
+    score = Math.max(score, 0.95)
+  }
+
+  const phoneA = a.phone ? normalizePhone(a.phone) : null
+  const phoneB = b.phone ? normalizePhone(b.phone) : null
+  if (phoneA && phoneB && phoneA === phoneB) {
+    reasons.push('Same phone')
+    score = Math.max(score, 0.8)
+  }
+
+  const dateA = dayKey(a.examDate)
+  if (dateA && dateA === dayKey(b.examDate)) {
+    const similarity = nameSimilarity(a.fullName, b.fullName)
+    if (similarity >= NAME_SIMILARITY_THRESHOLD) {
+      reasons.push(similarity === 1 ? 'Same name and exam date' : 'Similar name on same exam date')
+      score = Math.max(score, 0.6 + 0.3 * similarity)
+    }
+  }
+
+  if (reasons.length === 0) return null
+  // Several independent signals are stronger than any one of them
+  return { reasons, score: Math.min(1, score + 0.05 * (reasons.length - 1)) }
+}
+
+/**
+ * Find existing candidates that may be the same person as a new or edited record
+ * @param record - Candidate being created or imported
+ * @param candidates - Existing candidates to compare against
+ * @returns Matches ordered by confidence
+ */
+export const findDuplicateMatches = <T extends DuplicateCheckCandidate>(
+  record: Omit<DuplicateCheckCandidate, 'id'> & { id?: string },
+  candidates: T[]
+): DuplicateMatch<T>[] => {
+  return candidates
+    .filter(candidate => candidate.id !== record.id)
+    .map(candidate => {
+      const result = compareCandidates({ ...record, id: record.id || '' }, candidate)
+      return result ? { candidate, ...result } : null
+    })
+    .filter((match): match is DuplicateMatch<T> => match !== null)
+    .sort((x, y) => y.score - x.score)
+}
+
+/**
+ * Stable key for a pair of candidate ids regardless of order
+ * @param a - First candidate id
+ * @param b - Second candidate id
+ * @returns Pair key
+ */
+export const getDuplicatePairKey = (a: string, b: string): string => (a < b ? `${a}:${b}` : `${b}:${a}`)
+
+/**
+ * Find all likely duplicate pairs in a candidate list
+ * Candidates are bucketed by email, phone and exam date so only plausible pairs are compared
+ * @param candidates - Candidates to scan
+ * @param dismissedPairs - Pair keys already reviewed as distinct people
+ * @returns Duplicate pairs ordered by confidence
+ */
+export const findDuplicatePairs = <T extends DuplicateCheckCandidate>(
+  candidates: T[],
+  dismissedPairs: Set<string> = new Set()
+): DuplicatePair<T>[] => {
+  const buckets = new Map<string, T[]>()
+  const addToBucket = (key: string, candidate: T) => {
+    const bucket = buckets.get(key)
+    if (bucket) bucket.push(candidate)
+    else buckets.set(key, [candidate])
+  }
+
+  candidates.forEach(candidate => {
+    if (candidate.email) addToBucket(`email:${candidate.email.trim().toLowerCase()}`, candidate)
+    const phone = candidate.phone ? normalizePhone(candidate.phone) : null
+    if (phone) addToBucket(`phone:${phone}`, candidate)
+    const date = dayKey(candidate.examDate)
+    if (date) addToBucket(`date:${date}`, candidate)
+  })
+
+  const pairs = new Map<string, DuplicatePair<T>>()
+  buckets.forEach(bucket => {
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const key = getDuplicatePairKey(bucket[i].id, bucket[j].id)
+        if (pairs.has(key) || dismissedPairs.has(key)) continue
+        const result = compareCandidates(bucket[i], bucket[j])
+        if (result) {
+          pairs.set(key, { first: bucket[i], second: bucket[j], ...result })
+        }
+      }
+    }
+  })
+
+  return Array.from(pairs.values()).sort((x, y) => y.score - x.score)
+}
+
+const richness = (candidate: DuplicateCheckCandidate): number => {
+  return [candidate.fullName, candidate.email, candidate.phone, candidate.examDate, candidate.examName, candidate.confirmationNumber, candidate.checkInTime, candidate.notes]
+    .filter(value => value !== undefined && value !== null && value !== '')
+    .length
+}
+
+/**
+ * Choose which record survives a merge
+ * Prefers the record with more filled-in fields, then the one further along its exam, then the older one
+ * @param a - First candidate
+ * @param b - Second candidate
+ * @returns The record to keep and the record to absorb
+ */
+export const pickPrimaryCandidate = <T extends DuplicateCheckCandidate>(a: T, b: T): { primary: T; absorbed: T } => {
+  const difference = richness(a) - richness(b)
+  if (difference !== 0) {
+    return difference > 0 ? { primary: a, absorbed: b } : { primary: b, absorbed: a }
+  }
+
+  const progress = STATUS_PROGRESS.indexOf(a.status || '') - STATUS_PROGRESS.indexOf(b.status || '')
+  if (progress !== 0) {
+    return progress > 0 ? { primary: a, absorbed: b } : { primary: b, absorbed: a }
+  }
+
+  const aCreated = a.createdAt?.getTime() ?? 0
+  const bCreated = b.createdAt?.getTime() ?? 0
+  return aCreated <= bCreated ? { primary: a, absorbed: b } : { primary: b, absorbed: a }
+}
+
+/**
+ * Describe duplicate matches for display next to a new record
+ * @param matches - Matches from findDuplicateMatches
+ * @returns One line per match, e.g. "Possible duplicate of Anil Kumar (Same phone)"
+ */
+export const describeDuplicateMatches = <T extends DuplicateCheckCandidate>(matches: DuplicateMatch<T>[]): string[] => {
+  return matches.map(match => `Possible duplicate of ${match.candidate.fullName} (${match.reasons.join(', ')})`)
+}
@@ -0,0 +1,132 @@
+// Client-specific candidate attendance exports
+import type { Candidate } from '../components/CandidateTracker'
+import { formatCandidateStatus } from './candidateStatus'
+import { formatDateForIST } from './dateUtils'
+
+export type ExportField =
+  | 'confirmation_number'
+  | 'full_name'
+  | 'first_name'
+  | 'last_name'
+  | 'email'
+  | 'phone'
+  | 'client_name'
+  | 'exam_name'
+  | 'exam_date'
+  | 'exam_time'
+  | 'exam_datetime'
+  | 'session_id'
+  | 'status'
+  | 'status_code'
+  | 'attended'
+  | 'no_show'
+  | 'check_in_time'
+  | 'check_in_datetime'
+  | 'late_minutes'
+  | 'notes'
+
+export type ExportFormat = 'csv' | 'xlsx'
+
+export interface ExportColumn {
+  field: ExportField
+  header: string
+}
+
+export interface ExportPreset {
+  id: string
+  name: string
+  client_name: string | null
+  columns: ExportColumn[]
+  format: ExportFormat
+}
+
+type ExportValue = string | number | null | undefined
+
+const formatTime = (date?: Date): string =>
+  date ? date.toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit', timeZone: 'Asia/Kolkata' }) : ''
+
+const formatDateTime = (date?: Date): string => (date ? `${formatDateForIST(date)} ${formatTime(date)}` : '')
+
+// Candidates who arrived, whatever happened afterwards
+const ATTENDED_STATUSES = ['checked_in', 'in_progress', 'completed']
+
+const splitName = (fullName: string): { first: string; last: string } => {
+  const parts = fullName.trim().split(/\s+/)
+  if (parts.length < 2) return { first: parts[0] || '', last: '' }
+  return { first: parts.slice(0, -1).join(' '), last: parts[parts.length - 1] }
+}
+
+export const EXPORT_FIELDS: { value: ExportField; label: string; getValue: (candidate: Candidate) => ExportValue }[] = [
+  { value: 'confirmation_number', label: 'Confirmation number', getValue: c => c.confirmationNumber },
+  { value: 'full_name', label: 'Full name', getValue: c => c.fullName },
+  { value: 'first_name', label: 'First name', getValue: c => splitName(c.fullName).first },
+  { value: 'last_name', label: 'Last name', getValue: c => splitName(c.fullName).last },
+  { value: 'email', label: 'Email', getValue: c => c.email },
+  { value: 'phone', label: 'Phone', getValue: c => c.phone },
+  { value: 'client_name', label: 'Client', getValue: c => c.clientName },
+  { value: 'exam_name', label: 'Exam', getValue: c => c.examName },
+  { value: 'exam_date', label: 'Exam date (YYYY-MM-DD)', getValue: c => (c.examDate ? formatDateForIST(c.examDate) : '') },
+  { value: 'exam_time', label: 'Exam start time (HH:MM)', getValue: c => formatTime(c.examDate) },
+  { value: 'exam_datetime', label: 'Exam date and time', getValue: c => formatDateTime(c.examDate) },
+  { value: 'session_id', label: 'Session ID', getValue: c => c.sessionId },
+  { value: 'status', label: 'Status', getValue: c => formatCandidateStatus(c.status) },
+  { value: 'status_code', label: 'Status code', getValue: c => c.status.toUpperCase() },
+  { value: 'attended', label: 'Attended (Y/N)', getValue: c => (ATTENDED_STATUSES.includes(c.status) ? 'Y' : 'N') },
+  { value: 'no_show', label: 'No show (Y/N)', getValue: c => (c.status === 'no_show' ? 'Y' : 'N') },
+  { value: 'check_in_time', label: 'Check-in time (HH:MM)', getValue: c => formatTime(c.checkInTime) },
+  { value: 'check_in_datetime', label: 'Check-in date and time', getValue: c => formatDateTime(c.checkInTime) },
+  { value: 'late_minutes', label: 'Minutes late', getValue: c => c.lateMinutes ?? 0 },
+  { value: 'notes', label: 'Notes', getValue: c => c.notes }
+]
+
+export const DEFAULT_EXPORT_COLUMNS: ExportColumn[] = [
+  { field: 'confirmation_number', header: 'Confirmation Number' },
+  { field: 'full_name', header: 'Candidate' },
+  { field: 'exam_name', header: 'Exam' },
+  { field: 'exam_datetime', header: 'Exam Date' },
+  { field: 'status', header: 'Status' },
+  { field: 'check_in_time', header: 'Check-in Time' }
+]
+
+/**
+ * Turn candidates into export rows following a column mapping
+ * @param candidates - Candidates to export
+ * @param columns - Ordered columns with their headers
+ * @returns Header row and data rows
+ */
+export const buildExportRows = (
+  candidates: Candidate[],
+  columns: ExportColumn[]
+): { headers: string[]; rows: ExportValue[][] } => {
+  const getters = columns.map(column => EXPORT_FIELDS.find(f => f.value === column.field)?.getValue || (() => ''))
+  return {
+    headers: columns.map(column => column.header),
+    rows: candidates.map(candidate => getters.map(getValue => getValue(candidate)))
+  }
+}
+
+/**
+ * Validate a column mapping before exporting or saving it as a preset
+ * @param columns - Ordered columns
+ * @returns Error message, or null when valid
+ */
+export const validateExportColumns = (columns: ExportColumn[]): string | null => {
+  if (columns.length === 0) return 'Add at least one column'
+  if (columns.some(column => !column.header.trim())) return 'Every column needs a header'
+  if (columns.some(column => !EXPORT_FIELDS.some(f => f.value === column.field))) return 'One of the columns uses an unknown field'
+  const headers = columns.map(column => column.header.trim().toLowerCase())
+  if (new Set(headers).size !== headers.length) return 'Column headers must be unique'
+  return null
+}
+
+/**
+ * Suggested file name for an export
+ * @param label - Preset or client name
+ * @param scope - Date range or session description
+ * @param format - File format
+ * @returns File name such as "ets-attendance-roster-2026-10-18.xlsx"
+ */
+export const getExportFilename = (label: string, scope: string, format: ExportFormat): string => {
+  const slug = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+  return `${slug(label) || 'candidates'}-${slug(scope)}.${format}`
+}
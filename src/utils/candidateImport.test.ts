@@ -0,0 +1,151 @@
+// @vitest-environment jsdom
+import { strToU8, zipSync } from 'fflate'
+import { describe, expect, it } from 'vitest'
+import {
+  decodeTextBuffer,
+  detectDelimiter,
+  getMissingRequiredFields,
+  mapRowToCandidate,
+  parseCSV,
+  parseImportDate,
+  parseXlsx,
+  suggestColumnMapping,
+  suggestDateOrder
+} from './candidateImport'
+
+const local = (year: number, month: number, day: number, hours = 0, minutes = 0) =>
+  new Date(year, month - 1, day, hours, minutes).toISOString()
+
+describe('parseImportDate', () => {
+  it('reads slash dates day first by default', () => {
+    expect(parseImportDate('03/04/2026')).toBe(local(2026, 4, 3))
+    expect(parseImportDate('25/12/2026 14:30')).toBe(local(2026, 12, 25, 14, 30))
+  })
+
+  it('reads slash dates month first when asked', () => {
+    expect(parseImportDate('03/04/2026', 'MDY')).toBe(local(2026, 3, 4))
+    expect(parseImportDate('12/25/2026', 'MDY')).toBe(local(2026, 12, 25))
+  })
+
+  it('rejects slash dates that do not exist in the chosen order', () => {
+    expect(() => parseImportDate('12/25/2026')).toThrow('"12/25/2026" is not a DD/MM/YYYY date')
+    expect(() => parseImportDate('31/02/2026')).toThrow('is not a DD/MM/YYYY date')
+    expect(() => parseImportDate('25/12/2026', 'MDY')).toThrow('is not a MM/DD/YYYY date')
+  })
+
+  it('reads ISO dates and Excel serials the same either way', () => {
+    expect(parseImportDate('2026-04-03T09:00:00Z', 'MDY')).toBe('2026-04-03T09:00:00.000Z')
+    expect(parseImportDate('46115.375')).toBe(local(2026, 4, 3, 9))
+    expect(parseImportDate('  ')).toBeNull()
+    expect(() => parseImportDate('next Tuesday')).toThrow('Unrecognised date "next Tuesday"')
+  })
+})
+
+describe('suggestDateOrder', () => {
+  it('takes the order from the first date that can only be read one way', () => {
+    expect(suggestDateOrder(['03/04/2026', '25/04/2026'])).toBe('DMY')
+    expect(suggestDateOrder(['', '04/03/2026', '04/25/2026'])).toBe('MDY')
+  })
+
+  it('keeps day first when every date could be read either way', () => {
+    expect(suggestDateOrder(['03/04/2026', '2026-04-05', '46115'])).toBe('DMY')
+  })
+})
+
+describe('decodeTextBuffer', () => {
+  it('strips a UTF-8 byte order mark', () => {
+    expect(decodeTextBuffer(new Uint8Array([0xef, 0xbb, 0xbf, ...strToU8('Name,Email')]).buffer)).toBe('Name,Email')
+  })
+
+  it('falls back to Windows-1252 for legacy Excel exports', () => {
+    expect(decodeTextBuffer(new Uint8Array([0x4a, 0x6f, 0x73, 0xe9]).buffer)).toBe('José')
+  })
+})
+
+describe('detectDelimiter', () => {
+  it('picks the most frequent separator in the header row', () => {
+    expect(detectDelimiter('Name;Email;Exam\na,b;c;d')).toBe(';')
+    expect(detectDelimiter('Name\tEmail\tExam')).toBe('\t')
+  })
+
+  it('ignores separators inside quotes', () => {
+    expect(detectDelimiter('"Kumar, Anil"|"Menon, Asha"|x')).toBe('|')
+  })
+})
+
+describe('parseCSV', () => {
+  it('reads quoted fields, escaped quotes and line breaks inside quotes', () => {
+    expect(parseCSV('Name,Notes\r\n"Kumar, Anil","Said ""hi""\nthen left"\n')).toEqual([
+      ['Name', 'Notes'],
+      ['Kumar, Anil', 'Said "hi"\nthen left']
+    ])
+  })
+
+  it('drops blank lines and keeps empty trailing fields', () => {
+    expect(parseCSV('a,b\n\n,,\nc,')).toEqual([['a', 'b'], ['c', '']])
+  })
+})
+
+const workbook = (sheet: string, sharedStrings?: string) => {
+  const files: Record<string, Uint8Array> = {
+    'xl/workbook.xml': strToU8(
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      '<sheets><sheet name="Roster" sheetId="1" r:id="rId1"/></sheets></workbook>'
+    ),
+    'xl/_rels/workbook.xml.rels': strToU8(
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Target="worksheets/roster.xml"/></Relationships>'
+    ),
+    'xl/worksheets/roster.xml': strToU8(
+      `<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${sheet}</sheetData></worksheet>`
+    )
+  }
+  if (sharedStrings) {
+    files['xl/sharedStrings.xml'] = strToU8(`<sst xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">${sharedStrings}</sst>`)
+  }
+  return zipSync(files).buffer as ArrayBuffer
+}
+
+describe('parseXlsx', () => {
+  it('reads the first sheet through the workbook relationships', () => {
+    const buffer = workbook(
+      '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>' +
+      '<row r="2"><c r="A2" t="inlineStr"><is><t>Asha</t></is></c><c r="C2"><v>46115</v></c><c r="D2" t="b"><v>1</v></c></row>' +
+      '<row r="3"><c r="A3"><v> </v></c></row>',
+      '<si><t>Name</t></si><si><r><t>Exam </t></r><r><t>Date</t></r><rPh><t>x</t></rPh></si>'
+    )
+
+    expect(parseXlsx(buffer)).toEqual([
+      ['Name', 'Exam Date'],
+      ['Asha', '', '46115', 'TRUE']
+    ])
+  })
+
+  it('rejects archives that are not workbooks', () => {
+    expect(() => parseXlsx(zipSync({ 'readme.txt': strToU8('hi') }).buffer as ArrayBuffer)).toThrow('File is not a valid Excel workbook')
+  })
+})
+
+describe('column mapping', () => {
+  it('suggests columns by header alias and leaves the rest unmapped', () => {
+    const mapping = suggestColumnMapping(['Candidate Name', 'E-mail', 'Test_Date', 'Exam', 'Remarks'])
+
+    expect(mapping).toEqual({ full_name: 0, email: 1, phone: null, exam_name: 3, client_name: null, exam_date: 2, notes: 4 })
+    expect(getMissingRequiredFields(mapping)).toEqual([])
+    expect(getMissingRequiredFields({ ...mapping, email: null, exam_date: null })).toEqual(['Email', 'Exam Date'])
+  })
+
+  it('builds trimmed candidate values from a row', () => {
+    const mapping = suggestColumnMapping(['Name', 'Email', 'Exam', 'Date'])
+
+    expect(mapRowToCandidate([' Asha ', 'asha@example.com', 'CELPIP'], mapping)).toEqual({
+      full_name: 'Asha',
+      email: 'asha@example.com',
+      phone: '',
+      exam_name: 'CELPIP',
+      client_name: '',
+      exam_date: '',
+      notes: ''
+    })
+  })
+})
@@ -0,0 +1,387 @@
+// Candidate roster import utilities (CSV and XLSX)
+import { unzipSync, strFromU8 } from 'fflate'
+
+export interface ParsedSheet {
+  headers: string[]
+  rows: string[][]
+}
+
+export type CandidateImportField = 'full_name' | 'email' | 'phone' | 'exam_name' | 'client_name' | 'exam_date' | 'notes'
+
+export type ColumnMapping = Record<CandidateImportField, number | null>
+
+// Order of the day and month in slash dates such as 03/04/2026
+export type ImportDateOrder = 'DMY' | 'MDY'
+
+// Rosters sent to the centre write dates day first
+export const DEFAULT_IMPORT_DATE_ORDER: ImportDateOrder = 'DMY'
+
+export interface CandidateImportFieldDefinition {
+  key: CandidateImportField
+  label: string
+  required: boolean
+  aliases: string[]
+}
+
+export const CANDIDATE_IMPORT_FIELDS: CandidateImportFieldDefinition[] = [
+  { key: 'full_name', label: 'Full Name', required: true, aliases: ['full name', 'name', 'candidate name', 'candidate', 'student name'] },
+  { key: 'email', label: 'Email', required: true, aliases: ['email', 'email address', 'e-mail', 'mail', 'candidate email'] },
+  { key: 'phone', label: 'Phone', required: false, aliases: ['phone', 'phone number', 'mobile', 'mobile number', 'contact', 'contact number'] },
+  { key: 'exam_name', label: 'Exam Name', required: true, aliases: ['exam name', 'exam', 'test', 'test name', 'course'] },
+  { key: 'client_name', label: 'Client', required: false, aliases: ['client', 'client name', 'provider', 'exam provider', 'vendor'] },
+  { key: 'exam_date', label: 'Exam Date', required: true, aliases: ['exam date', 'date', 'test date', 'appointment', 'appointment date', 'exam datetime'] },
+  { key: 'notes', label: 'Notes', required: false, aliases: ['notes', 'note', 'comments', 'remarks'] }
+]
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|']
+
+/**
+ * Decode a file buffer to text, honouring byte order marks
+ * Falls back to Windows-1252 for legacy Excel CSV exports that are not valid UTF-8
+ * @param buffer - Raw file contents
+ * @returns Decoded text without BOM
+ */
+export const decodeTextBuffer = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer)
+
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return new TextDecoder('utf-8').decode(bytes.subarray(3))
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return new TextDecoder('utf-16le').decode(bytes.subarray(2))
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return new TextDecoder('utf-16be').decode(bytes.subarray(2))
+  }
+
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+  } catch {
+    return new TextDecoder('windows-1252').decode(bytes)
+  }
+}
+
+/**
+ * Guess the delimiter of a delimited text file from its first record
+ * Quoted sections are ignored so "Kumar, Anil" does not count as a separator
+ * @param text - File contents
+ * @returns The most frequent candidate delimiter, defaulting to comma
+ */
+export const detectDelimiter = (text: string): string => {
+  const counts: { [delimiter: string]: number } = {}
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (char === '"') {
+      inQuotes = !inQuotes
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      break
+    } else if (!inQuotes && CANDIDATE_DELIMITERS.includes(char)) {
+      counts[char] = (counts[char] || 0) + 1
+    }
+  }
+
+  let best = ','
+  let bestCount = 0
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    if ((counts[delimiter] || 0) > bestCount) {
+      best = delimiter
+      bestCount = counts[delimiter]
+    }
+  }
+  return best
+}
+
+/**
+ * Parse delimited text following RFC 4180
+ * Supports quoted fields, escaped quotes ("") and line breaks inside quotes
+ * @param text - File contents (BOM already removed)
+ * @param delimiter - Field separator, detected when omitted
+ * @returns Records as arrays of raw field values, blank lines dropped
+ */
+export const parseCSV = (text: string, delimiter: string = detectDelimiter(text)): string[][] => {
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ''
+  let inQuotes = false
+  let i = 0
+
+  const endRecord = () => {
+    record.push(field)
+    if (record.some(value => value.trim() !== '')) {
+      records.push(record)
+    }
+    record = []
+    field = ''
+  }
+
+  while (i < text.length) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"'
+          i += 2
+          continue
+        }
+        inQuotes = false
+      } else {
+        field += char
+      }
+      i++
+      continue
+    }
+
+    if (char === '"' && field.trim() === '') {
+      field = ''
+      inQuotes = true
+    } else if (char === delimiter) {
+      record.push(field)
+      field = ''
+    } else if (char === '\r') {
+      endRecord()
+      if (text[i + 1] === '\n') i++
+    } else if (char === '\n') {
+      endRecord()
+    } else {
+      field += char
+    }
+    i++
+  }
+
+  if (field !== '' || record.length > 0) {
+    endRecord()
+  }
+
+  return records
+}
+
+const columnIndexFromRef = (ref: string): number => {
+  const letters = ref.replace(/[^A-Z]/gi, '').toUpperCase()
+  let index = 0
+  for (let i = 0; i < letters.length; i++) {
+    index = index * 26 + (letters.charCodeAt(i) - 64)
+  }
+  return index - 1
+}
+
+const readXmlEntry = (files: Record<string, Uint8Array>, path: string): Document | null => {
+  const entry = files[path]
+  if (!entry) return null
+  return new DOMParser().parseFromString(strFromU8(entry), 'application/xml')
+}
+
+const getTextContent = (element: Element | null): string => {
+  if (!element) return ''
+  // Rich text runs (<r><t>) are concatenated, phonetic hints (<rPh>) are skipped
+  const runs = Array.from(element.getElementsByTagName('t')).filter(t => t.parentElement?.localName !== 'rPh')
+  return runs.map(t => t.textContent || '').join('')
+}
+
+/**
+ * Read the first worksheet of an .xlsx workbook
+ * @param buffer - Raw workbook contents
+ * @returns Rows of cell values as strings (numbers and date serials stay unformatted)
+ */
+export const parseXlsx = (buffer: ArrayBuffer): string[][] => {
+  const files = unzipSync(new Uint8Array(buffer))
+
+  const workbook = readXmlEntry(files, 'xl/workbook.xml')
+  const relationships = readXmlEntry(files, 'xl/_rels/workbook.xml.rels')
+  if (!workbook) {
+    throw new Error('File is not a valid Excel workbook')
+  }
+
+  // Resolve the first sheet's part name through the workbook relationships
+  let sheetPath = 'xl/worksheets/sheet1.xml'
+  const firstSheet = workbook.getElementsByTagName('sheet')[0]
+  const relationshipId = firstSheet?.getAttribute('r:id')
+  if (relationships && relationshipId) {
+    const target = Array.from(relationships.getElementsByTagName('Relationship'))
+      .find(rel => rel.getAttribute('Id') === relationshipId)
+      ?.getAttribute('Target')
+    if (target) {
+      sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`
+    }
+  }
+
+  const sheet = readXmlEntry(files, sheetPath)
+  if (!sheet) {
+    throw new Error('Workbook does not contain a readable worksheet')
+  }
+
+  const sharedStringsDoc = readXmlEntry(files, 'xl/sharedStrings.xml')
+  const sharedStrings = sharedStringsDoc
+    ? Array.from(sharedStringsDoc.getElementsByTagName('si')).map(si => getTextContent(si))
+    : []
+
+  const rows: string[][] = []
+  Array.from(sheet.getElementsByTagName('row')).forEach(rowElement => {
+    const row: string[] = []
+    Array.from(rowElement.getElementsByTagName('c')).forEach((cell, position) => {
+      const ref = cell.getAttribute('r')
+      const columnIndex = ref ? columnIndexFromRef(ref) : position
+      const type = cell.getAttribute('t')
+      const rawValue = cell.getElementsByTagName('v')[0]?.textContent || ''
+
+      let value = rawValue
+      if (type === 's') {
+        value = sharedStrings[parseInt(rawValue, 10)] || ''
+      } else if (type === 'inlineStr') {
+        value = getTextContent(cell.getElementsByTagName('is')[0] || null)
+      } else if (type === 'b') {
+        value = rawValue === '1' ? 'TRUE' : 'FALSE'
+      }
+
+      while (row.length < columnIndex) row.push('')
+      row[columnIndex] = value
+    })
+    if (row.some(value => value.trim() !== '')) {
+      rows.push(row)
+    }
+  })
+
+  return rows
+}
+
+/**
+ * Read an uploaded roster file into a header row and data rows
+ * @param file - CSV/TSV/TXT or XLSX file
+ * @returns Parsed sheet with trimmed headers
+ */
+export const readRosterFile = async (file: File): Promise<ParsedSheet> => {
+  const name = file.name.toLowerCase()
+  const buffer = await file.arrayBuffer()
+
+  let records: string[][]
+  if (name.endsWith('.xlsx')) {
+    records = parseXlsx(buffer)
+  } else if (name.endsWith('.xls')) {
+    throw new Error('Legacy .xls workbooks are not supported. Please save the file as .xlsx or CSV and try again.')
+  } else {
+    records = parseCSV(decodeTextBuffer(buffer))
+  }
+
+  if (records.length < 2) {
+    throw new Error('File must contain at least a header row and one data row')
+  }
+
+  const headers = records[0].map(header => header.trim())
+  const width = Math.max(...records.map(record => record.length))
+  const rows = records.slice(1).map(record => {
+    const padded = [...record]
+    while (padded.length < width) padded.push('')
+    return padded
+  })
+
+  return { headers, rows }
+}
+
+const normalizeHeader = (header: string): string =>
+  header.toLowerCase().replace(/[_\-.]+/g, ' ').replace(/\s+/g, ' ').trim()
+
+/**
+ * Suggest which file column feeds each candidate field
+ * Only exact (normalised) alias matches are suggested; the user confirms the rest
+ * @param headers - Header row from the uploaded file
+ * @returns Mapping of candidate field to column index, or null when unmatched
+ */
+export const suggestColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader)
+  const used = new Set<number>()
+  const mapping = {} as ColumnMapping
+
+  CANDIDATE_IMPORT_FIELDS.forEach(field => {
+    const candidates = [field.key, ...field.aliases].map(normalizeHeader)
+    const index = normalized.findIndex((header, i) => !used.has(i) && candidates.includes(header))
+    mapping[field.key] = index === -1 ? null : index
+    if (index !== -1) used.add(index)
+  })
+
+  return mapping
+}
+
+/**
+ * List required fields that have no column assigned
+ * @param mapping - Current column mapping
+ * @returns Labels of unmapped required fields
+ */
+export const getMissingRequiredFields = (mapping: ColumnMapping): string[] => {
+  return CANDIDATE_IMPORT_FIELDS
+    .filter(field => field.required && mapping[field.key] === null)
+    .map(field => field.label)
+}
+
+const SLASH_DATE = /^(\d{1,2})\/(\d{1,2})\/(\d{4})(?:\s+(\d{1,2}):(\d{2}))?$/
+
+/**
+ * Convert an imported date value to an ISO timestamp
+ * Accepts YYYY-MM-DD (optionally with time), slash dates in the given order and Excel date serials
+ * @param value - Raw cell value
+ * @param order - Whether slash dates put the day or the month first
+ * @returns ISO string, or null when the cell is empty
+ */
+export const parseImportDate = (value: string, order: ImportDateOrder = DEFAULT_IMPORT_DATE_ORDER): string | null => {
+  const trimmed = value.trim()
+  if (!trimmed) return null
+
+  // Excel stores dates as days since 1899-12-30 (accounting for the 1900 leap year bug)
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    const serial = parseFloat(trimmed)
+    const utcMillis = Math.round((serial - 25569) * 86400 * 1000)
+    const utcDate = new Date(utcMillis)
+    return new Date(
+      utcDate.getUTCFullYear(), utcDate.getUTCMonth(), utcDate.getUTCDate(),
+      utcDate.getUTCHours(), utcDate.getUTCMinutes()
+    ).toISOString()
+  }
+
+  const slashDate = trimmed.match(SLASH_DATE)
+  if (slashDate) {
+    const [, first, second, year, hours = '0', minutes = '0'] = slashDate
+    const [day, month] = order === 'DMY' ? [+first, +second] : [+second, +first]
+    const date = new Date(+year, month - 1, day, +hours, +minutes)
+    if (date.getMonth() !== month - 1 || date.getDate() !== day) {
+      throw new Error(`"${trimmed}" is not a ${order === 'DMY' ? 'DD/MM/YYYY' : 'MM/DD/YYYY'} date`)
+    }
+    return date.toISOString()
+  }
+
+  const parsed = new Date(trimmed)
+  if (isNaN(parsed.getTime())) {
+    throw new Error(`Unrecognised date "${trimmed}"`)
+  }
+  return parsed.toISOString()
+}
+
+/**
+ * Work out whether a file's slash dates put the day or the month first
+ * A part above 12 can only be the day; files where every date could be read either way keep the default
+ * @param values - Exam date cells
+ * @returns Day and month order the file's dates use
+ */
+export const suggestDateOrder = (values: string[]): ImportDateOrder => {
+  for (const value of values) {
+    const slashDate = value.trim().match(SLASH_DATE)
+    if (slashDate && +slashDate[1] > 12) return 'DMY'
+    if (slashDate && +slashDate[2] > 12) return 'MDY'
+  }
+  return DEFAULT_IMPORT_DATE_ORDER
+}
+
+/**
+ * Build a candidate record from one data row using the confirmed mapping
+ * @param row - Data row values
+ * @param mapping - Confirmed column mapping
+ * @returns Trimmed field values keyed by candidate column
+ */
+export const mapRowToCandidate = (row: string[], mapping: ColumnMapping): Record<CandidateImportField, string> => {
+  const record = {} as Record<CandidateImportField, string>
+  CANDIDATE_IMPORT_FIELDS.forEach(field => {
+    const index = mapping[field.key]
+    record[field.key] = index === null ? '' : (row[index] || '').trim()
+  })
+  return record
+}
@@ -0,0 +1,119 @@
+// Candidate list filter, sort and pagination utilities
+import { CandidateStatus } from './candidateStatus'
+
+export const CANDIDATE_PAGE_SIZE = 25
+
+export type CandidateSortColumn = 'created_at' | 'exam_date' | 'full_name' | 'confirmation_number' | 'status'
+export type SortDirection = 'asc' | 'desc'
+
+export const CANDIDATE_SORT_OPTIONS: { value: CandidateSortColumn; label: string }[] = [
+  { value: 'created_at', label: 'Registered' },
+  { value: 'exam_date', label: 'Exam date' },
+  { value: 'full_name', label: 'Name' },
+  { value: 'confirmation_number', label: 'Confirmation number' },
+  { value: 'status', label: 'Status' }
+]
+
+const CANDIDATE_STATUSES: CandidateStatus[] = ['registered', 'checked_in', 'in_progress', 'completed', 'no_show', 'cancelled']
+
+export interface CandidateListFilters {
+  search: string
+  status: CandidateStatus | 'all'
+  // Exam date in IST, YYYY-MM-DD
+  date: string
+  client: string
+  sort: CandidateSortColumn
+  direction: SortDirection
+  page: number
+}
+
+export const DEFAULT_CANDIDATE_FILTERS: CandidateListFilters = {
+  search: '',
+  status: 'all',
+  date: '',
+  client: '',
+  sort: 'created_at',
+  direction: 'desc',
+  page: 1
+}
+
+/**
+ * Read candidate list filters from a URL query string
+ * Unknown or malformed values fall back to the defaults
+ * @param query - Query string, e.g. window.location.search
+ * @returns Filters
+ */
+export const parseCandidateFilters = (query: string): CandidateListFilters => {
+  const params = new URLSearchParams(query)
+  const status = params.get('status') as CandidateStatus
+  const sort = params.get('sort') as CandidateSortColumn
+  const date = params.get('date') || ''
+  const page = parseInt(params.get('page') || '', 10)
+
+  return {
+    search: params.get('q') || '',
+    status: CANDIDATE_STATUSES.includes(status) ? status : 'all',
+    date: /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : '',
+    client: params.get('client') || '',
+    sort: CANDIDATE_SORT_OPTIONS.some(option => option.value === sort) ? sort : DEFAULT_CANDIDATE_FILTERS.sort,
+    direction: params.get('dir') === 'asc' ? 'asc' : params.get('dir') === 'desc' ? 'desc' : DEFAULT_CANDIDATE_FILTERS.direction,
+    page: page > 0 ? page : 1
+  }
+}
+
+/**
+ * Write candidate list filters to URL query parameters
+ * Only values that differ from the defaults are included, so shared links stay short
+ * @param filters - Filters
+ * @returns Query parameters
+ */
+export const serializeCandidateFilters = (filters: CandidateListFilters): URLSearchParams => {
+  const params = new URLSearchParams()
+  if (filters.search.trim()) params.set('q', filters.search.trim())
+  if (filters.status !== 'all') params.set('status', filters.status)
+  if (filters.date) params.set('date', filters.date)
+  if (filters.client) params.set('client', filters.client)
+  if (filters.sort !== DEFAULT_CANDIDATE_FILTERS.sort) params.set('sort', filters.sort)
+  if (filters.direction !== DEFAULT_CANDIDATE_FILTERS.direction) params.set('dir', filters.direction)
+  if (filters.page > 1) params.set('page', String(filters.page))
+  return params
+}
+
+/**
+ * Build a PostgREST "or" filter that searches name, email, phone and confirmation numbers
+ * Characters that would break the filter syntax or act as wildcards are dropped
+ * @param search - Search text as typed
+ * @returns Filter string, or null when there is nothing to search for
+ */
+export const buildCandidateSearchFilter = (search: string): string | null => {
+  const term = search.replace(/[,()"\\%*]/g, ' ').replace(/\s+/g, ' ').trim()
+  if (!term) return null
+
+  return ['full_name', 'email', 'phone', 'confirmation_number', 'legacy_confirmation_number']
+    .map(column => `${column}.ilike.*${term}*`)
+    .join(',')
+}
+
+/**
+ * Get the start and end of an IST calendar day as ISO timestamps
+ * @param date - Date in YYYY-MM-DD format
+ * @returns Inclusive start and exclusive end of the day
+ */
+export const getISTDayRange = (date: string): { start: string; end: string } => {
+  const start = new Date(`${date}T00:00:00+05:30`)
+  const end = new Date(start.getTime() + 24 * 60 * 60 * 1000)
+  return { start: start.toISOString(), end: end.toISOString() }
+}
+
+/**
+ * Describe which rows of the result set are on the current page
+ * @param page - Current page, starting at 1
+ * @param total - Total matching rows
+ * @returns Label such as "26–50 of 132"
+ */
+export const formatPageRange = (page: number, total: number): string => {
+  if (total === 0) return '0 of 0'
+  const first = (page - 1) * CANDIDATE_PAGE_SIZE + 1
+  const last = Math.min(page * CANDIDATE_PAGE_SIZE, total)
+  return `${first}–${last} of ${total}`
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import {
+  CandidateStatus,
+  formatCandidateStatus,
+  getAllowedTransitions,
+  getTransition,
+  validateStatusTransition
+} from './candidateStatus'
+
+const STATUSES: CandidateStatus[] = ['registered', 'checked_in', 'in_progress', 'completed', 'no_show', 'cancelled']
+
+// Copy of candidate_status_is_revert in 20261019050000_candidate_status_trigger.sql
+const DATABASE_TRANSITIONS: [CandidateStatus, CandidateStatus, boolean][] = [
+  ['registered', 'checked_in', false],
+  ['registered', 'no_show', false],
+  ['registered', 'cancelled', false],
+  ['checked_in', 'in_progress', false],
+  ['checked_in', 'registered', true],
+  ['checked_in', 'cancelled', false],
+  ['in_progress', 'completed', false],
+  ['in_progress', 'checked_in', true],
+  ['completed', 'in_progress', true],
+  ['no_show', 'registered', true],
+  ['no_show', 'checked_in', true],
+  ['cancelled', 'registered', true]
+]
+
+describe('candidate status transitions', () => {
+  it('match the transitions the database allows', () => {
+    const transitions = STATUSES.flatMap(from =>
+      getAllowedTransitions(from).map(transition => [from, transition.to, transition.isRevert])
+    )
+
+    expect(transitions).toEqual(DATABASE_TRANSITIONS)
+  })
+
+  it('never offers a move to the current status', () => {
+    STATUSES.forEach(status => {
+      expect(getTransition(status, status)).toBeUndefined()
+    })
+  })
+})
+
+describe('validateStatusTransition', () => {
+  it('allows forward steps without a reason', () => {
+    expect(validateStatusTransition('registered', 'checked_in')).toBeNull()
+    expect(validateStatusTransition('in_progress', 'completed')).toBeNull()
+  })
+
+  it('requires a reason for corrections', () => {
+    expect(validateStatusTransition('completed', 'in_progress', '  ')).toBe('Reopen Exam requires a reason')
+    expect(validateStatusTransition('no_show', 'checked_in', 'Arrived late, ID checked')).toBeNull()
+  })
+
+  it('rejects transitions outside the table', () => {
+    expect(validateStatusTransition('completed', 'cancelled', 'Refund')).toBe('Cannot change status from Completed to Cancelled')
+    expect(validateStatusTransition('registered', 'in_progress')).toBe('Cannot change status from Registered to In Progress')
+  })
+})
+
+describe('formatCandidateStatus', () => {
+  it('title-cases each word', () => {
+    expect(formatCandidateStatus('no_show')).toBe('No Show')
+  })
+})
@@ -0,0 +1,83 @@
+// Candidate status lifecycle
+// registered → checked_in → in_progress → completed, with no_show and cancelled branches
+
+export type CandidateStatus = 'registered' | 'checked_in' | 'in_progress' | 'completed' | 'no_show' | 'cancelled'
+
+export interface StatusTransition {
+  to: CandidateStatus
+  label: string
+  // Corrections of an earlier step; always require a reason for the audit trail
+  isRevert: boolean
+}
+
+// Mirrored by candidate_status_is_revert, which enforces the same transitions in the database
+const TRANSITIONS: Record<CandidateStatus, StatusTransition[]> = {
+  registered: [
+    { to: 'checked_in', label: 'Check In', isRevert: false },
+    { to: 'no_show', label: 'Mark No Show', isRevert: false },
+    { to: 'cancelled', label: 'Cancel', isRevert: false }
+  ],
+  checked_in: [
+    { to: 'in_progress', label: 'Start Exam', isRevert: false },
+    { to: 'registered', label: 'Revert Check-in', isRevert: true },
+    { to: 'cancelled', label: 'Cancel', isRevert: false }
+  ],
+  in_progress: [
+    { to: 'completed', label: 'Complete', isRevert: false },
+    { to: 'checked_in', label: 'Revert Exam Start', isRevert: true }
+  ],
+  completed: [
+    { to: 'in_progress', label: 'Reopen Exam', isRevert: true }
+  ],
+  no_show: [
+    { to: 'registered', label: 'Revert No Show', isRevert: true },
+    { to: 'checked_in', label: 'Check In (Late Arrival)', isRevert: true }
+  ],
+  cancelled: [
+    { to: 'registered', label: 'Reinstate', isRevert: true }
+  ]
+}
+
+/**
+ * Human readable status label
+ * @param status - Candidate status
+ * @returns Label such as "Checked In"
+ */
+export const formatCandidateStatus = (status: string): string => {
+  return status.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ')
+}
+
+/**
+ * List the statuses a candidate can move to from its current status
+ * @param from - Current status
+ * @returns Allowed transitions
+ */
+export const getAllowedTransitions = (from: CandidateStatus): StatusTransition[] => TRANSITIONS[from] || []
+
+/**
+ * Look up a transition between two statuses
+ * @param from - Current status
+ * @param to - Requested status
+ * @returns The transition, or undefined when it is not allowed
+ */
+export const getTransition = (from: CandidateStatus, to: CandidateStatus): StatusTransition | undefined => {
+  return getAllowedTransitions(from).find(transition => transition.to === to)
+}
+
+/**
+ * Validate a requested status change
+ * @param from - Current status
+ * @param to - Requested status
+ * @param reason - Reason given by staff
+ * @returns Error message, or null when the change is allowed
+ */
+export const validateStatusTransition = (from: CandidateStatus, to: CandidateStatus, reason?: string): string | null => {
+  const transition = getTransition(from, to)
+  if (!transition) {
+    return `Cannot change status from ${formatCandidateStatus(from)} to ${formatCandidateStatus(to)}`
+  }
+  if (transition.isRevert && !reason?.trim()) {
+    return `${transition.label} requires a reason`
+  }
+  return null
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest'
+import { CandidateImportField } from './candidateImport'
+import { isValidEmail, normalizePhone, stageCandidateRows, validateCandidateFields } from './candidateValidation'
+import { SessionOption } from './sessionUtils'
+
+const values = (overrides: Partial<Record<CandidateImportField, string>> = {}): Record<CandidateImportField, string> => ({
+  full_name: 'Asha Menon',
+  email: 'asha@example.com',
+  phone: '',
+  exam_name: 'CELPIP General',
+  client_name: '',
+  exam_date: '2030-05-10T10:00:00+05:30',
+  notes: '',
+  ...overrides
+})
+
+const session = (overrides: Partial<SessionOption> = {}): SessionOption => ({
+  id: 1,
+  client_name: 'Paragon',
+  exam_name: 'CELPIP General',
+  date: '2030-05-10',
+  start_time: '10:00:00',
+  end_time: '13:00:00',
+  candidate_count: 0,
+  capacity: 10,
+  ...overrides
+})
+
+describe('isValidEmail', () => {
+  it('accepts plausible addresses and rejects the rest', () => {
+    expect(isValidEmail(' asha.menon+exam@example.co.in ')).toBe(true)
+    expect(isValidEmail('asha@example')).toBe(false)
+    expect(isValidEmail('asha menon@example.com')).toBe(false)
+  })
+})
+
+describe('normalizePhone', () => {
+  it('writes Indian mobiles and international numbers in E.164', () => {
+    expect(normalizePhone('98765 43210')).toBe('+919876543210')
+    expect(normalizePhone('098765-43210')).toBe('+919876543210')
+    expect(normalizePhone('919876543210')).toBe('+919876543210')
+    expect(normalizePhone('0044 20 7946 0958')).toBe('+442079460958')
+    expect(normalizePhone('+1 (415) 555-0100')).toBe('+14155550100')
+  })
+
+  it('keeps blanks blank and rejects numbers it cannot place', () => {
+    expect(normalizePhone('  ')).toBe('')
+    expect(normalizePhone('12345')).toBeNull()
+    expect(normalizePhone('+12')).toBeNull()
+  })
+})
+
+describe('validateCandidateFields', () => {
+  const now = new Date('2030-01-01T00:00:00Z')
+
+  it('passes a complete row', () => {
+    expect(validateCandidateFields(values(), now)).toEqual([])
+  })
+
+  it('lists every problem with a row', () => {
+    expect(validateCandidateFields(values({ full_name: '', email: 'asha@', phone: '123', exam_date: '2029-12-31T10:00:00Z' }), now))
+      .toEqual(['Full Name is required', 'Email format is invalid', 'Phone number is invalid', 'Exam date is in the past'])
+    expect(validateCandidateFields(values({ exam_date: 'soon' }), now)).toEqual(['Unrecognised date "soon"'])
+  })
+
+  it('reads slash dates in the order given', () => {
+    expect(validateCandidateFields(values({ exam_date: '10/05/2030' }), now, 'DMY')).toEqual([])
+    expect(validateCandidateFields(values({ exam_date: '10/25/2030' }), now, 'DMY')).toEqual(['"10/25/2030" is not a DD/MM/YYYY date'])
+  })
+})
+
+describe('stageCandidateRows', () => {
+  it('skips rows that repeat an email already registered or earlier in the file', () => {
+    const rows = stageCandidateRows(
+      [values(), values({ full_name: 'Asha M', email: 'ASHA@example.com' }), values({ email: 'taken@example.com' })],
+      new Set(['taken@example.com'])
+    )
+
+    expect(rows.map(row => [row.rowNumber, row.action, row.issues])).toEqual([
+      [2, 'accept', []],
+      [3, 'skip', ['Duplicate of row 2 in this file']],
+      [4, 'skip', ['Email taken@example.com already exists']]
+    ])
+  })
+
+  it('normalises phone numbers and keeps ones it cannot read for the user to fix', () => {
+    const rows = stageCandidateRows([values({ phone: '98765 43210' }), values({ email: 'b@example.com', phone: '12' })], new Set())
+
+    expect(rows[0].values.phone).toBe('+919876543210')
+    expect(rows[1].values.phone).toBe('12')
+    expect(rows[1].issues).toEqual(['Phone number is invalid'])
+  })
+
+  it('books rows into the matching session until it is full', () => {
+    const rows = stageCandidateRows(
+      [values(), values({ email: 'b@example.com' }), values({ email: 'c@example.com', exam_name: 'IELTS' })],
+      new Set(),
+      undefined,
+      [session({ candidate_count: 9 })]
+    )
+
+    expect(rows.map(row => [row.sessionId, row.issues])).toEqual([
+      [1, []],
+      [undefined, ['Session is full: Session exceeds maximum capacity of 10 candidates']],
+      [undefined, ['No IELTS session on 2030-05-10']]
+    ])
+  })
+
+  it('adds warnings without blocking the row', () => {
+    const rows = stageCandidateRows([values()], new Set(), () => ['Possible duplicate of Asha Menon'])
+
+    expect(rows[0].action).toBe('accept')
+    expect(rows[0].warnings).toEqual(['Possible duplicate of Asha Menon'])
+  })
+})
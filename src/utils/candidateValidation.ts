@@ -0,0 +1,200 @@
+// Candidate field validation and staging for roster uploads
+import {
+  CANDIDATE_IMPORT_FIELDS,
+  CandidateImportField,
+  DEFAULT_IMPORT_DATE_ORDER,
+  ImportDateOrder,
+  parseImportDate
+} from './candidateImport'
+import { SessionOption, findSessionForExam, validateSessionCapacity } from './sessionUtils'
+
+export type StagedRowAction = 'accept' | 'skip'
+
+export interface StagedCandidateRow {
+  rowNumber: number
+  values: Record<CandidateImportField, string>
+  issues: string[]
+  warnings: string[]
+  action: StagedRowAction
+  // Session the row will be booked into, when one matches
+  sessionId?: number
+}
+
+export type StagedRowWarningCheck = (values: Record<CandidateImportField, string>) => string[]
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/
+
+// Phone numbers without a country code are assumed to be Indian mobiles
+const DEFAULT_COUNTRY_CODE = '91'
+
+/**
+ * Check an email address for a plausible format
+ * @param email - Email address
+ * @returns True if the address looks deliverable
+ */
+export const isValidEmail = (email: string): boolean => EMAIL_PATTERN.test(email.trim())
+
+/**
+ * Normalise a phone number to E.164 (+<country><number>)
+ * @param phone - Phone number as entered
+ * @returns Normalised number, empty string for blank input, or null if invalid
+ */
+export const normalizePhone = (phone: string): string | null => {
+  const trimmed = phone.trim()
+  if (!trimmed) return ''
+
+  const hasPlus = trimmed.startsWith('+') || trimmed.startsWith('00')
+  let digits = trimmed.replace(/\D/g, '')
+  if (trimmed.startsWith('00')) digits = digits.slice(2)
+
+  if (hasPlus) {
+    return digits.length >= 8 && digits.length <= 15 ? `+${digits}` : null
+  }
+  if (digits.length === 10) return `+${DEFAULT_COUNTRY_CODE}${digits}`
+  if (digits.length === 11 && digits.startsWith('0')) return `+${DEFAULT_COUNTRY_CODE}${digits.slice(1)}`
+  if (digits.length === 12 && digits.startsWith(DEFAULT_COUNTRY_CODE)) return `+${digits}`
+  return null
+}
+
+/**
+ * Validate the fields of a single candidate record
+ * @param values - Candidate field values
+ * @param now - Reference time for the future exam date check
+ * @param dateOrder - Whether slash dates put the day or the month first
+ * @returns List of human readable problems, empty when valid
+ */
+export const validateCandidateFields = (
+  values: Record<CandidateImportField, string>,
+  now: Date = new Date(),
+  dateOrder: ImportDateOrder = DEFAULT_IMPORT_DATE_ORDER
+): string[] => {
+  const issues: string[] = []
+
+  CANDIDATE_IMPORT_FIELDS
+    .filter(field => field.required && !values[field.key])
+    .forEach(field => issues.push(`${field.label} is required`))
+
+  if (values.email && !isValidEmail(values.email)) {
+    issues.push('Email format is invalid')
+  }
+
+  if (values.phone && normalizePhone(values.phone) === null) {
+    issues.push('Phone number is invalid')
+  }
+
+  if (values.exam_date) {
+    try {
+      const examDate = parseImportDate(values.exam_date, dateOrder)
+      if (examDate && new Date(examDate) < now) {
+        issues.push('Exam date is in the past')
+      }
+    } catch (error: any) {
+      issues.push(error.message)
+    }
+  }
+
+  return issues
+}
+
+/**
+ * Validate every staged row, including duplicates within the file and against existing candidates
+ * Actions chosen by the user are preserved
+ * @param rows - Staged rows (issues and warnings are recalculated)
+ * @param existingEmails - Lower-cased emails already present in the candidates table
+ * @param checkWarnings - Optional non-blocking checks, e.g. possible duplicates of existing candidates
+ * @param sessions - Sessions on the file's exam dates; rows are matched to one and checked against its capacity
+ * @param dateOrder - Whether slash dates put the day or the month first
+ * @returns Rows with refreshed issues
+ */
+export const validateStagedRows = (
+  rows: StagedCandidateRow[],
+  existingEmails: Set<string>,
+  checkWarnings?: StagedRowWarningCheck,
+  sessions?: SessionOption[],
+  dateOrder: ImportDateOrder = DEFAULT_IMPORT_DATE_ORDER
+): StagedCandidateRow[] => {
+  const now = new Date()
+  const firstRowByEmail = new Map<string, number>()
+  // Seats taken per session, starting from existing registrations and filled in file order
+  const bookedBySession = new Map<number, number>()
+
+  rows.forEach(row => {
+    const email = row.values.email.toLowerCase()
+    if (email && row.action === 'accept' && !firstRowByEmail.has(email)) {
+      firstRowByEmail.set(email, row.rowNumber)
+    }
+  })
+
+  return rows.map(row => {
+    const issues = validateCandidateFields(row.values, now, dateOrder)
+    const email = row.values.email.toLowerCase()
+
+    if (email && existingEmails.has(email)) {
+      issues.push(`Email ${row.values.email} already exists`)
+    }
+    const firstRow = firstRowByEmail.get(email)
+    if (email && firstRow !== undefined && firstRow !== row.rowNumber) {
+      issues.push(`Duplicate of row ${firstRow} in this file`)
+    }
+
+    let sessionId: number | undefined
+    if (sessions && issues.length === 0) {
+      const { session, error } = findSessionForExam(
+        sessions,
+        row.values.exam_name,
+        parseImportDate(row.values.exam_date, dateOrder),
+        row.values.client_name
+      )
+      if (error) {
+        issues.push(error)
+      } else if (session && row.action === 'accept') {
+        const booked = (bookedBySession.get(session.id) ?? session.candidate_count) + 1
+        const capacity = validateSessionCapacity(booked, session.capacity)
+        if (capacity.isValid) {
+          bookedBySession.set(session.id, booked)
+          sessionId = session.id
+        } else {
+          issues.push(`Session is full: ${capacity.error}`)
+        }
+      } else {
+        sessionId = session?.id
+      }
+    }
+
+    return { ...row, issues, sessionId, warnings: checkWarnings ? checkWarnings(row.values) : [] }
+  })
+}
+
+/**
+ * Create staged rows from mapped file values, normalising phone numbers
+ * Rows start accepted when valid and skipped when they need fixing
+ * @param records - Mapped candidate values in file order
+ * @param existingEmails - Lower-cased emails already present in the candidates table
+ * @param checkWarnings - Optional non-blocking checks
+ * @param sessions - Sessions on the file's exam dates
+ * @param dateOrder - Whether slash dates put the day or the month first
+ * @returns Validated staged rows
+ */
+export const stageCandidateRows = (
+  records: Record<CandidateImportField, string>[],
+  existingEmails: Set<string>,
+  checkWarnings?: StagedRowWarningCheck,
+  sessions?: SessionOption[],
+  dateOrder: ImportDateOrder = DEFAULT_IMPORT_DATE_ORDER
+): StagedCandidateRow[] => {
+  const rows: StagedCandidateRow[] = records.map((values, index) => {
+    const phone = normalizePhone(values.phone)
+    return {
+      rowNumber: index + 2,
+      values: { ...values, phone: phone === null ? values.phone : phone },
+      issues: [],
+      warnings: [],
+      action: 'accept'
+    }
+  })
+
+  return validateStagedRows(rows, existingEmails, checkWarnings, sessions, dateOrder).map(row => ({
+    ...row,
+    action: row.issues.length === 0 ? 'accept' : 'skip'
+  }))
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest'
+import { Client, findClient, getClientStyle, getSessionClient, parseAliases, validateClient } from './clients'
+
+const client = (overrides: Partial<Client> = {}): Client => ({
+  id: 'pearson',
+  name: 'Pearson VUE',
+  aliases: ['VUE', 'Pearson'],
+  color: '#1d4ed8',
+  default_session_minutes: 180,
+  late_grace_minutes: 15,
+  no_show_after_minutes: 30,
+  contact_name: null,
+  contact_email: null,
+  contact_phone: null,
+  active: true,
+  ...overrides
+})
+
+const registry = [client(), client({ id: 'prometric', name: 'Prometric', aliases: [] })]
+
+describe('findClient', () => {
+  it('matches names and aliases ignoring case and spaces', () => {
+    expect(findClient(registry, ' pearson vue ')?.id).toBe('pearson')
+    expect(findClient(registry, 'vue')?.id).toBe('pearson')
+    expect(findClient(registry, 'PROMETRIC')?.id).toBe('prometric')
+  })
+
+  it('finds nothing for blank or unknown names', () => {
+    expect(findClient(registry, '  ')).toBeUndefined()
+    expect(findClient(registry, null)).toBeUndefined()
+    expect(findClient(registry, 'ETS')).toBeUndefined()
+  })
+})
+
+describe('getSessionClient', () => {
+  it('uses the linked client before the name on the session', () => {
+    expect(getSessionClient(registry, { client_id: 'prometric', client_name: 'Pearson VUE' })?.id).toBe('prometric')
+    expect(getSessionClient(registry, { client_id: null, client_name: 'VUE' })?.id).toBe('pearson')
+    expect(getSessionClient(registry, { client_id: 'gone', client_name: 'Prometric' })?.id).toBe('prometric')
+  })
+})
+
+describe('getClientStyle', () => {
+  it('picks dark text on light colours and white text on dark ones', () => {
+    expect(getClientStyle('#fde68a')).toEqual({ backgroundColor: '#fde68a', color: '#1f2937' })
+    expect(getClientStyle('#1d4ed8')).toEqual({ backgroundColor: '#1d4ed8', color: '#ffffff' })
+    expect(getClientStyle().backgroundColor).toBe('#6b7280')
+  })
+})
+
+describe('parseAliases', () => {
+  it('trims, drops blanks and keeps one of each alias', () => {
+    expect(parseAliases(' VUE, ,Pearson,vue ')).toEqual(['vue', 'Pearson'])
+    expect(parseAliases('')).toEqual([])
+  })
+})
+
+describe('validateClient', () => {
+  it('accepts a complete client and re-saving an existing one', () => {
+    expect(validateClient(client({ id: undefined, name: 'ETS', aliases: ['Educational Testing Service'] }), registry)).toBeNull()
+    expect(validateClient(client(), registry)).toBeNull()
+  })
+
+  it('checks each field in turn', () => {
+    expect(validateClient(client({ name: ' ' }), registry)).toBe('Enter a client name')
+    expect(validateClient(client({ color: 'blue' }), registry)).toBe('Choose a colour')
+    expect(validateClient(client({ default_session_minutes: 10 }), registry)).toBe('Default session length must be between 15 and 720 minutes')
+    expect(validateClient(client({ no_show_after_minutes: 5 }), registry)).toBe('No-show marking cannot happen before check-in closes')
+    expect(validateClient(client({ contact_email: 'desk@' }), registry)).toBe('Enter a valid contact email')
+  })
+
+  it('rejects names and aliases another client already uses', () => {
+    expect(validateClient(client({ id: 'new', name: 'Pearson', aliases: [] }), registry)).toBe('"Pearson" is already used by Pearson VUE')
+    expect(validateClient(client({ id: 'prometric', name: 'Prometric', aliases: [' vue '] }), registry)).toBe('"vue" is already used by Pearson VUE')
+  })
+})
@@ -0,0 +1,103 @@
+// Client registry helpers: matching names to clients, colours and validation
+// Defaults are mirrored by the clients table in the database
+import { validateAttendancePolicy } from './attendancePolicy'
+
+export const DEFAULT_CLIENT_COLOR = '#6b7280'
+export const DEFAULT_SESSION_MINUTES = 180
+export const MIN_SESSION_MINUTES = 15
+export const MAX_SESSION_MINUTES = 720
+
+export interface Client {
+  id: string
+  name: string
+  aliases: string[]
+  color: string
+  default_session_minutes: number
+  late_grace_minutes: number
+  no_show_after_minutes: number
+  contact_name: string | null
+  contact_email: string | null
+  contact_phone: string | null
+  active: boolean
+}
+
+export const CLIENT_COLUMNS =
+  'id, name, aliases, color, default_session_minutes, late_grace_minutes, no_show_after_minutes, contact_name, contact_email, contact_phone, active'
+
+const normalise = (value: string): string => value.trim().toLowerCase()
+
+/**
+ * Find the client a name refers to
+ * Matches the whole name or an alias, ignoring case, like find_client_id() in the database
+ * @param clients - Client registry
+ * @param name - Client name as entered or imported
+ * @returns Matching client, or undefined
+ */
+export const findClient = (clients: Client[], name?: string | null): Client | undefined => {
+  if (!name?.trim()) return undefined
+  const key = normalise(name)
+  return clients.find(client => normalise(client.name) === key) ||
+    clients.find(client => client.aliases.some(alias => normalise(alias) === key))
+}
+
+/**
+ * Find the client of a session, by id or, for sessions not yet linked, by name
+ * @param clients - Client registry
+ * @param session - Session's client id and name
+ * @returns Client, or undefined
+ */
+export const getSessionClient = (
+  clients: Client[],
+  session: { client_id?: string | null; client_name?: string | null }
+): Client | undefined =>
+  (session.client_id && clients.find(client => client.id === session.client_id)) || findClient(clients, session.client_name)
+
+/**
+ * Background and text colour for a client's badges
+ * @param color - Brand colour, #RRGGBB
+ * @returns Style with dark or light text, whichever reads better on the colour
+ */
+export const getClientStyle = (color: string = DEFAULT_CLIENT_COLOR): { backgroundColor: string; color: string } => {
+  const [r, g, b] = [1, 3, 5].map(start => parseInt(color.slice(start, start + 2), 16) / 255)
+  const luminance = 0.2126 * r + 0.7152 * g + 0.0722 * b
+  return { backgroundColor: color, color: luminance > 0.6 ? '#1f2937' : '#ffffff' }
+}
+
+/**
+ * Split comma-separated aliases
+ * @param text - Aliases as typed
+ * @returns Trimmed aliases without blanks or repeats
+ */
+export const parseAliases = (text: string): string[] =>
+  [...new Map(text.split(',').map(alias => alias.trim()).filter(Boolean).map(alias => [normalise(alias), alias])).values()]
+
+/**
+ * Validate a client before saving
+ * @param client - Client being saved
+ * @param clients - Other clients in the registry
+ * @returns Error message, or null when valid
+ */
+export const validateClient = (client: Omit<Client, 'id'> & { id?: string }, clients: Client[]): string | null => {
+  if (!client.name.trim()) return 'Enter a client name'
+  if (!/^#[0-9a-fA-F]{6}$/.test(client.color)) return 'Choose a colour'
+  if (
+    !Number.isInteger(client.default_session_minutes) ||
+    client.default_session_minutes < MIN_SESSION_MINUTES ||
+    client.default_session_minutes > MAX_SESSION_MINUTES
+  ) {
+    return `Default session length must be between ${MIN_SESSION_MINUTES} and ${MAX_SESSION_MINUTES} minutes`
+  }
+  const policyError = validateAttendancePolicy(client.late_grace_minutes, client.no_show_after_minutes)
+  if (policyError) return policyError
+  if (client.contact_email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(client.contact_email)) {
+    return 'Enter a valid contact email'
+  }
+
+  // A name or alias may only point at one client, or matching would be ambiguous
+  const others = clients.filter(other => other.id !== client.id)
+  for (const name of [client.name, ...client.aliases]) {
+    const clash = findClient(others, name)
+    if (clash) return `"${name.trim()}" is already used by ${clash.name}`
+  }
+  return null
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import {
+  computeCheckCharacter,
+  normalizeConfirmationNumber,
+  parseConfirmationNumber,
+  validateConfirmationNumber
+} from './confirmationNumbers'
+
+describe('computeCheckCharacter', () => {
+  it('matches numbers issued by the database', () => {
+    expect(computeCheckCharacter('ETSKOC2600042')).toBe('3')
+    expect(computeCheckCharacter('FETSKOC26000001')).toBe('G')
+  })
+
+  it('changes when a character is mistyped or two neighbours are swapped', () => {
+    const check = computeCheckCharacter('ETSKOC2600042')
+
+    expect(computeCheckCharacter('ETSKOC2600043')).not.toBe(check)
+    expect(computeCheckCharacter('ETSKOC2600024')).not.toBe(check)
+  })
+})
+
+describe('normalizeConfirmationNumber', () => {
+  it('upper-cases, removes spaces and restores missing dashes', () => {
+    expect(normalizeConfirmationNumber(' ets-koc26-000423 ')).toBe('ETS-KOC26-000423')
+    expect(normalizeConfirmationNumber('etskoc26 000423')).toBe('ETS-KOC26-000423')
+    expect(normalizeConfirmationNumber('FETSKOC26000001G')).toBe('FETS-KOC26-000001G')
+  })
+})
+
+describe('parseConfirmationNumber', () => {
+  it('splits a valid number into its parts', () => {
+    expect(parseConfirmationNumber('ETS-KOC26-000423')).toEqual({ prefix: 'ETS', centreCode: 'KOC', year: 2026, sequence: 42 })
+  })
+
+  it('rejects a wrong check character', () => {
+    expect(parseConfirmationNumber('ETS-KOC26-000424')).toBeNull()
+  })
+})
+
+describe('validateConfirmationNumber', () => {
+  it('accepts valid and legacy numbers', () => {
+    expect(validateConfirmationNumber('ets koc26 000423')).toEqual({ isValid: true, value: 'ETS-KOC26-000423' })
+    expect(validateConfirmationNumber('exam2024-017')).toEqual({ isValid: true, value: 'EXAM2024-017', isLegacy: true })
+  })
+
+  it('explains what is wrong with the input', () => {
+    expect(validateConfirmationNumber('  ').error).toBe('Enter a confirmation number')
+    expect(validateConfirmationNumber('12345').error).toBe('Confirmation numbers look like ETS-KOC26-000423')
+    expect(validateConfirmationNumber('ETS-KOC26-000424').error).toBe('Confirmation number is not valid. Check for typos.')
+  })
+})
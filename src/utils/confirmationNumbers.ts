@@ -0,0 +1,102 @@
+// Candidate confirmation number utilities
+// Numbers are assigned by the database (next_confirmation_number) as
+// {PREFIX}-{CENTRE}{YY}-{SEQUENCE}{CHECK}, e.g. ETS-KOC26-000423
+
+const CHECK_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ'
+
+const CONFIRMATION_NUMBER_PATTERN = /^([A-Z0-9]{2,6})-([A-Z]{3})(\d{2})-(\d{5,})([0-9A-Z])$/
+
+// Numbers issued before sequential numbering (EXAM{year}-{nnn}), kept in legacy_confirmation_number
+const LEGACY_CONFIRMATION_NUMBER_PATTERN = /^EXAM\d{4}-\d{3}$/
+
+// Test centre this installation books candidates into
+export const CENTRE_CODE = (import.meta.env.VITE_CENTRE_CODE || 'KOC').toUpperCase()
+
+// Prefix used when a candidate's client has no configured prefix
+export const DEFAULT_CONFIRMATION_PREFIX = 'FETS'
+
+export interface ParsedConfirmationNumber {
+  prefix: string
+  centreCode: string
+  year: number
+  sequence: number
+}
+
+/**
+ * Compute the Luhn mod 36 check character for a confirmation number body
+ * @param body - Prefix, centre, year and sequence without dashes
+ * @returns Single check character (0-9, A-Z)
+ */
+export const computeCheckCharacter = (body: string): string => {
+  let factor = 2
+  let sum = 0
+
+  for (let i = body.length - 1; i >= 0; i--) {
+    let addend = factor * CHECK_ALPHABET.indexOf(body[i])
+    factor = factor === 2 ? 1 : 2
+    addend = Math.floor(addend / 36) + (addend % 36)
+    sum += addend
+  }
+
+  return CHECK_ALPHABET[(36 - (sum % 36)) % 36]
+}
+
+/**
+ * Normalise a confirmation number typed or scanned at the desk
+ * Upper-cases and removes spaces; dashes are restored when the user left them out
+ * @param input - Raw input
+ * @returns Normalised confirmation number
+ */
+export const normalizeConfirmationNumber = (input: string): string => {
+  const compact = input.toUpperCase().replace(/\s+/g, '')
+  if (compact.includes('-')) return compact
+
+  const match = compact.match(/^([A-Z0-9]{2,6}?)([A-Z]{3}\d{2})(\d{5,}[0-9A-Z])$/)
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : compact
+}
+
+/**
+ * Parse and verify a confirmation number
+ * @param value - Confirmation number (normalised)
+ * @returns Parsed parts, or null if the format or check character is wrong
+ */
+export const parseConfirmationNumber = (value: string): ParsedConfirmationNumber | null => {
+  const match = value.match(CONFIRMATION_NUMBER_PATTERN)
+  if (!match) return null
+
+  const [, prefix, centreCode, year, sequence, check] = match
+  if (computeCheckCharacter(`${prefix}${centreCode}${year}${sequence}`) !== check) {
+    return null
+  }
+
+  return {
+    prefix,
+    centreCode,
+    year: 2000 + parseInt(year, 10),
+    sequence: parseInt(sequence, 10)
+  }
+}
+
+/**
+ * Check a confirmation number entered at the check-in desk
+ * Legacy numbers have no check character and are only format-checked
+ * @param input - Raw input
+ * @returns Validation result with the normalised number or an error message
+ */
+export const validateConfirmationNumber = (input: string): { isValid: boolean; value: string; isLegacy?: boolean; error?: string } => {
+  const value = normalizeConfirmationNumber(input)
+
+  if (!value) {
+    return { isValid: false, value, error: 'Enter a confirmation number' }
+  }
+  if (LEGACY_CONFIRMATION_NUMBER_PATTERN.test(value)) {
+    return { isValid: true, value, isLegacy: true }
+  }
+  if (!CONFIRMATION_NUMBER_PATTERN.test(value)) {
+    return { isValid: false, value, error: 'Confirmation numbers look like ETS-KOC26-000423' }
+  }
+  if (!parseConfirmationNumber(value)) {
+    return { isValid: false, value, error: 'Confirmation number is not valid. Check for typos.' }
+  }
+  return { isValid: true, value }
+}
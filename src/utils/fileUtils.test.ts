@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest'
+import { escapeCSVValue, toCSV } from './fileUtils'
+
+describe('escapeCSVValue', () => {
+  it('neutralises text a spreadsheet would run as a formula', () => {
+    expect(escapeCSVValue('=HYPERLINK("http://example.com")')).toBe(`"'=HYPERLINK(""http://example.com"")"`)
+    expect(escapeCSVValue('+SUM(A1:A2)')).toBe(`'+SUM(A1:A2)`)
+    expect(escapeCSVValue('-2+3')).toBe(`'-2+3`)
+    expect(escapeCSVValue('@cmd')).toBe(`'@cmd`)
+  })
+
+  it('leaves phone numbers and plain numbers as they are', () => {
+    expect(escapeCSVValue('+919876543210')).toBe('+919876543210')
+    expect(escapeCSVValue('-12.5')).toBe('-12.5')
+    expect(escapeCSVValue(-3)).toBe('-3')
+  })
+
+  it('quotes delimiters, quotes and line breaks', () => {
+    expect(toCSV(['Name', 'Notes'], [['Asha, R', 'Said "hi"\nlater'], [null, undefined]]))
+      .toBe('Name,Notes\r\n"Asha, R","Said ""hi""\nlater"\r\n,')
+  })
+})
@@ -0,0 +1,152 @@
+// Browser file helpers for generated downloads
+import { strToU8, zipSync } from 'fflate'
+
+// A phone number in E.164 form, or a signed decimal
+const PLAIN_NUMBER = /^(\+\d+|-?\d+(\.\d+)?)$/
+
+/**
+ * Escape a single value for CSV output (RFC 4180)
+ * Text starting with =, +, -, @, tab or carriage return is prefixed with ' so spreadsheets
+ * opening the file do not run it as a formula; numbers, including text such as -12.5 and
+ * phone numbers stored as +919876543210, are left as they are
+ * @param value - Cell value
+ * @returns Value quoted when it contains a delimiter, quote or line break
+ */
+export const escapeCSVValue = (value: string | number | null | undefined): string => {
+  let text = value === null || value === undefined ? '' : String(value)
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text) && !PLAIN_NUMBER.test(text)) {
+    text = `'${text}`
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Escape text for insertion into generated HTML
+ * @param value - Text
+ * @returns HTML-safe text
+ */
+export const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+/**
+ * Serialise rows to CSV text
+ * @param headers - Header row
+ * @param rows - Data rows
+ * @returns CSV text with CRLF line endings
+ */
+export const toCSV = (headers: string[], rows: (string | number | null | undefined)[][]): string => {
+  return [headers, ...rows].map(row => row.map(escapeCSVValue).join(',')).join('\r\n')
+}
+
+/**
+ * Trigger a browser download for generated content
+ * @param content - File contents
+ * @param filename - Suggested file name
+ * @param mimeType - Content type of the file
+ */
+export const downloadFile = (content: BlobPart, filename: string, mimeType: string): void => {
+  const blob = new Blob([content], { type: mimeType })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Download rows as a CSV file
+ * A UTF-8 BOM is prepended so Excel opens non-ASCII names correctly
+ * @param filename - Suggested file name
+ * @param headers - Header row
+ * @param rows - Data rows
+ */
+export const downloadCSV = (filename: string, headers: string[], rows: (string | number | null | undefined)[][]): void => {
+  downloadFile('\uFEFF' + toCSV(headers, rows), filename, 'text/csv;charset=utf-8')
+}
+
+// Characters XML 1.0 does not allow, even escaped
+// eslint-disable-next-line no-control-regex
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g
+
+const getColumnLetter = (index: number): string => {
+  let letter = ''
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter
+  }
+  return letter
+}
+
+const toXLSXCell = (value: string | number | null | undefined, rowIndex: number, columnIndex: number): string => {
+  const ref = `${getColumnLetter(columnIndex)}${rowIndex + 1}`
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return `<c r="${ref}"><v>${value}</v></c>`
+  }
+  const text = value === null || value === undefined ? '' : String(value)
+  if (!text) return ''
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeHtml(text.replace(INVALID_XML_CHARS, ''))}</t></is></c>`
+}
+
+/**
+ * Build a single-sheet Excel workbook
+ * Strings are written inline so no shared string table is needed
+ * @param headers - Header row
+ * @param rows - Data rows
+ * @param sheetName - Worksheet name
+ * @returns XLSX file contents
+ */
+export const toXLSX = (headers: string[], rows: (string | number | null | undefined)[][], sheetName = 'Sheet1'): Uint8Array => {
+  const sheetRows = [headers, ...rows]
+    .map((row, rowIndex) => `<row r="${rowIndex + 1}">${row.map((value, columnIndex) => toXLSXCell(value, rowIndex, columnIndex)).join('')}</row>`)
+    .join('')
+  const safeSheetName = escapeHtml(sheetName.replace(/[\\/?*[\]:]/g, ' ').slice(0, 31))
+
+  return zipSync({
+    '[Content_Types].xml': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '</Types>'
+    ),
+    '_rels/.rels': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>'
+    ),
+    'xl/workbook.xml': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      `<sheets><sheet name="${safeSheetName}" sheetId="1" r:id="rId1"/></sheets>` +
+      '</workbook>'
+    ),
+    'xl/_rels/workbook.xml.rels': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      '</Relationships>'
+    ),
+    'xl/worksheets/sheet1.xml': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      `<sheetData>${sheetRows}</sheetData>` +
+      '</worksheet>'
+    )
+  })
+}
+
+/**
+ * Download rows as an Excel workbook
+ * @param filename - Suggested file name
+ * @param headers - Header row
+ * @param rows - Data rows
+ * @param sheetName - Worksheet name
+ */
+export const downloadXLSX = (filename: string, headers: string[], rows: (string | number | null | undefined)[][], sheetName?: string): void => {
+  downloadFile(toXLSX(headers, rows, sheetName), filename, 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet')
+}
@@ -0,0 +1,69 @@
+// Candidate photo ID verification at check-in
+
+export type IdType = 'passport' | 'aadhaar' | 'driving_licence' | 'pan' | 'voter_id' | 'other'
+
+export interface IdVerification {
+  id: string
+  candidate_id: string
+  id_type: IdType
+  id_last4: string
+  photo_path?: string | null
+  photo_purged_at?: string | null
+  verified_by: string
+  verified_at: string
+}
+
+export const ID_TYPES: { value: IdType; label: string }[] = [
+  { value: 'passport', label: 'Passport' },
+  { value: 'aadhaar', label: 'Aadhaar Card' },
+  { value: 'driving_licence', label: 'Driving Licence' },
+  { value: 'pan', label: 'PAN Card' },
+  { value: 'voter_id', label: 'Voter ID' },
+  { value: 'other', label: 'Other Government ID' }
+]
+
+export const ID_VERIFICATION_PHOTOS_BUCKET = 'id-verification-photos'
+
+// Mirrors the default in expired_id_verification_photos()
+export const DEFAULT_PHOTO_RETENTION_DAYS = 30
+export const MAX_PHOTO_RETENTION_DAYS = 365
+
+/**
+ * Human readable ID type
+ * @param idType - ID type
+ * @returns Label such as "Driving Licence"
+ */
+export const formatIdType = (idType: string): string => {
+  return ID_TYPES.find(t => t.value === idType)?.label || idType
+}
+
+/**
+ * Mask an ID number down to the stored last four characters
+ * @param last4 - Last four characters of the ID number
+ * @returns Masked number such as "•••• 4821"
+ */
+export const maskIdNumber = (last4: string): string => `•••• ${last4.toUpperCase()}`
+
+/**
+ * Validate the last four characters of an ID number
+ * @param last4 - Value typed by staff
+ * @returns Error message, or null when valid
+ */
+export const validateIdLast4 = (last4: string): string | null => {
+  if (!/^[A-Za-z0-9]{4}$/.test(last4.trim())) {
+    return 'Enter exactly the last 4 letters or digits of the ID number'
+  }
+  return null
+}
+
+/**
+ * Validate a photo retention period
+ * @param days - Days to keep photos
+ * @returns Error message, or null when valid
+ */
+export const validatePhotoRetentionDays = (days: number): string | null => {
+  if (!Number.isInteger(days) || days < 1 || days > MAX_PHOTO_RETENTION_DAYS) {
+    return `Retention must be between 1 and ${MAX_PHOTO_RETENTION_DAYS} days`
+  }
+  return null
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest'
+import { GeneratorStaff, RosterGeneratorInput, checkRoster, generateRoster } from './rosterGenerator'
+import { getWeekday } from './sessionRecurrence'
+
+const person = (id: string, overrides: Partial<GeneratorStaff> = {}): GeneratorStaff => ({
+  id,
+  name: id,
+  role: 'staff',
+  skills: [],
+  preferred_rest_days: [],
+  ...overrides
+})
+
+describe('generateRoster', () => {
+  it('staggers rest days when working everyone early would leave a later day short', () => {
+    // Tue 1, Wed 1, Thu 2: working both on Tue and Wed forces both to rest on Thu
+    const input: RosterGeneratorInput = {
+      dates: ['2026-11-03', '2026-11-04', '2026-11-05'],
+      staff: [person('a'), person('b')],
+      needs: [
+        { date: '2026-11-03', staff: 1, skills: [] },
+        { date: '2026-11-04', staff: 1, skills: [] },
+        { date: '2026-11-05', staff: 2, skills: [] }
+      ],
+      fixed: [],
+      carryIn: {},
+      maxConsecutiveDays: 2
+    }
+
+    const roster = generateRoster(input)
+
+    expect(checkRoster(input, roster)).toEqual([])
+    expect(roster.filter(entry => entry.date === '2026-11-05').map(entry => entry.shift_code)).toEqual(['D', 'D'])
+  })
+
+  it('keeps leave and leaves a day short only when no roster can cover it', () => {
+    const input: RosterGeneratorInput = {
+      dates: ['2026-11-03', '2026-11-04'],
+      staff: [person('a'), person('b', { skills: ['CELPIP'] })],
+      needs: [
+        { date: '2026-11-03', staff: 2, skills: ['CELPIP'] },
+        { date: '2026-11-04', staff: 2, skills: [] }
+      ],
+      fixed: [{ profile_id: 'b', date: '2026-11-03', shift_code: 'L' }],
+      carryIn: {},
+      maxConsecutiveDays: 6
+    }
+
+    const roster = generateRoster(input)
+
+    expect(roster).toContainEqual({ profile_id: 'b', date: '2026-11-03', shift_code: 'L' })
+    expect(checkRoster(input, roster)).toEqual([
+      { date: '2026-11-03', message: 'Short 1 staff: 2 needed, 1 at work' },
+      { date: '2026-11-03', message: 'No one at work with CELPIP' }
+    ])
+  })
+
+  it('covers a month without anyone working more days in a row than the limit', () => {
+    const dates = Array.from({ length: 30 }, (_, i) => `2026-11-${String(i + 1).padStart(2, '0')}`)
+    const staff = ['a', 'b', 'c', 'd', 'e', 'f'].map((id, i) => person(id, { preferred_rest_days: [i % 5 + 1] }))
+    const input: RosterGeneratorInput = {
+      dates,
+      staff,
+      needs: dates.map(date => ({ date, staff: [0, 6].includes(getWeekday(date)) ? 2 : 4, skills: [] })),
+      fixed: [],
+      carryIn: { a: 5, b: 6 },
+      maxConsecutiveDays: 5
+    }
+
+    const roster = generateRoster(input)
+
+    expect(checkRoster(input, roster)).toEqual([])
+    expect(roster.filter(entry => entry.date === '2026-11-01' && entry.profile_id === 'b')[0].shift_code).toBe('RD')
+  })
+
+  it('keeps overtime already on the roster and counts it towards the day', () => {
+    const input: RosterGeneratorInput = {
+      dates: ['2026-11-07'],
+      staff: [person('a'), person('b')],
+      needs: [{ date: '2026-11-07', staff: 1, skills: [] }],
+      fixed: [{ profile_id: 'a', date: '2026-11-07', shift_code: 'OT' }],
+      carryIn: {},
+      maxConsecutiveDays: 6
+    }
+
+    const roster = generateRoster(input)
+
+    expect(roster).toEqual([
+      { profile_id: 'a', date: '2026-11-07', shift_code: 'OT' },
+      { profile_id: 'b', date: '2026-11-07', shift_code: 'RD' }
+    ])
+    expect(checkRoster(input, [{ profile_id: 'a', date: '2026-11-07', shift_code: 'RD' }, roster[1]])).toContainEqual(
+      { date: '2026-11-07', message: 'a is rostered for overtime' }
+    )
+  })
+})
@@ -0,0 +1,460 @@
+// Roster generator: fills a month with day and rest shifts around leave, session load, rest limits and preferences
+import { addDays, getWeekday } from './sessionRecurrence'
+import { StaffedSession, getDayCoverage } from './staffCoverage'
+import { WORKING_SHIFT_CODES } from './rosterShifts'
+
+export interface GeneratorStaff {
+  id: string
+  name: string
+  role: string
+  skills: string[]
+  // Days of the week, 0 = Sunday
+  preferred_rest_days: number[]
+}
+
+export interface SkilledSession extends StaffedSession {
+  required_skills?: string[] | null
+}
+
+export interface RosterDayNeed {
+  date: string
+  // Staff who must be at work
+  staff: number
+  // Skills or roles someone at work must have
+  skills: string[]
+}
+
+export interface RosterEntry {
+  profile_id: string
+  date: string
+  shift_code: string
+}
+
+export interface RosterGeneratorInput {
+  dates: string[]
+  staff: GeneratorStaff[]
+  needs: RosterDayNeed[]
+  // Approved leave and other entries the generator keeps as they are
+  fixed: RosterEntry[]
+  // Days each staff member has worked in a row before the first date
+  carryIn: Record<string, number>
+  maxConsecutiveDays: number
+}
+
+export interface RosterIssue {
+  date: string
+  message: string
+}
+
+export interface RosterStaffSummary {
+  profile_id: string
+  workingDays: number
+  weekendDays: number
+  // Preferred rest days in the period, and how many of them are rest days
+  preferredRestDays: number
+  preferredRestKept: number
+}
+
+export const DEFAULT_MAX_CONSECUTIVE_DAYS = 6
+export const MAX_CONSECUTIVE_DAYS_LIMIT = 14
+
+// Entries an admin or an approved request put on the roster, which a generated draft never replaces
+export const FIXED_SHIFT_CODES = ['L', 'TOIL', 'HD', 'OT']
+
+// How a roster check describes a fixed entry the roster no longer matches
+const FIXED_SHIFT_DESCRIPTIONS: Record<string, string> = {
+  L: 'on leave',
+  TOIL: 'on time off in lieu',
+  HD: 'on a half day',
+  OT: 'rostered for overtime'
+}
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+const isWorking = (shiftCode: string | undefined): boolean => !!shiftCode && WORKING_SHIFT_CODES.includes(shiftCode)
+
+const isWeekend = (date: string): boolean => {
+  const weekday = getWeekday(date)
+  return weekday === 0 || weekday === 6
+}
+
+/**
+ * Split a comma-separated list of skills
+ * @param text - Skills as typed, e.g. "Pearson VUE, CELPIP"
+ * @returns Trimmed skills without blanks or repeats
+ */
+export const parseSkills = (text: string): string[] => {
+  const skills: string[] = []
+  text.split(',').map(skill => skill.trim()).forEach(skill => {
+    if (skill && !skills.some(other => other.toLowerCase() === skill.toLowerCase())) skills.push(skill)
+  })
+  return skills
+}
+
+/**
+ * Whether a staff member can cover a skill, by their listed skills or their role
+ * @param staff - Staff member
+ * @param skill - Skill or role a session needs
+ * @returns True when the skill or role matches, ignoring case
+ */
+export const hasSkill = (staff: GeneratorStaff, skill: string): boolean => {
+  const key = skill.trim().toLowerCase()
+  return staff.role.toLowerCase() === key || staff.skills.some(own => own.trim().toLowerCase() === key)
+}
+
+/**
+ * Validate the longest run of working days
+ * @param days - Days as entered
+ * @returns Error message, or null when valid
+ */
+export const validateMaxConsecutiveDays = (days: number): string | null => {
+  if (!Number.isInteger(days) || days < 1 || days > MAX_CONSECUTIVE_DAYS_LIMIT) {
+    return `Consecutive working days must be a whole number from 1 to ${MAX_CONSECUTIVE_DAYS_LIMIT}`
+  }
+  return null
+}
+
+/**
+ * Staff and skills each day needs, from the calendar sessions
+ * Any day with a session needs at least one person at work
+ * @param dates - Dates to plan, YYYY-MM-DD
+ * @param sessions - Sessions on those dates
+ * @param candidatesPerInvigilator - Centre's staffing ratio
+ * @returns One need per date, in the order given
+ */
+export const getRosterNeeds = (
+  dates: string[],
+  sessions: SkilledSession[],
+  candidatesPerInvigilator: number
+): RosterDayNeed[] => dates.map(date => {
+  const daySessions = sessions.filter(session => session.date === date)
+  const coverage = getDayCoverage(date, daySessions, [], candidatesPerInvigilator)
+  return {
+    date,
+    staff: Math.max(coverage.required, daySessions.length > 0 ? 1 : 0),
+    skills: parseSkills(daySessions.flatMap(session => session.required_skills || []).join(','))
+  }
+})
+
+/**
+ * Working days each staff member has in a row up to the day before a date
+ * @param staffIds - Staff profile ids
+ * @param shifts - Roster entries before the date
+ * @param date - First date being planned, YYYY-MM-DD
+ * @returns Days in a row, by profile id
+ */
+export const getCarryInStreaks = (staffIds: string[], shifts: RosterEntry[], date: string): Record<string, number> => {
+  const streaks: Record<string, number> = {}
+  staffIds.forEach(id => {
+    const worked = new Set(shifts.filter(shift => shift.profile_id === id && isWorking(shift.shift_code)).map(shift => shift.date))
+    let streak = 0
+    while (worked.has(addDays(date, -(streak + 1)))) streak++
+    streaks[id] = streak
+  })
+  return streaks
+}
+
+// Choices the search may try before it settles for a roster that leaves a day short
+const SEARCH_STEP_LIMIT = 20000
+
+interface PlannedDay {
+  date: string
+  weekday: number
+  weekend: boolean
+  staff: number
+  skills: string[]
+  // Fixed shift code by staff index, undefined where the generator decides
+  fixed: (string | undefined)[]
+}
+
+interface RosterSearch {
+  // Shift codes by day, then staff index; null when no roster meets every need
+  codes: (string | undefined)[][] | null
+  // Dead ends each day caused, by staff count and by skills
+  staffFailures: number[]
+  skillFailures: number[]
+}
+
+/**
+ * Depth-first search for a roster that meets every day's need, one staff member and day at a time
+ * Each choice tries what the staff member would rather do first, so the first roster found keeps as many
+ * preferences as the needs allow; a day is abandoned as soon as the staff still unplaced cannot cover it, or the
+ * current runs of working days leave too few working days for the fortnight ahead
+ * @param days - Days to plan, in date order
+ * @param staff - Staff, in the order the codes are kept
+ * @param carryIn - Days each staff member has worked in a row before the first day
+ * @param maxConsecutiveDays - Longest run of working days
+ * @returns The roster found, and where the search ran into dead ends
+ */
+const searchRoster = (
+  days: PlannedDay[],
+  staff: GeneratorStaff[],
+  carryIn: number[],
+  maxConsecutiveDays: number
+): RosterSearch => {
+  const codes = days.map(day => [...day.fixed])
+  const streaks = [...carryIn]
+  const weekendsWorked = staff.map(() => 0)
+  const daysWorked = staff.map(() => 0)
+  const staffFailures = days.map(() => 0)
+  const skillFailures = days.map(() => 0)
+  let steps = 0
+
+  const canCoverDay = (dayIndex: number, unplaced: number[]): boolean => {
+    const day = days[dayIndex]
+    const possible = staff.filter((_, i) => isWorking(codes[dayIndex][i]) || unplaced.includes(i))
+    if (possible.length < day.staff) {
+      staffFailures[dayIndex]++
+      return false
+    }
+    if (day.skills.some(skill => !possible.some(person => hasSkill(person, skill)))) {
+      skillFailures[dayIndex]++
+      return false
+    }
+    return true
+  }
+
+  // Working whenever the limit allows gives each staff member the most working days in every stretch ahead
+  const canCoverAhead = (dayIndex: number): boolean => {
+    const length = Math.min(days.length - dayIndex, 2 * (maxConsecutiveDays + 1))
+    if (length === 0) return true
+    const reachable = staff.map((_, i) => {
+      let streak = streaks[i]
+      let worked = 0
+      return days.slice(dayIndex, dayIndex + length).map(day => {
+        const fixedCode = day.fixed[i]
+        if (fixedCode !== undefined ? isWorking(fixedCode) : streak < maxConsecutiveDays) {
+          streak++
+          worked++
+        } else {
+          streak = 0
+        }
+        return worked
+      })
+    })
+
+    let needed = 0
+    for (let offset = 0; offset < length; offset++) {
+      needed += days[dayIndex + offset].staff
+      if (reachable.reduce((sum, worked) => sum + worked[offset], 0) < needed) {
+        for (let d = dayIndex; d <= dayIndex + offset; d++) staffFailures[d]++
+        return false
+      }
+    }
+    const ready = staff.filter((_, i) => reachable[i][0] === 1)
+    if (days[dayIndex].skills.some(skill => !ready.some(person => hasSkill(person, skill)))) {
+      skillFailures[dayIndex]++
+      return false
+    }
+    return true
+  }
+
+  const finishDay = (dayIndex: number): boolean => {
+    const weekend = days[dayIndex].weekend
+    const saved = [[...streaks], [...weekendsWorked], [...daysWorked]]
+    staff.forEach((_, i) => {
+      if (isWorking(codes[dayIndex][i])) {
+        streaks[i]++
+        daysWorked[i]++
+        if (weekend) weekendsWorked[i]++
+      } else {
+        streaks[i] = 0
+      }
+    })
+    if (canCoverAhead(dayIndex + 1) && planDay(dayIndex + 1)) return true
+    streaks.splice(0, streaks.length, ...saved[0])
+    weekendsWorked.splice(0, weekendsWorked.length, ...saved[1])
+    daysWorked.splice(0, daysWorked.length, ...saved[2])
+    return false
+  }
+
+  const planDay = (dayIndex: number): boolean => {
+    if (dayIndex === days.length) return true
+    const day = days[dayIndex]
+    const open: number[] = []
+    staff.forEach((_, i) => {
+      if (day.fixed[i] !== undefined) return
+      if (streaks[i] >= maxConsecutiveDays) codes[dayIndex][i] = 'RD'
+      else open.push(i)
+    })
+
+    const prefersRest = (i: number): boolean => staff[i].preferred_rest_days.includes(day.weekday)
+    // Preferred rest days first, then whoever has worked the most weekends, then the most days
+    open.sort((a, b) =>
+      Number(prefersRest(b)) - Number(prefersRest(a)) ||
+      weekendsWorked[b] - weekendsWorked[a] ||
+      daysWorked[b] - daysWorked[a] ||
+      streaks[b] - streaks[a]
+    )
+
+    const place = (position: number): boolean => {
+      if (position === open.length) return finishDay(dayIndex)
+      const i = open[position]
+      const choices = prefersRest(i) || day.weekend ? ['RD', 'D'] : ['D', 'RD']
+      for (const code of choices) {
+        if (++steps > SEARCH_STEP_LIMIT) return false
+        codes[dayIndex][i] = code
+        if (canCoverDay(dayIndex, open.slice(position + 1)) && place(position + 1)) return true
+      }
+      return false
+    }
+
+    return canCoverDay(dayIndex, open) && place(0)
+  }
+
+  const found = canCoverAhead(0) && planDay(0)
+  return { codes: found ? codes : null, staffFailures, skillFailures }
+}
+
+/**
+ * Build a roster for the dates, one entry per staff member per day
+ *
+ * Fixed entries stay, and nobody works more than the limit of days in a row. Within that, the search looks for a
+ * roster that gives every day the staff and skills it needs, backtracking over where rest days fall when an early
+ * choice would leave a later day short. Staff work a day shift unless they would rather rest (a preferred rest day,
+ * or a weekend); weekend rest goes first to whoever has worked the most weekend days so far, which spreads weekends
+ * evenly. When no roster can meet every need, the day behind the most dead ends is planned for one person fewer and
+ * the search runs again, so the draft is as close to covered as the search can find and checkRoster reports the gap.
+ * @param input - Staff, needs and constraints
+ * @returns Roster entries by date, then staff order
+ */
+export const generateRoster = (input: RosterGeneratorInput): RosterEntry[] => {
+  const { staff, maxConsecutiveDays } = input
+  const carryIn = staff.map(person => input.carryIn[person.id] || 0)
+
+  const days: PlannedDay[] = [...input.dates].sort().map(date => {
+    const need = input.needs.find(n => n.date === date) || { date, staff: 0, skills: [] }
+    const fixed = staff.map(person => input.fixed.find(entry => entry.profile_id === person.id && entry.date === date)?.shift_code)
+    // Leave can put a day out of reach; plan it for everyone who is not away instead
+    const available = staff.filter((_, i) => fixed[i] === undefined || isWorking(fixed[i]))
+    return {
+      date,
+      weekday: getWeekday(date),
+      weekend: isWeekend(date),
+      staff: Math.min(need.staff, available.length),
+      skills: need.skills.filter(skill => available.some(person => hasSkill(person, skill))),
+      fixed
+    }
+  })
+
+  // Nobody works every day of a stretch one day longer than the limit, so cap each stretch at what staff can give,
+  // trimming its busiest day, the latest on a tie so the cut also counts towards the stretches after it
+  for (let start = 0; start + maxConsecutiveDays < days.length; start++) {
+    const stretch = days.slice(start, start + maxConsecutiveDays + 1)
+    const capacity = staff.reduce((sum, _, i) =>
+      sum + Math.min(maxConsecutiveDays, stretch.filter(day => day.fixed[i] === undefined || isWorking(day.fixed[i])).length), 0)
+    let needed = stretch.reduce((sum, day) => sum + day.staff, 0)
+    while (needed > capacity) {
+      stretch.reduce((busiest, day) => day.staff >= busiest.staff ? day : busiest).staff--
+      needed--
+    }
+  }
+
+  const target = days.map(day => day.staff)
+  let search = searchRoster(days, staff, carryIn, maxConsecutiveDays)
+  while (!search.codes) {
+    const { staffFailures, skillFailures } = search
+    const relaxable = days.map((_, d) => d).filter(d => days[d].staff > 0 || days[d].skills.length > 0)
+    if (relaxable.length === 0) throw new Error('No roster fits the fixed entries')
+    const failures = (d: number) => staffFailures[d] + skillFailures[d]
+    const worst = relaxable.reduce((best, d) => failures(d) > failures(best) ? d : best)
+    const day = days[worst]
+    if (day.skills.length > 0 && (day.staff === 0 || skillFailures[worst] > staffFailures[worst])) {
+      day.skills = []
+    } else {
+      day.staff--
+    }
+    search = searchRoster(days, staff, carryIn, maxConsecutiveDays)
+  }
+  let codes = search.codes
+
+  // Giving up on the day behind the most dead ends can give up more than it had to; take back what still fits
+  for (let d = 0; d < days.length; d++) {
+    while (days[d].staff < target[d]) {
+      days[d].staff++
+      const fuller = searchRoster(days, staff, carryIn, maxConsecutiveDays).codes
+      if (!fuller) {
+        days[d].staff--
+        break
+      }
+      codes = fuller
+    }
+  }
+
+  return days.flatMap((day, d) => staff.map((person, i) => ({
+    profile_id: person.id,
+    date: day.date,
+    shift_code: codes[d][i] || 'RD'
+  })))
+}
+
+/**
+ * Check a roster, generated or edited, against the same constraints the generator works to
+ * @param input - Staff, needs and constraints
+ * @param entries - Roster entries for the dates
+ * @returns Problems found, in date order
+ */
+export const checkRoster = (input: RosterGeneratorInput, entries: RosterEntry[]): RosterIssue[] => {
+  const issues: RosterIssue[] = []
+  const streaks: Record<string, number> = {}
+  input.staff.forEach(person => { streaks[person.id] = input.carryIn[person.id] || 0 })
+  const dates = [...input.dates].sort()
+
+  dates.forEach(date => {
+    const need = input.needs.find(n => n.date === date)
+    const codeFor = (id: string) => entries.find(entry => entry.profile_id === id && entry.date === date)?.shift_code
+    const atWork = input.staff.filter(person => isWorking(codeFor(person.id)))
+
+    if (need && atWork.length < need.staff) {
+      const short = need.staff - atWork.length
+      issues.push({ date, message: `Short ${short} staff: ${need.staff} needed, ${atWork.length} at work` })
+    }
+    need?.skills.forEach(skill => {
+      if (!atWork.some(person => hasSkill(person, skill))) {
+        issues.push({ date, message: `No one at work with ${skill}` })
+      }
+    })
+
+    input.staff.forEach(person => {
+      const code = codeFor(person.id)
+      const fixedEntry = input.fixed.find(entry => entry.profile_id === person.id && entry.date === date)
+      if (fixedEntry && code !== fixedEntry.shift_code) {
+        issues.push({ date, message: `${person.name} is ${FIXED_SHIFT_DESCRIPTIONS[fixedEntry.shift_code] || `rostered as ${fixedEntry.shift_code}`}` })
+      }
+
+      streaks[person.id] = isWorking(code) ? streaks[person.id] + 1 : 0
+      if (streaks[person.id] === input.maxConsecutiveDays + 1) {
+        issues.push({ date, message: `${person.name} works more than ${input.maxConsecutiveDays} days in a row` })
+      }
+    })
+  })
+
+  return issues
+}
+
+/**
+ * Working days, weekends and kept rest preferences for each staff member
+ * @param input - Staff and dates
+ * @param entries - Roster entries for the dates
+ * @returns One summary per staff member, in staff order
+ */
+export const summariseRoster = (input: RosterGeneratorInput, entries: RosterEntry[]): RosterStaffSummary[] =>
+  input.staff.map(person => {
+    const summary: RosterStaffSummary = {
+      profile_id: person.id,
+      workingDays: 0,
+      weekendDays: 0,
+      preferredRestDays: 0,
+      preferredRestKept: 0
+    }
+    input.dates.forEach(date => {
+      const working = isWorking(entries.find(entry => entry.profile_id === person.id && entry.date === date)?.shift_code)
+      if (working) summary.workingDays++
+      if (working && isWeekend(date)) summary.weekendDays++
+      if (person.preferred_rest_days.includes(getWeekday(date))) {
+        summary.preferredRestDays++
+        if (!working) summary.preferredRestKept++
+      }
+    })
+    return summary
+  })
@@ -0,0 +1,15 @@
+// Roster shift codes, shared by the roster grid and the roster generator
+
+export const SHIFT_CODES = {
+  'D': { name: 'Day Shift (8AM-5PM)', color: 'bg-gradient-to-r from-turquoise to-cyan', textColor: 'text-white' },
+  'HD': { name: 'Half Day', color: 'bg-gradient-to-r from-green-400 to-green-600', textColor: 'text-white' },
+  'RD': { name: 'Rest Day', color: 'bg-gradient-to-r from-gray-400 to-gray-600', textColor: 'text-white' },
+  'TOIL': { name: 'Time Off In Lieu', color: 'bg-gradient-to-r from-purple-400 to-purple-600', textColor: 'text-white' },
+  'L': { name: 'Leave', color: 'bg-gradient-to-r from-red-400 to-red-600', textColor: 'text-white' },
+  'OT': { name: 'Overtime', color: 'bg-gradient-to-r from-orange-400 to-orange-600', textColor: 'text-white' },
+}
+
+export type ShiftCode = keyof typeof SHIFT_CODES
+
+// Codes that count as a day at work
+export const WORKING_SHIFT_CODES: string[] = ['D', 'HD', 'OT']
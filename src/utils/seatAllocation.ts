@@ -0,0 +1,219 @@
+// Workstation seat maps and seat allocation for exam sessions
+import { escapeHtml } from './fileUtils'
+
+export type WorkstationStatus = 'active' | 'out_of_service'
+
+export interface TestingRoom {
+  id: string
+  name: string
+  grid_rows: number
+  grid_cols: number
+  // Standard workstations in service, which set the room's capacity; kept up to date by the database
+  seat_count: number
+  equipment: string[]
+}
+
+export const ROOM_EQUIPMENT = [
+  { value: 'webcams', label: 'Webcams' },
+  { value: 'headsets', label: 'Noise-cancelling headsets' },
+  { value: 'biometrics', label: 'Biometric scanners' },
+  { value: 'noteboards', label: 'Erasable noteboards' },
+  { value: 'cctv', label: 'CCTV' },
+  { value: 'wheelchair_access', label: 'Wheelchair access' }
+]
+
+/**
+ * Display label for a piece of room equipment
+ * @param value - Equipment value stored on the room
+ * @returns Label
+ */
+export const formatEquipment = (value: string): string =>
+  ROOM_EQUIPMENT.find(option => option.value === value)?.label || value
+
+export interface Workstation {
+  id: string
+  room_id: string
+  seat_number: number
+  grid_row: number
+  grid_col: number
+  status: WorkstationStatus
+  is_accommodation: boolean
+}
+
+export interface SeatedCandidate {
+  id: string
+  fullName: string
+  confirmationNumber: string
+  status: string
+  workstationId?: string
+  // Approved accommodations, formatted for display
+  accommodations?: string[]
+}
+
+/**
+ * Lay out a room's workstations as a grid for display
+ * @param room - Testing room
+ * @param workstations - Workstations in the room
+ * @returns Rows of cells; empty positions are null
+ */
+export const buildSeatGrid = (room: TestingRoom, workstations: Workstation[]): (Workstation | null)[][] => {
+  const grid: (Workstation | null)[][] = Array.from({ length: room.grid_rows }, () =>
+    Array.from({ length: room.grid_cols }, () => null)
+  )
+  workstations.forEach(workstation => {
+    if (workstation.grid_row < room.grid_rows && workstation.grid_col < room.grid_cols) {
+      grid[workstation.grid_row][workstation.grid_col] = workstation
+    }
+  })
+  return grid
+}
+
+/**
+ * Create the workstations for a new room, numbered row by row
+ * @param roomId - Testing room id
+ * @param rows - Grid rows
+ * @param cols - Grid columns
+ * @returns Workstation rows to insert
+ */
+export const generateWorkstations = (roomId: string, rows: number, cols: number): Omit<Workstation, 'id'>[] => {
+  const workstations: Omit<Workstation, 'id'>[] = []
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      workstations.push({
+        room_id: roomId,
+        seat_number: row * cols + col + 1,
+        grid_row: row,
+        grid_col: col,
+        status: 'active',
+        is_accommodation: false
+      })
+    }
+  }
+  return workstations
+}
+
+/**
+ * Check whether a seat can take candidates automatically
+ * @param workstation - Workstation
+ * @returns True for in-service seats that are not held for accommodations
+ */
+export const isAutoAssignable = (workstation: Workstation): boolean =>
+  workstation.status === 'active' && !workstation.is_accommodation
+
+/**
+ * Assign checked-in candidates without a seat to the lowest numbered free seats
+ * Candidates with approved accommodations take accommodation seats first, matching the database trigger
+ * @param candidates - Candidates in the session
+ * @param workstations - Workstations in the session's room
+ * @returns Planned assignments; candidates left over when the room is full are not included
+ */
+export const planSeatAssignments = (
+  candidates: SeatedCandidate[],
+  workstations: Workstation[]
+): { candidateId: string; workstationId: string }[] => {
+  const occupied = new Set(candidates.map(candidate => candidate.workstationId).filter(Boolean))
+  const freeSeats = workstations
+    .filter(workstation => workstation.status === 'active' && !occupied.has(workstation.id))
+    .sort((a, b) => a.seat_number - b.seat_number)
+  const waiting = candidates.filter(candidate => candidate.status === 'checked_in' && !candidate.workstationId)
+  const assignments: { candidateId: string; workstationId: string }[] = []
+
+  const take = (candidate: SeatedCandidate, seats: Workstation[]) => {
+    const seat = seats.find(workstation => !occupied.has(workstation.id))
+    if (!seat) return
+    occupied.add(seat.id)
+    assignments.push({ candidateId: candidate.id, workstationId: seat.id })
+  }
+
+  waiting
+    .filter(candidate => candidate.accommodations?.length)
+    .forEach(candidate => take(candidate, [
+      ...freeSeats.filter(workstation => workstation.is_accommodation),
+      ...freeSeats.filter(isAutoAssignable)
+    ]))
+  waiting
+    .filter(candidate => !candidate.accommodations?.length)
+    .forEach(candidate => take(candidate, freeSeats.filter(isAutoAssignable)))
+
+  return assignments
+}
+
+/**
+ * Open a printable seating plan for a session
+ * @param title - Session heading, e.g. client, exam and time
+ * @param room - Testing room
+ * @param workstations - Workstations in the room
+ * @param candidates - Candidates in the session
+ */
+export const printSeatingPlan = (
+  title: string,
+  room: TestingRoom,
+  workstations: Workstation[],
+  candidates: SeatedCandidate[]
+): void => {
+  const printWindow = window.open('', '_blank')
+  if (!printWindow) {
+    throw new Error('Allow pop-ups for this site to print the seating plan')
+  }
+
+  const bySeat = new Map(candidates.filter(c => c.workstationId).map(c => [c.workstationId!, c]))
+  const grid = buildSeatGrid(room, workstations)
+  const cells = grid.map(row => `<tr>${row.map(workstation => {
+    if (!workstation) return '<td class="empty"></td>'
+    const candidate = bySeat.get(workstation.id)
+    const classes = [
+      workstation.status === 'out_of_service' ? 'oos' : '',
+      workstation.is_accommodation ? 'acc' : ''
+    ].join(' ')
+    return `<td class="${classes}"><div class="num">${workstation.seat_number}</div>${
+      candidate
+        ? `<div class="name">${escapeHtml(candidate.fullName)}</div><div class="conf">${escapeHtml(candidate.confirmationNumber)}</div>${
+          candidate.accommodations?.length ? `<div class="adj">${escapeHtml(candidate.accommodations.join(', '))}</div>` : ''
+        }`
+        : workstation.status === 'out_of_service' ? '<div class="conf">Out of service</div>' : ''
+    }</td>`
+  }).join('')}</tr>`).join('')
+
+  const list = candidates
+    .filter(candidate => candidate.status !== 'cancelled')
+    .sort((a, b) => a.fullName.localeCompare(b.fullName))
+    .map(candidate => {
+      const seat = workstations.find(workstation => workstation.id === candidate.workstationId)
+      return `<tr><td>${escapeHtml(candidate.fullName)}</td><td>${escapeHtml(candidate.confirmationNumber)}</td><td>${seat ? seat.seat_number : '—'}</td><td>${escapeHtml(candidate.accommodations?.join(', ') || '')}</td></tr>`
+    })
+    .join('')
+
+  printWindow.document.open()
+  printWindow.document.write(`<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>Seating Plan</title>
+  <style>
+    body { font-family: Arial, sans-serif; color: #1a1a1a; margin: 24px; }
+    h1 { font-size: 22px; margin: 0; }
+    p { color: #555; margin: 4px 0 16px; }
+    table.map { border-collapse: separate; border-spacing: 6px; margin-bottom: 24px; }
+    table.map td { border: 1px solid #999; border-radius: 6px; width: 110px; height: 56px; vertical-align: top; padding: 4px; font-size: 11px; }
+    table.map td.empty { border: none; }
+    table.map td.oos { background: #eee; color: #999; }
+    table.map td.acc { border: 2px dashed #c47f00; }
+    .num { font-weight: bold; }
+    .name { font-weight: bold; margin-top: 2px; }
+    .conf { font-family: monospace; color: #555; }
+    .adj { color: #c47f00; font-weight: bold; }
+    table.list { border-collapse: collapse; font-size: 13px; page-break-before: always; }
+    table.list th, table.list td { border-bottom: 1px solid #ddd; padding: 6px 12px; text-align: left; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <p>${escapeHtml(room.name)} · Front of room at top · Dashed border = accommodation seat</p>
+  <table class="map">${cells}</table>
+  <table class="list"><tr><th>Candidate</th><th>Confirmation</th><th>Seat</th><th>Accommodations</th></tr>${list}</table>
+</body>
+</html>`)
+  printWindow.document.close()
+  printWindow.focus()
+  printWindow.print()
+}
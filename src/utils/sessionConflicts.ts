@@ -0,0 +1,248 @@
+// Conflict checks for calendar sessions against other sessions, room seats and the staff roster
+import { minutesToTime, timeToMinutes } from './calendarLayout'
+import { DEFAULT_CANDIDATES_PER_INVIGILATOR, HOUR, RosterShift, getBusyHours, getDayCoverage } from './staffCoverage'
+
+export type ConflictSeverity = 'error' | 'warning'
+
+export interface SessionConflict {
+  severity: ConflictSeverity
+  date: string
+  // Part of the day the conflict applies to, HH:MM
+  start_time: string
+  end_time: string
+  message: string
+}
+
+export interface ConflictSession {
+  id?: number
+  client_name: string
+  exam_name: string
+  date: string
+  start_time: string
+  end_time: string
+  room_id?: string | null
+  candidate_count: number
+  required_staff?: number | null
+}
+
+export interface ConflictRoom {
+  id: string
+  name: string
+  seat_count: number
+}
+
+const overlaps = (a: { start_time: string; end_time: string }, b: { start_time: string; end_time: string }): boolean =>
+  timeToMinutes(a.start_time) < timeToMinutes(b.end_time) && timeToMinutes(b.start_time) < timeToMinutes(a.end_time)
+
+const describeSession = (session: ConflictSession): string =>
+  `${session.client_name} – ${session.exam_name} (${session.start_time.slice(0, 5)}–${session.end_time.slice(0, 5)})`
+
+// Report each run of consecutive problem hours once, quoting the worst hour
+const collectRuns = (
+  date: string,
+  hours: number[],
+  check: (hour: number) => { severity: ConflictSeverity; value: number } | null,
+  describe: (value: number, start: string, end: string) => string
+): SessionConflict[] => {
+  const conflicts: SessionConflict[] = []
+  let run: { start: number; end: number; severity: ConflictSeverity; value: number } | null = null
+
+  const closeRun = () => {
+    if (!run) return
+    const start = minutesToTime(run.start * HOUR)
+    const end = minutesToTime(run.end * HOUR)
+    conflicts.push({ severity: run.severity, date, start_time: start, end_time: end, message: describe(run.value, start, end) })
+    run = null
+  }
+
+  for (const hour of hours) {
+    const result = check(hour)
+    if (result && run && run.end === hour) {
+      run.end = hour + 1
+      run.value = Math.max(run.value, result.value)
+      if (result.severity === 'error') run.severity = 'error'
+    } else {
+      closeRun()
+      if (result) run = { start: hour, end: hour + 1, ...result }
+    }
+  }
+  closeRun()
+  return conflicts
+}
+
+/**
+ * Find the conflicts on one day of the calendar
+ * Checks room seats, the centre's total seats and staff per hour, and likely duplicate sessions
+ * @param date - Date, YYYY-MM-DD
+ * @param sessions - Every session on the day
+ * @param rooms - Testing rooms
+ * @param shifts - Roster entries for the day
+ * @param candidatesPerInvigilator - Centre's staffing ratio
+ * @returns Conflicts, errors first
+ */
+export const findDayConflicts = (
+  date: string,
+  sessions: ConflictSession[],
+  rooms: ConflictRoom[],
+  shifts: RosterShift[],
+  candidatesPerInvigilator: number = DEFAULT_CANDIDATES_PER_INVIGILATOR
+): SessionConflict[] => {
+  const daySessions = sessions.filter(session => session.date === date && timeToMinutes(session.end_time) > timeToMinutes(session.start_time))
+  if (daySessions.length === 0) return []
+
+  const busyHours = getBusyHours(daySessions)
+
+  const sessionsInHour = (hour: number, roomId?: string) => daySessions.filter(session =>
+    (roomId === undefined || session.room_id === roomId) &&
+    overlaps(session, { start_time: minutesToTime(hour * HOUR), end_time: minutesToTime((hour + 1) * HOUR) })
+  )
+  const loadInHour = (hour: number, roomId?: string) =>
+    sessionsInHour(hour, roomId).reduce((total, session) => total + session.candidate_count, 0)
+
+  const conflicts: SessionConflict[] = []
+
+  for (const room of rooms) {
+    const roomSessions = daySessions.filter(session => session.room_id === room.id)
+    if (roomSessions.length === 0) continue
+    // Capacity comes from the room's standard seats, so a room without any cannot take a booking
+    if (room.seat_count === 0) {
+      conflicts.push({
+        severity: 'error',
+        date,
+        start_time: roomSessions.map(session => session.start_time).sort()[0].slice(0, 5),
+        end_time: roomSessions.map(session => session.end_time).sort().reverse()[0].slice(0, 5),
+        message: `${room.name} has no standard seats set up; add its workstations in Settings before booking sessions into it`
+      })
+      continue
+    }
+    conflicts.push(...collectRuns(
+      date,
+      busyHours,
+      hour => (loadInHour(hour, room.id) > room.seat_count ? { severity: 'error', value: loadInHour(hour, room.id) } : null),
+      (load, start, end) => `${room.name} is overbooked ${start}–${end}: ${load} candidates for ${room.seat_count} seats`
+    ))
+  }
+
+  const centreSeats = rooms.reduce((total, room) => total + room.seat_count, 0)
+  if (rooms.length > 0) {
+    conflicts.push(...collectRuns(
+      date,
+      busyHours,
+      hour => (loadInHour(hour) > centreSeats ? { severity: 'error', value: loadInHour(hour) } : null),
+      (load, start, end) => `${load} candidates booked ${start}–${end}, more than the centre's ${centreSeats} seats`
+    ))
+  }
+
+  if (shifts.length === 0) {
+    conflicts.push({
+      severity: 'warning',
+      date,
+      start_time: minutesToTime(busyHours[0] * HOUR),
+      end_time: minutesToTime((busyHours[busyHours.length - 1] + 1) * HOUR),
+      message: 'No staff are rostered on this day yet'
+    })
+  } else {
+    const coverage = getDayCoverage(date, daySessions, shifts, candidatesPerInvigilator)
+    const coverageInHour = (hour: number) => coverage.hours.find(h => h.hour === hour)!
+    conflicts.push(...collectRuns(
+      date,
+      busyHours,
+      hour => (coverageInHour(hour).onDuty === 0 ? { severity: 'warning', value: 0 } : null),
+      (_, start, end) => `No staff rostered ${start}–${end}`
+    ))
+    conflicts.push(...collectRuns(
+      date,
+      busyHours,
+      hour => {
+        const { required, onDuty } = coverageInHour(hour)
+        return onDuty > 0 && required > onDuty ? { severity: 'warning', value: required } : null
+      },
+      (needed, start, end) => `${needed} staff needed ${start}–${end}, more than are rostered`
+    ))
+  }
+
+  for (let i = 0; i < daySessions.length; i++) {
+    for (let j = i + 1; j < daySessions.length; j++) {
+      const a = daySessions[i]
+      const b = daySessions[j]
+      if (
+        a.client_name.trim().toLowerCase() === b.client_name.trim().toLowerCase() &&
+        a.exam_name.trim().toLowerCase() === b.exam_name.trim().toLowerCase() &&
+        overlaps(a, b)
+      ) {
+        conflicts.push({
+          severity: 'warning',
+          date,
+          start_time: a.start_time.slice(0, 5) < b.start_time.slice(0, 5) ? a.start_time.slice(0, 5) : b.start_time.slice(0, 5),
+          end_time: a.end_time.slice(0, 5) > b.end_time.slice(0, 5) ? a.end_time.slice(0, 5) : b.end_time.slice(0, 5),
+          message: `Possible duplicate: ${describeSession(a)} and ${describeSession(b)}`
+        })
+      }
+    }
+  }
+
+  return conflicts.sort((a, b) => (a.severity === b.severity ? a.start_time.localeCompare(b.start_time) : a.severity === 'error' ? -1 : 1))
+}
+
+/**
+ * Check a new or edited session before saving it
+ * @param session - Session as it would be saved
+ * @param sessions - Other sessions on the same day; an earlier copy of the session is ignored
+ * @param rooms - Testing rooms
+ * @param shifts - Roster entries for the day
+ * @param candidatesPerInvigilator - Centre's staffing ratio
+ * @returns Conflicts affecting the session's time, errors first
+ */
+export const checkSessionConflicts = (
+  session: ConflictSession,
+  sessions: ConflictSession[],
+  rooms: ConflictRoom[],
+  shifts: RosterShift[],
+  candidatesPerInvigilator: number = DEFAULT_CANDIDATES_PER_INVIGILATOR
+): SessionConflict[] => {
+  if (!session.start_time || !session.end_time || timeToMinutes(session.end_time) <= timeToMinutes(session.start_time)) {
+    return [{
+      severity: 'error',
+      date: session.date,
+      start_time: session.start_time,
+      end_time: session.end_time,
+      message: 'The session must end after it starts'
+    }]
+  }
+
+  const others = sessions.filter(other => other.date === session.date && (session.id === undefined || other.id !== session.id))
+  const conflicts = findDayConflicts(session.date, [...others, session], rooms, shifts, candidatesPerInvigilator).filter(conflict => overlaps(conflict, session))
+
+  const room = rooms.find(r => r.id === session.room_id)
+  const sharing = room ? others.filter(other => other.room_id === room.id && overlaps(other, session)) : []
+  if (room && sharing.length > 0) {
+    conflicts.push({
+      severity: 'warning',
+      date: session.date,
+      start_time: session.start_time.slice(0, 5),
+      end_time: session.end_time.slice(0, 5),
+      message: `Shares ${room.name} with ${sharing.map(describeSession).join(', ')}`
+    })
+  }
+  return conflicts
+}
+
+/**
+ * Find the conflicts on every day with sessions
+ * @param sessions - Sessions in the period
+ * @param rooms - Testing rooms
+ * @param shifts - Roster entries for the period
+ * @param candidatesPerInvigilator - Centre's staffing ratio
+ * @returns Conflicts ordered by date, errors first within a day
+ */
+export const findCalendarConflicts = (
+  sessions: ConflictSession[],
+  rooms: ConflictRoom[],
+  shifts: RosterShift[],
+  candidatesPerInvigilator: number = DEFAULT_CANDIDATES_PER_INVIGILATOR
+): SessionConflict[] => {
+  const dates = [...new Set(sessions.map(session => session.date))].sort()
+  return dates.flatMap(date =>
+    findDayConflicts(date, sessions, rooms, shifts.filter(shift => shift.date === date), candidatesPerInvigilator)
+  )
+}
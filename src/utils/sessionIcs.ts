@@ -0,0 +1,312 @@
+// iCalendar (RFC 5545) import and export for calendar sessions
+import { CENTRE_CODE } from './confirmationNumbers'
+import { minutesToTime, timeToMinutes } from './calendarLayout'
+
+// Sessions are held in India Standard Time, which has no daylight saving
+const IST_OFFSET_MINUTES = 330
+const IST_ZONES = ['Asia/Kolkata', 'Asia/Calcutta', 'India Standard Time']
+
+export interface IcsEvent {
+  uid: string
+  client_name: string
+  exam_name: string
+  location: string
+  date: string
+  start_time: string
+  end_time: string
+  recurring: boolean
+}
+
+export interface IcsSkippedEvent {
+  summary: string
+  reason: string
+}
+
+export interface ParsedIcs {
+  events: IcsEvent[]
+  skipped: IcsSkippedEvent[]
+}
+
+export interface IcsSession {
+  id?: number
+  ics_uid?: string | null
+  client_name: string
+  exam_name: string
+  date: string
+  start_time: string
+  end_time: string
+  candidate_count: number
+  room_name?: string | null
+}
+
+interface IcsProperty {
+  name: string
+  params: Record<string, string>
+  value: string
+}
+
+// Join continuation lines, which start with a space or tab
+const unfoldLines = (text: string): string[] =>
+  text.replace(/\r\n/g, '\n').replace(/\r/g, '\n').replace(/\n[ \t]/g, '').split('\n').filter(line => line.trim())
+
+const parseProperty = (line: string): IcsProperty | null => {
+  // The value starts at the first colon outside a quoted parameter
+  let inQuotes = false
+  let colon = -1
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes
+    if (line[i] === ':' && !inQuotes) {
+      colon = i
+      break
+    }
+  }
+  if (colon === -1) return null
+
+  const [name, ...paramParts] = line.slice(0, colon).split(';')
+  const params: Record<string, string> = {}
+  for (const part of paramParts) {
+    const equals = part.indexOf('=')
+    if (equals > 0) params[part.slice(0, equals).toUpperCase()] = part.slice(equals + 1).replace(/^"|"$/g, '')
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) }
+}
+
+const unescapeText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char))
+
+const escapeText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
+
+// Minutes a time zone is ahead of UTC at a given instant
+const getZoneOffset = (timeZone: string, utcMillis: number): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit'
+  }).formatToParts(new Date(utcMillis))
+  const part = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0', 10)
+  const local = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'))
+  return Math.round((local - Math.floor(utcMillis / 60000) * 60000) / 60000)
+}
+
+/**
+ * Convert an iCalendar DATE-TIME to the centre's local date and time
+ * UTC values and values with a TZID are converted; floating times are taken as IST
+ * @param value - Value such as 20261020T093000Z
+ * @param timeZone - TZID parameter, if any
+ * @returns IST date and time, or null for all-day or malformed values
+ */
+export const parseIcsDateTime = (value: string, timeZone?: string): { date: string; time: string } | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/)
+  if (!match) return null
+  const [, year, month, day, hour, minute, , utc] = match
+  const wallClock = Date.UTC(+year, +month - 1, +day, +hour, +minute)
+
+  let offset = IST_OFFSET_MINUTES
+  if (utc) {
+    offset = 0
+  } else if (timeZone && !IST_ZONES.includes(timeZone)) {
+    try {
+      // Guess with the offset at the wall-clock time, then correct once for a daylight saving change
+      const guess = getZoneOffset(timeZone, wallClock)
+      offset = getZoneOffset(timeZone, wallClock - guess * 60000)
+    } catch {
+      return null
+    }
+  }
+
+  const ist = new Date(wallClock + (IST_OFFSET_MINUTES - offset) * 60000)
+  return {
+    date: ist.toISOString().slice(0, 10),
+    time: ist.toISOString().slice(11, 16)
+  }
+}
+
+// Length of an iCalendar DURATION such as PT3H30M, in minutes
+const parseDuration = (value: string): number | null => {
+  const match = value.match(/^\+?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/)
+  if (!match) return null
+  const [, weeks, days, hours, minutes] = match.map(part => parseInt(part || '0', 10))
+  return ((weeks * 7 + days) * 24 + hours) * 60 + minutes
+}
+
+// Organisers are usually named; a bare address is used as the client otherwise
+const getOrganizerName = (property?: IcsProperty): string => {
+  if (!property) return ''
+  if (property.params.CN) return property.params.CN.trim()
+  return property.value.replace(/^mailto:/i, '').trim()
+}
+
+/**
+ * Read the events of an .ics file as sessions
+ * Cancelled, all-day and overnight events are skipped with a reason
+ * @param text - File contents
+ * @returns Events to import and the events that were skipped
+ */
+export const parseIcs = (text: string): ParsedIcs => {
+  const events: IcsEvent[] = []
+  const skipped: IcsSkippedEvent[] = []
+  let current: IcsProperty[] | null = null
+
+  for (const line of unfoldLines(text)) {
+    const upper = line.toUpperCase()
+    if (upper === 'BEGIN:VEVENT') {
+      current = []
+      continue
+    }
+    if (upper === 'END:VEVENT' && current) {
+      const properties = current
+      const get = (name: string) => properties.find(property => property.name === name)
+      const summary = unescapeText(get('SUMMARY')?.value || '').trim()
+      const skip = (reason: string) => skipped.push({ summary: summary || '(untitled event)', reason })
+      current = null
+
+      const uid = get('UID')?.value.trim()
+      const dtStart = get('DTSTART')
+      if (!uid) {
+        skip('No UID')
+        continue
+      }
+      // Changed instances of a recurring event share its UID; only the master event is imported
+      if (get('RECURRENCE-ID')) {
+        skip('Changed occurrence of a recurring event')
+        continue
+      }
+      if ((get('STATUS')?.value || '').toUpperCase() === 'CANCELLED') {
+        skip('Cancelled')
+        continue
+      }
+      const start = dtStart ? parseIcsDateTime(dtStart.value, dtStart.params.TZID) : null
+      if (!start) {
+        skip(dtStart?.params.VALUE === 'DATE' || /^\d{8}$/.test(dtStart?.value || '') ? 'All-day event' : 'Missing or unreadable start time')
+        continue
+      }
+
+      const dtEnd = get('DTEND')
+      const duration = get('DURATION') ? parseDuration(get('DURATION')!.value) : null
+      let end = dtEnd ? parseIcsDateTime(dtEnd.value, dtEnd.params.TZID) : null
+      if (!end && duration !== null) {
+        const endMinutes = timeToMinutes(start.time) + duration
+        end = endMinutes < 24 * 60 ? { date: start.date, time: minutesToTime(endMinutes) } : null
+      }
+      if (!end || end.date !== start.date || end.time <= start.time) {
+        skip('Ends on a different day or before it starts')
+        continue
+      }
+
+      const organizer = getOrganizerName(get('ORGANIZER'))
+      if (!organizer) {
+        skip('No organiser to use as the client')
+        continue
+      }
+
+      events.push({
+        uid,
+        client_name: organizer,
+        exam_name: summary || 'Exam session',
+        location: unescapeText(get('LOCATION')?.value || '').trim(),
+        date: start.date,
+        start_time: start.time,
+        end_time: end.time,
+        recurring: !!get('RRULE')
+      })
+      continue
+    }
+    if (current) {
+      const property = parseProperty(line)
+      if (property) current.push(property)
+    }
+  }
+
+  // A file can repeat an event; the last copy wins
+  const byUid = new Map(events.map(event => [event.uid, event]))
+  return { events: [...byUid.values()], skipped }
+}
+
+// Lines longer than 75 octets are folded onto continuation lines
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder()
+  const chunks: string[] = []
+  let chunk = ''
+  for (const char of line) {
+    const limit = chunks.length === 0 ? 75 : 74
+    if (encoder.encode(chunk + char).length > limit) {
+      chunks.push(chunk)
+      chunk = ''
+    }
+    chunk += char
+  }
+  chunks.push(chunk)
+  return chunks.join('\r\n ')
+}
+
+// IST date and time as an iCalendar UTC DATE-TIME
+const toUtcStamp = (date: string, time: string): string => {
+  const [year, month, day] = date.split('-').map(Number)
+  const utc = new Date(Date.UTC(year, month - 1, day, 0, timeToMinutes(time) - IST_OFFSET_MINUTES))
+  return utc.toISOString().replace(/[-:]/g, '').slice(0, 15) + 'Z'
+}
+
+/**
+ * UID of a session in exported calendars
+ * Imported sessions keep their provider's UID so re-importing updates rather than duplicates
+ * @param session - Session
+ * @returns Globally unique identifier
+ */
+export const getSessionUid = (session: IcsSession): string =>
+  session.ics_uid || `session-${session.id}@${CENTRE_CODE.toLowerCase()}.fets-point`
+
+/**
+ * Serialise sessions to an .ics calendar
+ * @param sessions - Sessions to include
+ * @param calendarName - Name shown by calendar apps
+ * @returns iCalendar text with CRLF line endings
+ */
+export const buildIcs = (sessions: IcsSession[], calendarName: string): string => {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').slice(0, 15) + 'Z'
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//FETS POINT//Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    'X-WR-TIMEZONE:Asia/Kolkata'
+  ]
+
+  for (const session of sessions) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${getSessionUid(session)}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${toUtcStamp(session.date, session.start_time)}`,
+      `DTEND:${toUtcStamp(session.date, session.end_time)}`,
+      `SUMMARY:${escapeText(`${session.client_name} – ${session.exam_name}`)}`,
+      `DESCRIPTION:${escapeText(`${session.candidate_count} candidates registered`)}`
+    )
+    if (session.room_name) lines.push(`LOCATION:${escapeText(session.room_name)}`)
+    lines.push('END:VEVENT')
+  }
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+/**
+ * Build a file name for a calendar export
+ * @param parts - Labels describing the export, e.g. month and client
+ * @returns File name such as fets-2026-10-pearson.ics
+ */
+export const getIcsFilename = (parts: string[]): string => {
+  const slug = parts
+    .filter(Boolean)
+    .join('-')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+  return `fets-${slug || 'sessions'}.ics`
+}
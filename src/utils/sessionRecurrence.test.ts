@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest'
+import { RecurrenceRule, generateOccurrenceDates } from './sessionRecurrence'
+
+const monthlyRule = (overrides: Partial<RecurrenceRule>): RecurrenceRule => ({
+  frequency: 'monthly',
+  interval_count: 1,
+  weekdays: [],
+  month_week: 2,
+  month_weekday: 6,
+  start_date: '2026-10-10',
+  until_date: null,
+  occurrence_count: 12,
+  exception_dates: [],
+  ...overrides
+})
+
+describe('generateOccurrenceDates', () => {
+  it('carries an nth weekday monthly rule past December', () => {
+    expect(generateOccurrenceDates(monthlyRule({}))).toEqual([
+      '2026-10-10', '2026-11-14', '2026-12-12',
+      '2027-01-09', '2027-02-13', '2027-03-13', '2027-04-10', '2027-05-08',
+      '2027-06-12', '2027-07-10', '2027-08-14', '2027-09-11'
+    ])
+  })
+
+  it('carries a last weekday rule with a longer interval into the next year', () => {
+    expect(generateOccurrenceDates(monthlyRule({
+      start_date: '2026-11-30',
+      month_week: -1,
+      month_weekday: 1,
+      interval_count: 2,
+      occurrence_count: 3
+    }))).toEqual(['2026-11-30', '2027-01-25', '2027-03-29'])
+  })
+})
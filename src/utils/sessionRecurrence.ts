@@ -0,0 +1,212 @@
+// Recurrence rules for repeating exam sessions
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly'
+
+export type SeriesEditScope = 'this' | 'following' | 'all'
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency
+  interval_count: number
+  weekdays: number[]
+  month_week: number | null
+  month_weekday: number | null
+  start_date: string
+  until_date: string | null
+  occurrence_count: number | null
+  exception_dates: string[]
+}
+
+// Keeps a mistyped end date from creating years of sessions
+export const MAX_SERIES_OCCURRENCES = 366
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+export const MONTH_WEEK_OPTIONS = [
+  { value: 1, label: 'First' },
+  { value: 2, label: 'Second' },
+  { value: 3, label: 'Third' },
+  { value: 4, label: 'Fourth' },
+  { value: -1, label: 'Last' }
+]
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Rule dates are calendar dates, so the arithmetic runs in UTC to stay clear of time zone shifts
+const toUTC = (date: string): Date => new Date(`${date}T00:00:00Z`)
+const fromUTC = (date: Date): string => date.toISOString().slice(0, 10)
+
+/**
+ * Add days to a YYYY-MM-DD date
+ * @param date - Date string in YYYY-MM-DD format
+ * @param days - Days to add, may be negative
+ * @returns Date string in YYYY-MM-DD format
+ */
+export const addDays = (date: string, days: number): string => fromUTC(new Date(toUTC(date).getTime() + days * DAY_MS))
+
+/**
+ * Day of the week for a YYYY-MM-DD date
+ * @param date - Date string in YYYY-MM-DD format
+ * @returns 0 for Sunday through 6 for Saturday
+ */
+export const getWeekday = (date: string): number => toUTC(date).getUTCDay()
+
+// The nth (or last, for -1) given weekday of a month, or null when the month has no such day
+// Months past December (or before January) roll over into the following (or previous) years
+const nthWeekdayOfMonth = (startYear: number, monthIndex: number, week: number, weekday: number): string | null => {
+  const year = startYear + Math.floor(monthIndex / 12)
+  const month = ((monthIndex % 12) + 12) % 12
+  if (week === -1) {
+    const last = new Date(Date.UTC(year, month + 1, 0))
+    last.setUTCDate(last.getUTCDate() - ((last.getUTCDay() - weekday + 7) % 7))
+    return fromUTC(last)
+  }
+  const first = new Date(Date.UTC(year, month, 1))
+  const day = 1 + ((weekday - first.getUTCDay() + 7) % 7) + (week - 1) * 7
+  const result = new Date(Date.UTC(year, month, day))
+  return result.getUTCMonth() === month ? fromUTC(result) : null
+}
+
+/**
+ * Default rule for a session date, repeating on the same weekday
+ * @param startDate - First session date, YYYY-MM-DD
+ * @returns Weekly rule ending after ten occurrences
+ */
+export const createDefaultRule = (startDate: string): RecurrenceRule => {
+  const weekday = getWeekday(startDate)
+  const dayOfMonth = toUTC(startDate).getUTCDate()
+  return {
+    frequency: 'weekly',
+    interval_count: 1,
+    weekdays: [weekday],
+    month_week: dayOfMonth > 28 ? -1 : Math.ceil(dayOfMonth / 7),
+    month_weekday: weekday,
+    start_date: startDate,
+    until_date: null,
+    occurrence_count: 10,
+    exception_dates: []
+  }
+}
+
+/**
+ * Every date the rule generates, skipped dates included
+ * Dates before the start date are never generated, even when they match the pattern
+ * @param rule - Recurrence rule
+ * @returns Ascending YYYY-MM-DD dates
+ */
+export const generateOccurrenceDates = (rule: RecurrenceRule): string[] => {
+  const dates: string[] = []
+  const interval = Math.max(1, rule.interval_count)
+  const isDone = (date: string) =>
+    dates.length >= MAX_SERIES_OCCURRENCES ||
+    (rule.occurrence_count !== null && dates.length >= rule.occurrence_count) ||
+    (rule.until_date !== null && date > rule.until_date)
+
+  // Every loop advances by at least a day, so this bounds the search to a few years
+  for (let step = 0; step < MAX_SERIES_OCCURRENCES * 31; step++) {
+    let candidates: string[] = []
+    if (rule.frequency === 'daily') {
+      candidates = [addDays(rule.start_date, step * interval)]
+    } else if (rule.frequency === 'weekly') {
+      const weekStart = addDays(rule.start_date, step * interval * 7 - getWeekday(rule.start_date))
+      candidates = [...rule.weekdays].sort((a, b) => a - b).map(weekday => addDays(weekStart, weekday))
+    } else {
+      const start = toUTC(rule.start_date)
+      const date = nthWeekdayOfMonth(
+        start.getUTCFullYear(),
+        start.getUTCMonth() + step * interval,
+        rule.month_week ?? 1,
+        rule.month_weekday ?? start.getUTCDay()
+      )
+      candidates = date ? [date] : []
+    }
+
+    for (const date of candidates) {
+      if (date < rule.start_date) continue
+      if (isDone(date)) return dates
+      dates.push(date)
+    }
+  }
+  return dates
+}
+
+/**
+ * Dates that should have a session: the generated dates less the exceptions
+ * @param rule - Recurrence rule
+ * @returns Ascending YYYY-MM-DD dates
+ */
+export const expandRecurrence = (rule: RecurrenceRule): string[] =>
+  generateOccurrenceDates(rule).filter(date => !rule.exception_dates.includes(date))
+
+/**
+ * Split a rule at an occurrence for "this and following" changes
+ * @param rule - Recurrence rule
+ * @param fromDate - First occurrence of the second part, YYYY-MM-DD
+ * @returns The rule ending the day before, and the rule continuing from the date
+ */
+export const splitRecurrence = (rule: RecurrenceRule, fromDate: string): { before: RecurrenceRule; after: RecurrenceRule } => {
+  const generatedBefore = generateOccurrenceDates(rule).filter(date => date < fromDate).length
+  return {
+    before: {
+      ...rule,
+      until_date: addDays(fromDate, -1),
+      occurrence_count: null,
+      exception_dates: rule.exception_dates.filter(date => date < fromDate)
+    },
+    after: {
+      ...rule,
+      start_date: fromDate,
+      occurrence_count: rule.occurrence_count !== null ? rule.occurrence_count - generatedBefore : null,
+      exception_dates: rule.exception_dates.filter(date => date >= fromDate)
+    }
+  }
+}
+
+/**
+ * Validate a recurrence rule before creating or changing a series
+ * @param rule - Recurrence rule
+ * @returns Error message, or null when valid
+ */
+export const validateRecurrenceRule = (rule: RecurrenceRule): string | null => {
+  if (!rule.start_date) return 'Choose the date of the first session'
+  if (!Number.isInteger(rule.interval_count) || rule.interval_count < 1 || rule.interval_count > 12) {
+    return 'Repeat every 1 to 12 days, weeks or months'
+  }
+  if (rule.frequency === 'weekly' && rule.weekdays.length === 0) return 'Choose at least one day of the week'
+  if (rule.frequency === 'monthly' && (rule.month_week === null || rule.month_weekday === null)) {
+    return 'Choose which weekday of the month to repeat on'
+  }
+  if (rule.until_date === null && rule.occurrence_count === null) return 'Choose an end date or a number of sessions'
+  if (rule.until_date !== null && rule.until_date < rule.start_date) return 'The end date must be after the first session'
+  if (rule.occurrence_count !== null && (rule.occurrence_count < 1 || rule.occurrence_count > MAX_SERIES_OCCURRENCES)) {
+    return `A series can have 1 to ${MAX_SERIES_OCCURRENCES} sessions`
+  }
+  if (rule.until_date !== null && rule.occurrence_count === null) {
+    const probe = generateOccurrenceDates(rule)
+    if (probe.length >= MAX_SERIES_OCCURRENCES && probe[probe.length - 1] < rule.until_date) {
+      return `A series can have at most ${MAX_SERIES_OCCURRENCES} sessions; choose an earlier end date`
+    }
+  }
+  if (expandRecurrence(rule).length === 0) return 'This rule does not create any sessions'
+  return null
+}
+
+/**
+ * Describe a rule for display, e.g. "Every 2 weeks on Sat, 10 times"
+ * @param rule - Recurrence rule
+ * @returns Readable description
+ */
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  const unit = { daily: 'day', weekly: 'week', monthly: 'month' }[rule.frequency]
+  let text = rule.interval_count === 1 ? `Every ${unit}` : `Every ${rule.interval_count} ${unit}s`
+  if (rule.frequency === 'weekly') {
+    text += ` on ${[...rule.weekdays].sort((a, b) => a - b).map(day => WEEKDAY_LABELS[day]).join(', ')}`
+  } else if (rule.frequency === 'monthly' && rule.month_week !== null && rule.month_weekday !== null) {
+    const week = MONTH_WEEK_OPTIONS.find(option => option.value === rule.month_week)?.label.toLowerCase()
+    text += ` on the ${week} ${WEEKDAY_LABELS[rule.month_weekday]}`
+  }
+  text += rule.occurrence_count !== null ? `, ${rule.occurrence_count} times` : ` until ${rule.until_date}`
+  if (rule.exception_dates.length > 0) {
+    text += ` (${rule.exception_dates.length} skipped)`
+  }
+  return text
+}
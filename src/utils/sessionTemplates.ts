@@ -0,0 +1,107 @@
+// Session templates: the details of a regularly booked session, applied to one or more dates
+import { addDays } from './sessionRecurrence'
+import { timeToMinutes } from './calendarLayout'
+import { Client } from './clients'
+import { ConflictRoom, ConflictSession, SessionConflict, checkSessionConflicts } from './sessionConflicts'
+import { DEFAULT_CANDIDATES_PER_INVIGILATOR, RosterShift } from './staffCoverage'
+
+export interface SessionTemplate {
+  id: string
+  name: string
+  client_id: string
+  exam_name: string
+  start_time: string
+  end_time: string
+  // Candidates the session is planned for
+  seats: number
+  room_id: string | null
+}
+
+export const SESSION_TEMPLATE_COLUMNS = 'id, name, client_id, exam_name, start_time, end_time, seats, room_id'
+
+// Most dates one template can be applied to at once
+export const MAX_TEMPLATE_DATES = 31
+
+export interface TemplatePreview {
+  session: ConflictSession
+  conflicts: SessionConflict[]
+}
+
+/**
+ * Validate a template before saving
+ * @param template - Template being saved
+ * @param templates - Saved templates
+ * @returns Error message, or null when valid
+ */
+export const validateSessionTemplate = (
+  template: Omit<SessionTemplate, 'id'> & { id?: string },
+  templates: SessionTemplate[]
+): string | null => {
+  if (!template.name.trim()) return 'Enter a template name'
+  if (!template.client_id) return 'Choose a client'
+  if (!template.exam_name.trim()) return 'Enter an exam name'
+  if (!template.start_time || !template.end_time || timeToMinutes(template.end_time) <= timeToMinutes(template.start_time)) {
+    return 'The session must end after it starts'
+  }
+  if (!Number.isInteger(template.seats) || template.seats < 0) return 'Seats must be a whole number'
+
+  const key = template.name.trim().toLowerCase()
+  if (templates.some(other => other.id !== template.id && other.name.trim().toLowerCase() === key)) {
+    return `A template named "${template.name.trim()}" already exists`
+  }
+  return null
+}
+
+/**
+ * Every date from one date to another, whichever way round they are given
+ * @param from - Date, YYYY-MM-DD
+ * @param to - Date, YYYY-MM-DD
+ * @returns Dates in order, both ends included
+ */
+export const getDatesBetween = (from: string, to: string): string[] => {
+  const [first, last] = from <= to ? [from, to] : [to, from]
+  const dates: string[] = []
+  for (let date = first; date <= last; date = addDays(date, 1)) {
+    dates.push(date)
+  }
+  return dates
+}
+
+/**
+ * The sessions a template would create, each checked against the other sessions and the roster on its date
+ * The planned seats stand in for the candidate count, so full rooms and thin staffing show up before booking
+ * @param template - Template to apply
+ * @param dates - Dates to book, YYYY-MM-DD
+ * @param clients - Client registry
+ * @param sessions - Existing sessions on those dates
+ * @param rooms - Testing rooms
+ * @param shifts - Roster entries for those dates
+ * @param candidatesPerInvigilator - Centre's staffing ratio
+ * @returns One preview per date, in date order
+ */
+export const previewTemplateSessions = (
+  template: SessionTemplate,
+  dates: string[],
+  clients: Client[],
+  sessions: ConflictSession[],
+  rooms: ConflictRoom[],
+  shifts: RosterShift[],
+  candidatesPerInvigilator: number = DEFAULT_CANDIDATES_PER_INVIGILATOR
+): TemplatePreview[] => {
+  const clientName = clients.find(client => client.id === template.client_id)?.name || ''
+  return [...dates].sort().map(date => {
+    const session: ConflictSession = {
+      client_name: clientName,
+      exam_name: template.exam_name,
+      date,
+      start_time: template.start_time.slice(0, 5),
+      end_time: template.end_time.slice(0, 5),
+      room_id: template.room_id,
+      candidate_count: template.seats
+    }
+    return {
+      session,
+      conflicts: checkSessionConflicts(session, sessions, rooms, shifts.filter(shift => shift.date === date), candidatesPerInvigilator)
+    }
+  })
+}
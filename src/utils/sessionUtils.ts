@@ -1,5 +1,22 @@
 // Session capacity validation utilities
 
+// Sessions booked into a room hold as many candidates as the room has seats free at that time
+// (sessions.capacity in the database); sessions without a room keep the old fixed limit
+export const DEFAULT_CAPACITY = 40
+// Warn once a session is three quarters full
+const WARNING_RATIO = 0.75
+
+export interface SessionOption {
+  id: number
+  client_name: string
+  exam_name: string
+  date: string
+  start_time: string
+  end_time: string
+  candidate_count: number
+  capacity: number
+}
+
 interface CapacityValidationResult {
   isValid: boolean
   warning?: string
@@ -9,24 +26,21 @@ interface CapacityValidationResult {
 /**
  * Validate session capacity with warnings and errors
  * @param candidateCount - Number of candidates in session
+ * @param capacity - Seats available to the session
  * @returns Validation result with warnings/errors
  */
-export const validateSessionCapacity = (candidateCount: number): CapacityValidationResult => {
-  // Maximum capacity is 40 candidates per session
-  const MAX_CAPACITY = 40
-  const WARNING_THRESHOLD = 30
-  
-  if (candidateCount > MAX_CAPACITY) {
+export const validateSessionCapacity = (candidateCount: number, capacity: number): CapacityValidationResult => {
+  if (candidateCount > capacity) {
     return {
       isValid: false,
-      error: `Session exceeds maximum capacity of ${MAX_CAPACITY} candidates`
+      error: `Session exceeds maximum capacity of ${capacity} candidates`
     }
   }
   
-  if (candidateCount >= WARNING_THRESHOLD) {
+  if (candidateCount >= Math.ceil(capacity * WARNING_RATIO)) {
     return {
       isValid: true,
-      warning: `Session approaching capacity (${candidateCount}/${MAX_CAPACITY} candidates)`
+      warning: `Session approaching capacity (${candidateCount}/${capacity} candidates)`
     }
   }
   
@@ -36,19 +50,89 @@ export const validateSessionCapacity = (candidateCount: number): CapacityValidat
 /**
  * Get capacity status color class for UI
  * @param candidateCount - Number of candidates
+ * @param capacity - Seats available to the session
  * @returns CSS color classes
  */
-export const getCapacityStatusColor = (candidateCount: number): string => {
-  if (candidateCount >= 40) return 'text-red-600 bg-red-100'
-  if (candidateCount >= 30) return 'text-orange-600 bg-orange-100'
+export const getCapacityStatusColor = (candidateCount: number, capacity: number): string => {
+  if (candidateCount >= capacity) return 'text-red-600 bg-red-100'
+  if (candidateCount >= Math.ceil(capacity * WARNING_RATIO)) return 'text-orange-600 bg-orange-100'
   return 'text-green-600 bg-green-100'
 }
 
 /**
  * Format capacity display text
  * @param candidateCount - Number of candidates
+ * @param capacity - Seats available to the session
  * @returns Formatted display text
  */
-export const formatCapacityDisplay = (candidateCount: number): string => {
-  return `${candidateCount}/40 candidates`
+export const formatCapacityDisplay = (candidateCount: number, capacity: number): string => {
+  return `${candidateCount}/${capacity} candidates`
+}
+
+/**
+ * Get the start of a session as a Date
+ * @param session - Session with an IST date (YYYY-MM-DD) and start time (HH:MM)
+ * @returns Session start
+ */
+export const getSessionStart = (session: Pick<SessionOption, 'date' | 'start_time'>): Date => {
+  return new Date(`${session.date}T${session.start_time.slice(0, 5)}:00+05:30`)
+}
+
+/**
+ * Get the scheduled end of a session as a Date
+ * @param session - Session with an IST date (YYYY-MM-DD) and end time (HH:MM)
+ * @returns Session end
+ */
+export const getSessionEnd = (session: Pick<SessionOption, 'date' | 'end_time'>): Date => {
+  return new Date(`${session.date}T${session.end_time.slice(0, 5)}:00+05:30`)
+}
+
+/**
+ * Short label for choosing a session in a dropdown
+ * @param session - Session
+ * @returns Label such as "12 Mar, 9:00 am · ETS – TOEFL (12/40)"
+ */
+export const formatSessionOption = (session: SessionOption): string => {
+  const start = getSessionStart(session)
+  const date = start.toLocaleDateString('en-IN', { day: 'numeric', month: 'short', timeZone: 'Asia/Kolkata' })
+  const time = start.toLocaleTimeString('en-IN', { hour: 'numeric', minute: '2-digit', timeZone: 'Asia/Kolkata' })
+  return `${date}, ${time} · ${session.client_name} – ${session.exam_name} (${session.candidate_count}/${session.capacity})`
+}
+
+/**
+ * Find the session an imported candidate belongs to
+ * Matches on IST date and exam name, then client and start time when that narrows it down
+ * @param sessions - Candidate sessions
+ * @param examName - Exam name from the roster
+ * @param examDate - Exam date (ISO string) from the roster
+ * @param clientName - Optional client name from the roster
+ * @returns The single matching session, or an error message
+ */
+export const findSessionForExam = (
+  sessions: SessionOption[],
+  examName: string,
+  examDate: string | null,
+  clientName?: string
+): { session?: SessionOption; error?: string } => {
+  if (!examDate) return { error: 'Exam date is required to find the session' }
+
+  const start = new Date(examDate)
+  const dateIST = start.toLocaleDateString('en-CA', { timeZone: 'Asia/Kolkata' })
+  const normalise = (value: string) => value.trim().toLowerCase()
+
+  let matches = sessions.filter(session =>
+    session.date === dateIST && normalise(session.exam_name) === normalise(examName)
+  )
+  if (clientName && matches.length > 1) {
+    const byClient = matches.filter(session => normalise(session.client_name) === normalise(clientName))
+    if (byClient.length > 0) matches = byClient
+  }
+  if (matches.length > 1) {
+    const byTime = matches.filter(session => getSessionStart(session).getTime() === start.getTime())
+    if (byTime.length > 0) matches = byTime
+  }
+
+  if (matches.length === 0) return { error: `No ${examName} session on ${dateIST}` }
+  if (matches.length > 1) return { error: `Several ${examName} sessions on ${dateIST}; include the start time` }
+  return { session: matches[0] }
 }
\ No newline at end of file
@@ -0,0 +1,151 @@
+// Staff each session needs, compared with the staff rostered to work
+import { timeToMinutes } from './calendarLayout'
+
+export interface RosterShift {
+  profile_id: string
+  date: string
+  shift_code: string
+  overtime_hours?: number | null
+}
+
+export interface StaffedSession {
+  date: string
+  start_time: string
+  end_time: string
+  candidate_count: number
+  // Set by hand; null when it follows the candidate count
+  required_staff?: number | null
+}
+
+export interface CoverageHour {
+  // Hour of the day, 0-23
+  hour: number
+  required: number
+  onDuty: number
+}
+
+export interface DayCoverage {
+  date: string
+  sessions: number
+  // Most staff needed at one time
+  required: number
+  // Staff on a working shift at any time of the day
+  rostered: number
+  // Hours with a session running
+  hours: CoverageHour[]
+  // Most staff missing in any one hour
+  shortfall: number
+}
+
+// One invigilator per this many candidates unless the centre sets its own ratio; mirrored by staffing_settings
+export const DEFAULT_CANDIDATES_PER_INVIGILATOR = 20
+export const MAX_CANDIDATES_PER_INVIGILATOR = 100
+export const MAX_REQUIRED_STAFF = 50
+
+// Hours each working shift code covers; overtime extends the day shift by the overtime hours
+const SHIFT_WINDOWS: Record<string, { start: string; end: string }> = {
+  D: { start: '08:00', end: '17:00' },
+  HD: { start: '08:00', end: '13:00' },
+  OT: { start: '08:00', end: '17:00' }
+}
+
+export const HOUR = 60
+
+/**
+ * Working hours of a roster entry
+ * @param shift - Roster entry
+ * @returns Start and end in minutes since midnight, or null for leave and rest days
+ */
+export const getShiftMinutes = (shift: RosterShift): { start: number; end: number } | null => {
+  const window = SHIFT_WINDOWS[shift.shift_code]
+  if (!window) return null
+  const overtime = shift.shift_code === 'OT' ? (shift.overtime_hours || 0) * HOUR : 0
+  return { start: timeToMinutes(window.start), end: timeToMinutes(window.end) + overtime }
+}
+
+/**
+ * Staff rostered to work during part of a day
+ * @param shifts - Roster entries for the day
+ * @param start - Minutes since midnight
+ * @param end - Minutes since midnight
+ * @returns Number of staff whose shift covers the whole period
+ */
+export const countStaffOnDuty = (shifts: RosterShift[], start: number, end: number): number => {
+  const onDuty = new Set<string>()
+  for (const shift of shifts) {
+    const window = getShiftMinutes(shift)
+    if (window && window.start <= start && window.end >= end) {
+      onDuty.add(shift.profile_id)
+    }
+  }
+  return onDuty.size
+}
+
+/**
+ * Hours of the day touched by at least one session
+ * @param sessions - Sessions on one day
+ * @returns Hours, 0-23, in order
+ */
+export const getBusyHours = (sessions: { start_time: string; end_time: string }[]): number[] =>
+  [...new Set(sessions.flatMap(session => {
+    const first = Math.floor(timeToMinutes(session.start_time) / HOUR)
+    const last = Math.ceil(timeToMinutes(session.end_time) / HOUR)
+    return Array.from({ length: Math.max(last - first, 0) }, (_, index) => first + index)
+  }))].sort((a, b) => a - b)
+
+/**
+ * Staff a session needs
+ * @param session - Session with its candidate count and any staff set by hand
+ * @param candidatesPerInvigilator - Centre's ratio
+ * @returns Staff set on the session, or one per started group of candidates
+ */
+export const getRequiredStaff = (session: StaffedSession, candidatesPerInvigilator: number): number =>
+  session.required_staff ?? Math.ceil(session.candidate_count / candidatesPerInvigilator)
+
+/**
+ * Compare the staff a day's sessions need with the staff rostered, hour by hour
+ * @param date - Date, YYYY-MM-DD
+ * @param sessions - Sessions; those on other days are ignored
+ * @param shifts - Roster entries; those on other days are ignored
+ * @param candidatesPerInvigilator - Centre's ratio
+ * @returns Coverage for the day
+ */
+export const getDayCoverage = (
+  date: string,
+  sessions: StaffedSession[],
+  shifts: RosterShift[],
+  candidatesPerInvigilator: number = DEFAULT_CANDIDATES_PER_INVIGILATOR
+): DayCoverage => {
+  const daySessions = sessions.filter(session => session.date === date && timeToMinutes(session.end_time) > timeToMinutes(session.start_time))
+  const dayShifts = shifts.filter(shift => shift.date === date)
+
+  const hours = getBusyHours(daySessions).map(hour => {
+    const start = hour * HOUR
+    const end = (hour + 1) * HOUR
+    const required = daySessions
+      .filter(session => timeToMinutes(session.start_time) < end && start < timeToMinutes(session.end_time))
+      .reduce((total, session) => total + getRequiredStaff(session, candidatesPerInvigilator), 0)
+    return { hour, required, onDuty: countStaffOnDuty(dayShifts, start, end) }
+  })
+
+  return {
+    date,
+    sessions: daySessions.length,
+    required: Math.max(0, ...hours.map(h => h.required)),
+    rostered: new Set(dayShifts.filter(shift => getShiftMinutes(shift)).map(shift => shift.profile_id)).size,
+    hours,
+    shortfall: Math.max(0, ...hours.map(h => h.required - h.onDuty))
+  }
+}
+
+/**
+ * Validate the centre's staffing ratio
+ * @param candidatesPerInvigilator - Candidates one invigilator can supervise
+ * @returns Error message, or null when valid
+ */
+export const validateCandidatesPerInvigilator = (candidatesPerInvigilator: number): string | null => {
+  if (!Number.isInteger(candidatesPerInvigilator) || candidatesPerInvigilator < 1 || candidatesPerInvigilator > MAX_CANDIDATES_PER_INVIGILATOR) {
+    return `Candidates per invigilator must be a whole number from 1 to ${MAX_CANDIDATES_PER_INVIGILATOR}`
+  }
+  return null
+}
@@ -0,0 +1,38 @@
+-- Duplicate candidate review: merge audit and dismissed pairs
+
+create table if not exists public.candidate_merges (
+  id uuid primary key default gen_random_uuid(),
+  primary_candidate_id uuid not null references public.candidates(id) on delete cascade,
+  absorbed_candidate_id uuid not null,
+  absorbed_snapshot jsonb not null,
+  match_reasons text[] not null default '{}',
+  merged_by uuid references auth.users(id),
+  merged_at timestamptz not null default now()
+);
+
+create index if not exists candidate_merges_primary_idx on public.candidate_merges(primary_candidate_id);
+
+-- Pairs flagged as possible duplicates that staff confirmed are different people.
+-- candidate_a is always the smaller id so each pair is stored once.
+create table if not exists public.candidate_duplicate_dismissals (
+  id uuid primary key default gen_random_uuid(),
+  candidate_a uuid not null references public.candidates(id) on delete cascade,
+  candidate_b uuid not null references public.candidates(id) on delete cascade,
+  dismissed_by uuid references auth.users(id),
+  dismissed_at timestamptz not null default now(),
+  unique (candidate_a, candidate_b),
+  check (candidate_a < candidate_b)
+);
+
+alter table public.candidate_merges enable row level security;
+alter table public.candidate_duplicate_dismissals enable row level security;
+
+create policy "Staff can read candidate merges" on public.candidate_merges
+  for select to authenticated using (true);
+create policy "Staff can record candidate merges" on public.candidate_merges
+  for insert to authenticated with check (merged_by = auth.uid());
+
+create policy "Staff can read duplicate dismissals" on public.candidate_duplicate_dismissals
+  for select to authenticated using (true);
+create policy "Staff can dismiss duplicates" on public.candidate_duplicate_dismissals
+  for insert to authenticated with check (dismissed_by = auth.uid());
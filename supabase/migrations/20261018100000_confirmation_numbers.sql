@@ -0,0 +1,132 @@
+-- Sequential, checksummed candidate confirmation numbers
+-- Format: {PREFIX}-{CENTRE}{YY}-{SEQUENCE:5}{CHECK}, e.g. ETS-KOC26-000423
+-- The check character is Luhn mod 36 over the characters without dashes
+-- (mirrored in src/utils/confirmationNumbers.ts).
+
+alter table public.candidates add column if not exists client_name text;
+alter table public.candidates add column if not exists centre_code text not null default 'KOC';
+
+create table if not exists public.candidate_confirmation_prefixes (
+  client_name text primary key,
+  prefix text not null check (prefix ~ '^[A-Z0-9]{2,6}$'),
+  updated_by uuid references auth.users(id),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.confirmation_number_sequences (
+  centre_code text not null,
+  prefix text not null,
+  year integer not null,
+  last_value integer not null default 0,
+  primary key (centre_code, prefix, year)
+);
+
+create or replace function public.confirmation_check_char(body text)
+returns text
+language plpgsql
+immutable
+as $$
+declare
+  alphabet constant text := '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+  factor integer := 2;
+  total integer := 0;
+  addend integer;
+  i integer;
+begin
+  for i in reverse length(body)..1 loop
+    addend := factor * (position(substr(body, i, 1) in alphabet) - 1);
+    factor := case when factor = 2 then 1 else 2 end;
+    total := total + (addend / 36) + (addend % 36);
+  end loop;
+  return substr(alphabet, ((36 - (total % 36)) % 36) + 1, 1);
+end;
+$$;
+
+create or replace function public.next_confirmation_number(p_client_name text, p_centre_code text)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_prefix text;
+  v_centre text := upper(coalesce(nullif(p_centre_code, ''), 'KOC'));
+  v_year integer := extract(year from (now() at time zone 'Asia/Kolkata'))::integer;
+  v_value integer;
+  v_body text;
+begin
+  select prefix into v_prefix
+  from candidate_confirmation_prefixes
+  where lower(client_name) = lower(trim(p_client_name));
+
+  v_prefix := coalesce(v_prefix, 'FETS');
+
+  insert into confirmation_number_sequences (centre_code, prefix, year, last_value)
+  values (v_centre, v_prefix, v_year, 1)
+  on conflict (centre_code, prefix, year)
+  do update set last_value = confirmation_number_sequences.last_value + 1
+  returning last_value into v_value;
+
+  v_body := v_prefix || v_centre || lpad((v_year % 100)::text, 2, '0') || lpad(v_value::text, 5, '0');
+  return v_prefix || '-' || v_centre || lpad((v_year % 100)::text, 2, '0') || '-'
+    || lpad(v_value::text, 5, '0') || confirmation_check_char(v_body);
+end;
+$$;
+
+create or replace function public.assign_candidate_confirmation_number()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.confirmation_number is null or new.confirmation_number = '' then
+    new.confirmation_number := next_confirmation_number(new.client_name, new.centre_code);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists candidates_assign_confirmation_number on public.candidates;
+create trigger candidates_assign_confirmation_number
+  before insert on public.candidates
+  for each row execute function public.assign_candidate_confirmation_number();
+
+-- Backfill: every row without a number in the new format gets one, in registration order.
+-- Old EXAM{year}-{nnn} values (which could repeat) are kept for lookups at the desk.
+alter table public.candidates add column if not exists legacy_confirmation_number text;
+
+update public.candidates
+set legacy_confirmation_number = confirmation_number
+where confirmation_number is not null
+  and confirmation_number <> ''
+  and confirmation_number !~ '^[A-Z0-9]{2,6}-[A-Z]{3}[0-9]{2}-[0-9]{5,}[0-9A-Z]$';
+
+do $$
+declare
+  r record;
+begin
+  for r in
+    select id, client_name, centre_code
+    from public.candidates
+    where confirmation_number is null
+      or confirmation_number !~ '^[A-Z0-9]{2,6}-[A-Z]{3}[0-9]{2}-[0-9]{5,}[0-9A-Z]$'
+    order by created_at, id
+  loop
+    update public.candidates
+    set confirmation_number = public.next_confirmation_number(r.client_name, r.centre_code)
+    where id = r.id;
+  end loop;
+end;
+$$;
+
+create index if not exists candidates_legacy_confirmation_number_idx on public.candidates(legacy_confirmation_number);
+create unique index if not exists candidates_confirmation_number_key on public.candidates(confirmation_number);
+
+alter table public.candidate_confirmation_prefixes enable row level security;
+alter table public.confirmation_number_sequences enable row level security;
+
+create policy "Staff can read confirmation prefixes" on public.candidate_confirmation_prefixes
+  for select to authenticated using (true);
+create policy "Admins can manage confirmation prefixes" on public.candidate_confirmation_prefixes
+  for all to authenticated
+  using (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role in ('admin', 'super_admin')))
+  with check (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role in ('admin', 'super_admin')));
@@ -0,0 +1,55 @@
+-- Candidate status transitions with who, when and why
+
+create table if not exists public.candidate_status_history (
+  id uuid primary key default gen_random_uuid(),
+  candidate_id uuid not null references public.candidates(id) on delete cascade,
+  from_status text,
+  to_status text not null,
+  reason text,
+  is_revert boolean not null default false,
+  changed_by uuid references auth.users(id),
+  changed_at timestamptz not null default now()
+);
+
+create index if not exists candidate_status_history_candidate_idx
+  on public.candidate_status_history(candidate_id, changed_at);
+
+-- Seed the current status of existing candidates so every timeline has a starting point
+insert into public.candidate_status_history (candidate_id, from_status, to_status, reason, changed_by, changed_at)
+select c.id, null, 'registered', 'Registered before status history was recorded', c.user_id, c.created_at
+from public.candidates c
+where not exists (select 1 from public.candidate_status_history h where h.candidate_id = c.id);
+
+insert into public.candidate_status_history (candidate_id, from_status, to_status, reason, changed_at)
+select c.id, 'registered', c.status, 'Status before history was recorded', coalesce(c.check_in_time, c.created_at)
+from public.candidates c
+where c.status <> 'registered';
+
+-- Every new candidate, including batch roster imports, starts its timeline at registered
+create or replace function public.candidates_record_initial_status()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.candidate_status_history (candidate_id, from_status, to_status, changed_by, changed_at)
+  values (new.id, null, new.status, auth.uid(), coalesce(new.created_at, now()));
+  return new;
+end;
+$$;
+
+drop trigger if exists candidates_record_initial_status on public.candidates;
+create trigger candidates_record_initial_status
+  after insert on public.candidates
+  for each row execute function public.candidates_record_initial_status();
+
+alter table public.candidate_status_history enable row level security;
+
+create policy "Staff can read status history" on public.candidate_status_history
+  for select to authenticated using (true);
+create policy "Staff can record status changes" on public.candidate_status_history
+  for insert to authenticated with check (changed_by = auth.uid());
+-- Merging duplicates moves history rows onto the surviving candidate
+create policy "Staff can move status history on merge" on public.candidate_status_history
+  for update to authenticated using (true) with check (true);
@@ -0,0 +1,72 @@
+-- Self-service check-in kiosk: staff exit PIN and rules acceptance
+
+create extension if not exists pgcrypto;
+
+alter table public.candidates
+  add column if not exists rules_accepted_at timestamptz;
+
+-- One exit PIN per centre; the hash is never readable by clients
+create table if not exists public.kiosk_settings (
+  centre_code text primary key,
+  pin_hash text not null,
+  updated_by uuid references auth.users(id),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.kiosk_settings enable row level security;
+
+create or replace function public.set_kiosk_pin(p_centre_code text, p_pin text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (
+    select 1 from public.profiles
+    where user_id = auth.uid() and role in ('admin', 'super_admin')
+  ) then
+    raise exception 'Only administrators can change the kiosk PIN';
+  end if;
+  if p_pin !~ '^\d{4,8}$' then
+    raise exception 'Kiosk PIN must be 4 to 8 digits';
+  end if;
+
+  insert into public.kiosk_settings (centre_code, pin_hash, updated_by, updated_at)
+  values (p_centre_code, crypt(p_pin, gen_salt('bf')), auth.uid(), now())
+  on conflict (centre_code) do update
+    set pin_hash = excluded.pin_hash,
+        updated_by = excluded.updated_by,
+        updated_at = excluded.updated_at;
+end;
+$$;
+
+create or replace function public.verify_kiosk_pin(p_centre_code text, p_pin text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (select pin_hash = crypt(p_pin, pin_hash) from public.kiosk_settings where centre_code = p_centre_code),
+    false
+  );
+$$;
+
+create or replace function public.kiosk_pin_configured(p_centre_code text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.kiosk_settings where centre_code = p_centre_code);
+$$;
+
+revoke all on function public.set_kiosk_pin(text, text) from public;
+revoke all on function public.verify_kiosk_pin(text, text) from public;
+revoke all on function public.kiosk_pin_configured(text) from public;
+grant execute on function public.set_kiosk_pin(text, text) to authenticated;
+grant execute on function public.verify_kiosk_pin(text, text) to authenticated;
+grant execute on function public.kiosk_pin_configured(text) to authenticated;
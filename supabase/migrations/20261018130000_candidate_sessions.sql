@@ -0,0 +1,150 @@
+-- Assign candidates to calendar sessions and derive session candidate counts
+
+alter table public.candidates
+  add column if not exists session_id bigint references public.sessions(id) on delete restrict;
+
+create index if not exists candidates_session_id_idx on public.candidates(session_id);
+
+-- Link existing candidates where exactly one session matches their exam name and IST date.
+-- Runs before the triggers below so historical sessions are not capacity checked
+update public.candidates c
+set session_id = m.session_id
+from (
+  select c2.id as candidate_id, min(s.id) as session_id
+  from public.candidates c2
+  join public.sessions s
+    on s.date = (c2.exam_date at time zone 'Asia/Kolkata')::date
+   and lower(trim(s.exam_name)) = lower(trim(c2.exam_name))
+  where c2.session_id is null and c2.exam_date is not null
+  group by c2.id
+  having count(*) = 1
+) m
+where c.id = m.candidate_id;
+
+-- Mirrors MAX_CAPACITY in src/utils/sessionUtils.ts
+create or replace function public.session_max_capacity(p_session_id bigint)
+returns integer
+language sql
+stable
+as $$
+  select 40;
+$$;
+
+-- Candidates take their exam name, client and start time from the session they are booked into
+create or replace function public.candidates_sync_session()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_session public.sessions%rowtype;
+  v_booked integer;
+begin
+  if new.session_id is null then
+    return new;
+  end if;
+
+  -- Lock the session so concurrent registrations cannot both take the last seat
+  select * into v_session from public.sessions where id = new.session_id for update;
+  if not found then
+    raise exception 'Session % does not exist', new.session_id;
+  end if;
+
+  new.exam_name := v_session.exam_name;
+  new.client_name := v_session.client_name;
+  new.exam_date := (v_session.date + v_session.start_time) at time zone 'Asia/Kolkata';
+
+  if new.status <> 'cancelled' and (
+    tg_op = 'INSERT'
+    or old.session_id is distinct from new.session_id
+    or old.status = 'cancelled'
+  ) then
+    select count(*) into v_booked
+    from public.candidates
+    where session_id = new.session_id and status <> 'cancelled' and id <> new.id;
+
+    if v_booked >= public.session_max_capacity(new.session_id) then
+      raise exception 'Session % on % is full (% candidates)', v_session.exam_name, v_session.date, v_booked
+        using errcode = 'check_violation';
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists candidates_sync_session on public.candidates;
+create trigger candidates_sync_session
+  before insert or update of session_id, status on public.candidates
+  for each row execute function public.candidates_sync_session();
+
+create or replace function public.refresh_session_candidate_count(p_session_id bigint)
+returns void
+language sql
+as $$
+  update public.sessions s
+  set candidate_count = (
+    select count(*) from public.candidates c
+    where c.session_id = s.id and c.status <> 'cancelled'
+  )
+  where s.id = p_session_id;
+$$;
+
+create or replace function public.candidates_refresh_session_counts()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op in ('UPDATE', 'DELETE') and old.session_id is not null then
+    perform public.refresh_session_candidate_count(old.session_id);
+  end if;
+  if tg_op in ('INSERT', 'UPDATE') and new.session_id is not null
+     and (tg_op = 'INSERT' or new.session_id is distinct from old.session_id or new.status is distinct from old.status) then
+    perform public.refresh_session_candidate_count(new.session_id);
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists candidates_refresh_session_counts on public.candidates;
+create trigger candidates_refresh_session_counts
+  after insert or update of session_id, status or delete on public.candidates
+  for each row execute function public.candidates_refresh_session_counts();
+
+-- Rescheduling a session moves its candidates with it
+create or replace function public.sessions_propagate_to_candidates()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.exam_name is distinct from old.exam_name
+     or new.client_name is distinct from old.client_name
+     or new.date is distinct from old.date
+     or new.start_time is distinct from old.start_time then
+    update public.candidates
+    set exam_name = new.exam_name,
+        client_name = new.client_name,
+        exam_date = (new.date + new.start_time) at time zone 'Asia/Kolkata'
+    where session_id = new.id;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists sessions_propagate_to_candidates on public.sessions;
+create trigger sessions_propagate_to_candidates
+  after update on public.sessions
+  for each row execute function public.sessions_propagate_to_candidates();
+
+-- Counts are derived from registrations from today onwards; past sessions keep
+-- their hand-entered count unless candidates were linked to them above
+update public.sessions s
+set candidate_count = (
+  select count(*) from public.candidates c
+  where c.session_id = s.id and c.status <> 'cancelled'
+)
+where s.date >= (now() at time zone 'Asia/Kolkata')::date
+   or exists (select 1 from public.candidates c where c.session_id = s.id);
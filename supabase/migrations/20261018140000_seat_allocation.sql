@@ -0,0 +1,98 @@
+-- Testing rooms, workstation seat maps and per-session seat allocation
+
+create table if not exists public.testing_rooms (
+  id uuid primary key default gen_random_uuid(),
+  centre_code text not null default 'KOC',
+  name text not null,
+  grid_rows integer not null check (grid_rows between 1 and 30),
+  grid_cols integer not null check (grid_cols between 1 and 30),
+  created_at timestamptz not null default now(),
+  unique (centre_code, name)
+);
+
+create table if not exists public.workstations (
+  id uuid primary key default gen_random_uuid(),
+  room_id uuid not null references public.testing_rooms(id) on delete cascade,
+  seat_number integer not null,
+  grid_row integer not null,
+  grid_col integer not null,
+  status text not null default 'active' check (status in ('active', 'out_of_service')),
+  -- Held back from automatic allocation for candidates with approved accommodations
+  is_accommodation boolean not null default false,
+  unique (room_id, seat_number),
+  unique (room_id, grid_row, grid_col)
+);
+
+alter table public.sessions
+  add column if not exists room_id uuid references public.testing_rooms(id) on delete set null;
+
+alter table public.candidates
+  add column if not exists workstation_id uuid references public.workstations(id) on delete set null;
+
+-- One candidate per workstation per session
+create unique index if not exists candidates_session_workstation_idx
+  on public.candidates(session_id, workstation_id)
+  where workstation_id is not null;
+
+-- Checked-in candidates get the lowest numbered free standard seat in the session's room;
+-- reverting the check-in or cancelling releases the seat
+create or replace function public.candidates_assign_workstation()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_room_id uuid;
+begin
+  if new.status not in ('checked_in', 'in_progress', 'completed') then
+    new.workstation_id := null;
+    return new;
+  end if;
+
+  if new.session_id is distinct from old.session_id then
+    new.workstation_id := null;
+  end if;
+
+  if new.status = 'checked_in' and new.workstation_id is null and new.session_id is not null then
+    select room_id into v_room_id from public.sessions where id = new.session_id for update;
+    if v_room_id is null then
+      return new;
+    end if;
+
+    select w.id into new.workstation_id
+    from public.workstations w
+    where w.room_id = v_room_id
+      and w.status = 'active'
+      and not w.is_accommodation
+      and not exists (
+        select 1 from public.candidates c
+        where c.session_id = new.session_id and c.workstation_id = w.id and c.id <> new.id
+      )
+    order by w.seat_number
+    limit 1;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists candidates_assign_workstation on public.candidates;
+create trigger candidates_assign_workstation
+  before update of status, session_id on public.candidates
+  for each row execute function public.candidates_assign_workstation();
+
+alter table public.testing_rooms enable row level security;
+alter table public.workstations enable row level security;
+
+create policy "Staff can read testing rooms" on public.testing_rooms
+  for select to authenticated using (true);
+create policy "Admins manage testing rooms" on public.testing_rooms
+  for all to authenticated
+  using (exists (select 1 from public.profiles where user_id = auth.uid() and role in ('admin', 'super_admin')))
+  with check (exists (select 1 from public.profiles where user_id = auth.uid() and role in ('admin', 'super_admin')));
+
+create policy "Staff can read workstations" on public.workstations
+  for select to authenticated using (true);
+create policy "Admins manage workstations" on public.workstations
+  for all to authenticated
+  using (exists (select 1 from public.profiles where user_id = auth.uid() and role in ('admin', 'super_admin')))
+  with check (exists (select 1 from public.profiles where user_id = auth.uid() and role in ('admin', 'super_admin')));
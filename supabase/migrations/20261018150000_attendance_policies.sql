@@ -0,0 +1,138 @@
+-- Late arrival and no-show policy per client
+-- Candidates arriving after the exam start are flagged late; check-in closes
+-- late_grace_minutes after the start unless a supervisor overrides with a reason.
+-- Registered candidates become no_show no_show_after_minutes after the start.
+-- Defaults (15 and 30 minutes) are mirrored in src/utils/attendancePolicy.ts.
+
+create table if not exists public.client_attendance_policies (
+  client_name text primary key,
+  late_grace_minutes integer not null default 15 check (late_grace_minutes >= 0),
+  no_show_after_minutes integer not null default 30,
+  updated_by uuid references auth.users(id),
+  updated_at timestamptz not null default now(),
+  check (no_show_after_minutes >= late_grace_minutes)
+);
+
+alter table public.candidates
+  add column if not exists late_minutes integer,
+  add column if not exists late_override_reason text,
+  add column if not exists late_override_by uuid references auth.users(id);
+
+create or replace function public.candidate_attendance_policy(p_client_name text, out late_grace_minutes integer, out no_show_after_minutes integer)
+language sql
+stable
+as $$
+  select coalesce(p.late_grace_minutes, 15), coalesce(p.no_show_after_minutes, 30)
+  from (select 1) d
+  left join public.client_attendance_policies p on p.client_name = p_client_name;
+$$;
+
+-- Flags late check-ins and refuses them after the cut-off without a supervisor override
+create or replace function public.candidates_enforce_late_policy()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_policy record;
+  v_minutes_late integer;
+begin
+  if new.status is not distinct from old.status then
+    return new;
+  end if;
+
+  if new.status = 'registered' then
+    new.late_minutes := null;
+    new.late_override_reason := null;
+    new.late_override_by := null;
+    return new;
+  end if;
+
+  if new.status <> 'checked_in' or old.status not in ('registered', 'no_show') or new.exam_date is null then
+    return new;
+  end if;
+
+  v_minutes_late := floor(extract(epoch from (now() - new.exam_date)) / 60);
+  if v_minutes_late <= 0 then
+    new.late_minutes := null;
+    return new;
+  end if;
+
+  new.late_minutes := v_minutes_late;
+  select * into v_policy from public.candidate_attendance_policy(new.client_name);
+  if v_minutes_late > v_policy.late_grace_minutes then
+    if coalesce(trim(new.late_override_reason), '') = '' then
+      raise exception 'Check-in closed % minutes after the exam start; a supervisor override is required', v_policy.late_grace_minutes;
+    end if;
+    if not exists (
+      select 1 from public.profiles
+      where user_id = auth.uid() and role in ('admin', 'super_admin')
+    ) then
+      raise exception 'Only a supervisor can override the check-in cut-off';
+    end if;
+    new.late_override_by := auth.uid();
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists candidates_enforce_late_policy on public.candidates;
+create trigger candidates_enforce_late_policy
+  before update of status on public.candidates
+  for each row execute function public.candidates_enforce_late_policy();
+
+-- Marks registered candidates past their client's no-show cut-off and records the change
+create or replace function public.mark_no_shows()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  with due as (
+    select c.id
+    from public.candidates c
+    cross join lateral public.candidate_attendance_policy(c.client_name) p
+    where c.status = 'registered'
+      and c.exam_date is not null
+      and c.exam_date + make_interval(mins => p.no_show_after_minutes) <= now()
+    for update of c skip locked
+  ), marked as (
+    update public.candidates c
+    set status = 'no_show'
+    from due
+    where c.id = due.id and c.status = 'registered'
+    returning c.id
+  )
+  insert into public.candidate_status_history (candidate_id, from_status, to_status, reason, is_revert, changed_by)
+  select id, 'registered', 'no_show', 'Automatically marked: not checked in by the no-show cut-off', false, null
+  from marked;
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+revoke all on function public.mark_no_shows() from public;
+grant execute on function public.mark_no_shows() to authenticated;
+
+-- Run every five minutes where pg_cron is available; the Candidate Tracker also runs it on load
+do $$
+begin
+  if exists (select 1 from pg_available_extensions where name = 'pg_cron') then
+    create extension if not exists pg_cron;
+    perform cron.schedule('mark-no-shows', '*/5 * * * *', 'select public.mark_no_shows()');
+  end if;
+end;
+$$;
+
+alter table public.client_attendance_policies enable row level security;
+
+create policy "Staff can read attendance policies" on public.client_attendance_policies
+  for select to authenticated using (true);
+create policy "Admins can manage attendance policies" on public.client_attendance_policies
+  for all to authenticated
+  using (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role in ('admin', 'super_admin')))
+  with check (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role in ('admin', 'super_admin')));
@@ -0,0 +1,107 @@
+-- Structured accommodation requests with supervisor approval
+-- Candidates with an approved accommodation are seated at accommodation seats first
+
+create table if not exists public.candidate_accommodations (
+  id uuid primary key default gen_random_uuid(),
+  candidate_id uuid not null references public.candidates(id) on delete cascade,
+  type text not null check (type in ('extra_time', 'separate_room', 'assistive_equipment', 'other')),
+  details text,
+  extra_time_minutes integer check (extra_time_minutes > 0),
+  documentation_path text,
+  documentation_name text,
+  status text not null default 'pending' check (status in ('pending', 'approved', 'rejected')),
+  requested_by uuid references auth.users(id),
+  requested_at timestamptz not null default now(),
+  reviewed_by uuid references auth.users(id),
+  reviewed_at timestamptz,
+  review_notes text,
+  check (type <> 'extra_time' or extra_time_minutes is not null)
+);
+
+create index if not exists candidate_accommodations_candidate_idx
+  on public.candidate_accommodations(candidate_id);
+
+create or replace function public.candidate_has_approved_accommodation(p_candidate_id uuid)
+returns boolean
+language sql
+stable
+as $$
+  select exists (
+    select 1 from public.candidate_accommodations
+    where candidate_id = p_candidate_id and status = 'approved'
+  );
+$$;
+
+-- Same as before, except candidates with an approved accommodation take accommodation
+-- seats first and fall back to standard seats when none are free
+create or replace function public.candidates_assign_workstation()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_room_id uuid;
+  v_accommodated boolean;
+begin
+  if new.status not in ('checked_in', 'in_progress', 'completed') then
+    new.workstation_id := null;
+    return new;
+  end if;
+
+  if new.session_id is distinct from old.session_id then
+    new.workstation_id := null;
+  end if;
+
+  if new.status = 'checked_in' and new.workstation_id is null and new.session_id is not null then
+    select room_id into v_room_id from public.sessions where id = new.session_id for update;
+    if v_room_id is null then
+      return new;
+    end if;
+
+    v_accommodated := public.candidate_has_approved_accommodation(new.id);
+
+    select w.id into new.workstation_id
+    from public.workstations w
+    where w.room_id = v_room_id
+      and w.status = 'active'
+      and (v_accommodated or not w.is_accommodation)
+      and not exists (
+        select 1 from public.candidates c
+        where c.session_id = new.session_id and c.workstation_id = w.id and c.id <> new.id
+      )
+    order by w.is_accommodation desc, w.seat_number
+    limit 1;
+  end if;
+
+  return new;
+end;
+$$;
+
+alter table public.candidate_accommodations enable row level security;
+
+create policy "Staff can read accommodations" on public.candidate_accommodations
+  for select to authenticated using (true);
+create policy "Staff can request accommodations" on public.candidate_accommodations
+  for insert to authenticated
+  with check (requested_by = auth.uid() and status = 'pending');
+create policy "Supervisors can review accommodations" on public.candidate_accommodations
+  for update to authenticated
+  using (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role in ('admin', 'super_admin')))
+  with check (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role in ('admin', 'super_admin')));
+create policy "Requesters can withdraw pending accommodations" on public.candidate_accommodations
+  for delete to authenticated
+  using (
+    (requested_by = auth.uid() and status = 'pending')
+    or exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role in ('admin', 'super_admin'))
+  );
+
+-- Supporting documents (medical letters etc.) are private and read through signed URLs
+insert into storage.buckets (id, name, public)
+values ('accommodation-documents', 'accommodation-documents', false)
+on conflict (id) do nothing;
+
+create policy "Staff can read accommodation documents" on storage.objects
+  for select to authenticated using (bucket_id = 'accommodation-documents');
+create policy "Staff can upload accommodation documents" on storage.objects
+  for insert to authenticated with check (bucket_id = 'accommodation-documents');
+create policy "Staff can delete accommodation documents" on storage.objects
+  for delete to authenticated using (bucket_id = 'accommodation-documents' and owner = auth.uid());
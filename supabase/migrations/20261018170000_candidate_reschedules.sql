@@ -0,0 +1,79 @@
+-- Candidate reschedules: moves between sessions keep the original booking, reason and who made the change
+
+create table if not exists public.candidate_reschedules (
+  id uuid primary key default gen_random_uuid(),
+  candidate_id uuid not null references public.candidates(id) on delete cascade,
+  from_session_id bigint references public.sessions(id) on delete set null,
+  from_exam_name text,
+  from_client_name text,
+  from_exam_date timestamptz,
+  to_session_id bigint references public.sessions(id) on delete set null,
+  to_exam_name text,
+  to_client_name text,
+  to_exam_date timestamptz,
+  reason text not null check (length(trim(reason)) > 0),
+  rescheduled_by uuid references auth.users(id),
+  rescheduled_at timestamptz not null default now()
+);
+
+create index if not exists candidate_reschedules_candidate_idx
+  on public.candidate_reschedules(candidate_id);
+
+-- Runs as the caller so candidate RLS still applies; capacity is enforced by candidates_sync_session
+create or replace function public.reschedule_candidate(p_candidate_id uuid, p_to_session_id bigint, p_reason text)
+returns void
+language plpgsql
+as $$
+declare
+  v_candidate public.candidates%rowtype;
+  v_updated public.candidates%rowtype;
+begin
+  if coalesce(trim(p_reason), '') = '' then
+    raise exception 'A reason is required to reschedule a candidate';
+  end if;
+
+  select * into v_candidate from public.candidates where id = p_candidate_id for update;
+  if not found then
+    raise exception 'Candidate not found';
+  end if;
+  if v_candidate.status not in ('registered', 'no_show') then
+    raise exception 'Only registered or no-show candidates can be rescheduled';
+  end if;
+  if v_candidate.session_id is not distinct from p_to_session_id then
+    raise exception 'The candidate is already booked into this session';
+  end if;
+
+  update public.candidates
+  set session_id = p_to_session_id,
+      status = 'registered'
+  where id = p_candidate_id
+  returning * into v_updated;
+
+  insert into public.candidate_reschedules (
+    candidate_id,
+    from_session_id, from_exam_name, from_client_name, from_exam_date,
+    to_session_id, to_exam_name, to_client_name, to_exam_date,
+    reason, rescheduled_by
+  ) values (
+    p_candidate_id,
+    v_candidate.session_id, v_candidate.exam_name, v_candidate.client_name, v_candidate.exam_date,
+    v_updated.session_id, v_updated.exam_name, v_updated.client_name, v_updated.exam_date,
+    trim(p_reason), auth.uid()
+  );
+
+  if v_candidate.status = 'no_show' then
+    insert into public.candidate_status_history (candidate_id, from_status, to_status, reason, is_revert, changed_by)
+    values (p_candidate_id, 'no_show', 'registered', 'Rescheduled: ' || trim(p_reason), true, auth.uid());
+  end if;
+end;
+$$;
+
+revoke all on function public.reschedule_candidate(uuid, bigint, text) from public;
+grant execute on function public.reschedule_candidate(uuid, bigint, text) to authenticated;
+
+alter table public.candidate_reschedules enable row level security;
+
+create policy "Staff can read reschedules" on public.candidate_reschedules
+  for select to authenticated using (true);
+create policy "Staff can record reschedules" on public.candidate_reschedules
+  for insert to authenticated with check (rescheduled_by = auth.uid());
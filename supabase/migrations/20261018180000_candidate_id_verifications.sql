@@ -0,0 +1,90 @@
+-- Photo ID checks recorded at check-in, with webcam photos purged after a retention period
+
+create table if not exists public.id_verification_settings (
+  centre_code text primary key,
+  photo_retention_days integer not null default 30 check (photo_retention_days between 1 and 365),
+  updated_by uuid references auth.users(id),
+  updated_at timestamptz not null default now()
+);
+
+-- Only the last four characters of the ID number are stored
+create table if not exists public.candidate_id_verifications (
+  id uuid primary key default gen_random_uuid(),
+  candidate_id uuid not null references public.candidates(id) on delete cascade,
+  id_type text not null check (id_type in ('passport', 'aadhaar', 'driving_licence', 'pan', 'voter_id', 'other')),
+  id_last4 text not null check (id_last4 ~ '^[A-Za-z0-9]{4}$'),
+  photo_path text,
+  photo_purged_at timestamptz,
+  verified_by uuid not null references auth.users(id),
+  verified_at timestamptz not null default now()
+);
+
+create index if not exists candidate_id_verifications_candidate_idx
+  on public.candidate_id_verifications(candidate_id, verified_at);
+
+-- Photos still held past their centre's retention period
+create or replace function public.expired_id_verification_photos()
+returns setof text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select v.photo_path
+  from public.candidate_id_verifications v
+  join public.candidates c on c.id = v.candidate_id
+  left join public.id_verification_settings s on s.centre_code = c.centre_code
+  where v.photo_path is not null
+    and v.photo_purged_at is null
+    and v.verified_at < now() - make_interval(days => coalesce(s.photo_retention_days, 30));
+$$;
+
+-- Called once the files are removed from storage; only expired photos can be marked
+create or replace function public.mark_id_photos_purged(p_paths text[])
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.candidate_id_verifications
+  set photo_path = null,
+      photo_purged_at = now()
+  where photo_path = any(p_paths)
+    and photo_path in (select public.expired_id_verification_photos());
+$$;
+
+revoke all on function public.expired_id_verification_photos() from public;
+revoke all on function public.mark_id_photos_purged(text[]) from public;
+grant execute on function public.expired_id_verification_photos() to authenticated;
+grant execute on function public.mark_id_photos_purged(text[]) to authenticated;
+
+alter table public.id_verification_settings enable row level security;
+alter table public.candidate_id_verifications enable row level security;
+
+create policy "Staff can read ID verification settings" on public.id_verification_settings
+  for select to authenticated using (true);
+create policy "Admins can manage ID verification settings" on public.id_verification_settings
+  for all to authenticated
+  using (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role in ('admin', 'super_admin')))
+  with check (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role in ('admin', 'super_admin')));
+
+create policy "Staff can read ID verifications" on public.candidate_id_verifications
+  for select to authenticated using (true);
+create policy "Staff can record ID verifications" on public.candidate_id_verifications
+  for insert to authenticated with check (verified_by = auth.uid());
+
+-- Photos are private and read through signed URLs
+insert into storage.buckets (id, name, public)
+values ('id-verification-photos', 'id-verification-photos', false)
+on conflict (id) do nothing;
+
+create policy "Staff can read ID verification photos" on storage.objects
+  for select to authenticated using (bucket_id = 'id-verification-photos');
+create policy "Staff can upload ID verification photos" on storage.objects
+  for insert to authenticated with check (bucket_id = 'id-verification-photos');
+create policy "Staff can purge expired ID verification photos" on storage.objects
+  for delete to authenticated
+  using (
+    bucket_id = 'id-verification-photos'
+    and name in (select public.expired_id_verification_photos())
+  );
@@ -0,0 +1,71 @@
+-- Saved column layouts for attendance exports sent back to exam providers
+
+create table if not exists public.candidate_export_presets (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique check (length(trim(name)) > 0),
+  -- Client whose candidates the preset exports by default; null exports every client
+  client_name text,
+  -- Ordered list of {"field": ..., "header": ...}
+  columns jsonb not null check (jsonb_typeof(columns) = 'array' and jsonb_array_length(columns) > 0),
+  format text not null default 'csv' check (format in ('csv', 'xlsx')),
+  created_by uuid references auth.users(id),
+  updated_by uuid references auth.users(id),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+insert into public.candidate_export_presets (name, client_name, format, columns) values
+  ('Pearson VUE daily attendance', 'Pearson VUE', 'csv', '[
+    {"field": "exam_date", "header": "Appointment Date"},
+    {"field": "exam_time", "header": "Appointment Time"},
+    {"field": "confirmation_number", "header": "Registration ID"},
+    {"field": "last_name", "header": "Last Name"},
+    {"field": "first_name", "header": "First Name"},
+    {"field": "exam_name", "header": "Exam Series"},
+    {"field": "check_in_time", "header": "Check-in Time"},
+    {"field": "status", "header": "Appointment Status"}
+  ]'::jsonb),
+  ('ETS attendance roster', 'ETS', 'xlsx', '[
+    {"field": "exam_date", "header": "Test Date"},
+    {"field": "exam_name", "header": "Test"},
+    {"field": "full_name", "header": "Test Taker Name"},
+    {"field": "confirmation_number", "header": "Appointment Number"},
+    {"field": "email", "header": "Email"},
+    {"field": "attended", "header": "Attended (Y/N)"},
+    {"field": "check_in_time", "header": "Arrival Time"},
+    {"field": "late_minutes", "header": "Minutes Late"}
+  ]'::jsonb),
+  ('PSI attendance', 'PSI', 'csv', '[
+    {"field": "confirmation_number", "header": "Booking Code"},
+    {"field": "full_name", "header": "Candidate"},
+    {"field": "exam_name", "header": "Exam"},
+    {"field": "exam_datetime", "header": "Scheduled"},
+    {"field": "check_in_datetime", "header": "Checked In"},
+    {"field": "no_show", "header": "No Show"}
+  ]'::jsonb),
+  ('Prometric daily report', 'Prometric', 'xlsx', '[
+    {"field": "confirmation_number", "header": "Confirmation #"},
+    {"field": "last_name", "header": "Surname"},
+    {"field": "first_name", "header": "Given Name"},
+    {"field": "exam_name", "header": "Program"},
+    {"field": "exam_date", "header": "Date"},
+    {"field": "exam_time", "header": "Start"},
+    {"field": "check_in_time", "header": "Admitted"},
+    {"field": "status_code", "header": "Status Code"}
+  ]'::jsonb)
+on conflict (name) do nothing;
+
+alter table public.candidate_export_presets enable row level security;
+
+create policy "Staff can read export presets" on public.candidate_export_presets
+  for select to authenticated using (true);
+create policy "Staff can create export presets" on public.candidate_export_presets
+  for insert to authenticated with check (created_by = auth.uid());
+create policy "Staff can update export presets" on public.candidate_export_presets
+  for update to authenticated using (true) with check (updated_by = auth.uid());
+create policy "Owners and admins can delete export presets" on public.candidate_export_presets
+  for delete to authenticated
+  using (
+    created_by = auth.uid()
+    or exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role in ('admin', 'super_admin'))
+  );
@@ -0,0 +1,45 @@
+-- Recurring exam sessions: a series holds the recurrence rule, each occurrence is an ordinary session row
+
+create table if not exists public.session_series (
+  id uuid primary key default gen_random_uuid(),
+  frequency text not null check (frequency in ('daily', 'weekly', 'monthly')),
+  -- Every n days, weeks or months
+  interval_count integer not null default 1 check (interval_count between 1 and 12),
+  -- Weekly: days of the week, 0 = Sunday
+  weekdays smallint[] not null default '{}' check (weekdays <@ array[0, 1, 2, 3, 4, 5, 6]::smallint[]),
+  -- Monthly: the nth weekday of the month, -1 = last
+  month_week smallint check (month_week in (-1, 1, 2, 3, 4)),
+  month_weekday smallint check (month_weekday between 0 and 6),
+  start_date date not null,
+  until_date date,
+  -- Occurrences generated by the rule, skipped dates included
+  occurrence_count integer check (occurrence_count between 1 and 366),
+  -- Dates the rule generates but which have no session
+  exception_dates date[] not null default '{}',
+  created_by uuid references auth.users(id),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (until_date is not null or occurrence_count is not null),
+  check (until_date is null or until_date >= start_date),
+  check (frequency <> 'weekly' or cardinality(weekdays) > 0),
+  check (frequency <> 'monthly' or (month_week is not null and month_weekday is not null))
+);
+
+alter table public.sessions
+  add column if not exists series_id uuid references public.session_series(id) on delete set null,
+  -- Date the rule generated this occurrence for; stays put when the occurrence is moved
+  add column if not exists series_date date;
+
+create index if not exists sessions_series_idx on public.sessions(series_id, series_date)
+  where series_id is not null;
+
+alter table public.session_series enable row level security;
+
+create policy "Staff can read session series" on public.session_series
+  for select to authenticated using (true);
+create policy "Staff can create session series" on public.session_series
+  for insert to authenticated with check (created_by = auth.uid());
+create policy "Staff can update session series" on public.session_series
+  for update to authenticated using (true) with check (true);
+create policy "Staff can delete session series" on public.session_series
+  for delete to authenticated using (true);
@@ -0,0 +1,249 @@
+-- Session capacity comes from the room's seats, shared by every session in the room at the same time
+
+alter table public.testing_rooms
+  add column if not exists seat_count integer not null default 0,
+  add column if not exists equipment text[] not null default '{}';
+
+-- Seats in service; accommodation seats count, out of service seats do not
+create or replace function public.refresh_room_seat_count(p_room_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.testing_rooms r
+  set seat_count = (
+    select count(*) from public.workstations w
+    where w.room_id = r.id and w.status = 'active'
+  )
+  where r.id = p_room_id;
+$$;
+
+create or replace function public.workstations_refresh_room_seat_count()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op in ('UPDATE', 'DELETE') then
+    perform public.refresh_room_seat_count(old.room_id);
+  end if;
+  if tg_op in ('INSERT', 'UPDATE') and (tg_op = 'INSERT' or new.room_id is distinct from old.room_id or new.status is distinct from old.status) then
+    perform public.refresh_room_seat_count(new.room_id);
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists workstations_refresh_room_seat_count on public.workstations;
+create trigger workstations_refresh_room_seat_count
+  after insert or update of room_id, status or delete on public.workstations
+  for each row execute function public.workstations_refresh_room_seat_count();
+
+update public.testing_rooms r
+set seat_count = (
+  select count(*) from public.workstations w
+  where w.room_id = r.id and w.status = 'active'
+);
+
+-- Candidates booked into other sessions using the same room at an overlapping time
+create or replace function public.room_seats_taken(
+  p_room_id uuid,
+  p_date date,
+  p_start_time time,
+  p_end_time time,
+  p_exclude_session_id bigint
+)
+returns integer
+language sql
+stable
+as $$
+  select coalesce(sum(s.candidate_count), 0)::integer
+  from public.sessions s
+  where s.room_id = p_room_id
+    and s.date = p_date
+    and s.start_time < p_end_time
+    and p_start_time < s.end_time
+    and s.id is distinct from p_exclude_session_id;
+$$;
+
+-- Sessions without a room keep the old fixed limit, mirrored by DEFAULT_CAPACITY in src/utils/sessionUtils.ts
+create or replace function public.session_max_capacity(p_session_id bigint)
+returns integer
+language sql
+stable
+as $$
+  select case
+    when s.room_id is null then 40
+    else greatest(r.seat_count - public.room_seats_taken(s.room_id, s.date, s.start_time, s.end_time, s.id), 0)
+  end
+  from public.sessions s
+  left join public.testing_rooms r on r.id = s.room_id
+  where s.id = p_session_id;
+$$;
+
+-- Exposed to the API as sessions.capacity, e.g. select('id, candidate_count, capacity')
+create or replace function public.capacity(public.sessions)
+returns integer
+language sql
+stable
+as $$
+  select public.session_max_capacity($1.id);
+$$;
+
+-- Same as before, but sessions sharing a room queue on the room so two of them cannot both take its last seat
+create or replace function public.candidates_sync_session()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_session public.sessions%rowtype;
+  v_booked integer;
+begin
+  if new.session_id is null then
+    return new;
+  end if;
+
+  -- Lock the session so concurrent registrations cannot both take the last seat
+  select * into v_session from public.sessions where id = new.session_id for update;
+  if not found then
+    raise exception 'Session % does not exist', new.session_id;
+  end if;
+
+  new.exam_name := v_session.exam_name;
+  new.client_name := v_session.client_name;
+  new.exam_date := (v_session.date + v_session.start_time) at time zone 'Asia/Kolkata';
+
+  if new.status <> 'cancelled' and (
+    tg_op = 'INSERT'
+    or old.session_id is distinct from new.session_id
+    or old.status = 'cancelled'
+  ) then
+    if v_session.room_id is not null then
+      perform pg_advisory_xact_lock(hashtext('testing_room:' || v_session.room_id::text));
+    end if;
+
+    select count(*) into v_booked
+    from public.candidates
+    where session_id = new.session_id and status <> 'cancelled' and id <> new.id;
+
+    if v_booked >= public.session_max_capacity(new.session_id) then
+      raise exception 'Session % on % is full (% candidates)', v_session.exam_name, v_session.date, v_booked
+        using errcode = 'check_violation';
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Moving a session into a room, or to a time when the room is busier, must still fit its candidates
+create or replace function public.sessions_check_room_capacity()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_room public.testing_rooms%rowtype;
+  v_taken integer;
+begin
+  if new.room_id is null then
+    return new;
+  end if;
+  if tg_op = 'UPDATE'
+     and new.room_id is not distinct from old.room_id
+     and new.date = old.date
+     and new.start_time = old.start_time
+     and new.end_time = old.end_time then
+    return new;
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext('testing_room:' || new.room_id::text));
+  select * into v_room from public.testing_rooms where id = new.room_id;
+  v_taken := public.room_seats_taken(new.room_id, new.date, new.start_time, new.end_time, new.id);
+
+  if coalesce(new.candidate_count, 0) + v_taken > v_room.seat_count then
+    raise exception '% has % seats; % are already booked at that time and this session has %',
+      v_room.name, v_room.seat_count, v_taken, coalesce(new.candidate_count, 0)
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists sessions_check_room_capacity on public.sessions;
+create trigger sessions_check_room_capacity
+  before insert or update of room_id, date, start_time, end_time on public.sessions
+  for each row execute function public.sessions_check_room_capacity();
+
+-- Seat allocation skips seats held by candidates of other sessions in the room at the same time
+create or replace function public.candidates_assign_workstation()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_session public.sessions%rowtype;
+begin
+  if new.status not in ('checked_in', 'in_progress', 'completed') then
+    new.workstation_id := null;
+    return new;
+  end if;
+
+  if new.session_id is distinct from old.session_id then
+    new.workstation_id := null;
+  end if;
+
+  if new.session_id is null then
+    return new;
+  end if;
+
+  select * into v_session from public.sessions where id = new.session_id for update;
+  if v_session.room_id is null then
+    return new;
+  end if;
+  perform pg_advisory_xact_lock(hashtext('testing_room:' || v_session.room_id::text));
+
+  if new.status = 'checked_in' and new.workstation_id is null then
+    select w.id into new.workstation_id
+    from public.workstations w
+    where w.room_id = v_session.room_id
+      and w.status = 'active'
+      and not w.is_accommodation
+      and not exists (
+        select 1
+        from public.candidates c
+        join public.sessions s on s.id = c.session_id
+        where c.workstation_id = w.id
+          and c.id <> new.id
+          and s.room_id = v_session.room_id
+          and s.date = v_session.date
+          and s.start_time < v_session.end_time
+          and v_session.start_time < s.end_time
+      )
+    order by w.seat_number
+    limit 1;
+  elsif new.workstation_id is not null and new.workstation_id is distinct from old.workstation_id and exists (
+    select 1
+    from public.candidates c
+    join public.sessions s on s.id = c.session_id
+    where c.workstation_id = new.workstation_id
+      and c.id <> new.id
+      and s.id <> v_session.id
+      and s.room_id = v_session.room_id
+      and s.date = v_session.date
+      and s.start_time < v_session.end_time
+      and v_session.start_time < s.end_time
+  ) then
+    raise exception 'This seat is taken by a candidate in another session in the room'
+      using errcode = 'unique_violation';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists candidates_assign_workstation on public.candidates;
+create trigger candidates_assign_workstation
+  before update of status, session_id, workstation_id on public.candidates
+  for each row execute function public.candidates_assign_workstation();
@@ -0,0 +1,8 @@
+-- Sessions imported from .ics files keep the event's UID, so importing the same booking again updates it
+
+alter table public.sessions
+  add column if not exists ics_uid text;
+
+create unique index if not exists sessions_ics_uid_key
+  on public.sessions (ics_uid)
+  where ics_uid is not null;
@@ -0,0 +1,141 @@
+-- Client registry: sessions reference a client by id instead of the calendar guessing from the name
+-- Check-in rules move here from client_attendance_policies; defaults are mirrored in src/utils/attendancePolicy.ts
+-- and the default colour and session length in src/utils/clients.ts.
+
+create table if not exists public.clients (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (trim(name) <> ''),
+  -- Other spellings used by bookings, imports and older sessions, e.g. 'VUE' for Pearson VUE
+  aliases text[] not null default '{}',
+  color text not null default '#6b7280' check (color ~ '^#[0-9a-fA-F]{6}$'),
+  default_session_minutes integer not null default 180 check (default_session_minutes between 15 and 720),
+  late_grace_minutes integer not null default 15 check (late_grace_minutes >= 0),
+  no_show_after_minutes integer not null default 30,
+  contact_name text,
+  contact_email text,
+  contact_phone text,
+  active boolean not null default true,
+  updated_by uuid references auth.users(id),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (no_show_after_minutes >= late_grace_minutes)
+);
+
+create unique index if not exists clients_name_key on public.clients (lower(name));
+
+-- Whole-name match on the name or an alias, ignoring case; never a substring
+create or replace function public.find_client_id(p_name text)
+returns uuid
+language sql
+stable
+as $$
+  select c.id
+  from public.clients c
+  where lower(c.name) = lower(trim(p_name))
+     or lower(trim(p_name)) in (select lower(trim(alias)) from unnest(c.aliases) alias)
+  order by lower(c.name) = lower(trim(p_name)) desc, c.created_at
+  limit 1;
+$$;
+
+insert into public.clients (name, aliases, color) values
+  ('Pearson VUE', '{Pearson, VUE, PearsonVUE}', '#3b82f6'),
+  ('ETS', '{Educational Testing Service}', '#22c55e'),
+  ('PSI', '{PSI Services}', '#a855f7'),
+  ('Prometric', '{}', '#f97316')
+on conflict do nothing;
+
+-- Every client already in use gets an entry so no session is left without one
+insert into public.clients (name)
+select distinct on (lower(trim(n.client_name))) trim(n.client_name)
+from (
+  select client_name from public.sessions
+  union all
+  select client_name from public.client_attendance_policies
+) n
+where coalesce(trim(n.client_name), '') <> ''
+  and public.find_client_id(n.client_name) is null
+on conflict do nothing;
+
+update public.clients c
+set late_grace_minutes = p.late_grace_minutes,
+    no_show_after_minutes = p.no_show_after_minutes
+from public.client_attendance_policies p
+where c.id = public.find_client_id(p.client_name);
+
+alter table public.sessions
+  add column if not exists client_id uuid references public.clients(id) on delete restrict;
+
+create index if not exists sessions_client_id_idx on public.sessions (client_id);
+
+-- client_name stays as the client's display name; writers that only know a name are linked by it
+create or replace function public.sessions_sync_client()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.client_id is null
+     or (tg_op = 'UPDATE' and new.client_name is distinct from old.client_name and new.client_id is not distinct from old.client_id) then
+    new.client_id := public.find_client_id(new.client_name);
+  end if;
+
+  if new.client_id is not null then
+    select name into new.client_name from public.clients where id = new.client_id;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists sessions_sync_client on public.sessions;
+create trigger sessions_sync_client
+  before insert or update of client_id, client_name on public.sessions
+  for each row execute function public.sessions_sync_client();
+
+-- Link existing sessions; the trigger also corrects their spelling of the name, and sessions_propagate_to_candidates
+-- carries it on to their candidates
+update public.sessions
+set client_id = public.find_client_id(client_name)
+where client_id is null;
+
+-- Renaming a client renames it on its sessions (and so their candidates) and its confirmation prefix
+create or replace function public.clients_propagate_name()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.sessions set client_name = new.name where client_id = new.id;
+  update public.candidate_confirmation_prefixes set client_name = new.name
+  where lower(client_name) = lower(old.name);
+  return null;
+end;
+$$;
+
+drop trigger if exists clients_propagate_name on public.clients;
+create trigger clients_propagate_name
+  after update of name on public.clients
+  for each row
+  when (new.name is distinct from old.name)
+  execute function public.clients_propagate_name();
+
+-- Check-in rules now come from the registry, matched by name or alias
+create or replace function public.candidate_attendance_policy(p_client_name text, out late_grace_minutes integer, out no_show_after_minutes integer)
+language sql
+stable
+as $$
+  select coalesce(c.late_grace_minutes, 15), coalesce(c.no_show_after_minutes, 30)
+  from (select 1) d
+  left join public.clients c on c.id = public.find_client_id(p_client_name);
+$$;
+
+drop table if exists public.client_attendance_policies;
+
+alter table public.clients enable row level security;
+
+create policy "Staff can read clients" on public.clients
+  for select to authenticated using (true);
+create policy "Admins can manage clients" on public.clients
+  for all to authenticated
+  using (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role in ('admin', 'super_admin')))
+  with check (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role in ('admin', 'super_admin')));
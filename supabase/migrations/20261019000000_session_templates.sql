@@ -0,0 +1,30 @@
+-- Session templates: saved client, exam, times and room for booking the same session on many dates
+
+create table if not exists public.session_templates (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (trim(name) <> ''),
+  client_id uuid not null references public.clients(id) on delete cascade,
+  exam_name text not null check (trim(exam_name) <> ''),
+  start_time time not null,
+  end_time time not null,
+  -- Candidates the session is planned for; checked against the room and the roster when the template is applied
+  seats integer not null default 0 check (seats >= 0),
+  room_id uuid references public.testing_rooms(id) on delete set null,
+  created_by uuid references auth.users(id),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (end_time > start_time)
+);
+
+create unique index if not exists session_templates_name_key on public.session_templates (lower(name));
+
+alter table public.session_templates enable row level security;
+
+create policy "Staff can read session templates" on public.session_templates
+  for select to authenticated using (true);
+create policy "Staff can create session templates" on public.session_templates
+  for insert to authenticated with check (created_by = auth.uid());
+create policy "Staff can update session templates" on public.session_templates
+  for update to authenticated using (true) with check (true);
+create policy "Staff can delete session templates" on public.session_templates
+  for delete to authenticated using (true);
@@ -0,0 +1,22 @@
+-- Staff each session needs: one invigilator per so many candidates, or a number set on the session
+
+create table if not exists public.staffing_settings (
+  centre_code text primary key,
+  -- Mirrored by DEFAULT_CANDIDATES_PER_INVIGILATOR in src/utils/staffCoverage.ts
+  candidates_per_invigilator integer not null default 20 check (candidates_per_invigilator between 1 and 100),
+  updated_by uuid references auth.users(id),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.sessions
+  -- Null follows the candidate count and the centre's ratio
+  add column if not exists required_staff integer check (required_staff between 0 and 50);
+
+alter table public.staffing_settings enable row level security;
+
+create policy "Staff can read staffing settings" on public.staffing_settings
+  for select to authenticated using (true);
+create policy "Admins can manage staffing settings" on public.staffing_settings
+  for all to authenticated
+  using (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role in ('admin', 'super_admin')))
+  with check (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role in ('admin', 'super_admin')));
@@ -0,0 +1,105 @@
+-- Generated roster drafts, reviewed and edited by an admin before they replace the month's roster
+
+-- Rest days a staff member would rather have, and the skills sessions can ask for
+create table if not exists public.staff_roster_preferences (
+  profile_id uuid primary key references public.staff_profiles(id) on delete cascade,
+  -- Days of the week, 0 = Sunday
+  preferred_rest_days smallint[] not null default '{}' check (preferred_rest_days <@ array[0, 1, 2, 3, 4, 5, 6]::smallint[]),
+  skills text[] not null default '{}',
+  updated_by uuid references auth.users(id),
+  updated_at timestamptz not null default now()
+);
+
+-- Skills or roles at least one rostered staff member must have on the session's day
+alter table public.sessions
+  add column if not exists required_skills text[] not null default '{}';
+
+create table if not exists public.roster_drafts (
+  id uuid primary key default gen_random_uuid(),
+  month integer not null check (month between 1 and 12),
+  year integer not null,
+  max_consecutive_days integer not null check (max_consecutive_days between 1 and 14),
+  status text not null default 'draft' check (status in ('draft', 'published', 'discarded')),
+  created_by uuid references auth.users(id),
+  created_at timestamptz not null default now(),
+  published_by uuid references auth.users(id),
+  published_at timestamptz
+);
+
+-- At most one open draft per month
+create unique index if not exists roster_drafts_open_month_key on public.roster_drafts (year, month)
+  where status = 'draft';
+
+create table if not exists public.roster_draft_shifts (
+  draft_id uuid not null references public.roster_drafts(id) on delete cascade,
+  profile_id uuid not null references public.staff_profiles(id) on delete cascade,
+  date date not null,
+  shift_code text not null check (shift_code in ('D', 'HD', 'RD', 'L', 'TOIL', 'OT')),
+  primary key (draft_id, profile_id, date)
+);
+
+-- Replace the month's roster for the draft's staff with the draft, in one transaction
+create or replace function public.publish_roster_draft(p_draft_id uuid)
+returns integer
+language plpgsql
+as $$
+declare
+  v_draft public.roster_drafts;
+  v_start date;
+  v_count integer;
+begin
+  if not exists (
+    select 1 from public.profiles
+    where user_id = auth.uid() and role in ('admin', 'super_admin')
+  ) then
+    raise exception 'Only administrators can publish a roster';
+  end if;
+
+  select * into v_draft from public.roster_drafts where id = p_draft_id for update;
+  if v_draft.id is null or v_draft.status <> 'draft' then
+    raise exception 'This roster draft is no longer open';
+  end if;
+
+  v_start := make_date(v_draft.year, v_draft.month, 1);
+
+  delete from public.roster_schedules r
+  where r.date >= v_start
+    and r.date < v_start + interval '1 month'
+    and r.profile_id in (select distinct profile_id from public.roster_draft_shifts where draft_id = p_draft_id);
+
+  insert into public.roster_schedules (profile_id, date, shift_code, overtime_hours, status, created_at, updated_at)
+  select profile_id, date, shift_code, 0, 'confirmed', now(), now()
+  from public.roster_draft_shifts
+  where draft_id = p_draft_id;
+  get diagnostics v_count = row_count;
+
+  update public.roster_drafts
+  set status = 'published', published_by = auth.uid(), published_at = now()
+  where id = p_draft_id;
+
+  return v_count;
+end;
+$$;
+
+grant execute on function public.publish_roster_draft(uuid) to authenticated;
+
+alter table public.staff_roster_preferences enable row level security;
+alter table public.roster_drafts enable row level security;
+alter table public.roster_draft_shifts enable row level security;
+
+create policy "Staff can read roster preferences" on public.staff_roster_preferences
+  for select to authenticated using (true);
+create policy "Admins can manage roster preferences" on public.staff_roster_preferences
+  for all to authenticated
+  using (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role in ('admin', 'super_admin')))
+  with check (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role in ('admin', 'super_admin')));
+
+create policy "Admins can manage roster drafts" on public.roster_drafts
+  for all to authenticated
+  using (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role in ('admin', 'super_admin')))
+  with check (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role in ('admin', 'super_admin')));
+
+create policy "Admins can manage roster draft shifts" on public.roster_draft_shifts
+  for all to authenticated
+  using (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role in ('admin', 'super_admin')))
+  with check (exists (select 1 from public.profiles p where p.user_id = auth.uid() and p.role in ('admin', 'super_admin')));
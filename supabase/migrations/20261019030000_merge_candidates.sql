@@ -0,0 +1,147 @@
+-- Merge a duplicate candidate into the record being kept, in one transaction
+
+-- Merging carries the absorbed record's check-in over as it was; the late policy was applied when it checked in
+create or replace function public.candidates_enforce_late_policy()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_policy record;
+  v_minutes_late integer;
+begin
+  if new.status is not distinct from old.status or current_setting('fets.merging_candidates', true) = 'on' then
+    return new;
+  end if;
+
+  if new.status = 'registered' then
+    new.late_minutes := null;
+    new.late_override_reason := null;
+    new.late_override_by := null;
+    return new;
+  end if;
+
+  if new.status <> 'checked_in' or old.status not in ('registered', 'no_show') or new.exam_date is null then
+    return new;
+  end if;
+
+  v_minutes_late := floor(extract(epoch from (now() - new.exam_date)) / 60);
+  if v_minutes_late <= 0 then
+    new.late_minutes := null;
+    return new;
+  end if;
+
+  new.late_minutes := v_minutes_late;
+  select * into v_policy from public.candidate_attendance_policy(new.client_name);
+  if v_minutes_late > v_policy.late_grace_minutes then
+    if coalesce(trim(new.late_override_reason), '') = '' then
+      raise exception 'Check-in closed % minutes after the exam start; a supervisor override is required', v_policy.late_grace_minutes;
+    end if;
+    if not exists (
+      select 1 from public.profiles
+      where user_id = auth.uid() and role in ('admin', 'super_admin')
+    ) then
+      raise exception 'Only a supervisor can override the check-in cut-off';
+    end if;
+    new.late_override_by := auth.uid();
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Moves everything recorded against the absorbed candidate onto the kept one before removing it,
+-- so accommodations, reschedules, ID checks and status history survive the merge
+create or replace function public.merge_candidates(p_primary_id uuid, p_absorbed_id uuid, p_match_reasons text[])
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_primary public.candidates%rowtype;
+  v_absorbed public.candidates%rowtype;
+  v_progress text[] := array['cancelled', 'registered', 'no_show', 'checked_in', 'in_progress', 'completed'];
+  v_status text;
+  v_check_in timestamptz;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to merge candidates';
+  end if;
+  if p_primary_id = p_absorbed_id then
+    raise exception 'A candidate cannot be merged into itself';
+  end if;
+
+  -- Lock both rows in a fixed order so two merges of the same pair cannot interleave
+  perform 1 from public.candidates where id in (p_primary_id, p_absorbed_id) order by id for update;
+  select * into v_primary from public.candidates where id = p_primary_id;
+  select * into v_absorbed from public.candidates where id = p_absorbed_id;
+  if v_primary.id is null or v_absorbed.id is null then
+    raise exception 'One of the candidates no longer exists';
+  end if;
+
+  insert into public.candidate_merges (primary_candidate_id, absorbed_candidate_id, absorbed_snapshot, match_reasons, merged_by)
+  values (p_primary_id, p_absorbed_id, to_jsonb(v_absorbed), coalesce(p_match_reasons, '{}'), auth.uid());
+
+  update public.candidate_status_history set candidate_id = p_primary_id where candidate_id = p_absorbed_id;
+  update public.candidate_accommodations set candidate_id = p_primary_id where candidate_id = p_absorbed_id;
+  update public.candidate_reschedules set candidate_id = p_primary_id where candidate_id = p_absorbed_id;
+  update public.candidate_id_verifications set candidate_id = p_primary_id where candidate_id = p_absorbed_id;
+  update public.candidate_merges set primary_candidate_id = p_primary_id where primary_candidate_id = p_absorbed_id;
+  -- Pairs involving the absorbed record no longer mean anything once it is gone
+  delete from public.candidate_duplicate_dismissals where p_absorbed_id in (candidate_a, candidate_b);
+
+  -- Keep the furthest status and the earliest check-in across both records
+  v_status := case
+    when array_position(v_progress, v_absorbed.status) > array_position(v_progress, v_primary.status) then v_absorbed.status
+    else v_primary.status
+  end;
+  v_check_in := case
+    when v_absorbed.check_in_time is not null and (v_primary.check_in_time is null or v_absorbed.check_in_time < v_primary.check_in_time)
+      then v_absorbed.check_in_time
+    else v_primary.check_in_time
+  end;
+
+  -- Removed before the kept record takes over its confirmation number and seat, which are unique
+  delete from public.candidates where id = p_absorbed_id;
+
+  perform set_config('fets.merging_candidates', 'on', true);
+  update public.candidates
+  set full_name = coalesce(nullif(v_primary.full_name, ''), v_absorbed.full_name),
+      email = coalesce(nullif(v_primary.email, ''), v_absorbed.email),
+      phone = coalesce(nullif(v_primary.phone, ''), v_absorbed.phone),
+      exam_date = coalesce(v_primary.exam_date, v_absorbed.exam_date),
+      exam_name = coalesce(nullif(v_primary.exam_name, ''), v_absorbed.exam_name),
+      confirmation_number = coalesce(nullif(v_primary.confirmation_number, ''), v_absorbed.confirmation_number),
+      notes = case
+        when coalesce(v_absorbed.notes, '') = '' or v_absorbed.notes = v_primary.notes then v_primary.notes
+        when coalesce(v_primary.notes, '') = '' then v_absorbed.notes
+        else v_primary.notes || E'\n' || v_absorbed.notes
+      end,
+      session_id = coalesce(v_primary.session_id, v_absorbed.session_id),
+      workstation_id = case
+        when v_primary.workstation_id is null and v_status = v_absorbed.status
+          and coalesce(v_primary.session_id, v_absorbed.session_id) is not distinct from v_absorbed.session_id
+          then v_absorbed.workstation_id
+        else v_primary.workstation_id
+      end,
+      late_minutes = case when v_status = v_absorbed.status and v_status <> v_primary.status then v_absorbed.late_minutes else v_primary.late_minutes end,
+      late_override_reason = case when v_status = v_absorbed.status and v_status <> v_primary.status then v_absorbed.late_override_reason else v_primary.late_override_reason end,
+      late_override_by = case when v_status = v_absorbed.status and v_status <> v_primary.status then v_absorbed.late_override_by else v_primary.late_override_by end,
+      status = v_status,
+      check_in_time = v_check_in
+  where id = p_primary_id;
+  perform set_config('fets.merging_candidates', 'off', true);
+
+  if v_status is distinct from v_primary.status then
+    insert into public.candidate_status_history (candidate_id, from_status, to_status, reason, changed_by)
+    values (
+      p_primary_id, v_primary.status, v_status,
+      'Merged with duplicate record ' || coalesce(v_absorbed.confirmation_number, v_absorbed.id::text),
+      auth.uid()
+    );
+  end if;
+end;
+$$;
+
+revoke all on function public.merge_candidates(uuid, uuid, text[]) from public;
+grant execute on function public.merge_candidates(uuid, uuid, text[]) to authenticated;
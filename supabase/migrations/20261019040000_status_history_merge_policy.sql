@@ -0,0 +1,2 @@
+-- Status history rows are an audit trail; merge_candidates re-points them as a security definer, so clients never update them
+drop policy if exists "Staff can move status history on merge" on public.candidate_status_history;
@@ -0,0 +1,254 @@
+-- Candidate status changes are validated and recorded by the database, in the same statement as the change
+
+-- The reason given with the latest status change; every status update sets it, null when none was given
+alter table public.candidates
+  add column if not exists status_reason text;
+
+-- Allowed transitions, mirrored by TRANSITIONS in src/utils/candidateStatus.ts
+-- Returns whether the change corrects an earlier step, or null when it is not allowed
+create or replace function public.candidate_status_is_revert(p_from text, p_to text)
+returns boolean
+language sql
+immutable
+as $$
+  select t.is_revert
+  from (values
+    ('registered', 'checked_in', false),
+    ('registered', 'no_show', false),
+    ('registered', 'cancelled', false),
+    ('checked_in', 'in_progress', false),
+    ('checked_in', 'registered', true),
+    ('checked_in', 'cancelled', false),
+    ('in_progress', 'completed', false),
+    ('in_progress', 'checked_in', true),
+    ('completed', 'in_progress', true),
+    ('no_show', 'registered', true),
+    ('no_show', 'checked_in', true),
+    ('cancelled', 'registered', true)
+  ) as t(from_status, to_status, is_revert)
+  where t.from_status = p_from and t.to_status = p_to
+$$;
+
+create or replace function public.candidates_validate_status()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_is_revert boolean;
+begin
+  -- Merging keeps the furthest status of two records, which need not be one step on
+  if new.status is not distinct from old.status or current_setting('fets.merging_candidates', true) = 'on' then
+    return new;
+  end if;
+
+  v_is_revert := public.candidate_status_is_revert(old.status, new.status);
+  if v_is_revert is null then
+    raise exception 'Cannot change status from % to %', old.status, new.status;
+  end if;
+  if v_is_revert and coalesce(trim(new.status_reason), '') = '' then
+    raise exception 'Changing status from % to % requires a reason', old.status, new.status;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists candidates_validate_status on public.candidates;
+create trigger candidates_validate_status
+  before update of status on public.candidates
+  for each row execute function public.candidates_validate_status();
+
+-- Fails the status update along with it if the history row cannot be written
+create or replace function public.candidates_record_status_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.candidate_status_history (candidate_id, from_status, to_status, reason, is_revert, changed_by)
+  values (
+    new.id, old.status, new.status,
+    nullif(trim(new.status_reason), ''),
+    coalesce(public.candidate_status_is_revert(old.status, new.status), false),
+    auth.uid()
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists candidates_record_status_change on public.candidates;
+create trigger candidates_record_status_change
+  after update of status on public.candidates
+  for each row
+  when (new.status is distinct from old.status)
+  execute function public.candidates_record_status_change();
+
+-- History is only written by the triggers above
+drop policy if exists "Staff can record status changes" on public.candidate_status_history;
+
+-- The no-show job, reschedules and merges give their reason with the change instead of writing history themselves
+create or replace function public.mark_no_shows()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  with due as (
+    select c.id
+    from public.candidates c
+    cross join lateral public.candidate_attendance_policy(c.client_name) p
+    where c.status = 'registered'
+      and c.exam_date is not null
+      and c.exam_date + make_interval(mins => p.no_show_after_minutes) <= now()
+    for update of c skip locked
+  )
+  update public.candidates c
+  set status = 'no_show',
+      status_reason = 'Automatically marked: not checked in by the no-show cut-off'
+  from due
+  where c.id = due.id and c.status = 'registered';
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+-- Runs as the caller so candidate RLS still applies; capacity is enforced by candidates_sync_session
+create or replace function public.reschedule_candidate(p_candidate_id uuid, p_to_session_id bigint, p_reason text)
+returns void
+language plpgsql
+as $$
+declare
+  v_candidate public.candidates%rowtype;
+  v_updated public.candidates%rowtype;
+begin
+  if coalesce(trim(p_reason), '') = '' then
+    raise exception 'A reason is required to reschedule a candidate';
+  end if;
+
+  select * into v_candidate from public.candidates where id = p_candidate_id for update;
+  if not found then
+    raise exception 'Candidate not found';
+  end if;
+  if v_candidate.status not in ('registered', 'no_show') then
+    raise exception 'Only registered or no-show candidates can be rescheduled';
+  end if;
+  if v_candidate.session_id is not distinct from p_to_session_id then
+    raise exception 'The candidate is already booked into this session';
+  end if;
+
+  update public.candidates
+  set session_id = p_to_session_id,
+      status = 'registered',
+      status_reason = case when v_candidate.status = 'no_show' then 'Rescheduled: ' || trim(p_reason) else status_reason end
+  where id = p_candidate_id
+  returning * into v_updated;
+
+  insert into public.candidate_reschedules (
+    candidate_id,
+    from_session_id, from_exam_name, from_client_name, from_exam_date,
+    to_session_id, to_exam_name, to_client_name, to_exam_date,
+    reason, rescheduled_by
+  ) values (
+    p_candidate_id,
+    v_candidate.session_id, v_candidate.exam_name, v_candidate.client_name, v_candidate.exam_date,
+    v_updated.session_id, v_updated.exam_name, v_updated.client_name, v_updated.exam_date,
+    trim(p_reason), auth.uid()
+  );
+end;
+$$;
+
+-- Moves everything recorded against the absorbed candidate onto the kept one before removing it,
+-- so accommodations, reschedules, ID checks and status history survive the merge
+create or replace function public.merge_candidates(p_primary_id uuid, p_absorbed_id uuid, p_match_reasons text[])
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_primary public.candidates%rowtype;
+  v_absorbed public.candidates%rowtype;
+  v_progress text[] := array['cancelled', 'registered', 'no_show', 'checked_in', 'in_progress', 'completed'];
+  v_status text;
+  v_check_in timestamptz;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to merge candidates';
+  end if;
+  if p_primary_id = p_absorbed_id then
+    raise exception 'A candidate cannot be merged into itself';
+  end if;
+
+  -- Lock both rows in a fixed order so two merges of the same pair cannot interleave
+  perform 1 from public.candidates where id in (p_primary_id, p_absorbed_id) order by id for update;
+  select * into v_primary from public.candidates where id = p_primary_id;
+  select * into v_absorbed from public.candidates where id = p_absorbed_id;
+  if v_primary.id is null or v_absorbed.id is null then
+    raise exception 'One of the candidates no longer exists';
+  end if;
+
+  insert into public.candidate_merges (primary_candidate_id, absorbed_candidate_id, absorbed_snapshot, match_reasons, merged_by)
+  values (p_primary_id, p_absorbed_id, to_jsonb(v_absorbed), coalesce(p_match_reasons, '{}'), auth.uid());
+
+  update public.candidate_status_history set candidate_id = p_primary_id where candidate_id = p_absorbed_id;
+  update public.candidate_accommodations set candidate_id = p_primary_id where candidate_id = p_absorbed_id;
+  update public.candidate_reschedules set candidate_id = p_primary_id where candidate_id = p_absorbed_id;
+  update public.candidate_id_verifications set candidate_id = p_primary_id where candidate_id = p_absorbed_id;
+  update public.candidate_merges set primary_candidate_id = p_primary_id where primary_candidate_id = p_absorbed_id;
+  -- Pairs involving the absorbed record no longer mean anything once it is gone
+  delete from public.candidate_duplicate_dismissals where p_absorbed_id in (candidate_a, candidate_b);
+
+  -- Keep the furthest status and the earliest check-in across both records
+  v_status := case
+    when array_position(v_progress, v_absorbed.status) > array_position(v_progress, v_primary.status) then v_absorbed.status
+    else v_primary.status
+  end;
+  v_check_in := case
+    when v_absorbed.check_in_time is not null and (v_primary.check_in_time is null or v_absorbed.check_in_time < v_primary.check_in_time)
+      then v_absorbed.check_in_time
+    else v_primary.check_in_time
+  end;
+
+  -- Removed before the kept record takes over its confirmation number and seat, which are unique
+  delete from public.candidates where id = p_absorbed_id;
+
+  perform set_config('fets.merging_candidates', 'on', true);
+  update public.candidates
+  set full_name = coalesce(nullif(v_primary.full_name, ''), v_absorbed.full_name),
+      email = coalesce(nullif(v_primary.email, ''), v_absorbed.email),
+      phone = coalesce(nullif(v_primary.phone, ''), v_absorbed.phone),
+      exam_date = coalesce(v_primary.exam_date, v_absorbed.exam_date),
+      exam_name = coalesce(nullif(v_primary.exam_name, ''), v_absorbed.exam_name),
+      confirmation_number = coalesce(nullif(v_primary.confirmation_number, ''), v_absorbed.confirmation_number),
+      notes = case
+        when coalesce(v_absorbed.notes, '') = '' or v_absorbed.notes = v_primary.notes then v_primary.notes
+        when coalesce(v_primary.notes, '') = '' then v_absorbed.notes
+        else v_primary.notes || E'\n' || v_absorbed.notes
+      end,
+      session_id = coalesce(v_primary.session_id, v_absorbed.session_id),
+      workstation_id = case
+        when v_primary.workstation_id is null and v_status = v_absorbed.status
+          and coalesce(v_primary.session_id, v_absorbed.session_id) is not distinct from v_absorbed.session_id
+          then v_absorbed.workstation_id
+        else v_primary.workstation_id
+      end,
+      late_minutes = case when v_status = v_absorbed.status and v_status <> v_primary.status then v_absorbed.late_minutes else v_primary.late_minutes end,
+      late_override_reason = case when v_status = v_absorbed.status and v_status <> v_primary.status then v_absorbed.late_override_reason else v_primary.late_override_reason end,
+      late_override_by = case when v_status = v_absorbed.status and v_status <> v_primary.status then v_absorbed.late_override_by else v_primary.late_override_by end,
+      status = v_status,
+      status_reason = case
+        when v_status is distinct from v_primary.status
+          then 'Merged with duplicate record ' || coalesce(v_absorbed.confirmation_number, v_absorbed.id::text)
+        else v_primary.status_reason
+      end,
+      check_in_time = v_check_in
+  where id = p_primary_id;
+  perform set_config('fets.merging_candidates', 'off', true);
+end;
+$$;
+
@@ -0,0 +1,54 @@
+-- Kiosk exit PIN attempts are counted in the database, so reloading the kiosk or calling the RPC directly
+-- does not reset them
+
+alter table public.kiosk_settings
+  add column if not exists failed_attempts integer not null default 0,
+  add column if not exists lockouts integer not null default 0,
+  add column if not exists locked_until timestamptz;
+
+-- Returns 'ok', 'incorrect' or 'locked'. Five wrong PINs in a row lock the kiosk for a minute,
+-- doubling with each lockout up to an hour, until the right PIN is entered
+drop function if exists public.verify_kiosk_pin(text, text);
+create or replace function public.verify_kiosk_pin(p_centre_code text, p_pin text)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_settings public.kiosk_settings%rowtype;
+begin
+  select * into v_settings from public.kiosk_settings where centre_code = p_centre_code for update;
+  if not found then
+    return 'incorrect';
+  end if;
+
+  if v_settings.locked_until is not null and v_settings.locked_until > now() then
+    return 'locked';
+  end if;
+
+  if v_settings.pin_hash = crypt(coalesce(p_pin, ''), v_settings.pin_hash) then
+    update public.kiosk_settings
+    set failed_attempts = 0, lockouts = 0, locked_until = null
+    where centre_code = p_centre_code;
+    return 'ok';
+  end if;
+
+  if v_settings.failed_attempts + 1 >= 5 then
+    update public.kiosk_settings
+    set failed_attempts = 0,
+        lockouts = v_settings.lockouts + 1,
+        locked_until = now() + least(interval '1 minute' * power(2, v_settings.lockouts), interval '1 hour')
+    where centre_code = p_centre_code;
+    return 'locked';
+  end if;
+
+  update public.kiosk_settings
+  set failed_attempts = v_settings.failed_attempts + 1
+  where centre_code = p_centre_code;
+  return 'incorrect';
+end;
+$$;
+
+revoke all on function public.verify_kiosk_pin(text, text) from public;
+grant execute on function public.verify_kiosk_pin(text, text) to authenticated;
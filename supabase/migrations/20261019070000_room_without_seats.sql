@@ -0,0 +1,41 @@
+-- A room's capacity is its workstation count, so a room without workstations would reject every booking;
+-- refuse to put a session into it at all, with a message that says what to fix
+
+create or replace function public.sessions_check_room_capacity()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_room public.testing_rooms%rowtype;
+  v_taken integer;
+begin
+  if new.room_id is null then
+    return new;
+  end if;
+  if tg_op = 'UPDATE'
+     and new.room_id is not distinct from old.room_id
+     and new.date = old.date
+     and new.start_time = old.start_time
+     and new.end_time = old.end_time then
+    return new;
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext('testing_room:' || new.room_id::text));
+  select * into v_room from public.testing_rooms where id = new.room_id;
+
+  if v_room.seat_count = 0 then
+    raise exception '% has no seats set up; add its workstations in Settings before booking sessions into it', v_room.name
+      using errcode = 'check_violation';
+  end if;
+
+  v_taken := public.room_seats_taken(new.room_id, new.date, new.start_time, new.end_time, new.id);
+
+  if coalesce(new.candidate_count, 0) + v_taken > v_room.seat_count then
+    raise exception '% has % seats; % are already booked at that time and this session has %',
+      v_room.name, v_room.seat_count, v_taken, coalesce(new.candidate_count, 0)
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$;
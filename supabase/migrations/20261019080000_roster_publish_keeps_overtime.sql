@@ -0,0 +1,52 @@
+-- Publishing a roster draft updates the month's roster in place, so overtime hours on existing entries survive
+
+create or replace function public.publish_roster_draft(p_draft_id uuid)
+returns integer
+language plpgsql
+as $$
+declare
+  v_draft public.roster_drafts;
+  v_updated integer;
+  v_inserted integer;
+begin
+  if not exists (
+    select 1 from public.profiles
+    where user_id = auth.uid() and role in ('admin', 'super_admin')
+  ) then
+    raise exception 'Only administrators can publish a roster';
+  end if;
+
+  select * into v_draft from public.roster_drafts where id = p_draft_id for update;
+  if v_draft.id is null or v_draft.status <> 'draft' then
+    raise exception 'This roster draft is no longer open';
+  end if;
+
+  -- Overtime hours stay with the day for as long as the draft keeps it a working day
+  update public.roster_schedules r
+  set shift_code = s.shift_code,
+      overtime_hours = case when s.shift_code in ('D', 'HD', 'OT') then coalesce(r.overtime_hours, 0) else 0 end,
+      status = 'confirmed',
+      updated_at = now()
+  from public.roster_draft_shifts s
+  where s.draft_id = p_draft_id
+    and r.profile_id = s.profile_id
+    and r.date = s.date;
+  get diagnostics v_updated = row_count;
+
+  insert into public.roster_schedules (profile_id, date, shift_code, overtime_hours, status, created_at, updated_at)
+  select s.profile_id, s.date, s.shift_code, 0, 'confirmed', now(), now()
+  from public.roster_draft_shifts s
+  where s.draft_id = p_draft_id
+    and not exists (
+      select 1 from public.roster_schedules r
+      where r.profile_id = s.profile_id and r.date = s.date
+    );
+  get diagnostics v_inserted = row_count;
+
+  update public.roster_drafts
+  set status = 'published', published_by = auth.uid(), published_at = now()
+  where id = p_draft_id;
+
+  return v_updated + v_inserted;
+end;
+$$;
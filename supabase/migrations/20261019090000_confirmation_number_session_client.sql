@@ -0,0 +1,52 @@
+-- Number new candidates with the prefix of the client their session belongs to
+-- Triggers run in name order, so this one fires before candidates_sync_session has copied the client over
+
+create or replace function public.assign_candidate_confirmation_number()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_client_name text := new.client_name;
+begin
+  if new.confirmation_number is null or new.confirmation_number = '' then
+    if new.session_id is not null then
+      select coalesce(client_name, v_client_name) into v_client_name
+      from public.sessions
+      where id = new.session_id;
+    end if;
+    new.confirmation_number := next_confirmation_number(v_client_name, new.centre_code);
+  end if;
+  return new;
+end;
+$$;
+
+-- Book a cancelled candidate into a session of a client with its own prefix and check the number it gets;
+-- the insert and the sequence step it takes are rolled back
+do $$
+declare
+  v_session record;
+  v_number text;
+begin
+  select s.id, s.client_name, p.prefix into v_session
+  from public.sessions s
+  join public.candidate_confirmation_prefixes p on lower(p.client_name) = lower(trim(s.client_name))
+  limit 1;
+  if v_session.id is null then
+    return;
+  end if;
+
+  begin
+    insert into public.candidates (full_name, email, session_id, centre_code, status)
+    values ('Confirmation number check', 'confirmation-check@fets.invalid', v_session.id, 'KOC', 'cancelled')
+    returning confirmation_number into v_number;
+    raise exception using errcode = 'FETS1';
+  exception when sqlstate 'FETS1' then
+    null;
+  end;
+
+  if v_number not like v_session.prefix || '-%' then
+    raise exception 'A candidate booked into a % session was numbered % instead of with the % prefix',
+      v_session.client_name, v_number, v_session.prefix;
+  end if;
+end;
+$$;
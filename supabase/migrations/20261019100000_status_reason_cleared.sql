@@ -0,0 +1,26 @@
+-- A status reason belongs to one change only: once it is in the history it is cleared, so a later change made
+-- without a reason cannot pass the revert check or be recorded with the old one
+
+create or replace function public.candidates_record_status_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.candidate_status_history (candidate_id, from_status, to_status, reason, is_revert, changed_by)
+  values (
+    new.id, old.status, new.status,
+    nullif(trim(new.status_reason), ''),
+    coalesce(public.candidate_status_is_revert(old.status, new.status), false),
+    auth.uid()
+  );
+
+  if new.status_reason is not null then
+    update public.candidates set status_reason = null where id = new.id;
+  end if;
+  return new;
+end;
+$$;
+
+update public.candidates set status_reason = null where status_reason is not null;
@@ -0,0 +1,108 @@
+-- Edit a session series and its sessions in one transaction, so a failure part way leaves both as they were
+-- The client expands the rule (src/utils/sessionRecurrence.ts) and passes the dates it generates
+
+create or replace function public.update_session_series(
+  p_series_id uuid,
+  -- First date of a this-and-following edit that splits the series, null when the whole series changes
+  p_split_from date,
+  -- Rule the original series keeps up to the split, null when not splitting
+  p_before jsonb,
+  p_target jsonb,
+  p_dates date[],
+  p_fields jsonb
+)
+returns uuid
+language plpgsql
+as $$
+declare
+  v_target public.session_series%rowtype := jsonb_populate_record(null::public.session_series, p_target);
+  v_before public.session_series%rowtype := jsonb_populate_record(null::public.session_series, p_before);
+  v_fields public.sessions%rowtype := jsonb_populate_record(null::public.sessions, p_fields);
+  v_series_id uuid := p_series_id;
+  v_in_scope bigint[];
+  v_removed bigint[];
+  v_booked text;
+begin
+  perform 1 from public.session_series where id = p_series_id for update;
+  if not found then
+    raise exception 'This session series no longer exists';
+  end if;
+
+  select coalesce(array_agg(id), '{}'),
+         coalesce(array_agg(id) filter (where series_date <> all (p_dates)), '{}'),
+         string_agg(series_date::text, ', ' order by series_date) filter (where series_date <> all (p_dates) and candidate_count > 0)
+  into v_in_scope, v_removed, v_booked
+  from public.sessions
+  where series_id = p_series_id
+    and (p_split_from is null or series_date >= p_split_from);
+
+  -- Occurrences with bookings are never deleted to fit a new rule; the candidates have to be moved first
+  if v_booked is not null then
+    raise exception 'Move or cancel the candidates booked on % first', v_booked;
+  end if;
+
+  if p_split_from is not null then
+    insert into public.session_series (
+      frequency, interval_count, weekdays, month_week, month_weekday,
+      start_date, until_date, occurrence_count, exception_dates, created_by
+    )
+    values (
+      v_target.frequency, v_target.interval_count, v_target.weekdays, v_target.month_week, v_target.month_weekday,
+      v_target.start_date, v_target.until_date, v_target.occurrence_count, v_target.exception_dates, auth.uid()
+    )
+    returning id into v_series_id;
+
+    v_target := v_before;
+  end if;
+
+  update public.session_series
+  set frequency = v_target.frequency,
+      interval_count = v_target.interval_count,
+      weekdays = v_target.weekdays,
+      month_week = v_target.month_week,
+      month_weekday = v_target.month_weekday,
+      start_date = v_target.start_date,
+      until_date = v_target.until_date,
+      occurrence_count = v_target.occurrence_count,
+      exception_dates = v_target.exception_dates,
+      updated_at = now()
+  where id = p_series_id;
+
+  -- Cancelled bookings do not hold the session open
+  update public.candidates set session_id = null where session_id = any (v_removed) and status = 'cancelled';
+  delete from public.sessions where id = any (v_removed);
+
+  -- Occurrences that were moved to another date keep their date
+  update public.sessions
+  set client_id = v_fields.client_id,
+      client_name = v_fields.client_name,
+      exam_name = v_fields.exam_name,
+      start_time = v_fields.start_time,
+      end_time = v_fields.end_time,
+      room_id = v_fields.room_id,
+      required_staff = v_fields.required_staff,
+      required_skills = v_fields.required_skills,
+      series_id = v_series_id,
+      user_id = auth.uid(),
+      updated_at = now()
+  where id = any (v_in_scope) and id <> all (v_removed);
+
+  insert into public.sessions (
+    client_id, client_name, exam_name, start_time, end_time, room_id, required_staff, required_skills,
+    date, series_id, series_date, user_id, created_at, updated_at
+  )
+  select
+    v_fields.client_id, v_fields.client_name, v_fields.exam_name, v_fields.start_time, v_fields.end_time,
+    v_fields.room_id, v_fields.required_staff, v_fields.required_skills,
+    d, v_series_id, d, auth.uid(), now(), now()
+  from unnest(p_dates) as d
+  where not exists (
+    select 1 from public.sessions s where s.series_id = v_series_id and s.series_date = d
+  );
+
+  return v_series_id;
+end;
+$$;
+
+revoke all on function public.update_session_series(uuid, date, jsonb, jsonb, date[], jsonb) from public;
+grant execute on function public.update_session_series(uuid, date, jsonb, jsonb, date[], jsonb) to authenticated;
@@ -0,0 +1,89 @@
+-- A room's capacity counts its standard seats only. Accommodation seats are kept free for approved
+-- accommodations and seat allocation never hands them out, so counting them let sessions book more
+-- candidates than could be seated
+
+create or replace function public.refresh_room_seat_count(p_room_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.testing_rooms r
+  set seat_count = (
+    select count(*) from public.workstations w
+    where w.room_id = r.id and w.status = 'active' and not w.is_accommodation
+  )
+  where r.id = p_room_id;
+$$;
+
+create or replace function public.workstations_refresh_room_seat_count()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op in ('UPDATE', 'DELETE') then
+    perform public.refresh_room_seat_count(old.room_id);
+  end if;
+  if tg_op in ('INSERT', 'UPDATE') and (
+    tg_op = 'INSERT'
+    or new.room_id is distinct from old.room_id
+    or new.status is distinct from old.status
+    or new.is_accommodation is distinct from old.is_accommodation
+  ) then
+    perform public.refresh_room_seat_count(new.room_id);
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists workstations_refresh_room_seat_count on public.workstations;
+create trigger workstations_refresh_room_seat_count
+  after insert or update of room_id, status, is_accommodation or delete on public.workstations
+  for each row execute function public.workstations_refresh_room_seat_count();
+
+update public.testing_rooms r
+set seat_count = (
+  select count(*) from public.workstations w
+  where w.room_id = r.id and w.status = 'active' and not w.is_accommodation
+);
+
+create or replace function public.sessions_check_room_capacity()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_room public.testing_rooms%rowtype;
+  v_taken integer;
+begin
+  if new.room_id is null then
+    return new;
+  end if;
+  if tg_op = 'UPDATE'
+     and new.room_id is not distinct from old.room_id
+     and new.date = old.date
+     and new.start_time = old.start_time
+     and new.end_time = old.end_time then
+    return new;
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext('testing_room:' || new.room_id::text));
+  select * into v_room from public.testing_rooms where id = new.room_id;
+
+  if v_room.seat_count = 0 then
+    raise exception '% has no standard seats set up; add its workstations in Settings before booking sessions into it', v_room.name
+      using errcode = 'check_violation';
+  end if;
+
+  v_taken := public.room_seats_taken(new.room_id, new.date, new.start_time, new.end_time, new.id);
+
+  if coalesce(new.candidate_count, 0) + v_taken > v_room.seat_count then
+    raise exception '% has % seats; % are already booked at that time and this session has %',
+      v_room.name, v_room.seat_count, v_taken, coalesce(new.candidate_count, 0)
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$;